@@ -0,0 +1,12 @@
+// Tests sit next to the code they cover as *.test.ts. They never write log
+// files, and only errors reach the console.
+process.env.LOG_TO_FILE = 'false';
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
+
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  setupFilesAfterEnv: ['<rootDir>/jest.setup.js'],
+  passWithNoTests: true
+};
@@ -0,0 +1,15 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+// The database and uploads live under the working directory, so each test
+// file runs in a scratch directory of its own. Hooks inside a test file's
+// describe blocks (e.g. shutting the database down) run before this cleanup.
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bot-or-not-test-'));
+const originalDir = process.cwd();
+process.chdir(workDir);
+
+afterAll(() => {
+  process.chdir(originalDir);
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
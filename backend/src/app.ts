@@ -11,9 +11,18 @@ import imageRoutes from './routes/images';
 import pairRoutes from './routes/pairs';
 import gameRoutes from './routes/game';
 import adminRoutes from './routes/admin';
+import playerRoutes from './routes/players';
+import shareRoutes from './routes/share';
 
 // Import services
 import { DatabaseService } from './services/DatabaseService';
+import { AdminUserService } from './services/AdminUserService';
+import { LeaderboardIndex } from './services/LeaderboardIndex';
+import { DailyScheduleService } from './services/DailyScheduleService';
+import { PairCalibrationService } from './services/PairCalibrationService';
+import { GameService } from './services/GameService';
+import { requestId } from './middleware/requestContext';
+import { logger } from './utils/logger';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -22,6 +31,9 @@ const PORT = process.env.PORT || 3001;
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+// Request ids and request logging come first so every later log line has one
+app.use(requestId);
+
 // Security middleware
 app.use(helmet({
   crossOriginResourcePolicy: { policy: "cross-origin" },
@@ -48,9 +60,20 @@ const uploadLimiter = rateLimit({
   }
 });
 
+// Login/registration rate limiting (slows down password guessing)
+const authLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 20, // Limit each IP to 20 login/register/guest attempts per windowMs
+  message: {
+    success: false,
+    error: 'Too many authentication attempts, please try again later.'
+  }
+});
+
 // Apply rate limiting
 app.use('/api/', limiter);
 app.use('/api/images/upload', uploadLimiter);
+app.use(['/api/players/login', '/api/players/register', '/api/players/guest', '/api/players/upgrade', '/api/admin/auth/login'], authLimiter);
 
 // CORS configuration - FIXED FOR PRODUCTION
 app.use(cors({
@@ -58,8 +81,9 @@ app.use(cors({
     ? true  // Allow same-origin in production
     : ['http://localhost:3000', 'http://localhost:3001', 'http://localhost:5173', 'http://localhost:5174'],
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key']
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Confirm-Operation', 'X-Request-Id'],
+  exposedHeaders: ['X-Request-Id']
 }));
 
 // Handle preflight requests
@@ -78,11 +102,13 @@ app.use('/api/images', imageRoutes);
 app.use('/api/pairs', pairRoutes);
 app.use('/api/game', gameRoutes);
 app.use('/api/admin', adminRoutes);
+app.use('/api/players', playerRoutes);
+app.use('/api/share', shareRoutes);
 
 // Health check endpoint
-app.get('/api/health', (req, res) => {
+app.get('/api/health', async (req, res) => {
   const db = DatabaseService.getInstance();
-  const stats = db.getStats();
+  const stats = await db.getStats();
   
   res.json({
     success: true,
@@ -133,7 +159,7 @@ if (process.env.NODE_ENV === 'production') {
 
 // Global error handler
 app.use((error: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
-  console.error('Global error handler:', error);
+  logger.error('Unhandled request error', error);
   
   res.status(error.status || 500).json({
     success: false,
@@ -146,14 +172,14 @@ app.use((error: any, req: express.Request, res: express.Response, next: express.
 
 // Graceful shutdown
 process.on('SIGTERM', async () => {
-  console.log('SIGTERM received, shutting down gracefully...');
+  logger.info('SIGTERM received, shutting down gracefully...');
   const db = DatabaseService.getInstance();
   await db.shutdown();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
-  console.log('SIGINT received, shutting down gracefully...');
+  logger.info('SIGINT received, shutting down gracefully...');
   const db = DatabaseService.getInstance();
   await db.shutdown();
   process.exit(0);
@@ -161,18 +187,40 @@ process.on('SIGINT', async () => {
 
 // Start server
 app.listen(PORT, () => {
-  console.log(`🚀 Bot or Not API Server running on port ${PORT}`);
-  console.log(`📊 Health check: http://localhost:${PORT}/api/health`);
-  console.log(`📁 Image uploads: http://localhost:${PORT}/api/images/upload`);
-  console.log(`🖼️  Static files: http://localhost:${PORT}/uploads`);
-  console.log(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
-  
-  if (process.env.NODE_ENV === 'production') {
-    console.log(`⚛️  Serving React app from /dist`);
-  }
+  logger.info(`🚀 Bot or Not API Server running on port ${PORT}`, {
+    health: `http://localhost:${PORT}/api/health`,
+    uploads: `http://localhost:${PORT}/uploads`,
+    environment: process.env.NODE_ENV || 'development',
+    serving_frontend: process.env.NODE_ENV === 'production'
+  });
   
-  // Initialize database
-  DatabaseService.getInstance();
+  // Initialize database, then make sure an owner exists to log in with
+  DatabaseService.getInstance()
+    .ready()
+    .then(() => new AdminUserService().ensureBootstrapOwner())
+    .catch(error => logger.error('Admin bootstrap failed', error));
+
+  // Keep the next days' daily challenges scheduled
+  DatabaseService.getInstance()
+    .ready()
+    .then(() => new DailyScheduleService().startAutoGeneration())
+    .catch(error => logger.error('Daily challenge scheduler failed to start', error));
+
+  DatabaseService.getInstance()
+    .ready()
+    .then(() => new PairCalibrationService().startScheduledCalibration())
+    .catch(error => logger.error('Pair calibration scheduler failed to start', error));
+
+  // Time attack sessions end on the server clock, whether or not the player is still there
+  DatabaseService.getInstance()
+    .ready()
+    .then(() => new GameService().startExpiredSessionSweeper())
+    .catch(error => logger.error('Expired session sweeper failed to start', error));
+
+  // Build the leaderboard index now rather than on the first leaderboard request
+  LeaderboardIndex.getInstance()
+    .ready()
+    .catch(error => logger.error('Leaderboard index build failed', error));
 });
 
 export default app;
\ No newline at end of file
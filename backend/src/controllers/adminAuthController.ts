@@ -0,0 +1,211 @@
+import { Request, Response } from 'express';
+import { AdminUserService } from '../services/AdminUserService';
+import {
+  AdminLoginSchema,
+  CreateAdminUserSchema,
+  UpdateAdminUserSchema,
+  CreateAdminApiTokenSchema
+} from '../models/AdminUser';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('AdminAuthController');
+
+export class AdminAuthController {
+  private adminUserService: AdminUserService;
+
+  constructor() {
+    this.adminUserService = new AdminUserService();
+  }
+
+  // Log in to the admin panel
+  public login = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = AdminLoginSchema.parse(req.body);
+      const result = await this.adminUserService.login(data);
+
+      res.json({
+        success: true,
+        message: 'Logged in successfully',
+        data: result
+      });
+    } catch (error: any) {
+      if (error.message.includes('Invalid username or password')) {
+        res.status(401).json({
+          success: false,
+          error: error.message
+        });
+      } else {
+        logger.error('Admin login error', error);
+        res.status(500).json({
+          success: false,
+          error: 'Failed to log in'
+        });
+      }
+    }
+  };
+
+  // Get the authenticated admin and their effective permissions
+  public getCurrentAdmin = async (req: Request, res: Response): Promise<void> => {
+    res.json({
+      success: true,
+      data: req.admin
+    });
+  };
+
+  // List admin users
+  public getAdmins = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const admins = await this.adminUserService.getAdmins();
+
+      res.json({
+        success: true,
+        data: admins
+      });
+    } catch (error: any) {
+      logger.error('Get admins error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve admin users'
+      });
+    }
+  };
+
+  // Create an admin user
+  public createAdmin = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = CreateAdminUserSchema.parse(req.body);
+      const admin = await this.adminUserService.createAdmin(data);
+      res.locals.audit = { target_ids: [admin.admin_id], after: admin };
+
+      res.status(201).json({
+        success: true,
+        message: 'Admin user created successfully',
+        data: admin
+      });
+    } catch (error: any) {
+      logger.error('Create admin error', error);
+
+      if (error.message.includes('already taken')) {
+        res.status(409).json({
+          success: false,
+          error: error.message
+        });
+      } else {
+        res.status(400).json({
+          success: false,
+          error: error.message || 'Failed to create admin user'
+        });
+      }
+    }
+  };
+
+  // Change an admin's role, status or password
+  public updateAdmin = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const data = UpdateAdminUserSchema.parse(req.body);
+      const before = await this.adminUserService.getAdmin(id);
+      res.locals.audit = { target_ids: [id], before, details: { password_changed: !!data.password } };
+      const admin = await this.adminUserService.updateAdmin(id, data, req.admin!);
+      res.locals.audit.after = admin;
+
+      res.json({
+        success: true,
+        message: 'Admin user updated successfully',
+        data: admin
+      });
+    } catch (error: any) {
+      logger.error('Update admin error', error);
+
+      if (error.message.includes('not found')) {
+        res.status(404).json({
+          success: false,
+          error: error.message
+        });
+      } else {
+        res.status(400).json({
+          success: false,
+          error: error.message || 'Failed to update admin user'
+        });
+      }
+    }
+  };
+
+  // List API tokens visible to the caller
+  public getApiTokens = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const tokens = await this.adminUserService.getApiTokens(req.admin!);
+
+      res.json({
+        success: true,
+        data: tokens
+      });
+    } catch (error: any) {
+      logger.error('Get API tokens error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve API tokens'
+      });
+    }
+  };
+
+  // Create a scoped API token; the secret is only returned in this response
+  public createApiToken = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = CreateAdminApiTokenSchema.parse(req.body);
+      const result = await this.adminUserService.createApiToken(req.admin!, data);
+      res.locals.audit = { target_ids: [result.api_token.token_id], after: result.api_token };
+
+      res.status(201).json({
+        success: true,
+        message: 'API token created. Store it now; it cannot be shown again.',
+        data: result
+      });
+    } catch (error: any) {
+      logger.error('Create API token error', error);
+
+      if (error.message.includes('Cannot grant')) {
+        res.status(403).json({
+          success: false,
+          error: error.message
+        });
+      } else {
+        res.status(400).json({
+          success: false,
+          error: error.message || 'Failed to create API token'
+        });
+      }
+    }
+  };
+
+  // Revoke an API token
+  public revokeApiToken = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const token = await this.adminUserService.revokeApiToken(id, req.admin!);
+      res.locals.audit = { target_ids: [id], after: token };
+
+      res.json({
+        success: true,
+        message: 'API token revoked',
+        data: token
+      });
+    } catch (error: any) {
+      logger.error('Revoke API token error', error);
+
+      if (error.message.includes('not found')) {
+        res.status(404).json({
+          success: false,
+          error: error.message
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to revoke API token'
+        });
+      }
+    }
+  };
+}
+
+export default AdminAuthController;
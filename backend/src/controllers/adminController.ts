@@ -1,12 +1,18 @@
 import { Request, Response } from 'express';
 import { AdminService } from '../services/AdminService';
-import { CreateImageSchema } from '../models/Image';
+import { AuditLogService } from '../services/AuditLogService';
+import { AuditLogQuerySchema } from '../models/AuditLog';
+import { createLogger, readLogEntries, LogLevel } from '../utils/logger';
+
+const logger = createLogger('AdminController');
 
 export class AdminController {
   private adminService: AdminService;
+  private auditLogService: AuditLogService;
 
   constructor() {
     this.adminService = new AdminService();
+    this.auditLogService = new AuditLogService();
   }
 
   // Get dashboard statistics
@@ -20,7 +26,7 @@ export class AdminController {
         timestamp: new Date().toISOString()
       });
     } catch (error: any) {
-      console.error('Get dashboard error:', error);
+      logger.error('Get dashboard error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to retrieve dashboard statistics'
@@ -50,6 +56,10 @@ export class AdminController {
       };
 
       const result = await this.adminService.bulkUploadImages(req.files, defaultMetadata);
+      res.locals.audit = {
+        target_ids: result.uploadedImages.map(img => img.id),
+        details: { successful: result.successful, failed: result.failed, metadata: defaultMetadata }
+      };
 
       const statusCode = result.failed > 0 ? 207 : 201; // 207 Multi-Status if some failed
 
@@ -72,7 +82,7 @@ export class AdminController {
         }
       });
     } catch (error: any) {
-      console.error('Bulk upload error:', error);
+      logger.error('Bulk upload error', error);
       res.status(500).json({
         success: false,
         error: 'Bulk upload failed: ' + error.message
@@ -85,6 +95,7 @@ export class AdminController {
     try {
       const category = req.body.category as string | undefined;
       const result = await this.adminService.createAutoPairs(category);
+      res.locals.audit = { details: { category, created: result.created, errors: result.errors.length } };
 
       res.json({
         success: true,
@@ -95,7 +106,7 @@ export class AdminController {
         }
       });
     } catch (error: any) {
-      console.error('Create auto pairs error:', error);
+      logger.error('Create auto pairs error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to create automatic pairs: ' + error.message
@@ -108,6 +119,7 @@ export class AdminController {
     try {
       const format = (req.query.format as 'json' | 'sql') || 'json';
       const filename = await this.adminService.exportData(format);
+      res.locals.audit = { details: { filename, format } };
 
       res.json({
         success: true,
@@ -119,7 +131,7 @@ export class AdminController {
         }
       });
     } catch (error: any) {
-      console.error('Export data error:', error);
+      logger.error('Export data error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to export data: ' + error.message
@@ -141,6 +153,9 @@ export class AdminController {
       // Save uploaded file temporarily
       const tempPath = req.file.path;
       const result = await this.adminService.importData(tempPath);
+      res.locals.audit = {
+        details: { filename: req.file.originalname, imported: result.imported, errors: result.errors.length }
+      };
 
       res.json({
         success: true,
@@ -151,7 +166,7 @@ export class AdminController {
         }
       });
     } catch (error: any) {
-      console.error('Import data error:', error);
+      logger.error('Import data error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to import data: ' + error.message
@@ -163,6 +178,7 @@ export class AdminController {
   public cleanupImages = async (req: Request, res: Response): Promise<void> => {
     try {
       const result = await this.adminService.cleanupUnusedImages();
+      res.locals.audit = { details: { deleted: result.deleted, freedSpace: result.freedSpace } };
 
       res.json({
         success: true,
@@ -175,7 +191,7 @@ export class AdminController {
         }
       });
     } catch (error: any) {
-      console.error('Cleanup images error:', error);
+      logger.error('Cleanup images error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to cleanup images: ' + error.message
@@ -187,6 +203,7 @@ export class AdminController {
   public createBackup = async (req: Request, res: Response): Promise<void> => {
     try {
       const filename = await this.adminService.createBackup();
+      res.locals.audit = { details: { filename } };
 
       res.json({
         success: true,
@@ -197,7 +214,7 @@ export class AdminController {
         }
       });
     } catch (error: any) {
-      console.error('Create backup error:', error);
+      logger.error('Create backup error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to create backup: ' + error.message
@@ -219,7 +236,7 @@ export class AdminController {
         timestamp: new Date().toISOString()
       });
     } catch (error: any) {
-      console.error('System health check error:', error);
+      logger.error('System health check error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to check system health: ' + error.message
@@ -230,37 +247,22 @@ export class AdminController {
   // Get system logs (simplified)
   public getSystemLogs = async (req: Request, res: Response): Promise<void> => {
     try {
-      const limit = parseInt(req.query.limit as string) || 100;
-      const level = req.query.level as string || 'all';
-
-      // This is a simplified implementation
-      // In a real system, you'd read from actual log files
-      const logs = [
-        {
-          timestamp: new Date().toISOString(),
-          level: 'info',
-          message: 'System health check completed',
-          module: 'admin'
-        },
-        {
-          timestamp: new Date(Date.now() - 60000).toISOString(),
-          level: 'info',
-          message: 'Auto-save completed successfully',
-          module: 'database'
-        }
-      ];
+      const limit = Number(req.query.limit) || 100;
+      const level = (req.query.level as LogLevel | 'all') || 'all';
+
+      const logs = await readLogEntries({ level, limit });
 
       res.json({
         success: true,
         data: {
-          logs: logs.slice(0, limit),
+          logs,
           total: logs.length,
           level,
           limit
         }
       });
     } catch (error: any) {
-      console.error('Get system logs error:', error);
+      logger.error('Get system logs error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to retrieve system logs'
@@ -268,6 +270,25 @@ export class AdminController {
     }
   };
 
+  // Query the audit log of admin operations
+  public getAuditLogs = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const query = AuditLogQuerySchema.parse(req.query);
+      const result = await this.auditLogService.query(query);
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error: any) {
+      logger.error('Get audit logs error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve audit logs'
+      });
+    }
+  };
+
   // Reset system data (dangerous operation)
   public resetSystem = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -288,7 +309,7 @@ export class AdminController {
         error: 'System reset not implemented for safety reasons'
       });
     } catch (error: any) {
-      console.error('Reset system error:', error);
+      logger.error('Reset system error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to reset system'
@@ -313,7 +334,7 @@ export class AdminController {
         data: metrics
       });
     } catch (error: any) {
-      console.error('Get performance metrics error:', error);
+      logger.error('Get performance metrics error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to retrieve performance metrics'
@@ -325,6 +346,7 @@ export class AdminController {
   public updateSettings = async (req: Request, res: Response): Promise<void> => {
     try {
       const settings = req.body;
+      res.locals.audit = { after: settings };
 
       // This is a placeholder - implement actual settings management
       res.json({
@@ -333,7 +355,7 @@ export class AdminController {
         data: settings
       });
     } catch (error: any) {
-      console.error('Update settings error:', error);
+      logger.error('Update settings error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to update settings'
@@ -358,7 +380,7 @@ export class AdminController {
         data: settings
       });
     } catch (error: any) {
-      console.error('Get settings error:', error);
+      logger.error('Get settings error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to retrieve settings'
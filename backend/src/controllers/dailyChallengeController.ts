@@ -1,12 +1,24 @@
 import { Request, Response } from 'express';
 import { DailyChallengeService } from '../services/DailyChallengeService';
-import { CreateDailyChallengeSchema } from '../models/DailyChallenge';
+import { DailyScheduleService } from '../services/DailyScheduleService';
+import {
+  CreateDailyChallengeSchema,
+  UpdateDailyChallengeSchema,
+  ScheduleDailyChallengesSchema,
+  GenerateDailyChallengesSchema,
+  DailyCalendarQuerySchema
+} from '../models/DailyChallenge';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('DailyChallengeController');
 
 export class DailyChallengeController {
   private dailyChallengeService: DailyChallengeService;
+  private dailyScheduleService: DailyScheduleService;
 
   constructor() {
     this.dailyChallengeService = new DailyChallengeService();
+    this.dailyScheduleService = new DailyScheduleService();
   }
 
   // Create a new daily challenge
@@ -14,6 +26,7 @@ export class DailyChallengeController {
     try {
       const challengeData = CreateDailyChallengeSchema.parse(req.body);
       const challenge = await this.dailyChallengeService.createDailyChallenge(challengeData);
+      res.locals.audit = { target_ids: [challenge.id], after: challenge };
 
       res.status(201).json({
         success: true,
@@ -21,7 +34,7 @@ export class DailyChallengeController {
         data: challenge
       });
     } catch (error: any) {
-      console.error('Create daily challenge error:', error);
+      logger.error('Create daily challenge error', error);
       res.status(400).json({
         success: false,
         error: error.message || 'Failed to create daily challenge'
@@ -29,6 +42,75 @@ export class DailyChallengeController {
     }
   };
 
+  // Create challenges for a date range from templates, skipping dates that have one
+  public scheduleDailyChallenges = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { start_date, end_date, templates } = ScheduleDailyChallengesSchema.parse(req.body);
+      const result = await this.dailyScheduleService.scheduleDailyChallenges(start_date, end_date, templates);
+      res.locals.audit = {
+        target_ids: result.created.map(challenge => challenge.id),
+        after: result.created,
+        details: { start_date, end_date, skipped_dates: result.skipped_dates }
+      };
+
+      res.status(201).json({
+        success: true,
+        message: `Scheduled ${result.created.length} daily challenges`,
+        data: result
+      });
+    } catch (error: any) {
+      logger.error('Schedule daily challenges error', error);
+      res.status(400).json({
+        success: false,
+        error: error.message || 'Failed to schedule daily challenges'
+      });
+    }
+  };
+
+  // Fill the gaps in the coming days with generated challenges
+  public generateDailyChallenges = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { start_date, days } = GenerateDailyChallengesSchema.parse(req.body);
+      const result = await this.dailyScheduleService.generateDailyChallenges(days, start_date);
+      res.locals.audit = {
+        target_ids: result.created.map(challenge => challenge.id),
+        after: result.created,
+        details: { start_date, days, skipped_dates: result.skipped_dates }
+      };
+
+      res.status(201).json({
+        success: true,
+        message: `Generated ${result.created.length} daily challenges`,
+        data: result
+      });
+    } catch (error: any) {
+      logger.error('Generate daily challenges error', error);
+      res.status(400).json({
+        success: false,
+        error: error.message || 'Failed to generate daily challenges'
+      });
+    }
+  };
+
+  // Challenges, frozen pair sets and pair shortage warnings per day
+  public getCalendar = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { start_date, end_date } = DailyCalendarQuerySchema.parse(req.query);
+      const calendar = await this.dailyScheduleService.getCalendar(start_date, end_date);
+
+      res.json({
+        success: true,
+        data: calendar
+      });
+    } catch (error: any) {
+      logger.error('Get daily calendar error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve daily challenge calendar'
+      });
+    }
+  };
+
   // Get today's challenge
   public getTodaysChallenge = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -47,7 +129,7 @@ export class DailyChallengeController {
         data: challenge
       });
     } catch (error: any) {
-      console.error('Get today\'s challenge error:', error);
+      logger.error('Get today\'s challenge error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to retrieve today\'s challenge'
@@ -74,7 +156,7 @@ export class DailyChallengeController {
         data: challenge
       });
     } catch (error: any) {
-      console.error('Get challenge by date error:', error);
+      logger.error('Get challenge by date error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to retrieve daily challenge'
@@ -92,7 +174,7 @@ export class DailyChallengeController {
         data: challenges
       });
     } catch (error: any) {
-      console.error('Get all challenges error:', error);
+      logger.error('Get all challenges error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to retrieve daily challenges'
@@ -104,9 +186,11 @@ export class DailyChallengeController {
   public updateDailyChallenge = async (req: Request, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
-      const updates = req.body;
+      const updates = UpdateDailyChallengeSchema.parse(req.body);
 
+      const before = await this.dailyChallengeService.getDailyChallengeById(id);
       const updatedChallenge = await this.dailyChallengeService.updateDailyChallenge(id, updates);
+      res.locals.audit = { target_ids: [id], before, after: updatedChallenge };
 
       if (!updatedChallenge) {
         res.status(404).json({
@@ -122,11 +206,24 @@ export class DailyChallengeController {
         data: updatedChallenge
       });
     } catch (error: any) {
-      console.error('Update daily challenge error:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Failed to update daily challenge'
-      });
+      logger.error('Update daily challenge error', error);
+
+      if (error.message.includes('already frozen') || error.message.includes('already exists')) {
+        res.status(409).json({
+          success: false,
+          error: error.message
+        });
+      } else if (error.name === 'ZodError' || error.message.includes('not found')) {
+        res.status(400).json({
+          success: false,
+          error: error.message
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to update daily challenge'
+        });
+      }
     }
   };
 
@@ -134,6 +231,8 @@ export class DailyChallengeController {
   public deleteDailyChallenge = async (req: Request, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
+      const before = await this.dailyChallengeService.getDailyChallengeById(id);
+      res.locals.audit = { target_ids: [id], before };
       const deleted = await this.dailyChallengeService.deleteDailyChallenge(id);
 
       if (!deleted) {
@@ -149,7 +248,7 @@ export class DailyChallengeController {
         message: 'Daily challenge deleted successfully'
       });
     } catch (error: any) {
-      console.error('Delete daily challenge error:', error);
+      logger.error('Delete daily challenge error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to delete daily challenge'
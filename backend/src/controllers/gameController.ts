@@ -1,19 +1,28 @@
 import { Request, Response } from 'express';
 import { GameService } from '../services/GameService';
-import { CreateGameSessionSchema, CreateGameRoundSchema } from '../models/GameSession';
+import { LeaderboardService } from '../services/LeaderboardService';
+import { CreateGameSessionSchema, CreateGameRoundSchema, ImagePosition } from '../models/GameSession';
+import { LeaderboardQuerySchema } from '../models/Leaderboard';
+import { SCORING_RULE_SETS, CURRENT_SCORING_VERSIONS } from '../utils/scoringEngine';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('GameController');
 
 export class GameController {
   private gameService: GameService;
+  private leaderboardService: LeaderboardService;
 
   constructor() {
     this.gameService = new GameService();
+    this.leaderboardService = new LeaderboardService();
   }
 
   // Start new game session
   public startGame = async (req: Request, res: Response): Promise<void> => {
     try {
       const data = CreateGameSessionSchema.parse(req.body);
-      const session = await this.gameService.startGameSession(data);
+      const session = await this.gameService.startGameSession(data, req.player!.player_id);
+      const dailyChallenge = await this.gameService.getSessionChallenge(session);
 
       res.status(201).json({
         success: true,
@@ -22,11 +31,12 @@ export class GameController {
           session_id: session.session_id,
           game_mode: session.game_mode,
           start_time: session.start_time,
-          player_id: session.player_id
+          player_id: session.player_id,
+          ...(session.game_mode === 'daily' && { daily_challenge: dailyChallenge })
         }
       });
     } catch (error: any) {
-      console.error('Start game error:', error);
+      logger.error('Start game error', error);
       
       if (error.message.includes('already completed')) {
         res.status(409).json({
@@ -46,26 +56,29 @@ export class GameController {
   public getGameSession = async (req: Request, res: Response): Promise<void> => {
     try {
       const { sessionId } = req.params;
-      const session = await this.gameService.getGameSession(sessionId);
+      const session = await this.gameService.getPlayerSession(sessionId, req.player!.player_id);
 
-      if (!session) {
-        res.status(404).json({
-          success: false,
-          error: 'Game session not found'
-        });
-        return;
-      }
+      // Never expose the active round: it holds the AI image position
+      const { active_round, ...publicSession } = session;
 
       res.json({
         success: true,
-        data: session
+        data: publicSession
       });
     } catch (error: any) {
-      console.error('Get game session error:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Failed to retrieve game session'
-      });
+      logger.error('Get game session error', error);
+
+      if (error.message.includes('not found')) {
+        res.status(404).json({
+          success: false,
+          error: error.message
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to retrieve game session'
+        });
+      }
     }
   };
 
@@ -73,6 +86,7 @@ export class GameController {
   public getNextPair = async (req: Request, res: Response): Promise<void> => {
     try {
       const { sessionId } = req.params;
+      await this.gameService.getPlayerSession(sessionId, req.player!.player_id);
       const nextPair = await this.gameService.getNextPairForGame(sessionId);
 
       res.json({
@@ -80,7 +94,7 @@ export class GameController {
         data: nextPair
       });
     } catch (error: any) {
-      console.error('Get next pair error:', error);
+      logger.error('Get next pair error', error);
       
       if (error.message.includes('not found') || error.message.includes('completed')) {
         res.status(404).json({
@@ -105,6 +119,7 @@ export class GameController {
   public submitChoice = async (req: Request, res: Response): Promise<void> => {
     try {
       const { sessionId } = req.params;
+      await this.gameService.getPlayerSession(sessionId, req.player!.player_id);
       const roundData = CreateGameRoundSchema.parse({
         ...req.body,
         session_id: sessionId
@@ -118,9 +133,17 @@ export class GameController {
           round_id: result.round.round_id,
           is_correct: result.isCorrect,
           points_earned: result.pointsEarned,
-          correct_answer: result.round.correct_answer,
-          player_choice: result.round.player_choice,
-          response_time: result.round.response_time
+          score_breakdown: result.round.score_breakdown,
+          ai_position: result.round.ai_position,
+          player_choice: result.round.player_position,
+          credit: result.round.credit,
+          selected_indexes: result.round.selected_indexes,
+          correct_indexes: result.round.correct_indexes,
+          correct_answer: result.round.image_id ? result.round.correct_answer : undefined,
+          confidence: result.round.confidence,
+          response_time: result.round.response_time,
+          timed_out: result.round.timed_out,
+          explanation: result.explanation
         }
       };
 
@@ -135,13 +158,18 @@ export class GameController {
 
       res.json(response);
     } catch (error: any) {
-      console.error('Submit choice error:', error);
+      logger.error('Submit choice error', error);
       
       if (error.message.includes('not found') || error.message.includes('completed')) {
         res.status(404).json({
           success: false,
           error: error.message
         });
+      } else if (error.message.includes('Round token')) {
+        res.status(409).json({
+          success: false,
+          error: error.message
+        });
       } else {
         res.status(400).json({
           success: false,
@@ -151,10 +179,45 @@ export class GameController {
     }
   };
 
+  // Serve a round image by position, without revealing its id or label
+  public getRoundImage = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { sessionId, roundToken, position } = req.params;
+      // Image set rounds address their images by index
+      const file = await this.gameService.getRoundImageFile(
+        sessionId,
+        roundToken,
+        /^\d$/.test(position) ? Number(position) : position as ImagePosition
+      );
+
+      if (!file) {
+        res.status(404).json({
+          success: false,
+          error: 'Round image not found'
+        });
+        return;
+      }
+
+      // No ETag or Last-Modified: both stay the same for an image across
+      // rounds, so once an answer is revealed they would identify the image
+      // (and its answer) whenever it came up again
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Cache-Control', 'private, max-age=3600');
+      res.sendFile(file.filePath, { etag: false, lastModified: false });
+    } catch (error: any) {
+      logger.error('Get round image error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve round image'
+      });
+    }
+  };
+
   // End game session manually
   public endGame = async (req: Request, res: Response): Promise<void> => {
     try {
       const { sessionId } = req.params;
+      await this.gameService.getPlayerSession(sessionId, req.player!.player_id);
       const gameResult = await this.gameService.endGameSession(sessionId);
 
       res.json({
@@ -163,7 +226,7 @@ export class GameController {
         data: gameResult
       });
     } catch (error: any) {
-      console.error('End game error:', error);
+      logger.error('End game error', error);
       
       if (error.message.includes('not found')) {
         res.status(404).json({
@@ -190,7 +253,7 @@ export class GameController {
         data: stats
       });
     } catch (error: any) {
-      console.error('Get player stats error:', error);
+      logger.error('Get player stats error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to retrieve player statistics'
@@ -198,25 +261,18 @@ export class GameController {
     }
   };
 
-  // Get leaderboard
+  // Get leaderboard; includes the caller's own rank when logged in
   public getLeaderboard = async (req: Request, res: Response): Promise<void> => {
     try {
-      const gameMode = req.query.mode as 'daily' | 'streak' | undefined;
-      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 10;
-
-      const leaderboard = await this.gameService.getLeaderboard(gameMode, limit);
+      const query = LeaderboardQuerySchema.parse(req.query);
+      const leaderboard = await this.leaderboardService.getLeaderboard(query, req.player?.player_id);
 
       res.json({
         success: true,
-        data: leaderboard,
-        meta: {
-          game_mode: gameMode || 'all',
-          limit,
-          total_players: leaderboard.length
-        }
+        data: leaderboard
       });
     } catch (error: any) {
-      console.error('Get leaderboard error:', error);
+      logger.error('Get leaderboard error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to retrieve leaderboard'
@@ -224,29 +280,33 @@ export class GameController {
     }
   };
 
-  // Check if daily challenge is available
-  public checkDailyChallenge = async (req: Request, res: Response): Promise<void> => {
+  // Whether the calling player can still play their current daily
+  public getDailyStatus = async (req: Request, res: Response): Promise<void> => {
     try {
-      const { playerId } = req.params;
-      
-      // This is a simplified check - in a real implementation, you'd check the database
-      const today = new Date().toISOString().split('T')[0];
-      
+      const status = await this.gameService.getDailyStatus(req.player!.player_id);
+
       res.json({
         success: true,
-        data: {
-          available: true, // Simplified - always available for now
-          date: today,
-          player_id: playerId
-        }
+        data: status
       });
     } catch (error: any) {
-      console.error('Check daily challenge error:', error);
+      logger.error('Get daily status error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to check daily challenge availability'
       });
     }
   };
+
+  // Every scoring rule set, so scores from any version can be explained
+  public getScoringRules = async (req: Request, res: Response): Promise<void> => {
+    res.json({
+      success: true,
+      data: {
+        current: CURRENT_SCORING_VERSIONS,
+        rule_sets: Object.values(SCORING_RULE_SETS)
+      }
+    });
+  };
 }
 export default GameController;
\ No newline at end of file
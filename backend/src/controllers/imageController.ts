@@ -1,6 +1,9 @@
 import { Request, Response } from 'express';
 import { ImageService } from '../services/ImageService';
 import { CreateImageSchema } from '../models/Image';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('ImageController');
 
 export class ImageController {
   private imageService: ImageService;
@@ -28,6 +31,7 @@ export class ImageController {
 
       // Process and save image
       const image = await this.imageService.processAndSaveImage(req.file, metadata);
+      res.locals.audit = { target_ids: [image.id], after: image };
 
       res.status(201).json({
         success: true,
@@ -44,7 +48,7 @@ export class ImageController {
         }
       });
     } catch (error: any) {
-      console.error('Upload error:', error);
+      logger.error('Upload error', error);
       res.status(400).json({
         success: false,
         error: error.message || 'Failed to upload image'
@@ -76,7 +80,7 @@ export class ImageController {
         }
       });
     } catch (error: any) {
-      console.error('Get images error:', error);
+      logger.error('Get images error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to retrieve images'
@@ -103,7 +107,7 @@ export class ImageController {
         data: image
       });
     } catch (error: any) {
-      console.error('Get image error:', error);
+      logger.error('Get image error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to retrieve image'
@@ -126,14 +130,14 @@ export class ImageController {
       }
 
       // Set appropriate headers
-      res.setHeader('Content-Type', 'image/jpeg');
-      res.setHeader('Cache-Control', 'public, max-age=31536000'); // Cache for 1 year
+      res.setHeader('Content-Type', result.contentType);
+      res.setHeader('Cache-Control', 'private, max-age=31536000'); // Admin only; cache for 1 year
       res.setHeader('Content-Disposition', `inline; filename="${result.image.filename}"`);
 
       // Send file
       res.sendFile(result.filePath);
     } catch (error: any) {
-      console.error('Get image file error:', error);
+      logger.error('Get image file error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to retrieve image file'
@@ -147,7 +151,9 @@ export class ImageController {
       const { id } = req.params;
       const updates = req.body;
 
+      const before = await this.imageService.getImageById(id);
       const updatedImage = await this.imageService.updateImage(id, updates);
+      res.locals.audit = { target_ids: [id], before, after: updatedImage };
 
       if (!updatedImage) {
         res.status(404).json({
@@ -163,7 +169,7 @@ export class ImageController {
         data: updatedImage
       });
     } catch (error: any) {
-      console.error('Update image error:', error);
+      logger.error('Update image error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to update image'
@@ -175,6 +181,8 @@ export class ImageController {
   public deleteImage = async (req: Request, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
+      const before = await this.imageService.getImageById(id);
+      res.locals.audit = { target_ids: [id], before };
       const deleted = await this.imageService.deleteImage(id);
 
       if (!deleted) {
@@ -190,7 +198,7 @@ export class ImageController {
         message: 'Image deleted successfully'
       });
     } catch (error: any) {
-      console.error('Delete image error:', error);
+      logger.error('Delete image error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to delete image'
@@ -208,7 +216,7 @@ export class ImageController {
         data: stats
       });
     } catch (error: any) {
-      console.error('Get image stats error:', error);
+      logger.error('Get image stats error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to retrieve image statistics'
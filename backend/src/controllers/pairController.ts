@@ -1,12 +1,19 @@
 import { Request, Response } from 'express';
 import { ImagePairService } from '../services/ImagePairService';
-import { CreateImagePairSchema } from '../models/ImagePair';
+import { PairCalibrationService } from '../services/PairCalibrationService';
+import { CreateImagePairSchema, ReviewPairCalibrationSchema } from '../models/ImagePair';
+import { CreateImageSetSchema } from '../models/ImageSet';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('PairController');
 
 export class PairController {
   private pairService: ImagePairService;
+  private calibrationService: PairCalibrationService;
 
   constructor() {
     this.pairService = new ImagePairService();
+    this.calibrationService = new PairCalibrationService();
   }
 
   // Create new image pair
@@ -14,6 +21,7 @@ export class PairController {
     try {
       const data = CreateImagePairSchema.parse(req.body);
       const pair = await this.pairService.createImagePair(data);
+      res.locals.audit = { target_ids: [pair.pair_id], after: pair };
 
       res.status(201).json({
         success: true,
@@ -21,7 +29,7 @@ export class PairController {
         data: pair
       });
     } catch (error: any) {
-      console.error('Create pair error:', error);
+      logger.error('Create pair error', error);
       res.status(400).json({
         success: false,
         error: error.message || 'Failed to create image pair'
@@ -53,7 +61,7 @@ export class PairController {
         }
       });
     } catch (error: any) {
-      console.error('Get pairs error:', error);
+      logger.error('Get pairs error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to retrieve image pairs'
@@ -80,7 +88,7 @@ export class PairController {
         data: pair
       });
     } catch (error: any) {
-      console.error('Get pair error:', error);
+      logger.error('Get pair error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to retrieve image pair'
@@ -107,7 +115,7 @@ export class PairController {
         data: pair
       });
     } catch (error: any) {
-      console.error('Get pair with images error:', error);
+      logger.error('Get pair with images error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to retrieve image pair with images'
@@ -119,7 +127,9 @@ export class PairController {
   public togglePairActive = async (req: Request, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
+      const before = await this.pairService.getImagePairById(id);
       const updatedPair = await this.pairService.togglePairActive(id);
+      res.locals.audit = { target_ids: [id], before, after: updatedPair };
 
       if (!updatedPair) {
         res.status(404).json({
@@ -135,7 +145,7 @@ export class PairController {
         data: updatedPair
       });
     } catch (error: any) {
-      console.error('Toggle pair active error:', error);
+      logger.error('Toggle pair active error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to toggle pair status'
@@ -147,6 +157,8 @@ export class PairController {
   public deletePair = async (req: Request, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
+      const before = await this.pairService.getImagePairById(id);
+      res.locals.audit = { target_ids: [id], before };
       const deleted = await this.pairService.deletePair(id);
 
       if (!deleted) {
@@ -162,7 +174,7 @@ export class PairController {
         message: 'Image pair deleted successfully'
       });
     } catch (error: any) {
-      console.error('Delete pair error:', error);
+      logger.error('Delete pair error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to delete image pair'
@@ -170,6 +182,203 @@ export class PairController {
     }
   };
 
+  // Create a "Spot the Bot" image set
+  public createSet = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = CreateImageSetSchema.parse(req.body);
+      const set = await this.pairService.createImageSet(data);
+      res.locals.audit = { target_ids: [set.set_id], after: set };
+
+      res.status(201).json({
+        success: true,
+        message: 'Image set created successfully',
+        data: set
+      });
+    } catch (error: any) {
+      logger.error('Create image set error', error);
+      res.status(error.message?.includes('already exists') ? 409 : 400).json({
+        success: false,
+        error: error.message || 'Failed to create image set'
+      });
+    }
+  };
+
+  public getSets = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const sets = await this.pairService.getAllImageSets({
+        category: req.query.category as string,
+        is_active: req.query.is_active ? req.query.is_active === 'true' : undefined
+      });
+
+      res.json({
+        success: true,
+        data: sets
+      });
+    } catch (error: any) {
+      logger.error('Get image sets error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve image sets'
+      });
+    }
+  };
+
+  public getSetById = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const set = await this.pairService.getImageSetById(req.params.id);
+
+      if (!set) {
+        res.status(404).json({
+          success: false,
+          error: 'Image set not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: set
+      });
+    } catch (error: any) {
+      logger.error('Get image set error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve image set'
+      });
+    }
+  };
+
+  public toggleSetActive = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const before = await this.pairService.getImageSetById(id);
+      const updatedSet = await this.pairService.toggleSetActive(id);
+      res.locals.audit = { target_ids: [id], before, after: updatedSet };
+
+      if (!updatedSet) {
+        res.status(404).json({
+          success: false,
+          error: 'Image set not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: `Image set ${updatedSet.is_active ? 'activated' : 'deactivated'} successfully`,
+        data: updatedSet
+      });
+    } catch (error: any) {
+      logger.error('Toggle image set active error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to toggle image set status'
+      });
+    }
+  };
+
+  public deleteSet = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const before = await this.pairService.getImageSetById(id);
+      res.locals.audit = { target_ids: [id], before };
+      const deleted = await this.pairService.deleteSet(id);
+
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          error: 'Image set not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Image set deleted successfully'
+      });
+    } catch (error: any) {
+      logger.error('Delete image set error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete image set'
+      });
+    }
+  };
+
+  // Re-estimate pair difficulty from round history
+  public calibratePairs = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const run = await this.calibrationService.calibrate();
+      res.locals.audit = { details: { ...run } };
+
+      res.json({
+        success: true,
+        message: `Calibrated ${run.calibrated} pairs`,
+        data: run
+      });
+    } catch (error: any) {
+      logger.error('Calibrate pairs error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to calibrate pairs'
+      });
+    }
+  };
+
+  // Calibration coverage and the pairs flagged for review
+  public getCalibrationReport = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const report = await this.calibrationService.getReport();
+
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error: any) {
+      logger.error('Get calibration report error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve calibration report'
+      });
+    }
+  };
+
+  // Accept or dismiss a flagged calibration
+  public reviewCalibration = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const data = ReviewPairCalibrationSchema.parse(req.body);
+      const before = await this.pairService.getImagePairById(id);
+      const pair = await this.calibrationService.reviewCalibration(id, data);
+      res.locals.audit = { target_ids: [id], before, after: pair, details: { action: data.action } };
+
+      res.json({
+        success: true,
+        message: data.action === 'accept' ? 'Calibrated difficulty accepted' : 'Calibration flag dismissed',
+        data: pair
+      });
+    } catch (error: any) {
+      logger.error('Review calibration error', error);
+
+      if (error.message.includes('not found')) {
+        res.status(404).json({
+          success: false,
+          error: error.message
+        });
+      } else if (error.name === 'ZodError' || error.message.includes('not been calibrated')) {
+        res.status(400).json({
+          success: false,
+          error: error.message
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to review calibration'
+        });
+      }
+    }
+  };
+
   // Get pair statistics
   public getPairStats = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -180,7 +389,7 @@ export class PairController {
         data: stats
       });
     } catch (error: any) {
-      console.error('Get pair stats error:', error);
+      logger.error('Get pair stats error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to retrieve pair statistics'
@@ -202,7 +411,7 @@ export class PairController {
         message: `Found ${pairs.length} recommended pairs`
       });
     } catch (error: any) {
-      console.error('Get recommended pairs error:', error);
+      logger.error('Get recommended pairs error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to get recommended pairs'
@@ -238,7 +447,7 @@ export class PairController {
         data: pairWithImages
       });
     } catch (error: any) {
-      console.error('Select pair for game error:', error);
+      logger.error('Select pair for game error', error);
       res.status(500).json({
         success: false,
         error: 'Failed to select pair for game'
@@ -0,0 +1,153 @@
+import { Request, Response } from 'express';
+import { PlayerService } from '../services/PlayerService';
+import { RegisterPlayerSchema, LoginPlayerSchema, UpgradePlayerSchema, UpdatePlayerSettingsSchema } from '../models/Player';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('PlayerController');
+
+export class PlayerController {
+  private playerService: PlayerService;
+
+  constructor() {
+    this.playerService = new PlayerService();
+  }
+
+  // Register a new player account
+  public register = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = RegisterPlayerSchema.parse(req.body);
+      const result = await this.playerService.register(data);
+
+      res.status(201).json({
+        success: true,
+        message: 'Player registered successfully',
+        data: result
+      });
+    } catch (error: any) {
+      logger.error('Register player error', error);
+
+      if (error.message.includes('already taken')) {
+        res.status(409).json({
+          success: false,
+          error: error.message
+        });
+      } else {
+        res.status(400).json({
+          success: false,
+          error: error.message || 'Failed to register player'
+        });
+      }
+    }
+  };
+
+  // Log in and receive a signed session token
+  public login = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = LoginPlayerSchema.parse(req.body);
+      const result = await this.playerService.login(data);
+
+      res.json({
+        success: true,
+        message: 'Logged in successfully',
+        data: result
+      });
+    } catch (error: any) {
+      if (error.message.includes('Invalid username or password')) {
+        res.status(401).json({
+          success: false,
+          error: error.message
+        });
+      } else {
+        logger.error('Login error', error);
+        res.status(500).json({
+          success: false,
+          error: 'Failed to log in'
+        });
+      }
+    }
+  };
+
+  // Create an anonymous guest identity
+  public createGuest = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const result = await this.playerService.createGuest();
+
+      res.status(201).json({
+        success: true,
+        message: 'Guest player created successfully',
+        data: result
+      });
+    } catch (error: any) {
+      logger.error('Create guest error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create guest player'
+      });
+    }
+  };
+
+  // Turn the authenticated guest into a named account, keeping its history
+  public upgradeGuest = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = UpgradePlayerSchema.parse(req.body);
+      const result = await this.playerService.upgradeGuest(req.player!.player_id, data);
+
+      res.json({
+        success: true,
+        message: data.existing_account
+          ? 'Guest progress merged into account'
+          : 'Guest upgraded to account',
+        data: result
+      });
+    } catch (error: any) {
+      logger.error('Upgrade guest error', error);
+
+      if (error.message.includes('Invalid username or password')) {
+        res.status(401).json({
+          success: false,
+          error: error.message
+        });
+      } else if (error.message.includes('already taken')) {
+        res.status(409).json({
+          success: false,
+          error: error.message
+        });
+      } else {
+        res.status(400).json({
+          success: false,
+          error: error.message || 'Failed to upgrade guest player'
+        });
+      }
+    }
+  };
+
+  // Update the authenticated player's settings, e.g. their timezone
+  public updateSettings = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = UpdatePlayerSettingsSchema.parse(req.body);
+      const player = await this.playerService.updateSettings(req.player!.player_id, data);
+
+      res.json({
+        success: true,
+        message: 'Settings updated successfully',
+        data: player
+      });
+    } catch (error: any) {
+      logger.error('Update player settings error', error);
+      res.status(400).json({
+        success: false,
+        error: error.message || 'Failed to update settings'
+      });
+    }
+  };
+
+  // Get the authenticated player
+  public getCurrentPlayer = async (req: Request, res: Response): Promise<void> => {
+    res.json({
+      success: true,
+      data: req.player
+    });
+  };
+}
+
+export default PlayerController;
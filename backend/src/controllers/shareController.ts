@@ -0,0 +1,97 @@
+import { Request, Response } from 'express';
+import { ShareService } from '../services/ShareService';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('ShareController');
+
+export class ShareController {
+  private shareService: ShareService;
+
+  constructor() {
+    this.shareService = new ShareService();
+  }
+
+  // Share the calling player's completed daily game
+  public createShare = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { sessionId } = req.params;
+      const share = await this.shareService.createShare(sessionId, req.player!.player_id);
+
+      res.status(201).json({
+        success: true,
+        message: 'Result shared successfully',
+        data: share
+      });
+    } catch (error: any) {
+      logger.error('Create share error', error);
+
+      if (error.message.includes('not found')) {
+        res.status(404).json({
+          success: false,
+          error: error.message
+        });
+      } else if (error.message.includes('can be shared')) {
+        res.status(409).json({
+          success: false,
+          error: error.message
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to share result'
+        });
+      }
+    }
+  };
+
+  // Public, read-only summary of a shared result
+  public getShare = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const share = await this.shareService.getShare(req.params.shareId);
+
+      res.json({
+        success: true,
+        data: share
+      });
+    } catch (error: any) {
+      logger.error('Get share error', error);
+
+      if (error.message.includes('not found')) {
+        res.status(404).json({
+          success: false,
+          error: error.message
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to retrieve shared result'
+        });
+      }
+    }
+  };
+
+  // PNG result card, for link previews and saving
+  public getShareCard = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const card = await this.shareService.renderCard(req.params.shareId);
+
+      res.setHeader('Content-Type', 'image/png');
+      res.setHeader('Cache-Control', 'public, max-age=3600');
+      res.send(card);
+    } catch (error: any) {
+      logger.error('Get share card error', error);
+
+      if (error.message.includes('not found')) {
+        res.status(404).json({
+          success: false,
+          error: error.message
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to render result card'
+        });
+      }
+    }
+  };
+}
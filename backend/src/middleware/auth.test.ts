@@ -0,0 +1,83 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { requireAdmin, requireAdminPermission } from './auth';
+import { AdminUserService } from '../services/AdminUserService';
+import { DatabaseService } from '../services/DatabaseService';
+import { PlayerService } from '../services/PlayerService';
+import { AdminRole } from '../models/AdminUser';
+
+describe('admin permissions', () => {
+  const db = DatabaseService.getInstance();
+  const adminUserService = new AdminUserService();
+  let server: Server;
+  let baseUrl: string;
+
+  const request = async (method: string, url: string, headers: Record<string, string> = {}) => {
+    const response = await fetch(`${baseUrl}${url}`, { method, headers });
+    return { status: response.status, body: await response.json() };
+  };
+
+  const loginAs = async (role: AdminRole) => {
+    const password = 'correct-horse-battery';
+    const admin = await adminUserService.createAdmin({ username: `${role}-admin`, password, role });
+    const { token } = await adminUserService.login({ username: admin.username, password });
+    return { Authorization: `Bearer ${token}` };
+  };
+
+  beforeAll(() => {
+    const ok = (req: express.Request, res: express.Response) => {
+      res.json({ success: true, data: req.admin });
+    };
+    const app = express();
+    app.get('/dashboard', requireAdmin, requireAdminPermission('dashboard:read'), ok);
+    app.post('/images', requireAdmin, requireAdminPermission('images:write'), ok);
+    app.post('/import', requireAdmin, requireAdminPermission('data:import'), ok);
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.close();
+    await db.shutdown();
+  });
+
+  it('requires an admin session or API token', async () => {
+    const { token } = await new PlayerService().register({ username: 'not-an-admin', password: 'password123' });
+
+    expect((await request('GET', '/dashboard')).status).toBe(401);
+    expect((await request('GET', '/dashboard', { Authorization: `Bearer ${token}` })).status).toBe(401);
+    expect((await request('GET', '/dashboard', { 'X-API-Key': 'bon_unknown' })).status).toBe(401);
+  });
+
+  it('allows only what the role grants', async () => {
+    const viewer = await loginAs('viewer');
+
+    expect(await request('GET', '/dashboard', viewer)).toMatchObject({ status: 200, body: { data: { role: 'viewer', via: 'session' } } });
+    expect(await request('POST', '/images', viewer)).toMatchObject({ status: 403, body: { error: 'Missing permission: images:write' } });
+  });
+
+  it('needs an explicit confirmation for dangerous operations', async () => {
+    const operator = await loginAs('operator');
+
+    expect(await request('POST', '/import', operator)).toMatchObject({
+      status: 403,
+      body: { error: 'Dangerous operation requires confirmation' }
+    });
+    expect((await request('POST', '/import', { ...operator, 'X-Confirm-Operation': 'false' })).status).toBe(403);
+    expect((await request('POST', '/import', { ...operator, 'X-Confirm-Operation': 'true' })).status).toBe(200);
+  });
+
+  it('limits an API token to the permissions it was issued with', async () => {
+    const curator = await adminUserService.createAdmin({ username: 'token-owner', password: 'correct-horse-battery', role: 'curator' });
+    const principal = (await adminUserService.authenticateSession(
+      (await adminUserService.login({ username: curator.username, password: 'correct-horse-battery' })).token
+    ))!;
+    const { token } = await adminUserService.createApiToken(principal, { name: 'read only', permissions: ['dashboard:read'] });
+
+    expect(await request('GET', '/dashboard', { 'X-API-Key': token })).toMatchObject({ status: 200, body: { data: { via: 'api-token' } } });
+    expect((await request('POST', '/images', { 'X-API-Key': token })).status).toBe(403);
+    await expect(adminUserService.createApiToken(principal, { name: 'too wide', permissions: ['data:import'] }))
+      .rejects.toThrow('Cannot grant permissions you do not have: data:import');
+  });
+});
@@ -1,28 +1,109 @@
 import { Request, Response, NextFunction } from 'express';
+import { PlayerService } from '../services/PlayerService';
+import { AdminUserService } from '../services/AdminUserService';
+import { AuditLogService } from '../services/AuditLogService';
+import { PublicPlayer } from '../models/Player';
+import { AdminPermission, AdminPrincipal } from '../models/AdminUser';
+import { AuditContext } from '../models/AuditLog';
+import { CONFIRMED_PERMISSIONS } from '../utils/adminRoles';
+import { createLogger, requestContext } from '../utils/logger';
 
-// Simple API key authentication for admin operations
-// In production, use proper JWT or OAuth2
-export const requireApiKey = (req: Request, res: Response, next: NextFunction): void => {
-  const apiKey = req.headers['x-api-key'] || req.query.api_key;
-  const validApiKey = process.env.ADMIN_API_KEY || 'dev-admin-key-123';
+const logger = createLogger('admin');
 
-  if (!apiKey || apiKey !== validApiKey) {
-    res.status(401).json({
-      success: false,
-      error: 'Invalid or missing API key',
-      hint: 'Include X-API-Key header or api_key query parameter'
-    });
-    return;
-  }
+const playerService = new PlayerService();
+const adminUserService = new AdminUserService();
+const auditLogService = new AuditLogService();
+
+// Admin authentication: an admin session token (Authorization: Bearer, from
+// /api/admin/auth/login) or a scoped API token (X-API-Key) for scripts
+export const requireAdmin = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const apiKey = req.headers['x-api-key'];
+    const bearer = getBearerToken(req);
+
+    let admin: AdminPrincipal | null = null;
+    if (typeof apiKey === 'string' && apiKey) {
+      admin = await adminUserService.authenticateApiToken(apiKey);
+    } else if (bearer) {
+      admin = await adminUserService.authenticateSession(bearer);
+    }
 
-  next();
+    if (!admin) {
+      res.status(401).json({
+        success: false,
+        error: 'Admin authentication required',
+        hint: 'Log in to the admin panel or include an X-API-Key header with an admin API token'
+      });
+      return;
+    }
+
+    req.admin = admin;
+    next();
+  } catch (error) {
+    next(error);
+  }
 };
 
-// Extend global interface for rate limiting store
+// Simple in-memory rate limiting store (not suitable for production clusters)
+const adminRateLimitStore = new Map<string, { count: number; resetTime: number }>();
+
+// Extend the Express request with the authenticated player or admin
 declare global {
-  var adminRateLimitStore: Map<string, { count: number; resetTime: number }> | undefined;
+  namespace Express {
+    interface Request {
+      player?: PublicPlayer;
+      admin?: AdminPrincipal;
+    }
+
+    // Set by controllers to describe what an audited operation touched
+    interface Locals {
+      audit?: AuditContext;
+    }
+  }
 }
 
+const getBearerToken = (req: Request): string | null => {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) return null;
+  return header.slice('Bearer '.length).trim() || null;
+};
+
+// Player authentication: verifies the bearer token and attaches req.player
+export const requirePlayer = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const token = getBearerToken(req);
+    const player = token ? await playerService.authenticate(token) : null;
+
+    if (!player) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+        hint: 'Log in and include an Authorization: Bearer <token> header'
+      });
+      return;
+    }
+
+    req.player = player;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Like requirePlayer, but anonymous requests pass through without req.player
+export const optionalPlayer = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const token = getBearerToken(req);
+    const player = token ? await playerService.authenticate(token) : null;
+    if (player) {
+      req.player = player;
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
 // Rate limiting for admin operations
 export const adminRateLimit = (req: Request, res: Response, next: NextFunction): void => {
   // This is a simplified rate limiter
@@ -33,12 +114,7 @@ export const adminRateLimit = (req: Request, res: Response, next: NextFunction):
   const windowMs = 15 * 60 * 1000; // 15 minutes
   const maxRequests = 50; // Max 50 admin requests per window
 
-  // Simple in-memory rate limiting (not suitable for production clusters)
-  if (!global.adminRateLimitStore) {
-    global.adminRateLimitStore = new Map();
-  }
-
-  const store = global.adminRateLimitStore as Map<string, { count: number; resetTime: number }>;
+  const store = adminRateLimitStore;
   const key = `admin:${clientIP}`;
   const record = store.get(key);
 
@@ -60,36 +136,80 @@ export const adminRateLimit = (req: Request, res: Response, next: NextFunction):
   }
 };
 
-// Log admin operations
-export const logAdminOperation = (operation: string) => {
+// Log admin operations. Mutations (and reads marked with audit: true) are
+// also written to the audit log once the response has been sent, together
+// with whatever the controller put in res.locals.audit.
+export const logAdminOperation = (operation: string, options: { audit?: boolean } = {}) => {
   return (req: Request, res: Response, next: NextFunction): void => {
     const clientIP = req.ip || req.connection.remoteAddress;
     const userAgent = req.headers['user-agent'];
-    const timestamp = new Date().toISOString();
+    const startedAt = new Date();
+    const actor = req.admin ? `${req.admin.username} (${req.admin.via})` : 'unknown';
+    const requestId = requestContext.getStore()?.requestId;
+    const audited = options.audit ?? !['GET', 'HEAD'].includes(req.method);
+    let errorMessage: string | undefined;
 
-    console.log(`[ADMIN] ${timestamp} - ${operation} - IP: ${clientIP} - UA: ${userAgent}`);
+    logger.info(`Admin operation ${operation}`, { operation, admin: actor, ip: clientIP, user_agent: userAgent });
     
     // Store original res.json to log response
     const originalJson = res.json;
     res.json = function(body: any) {
       const success = body?.success !== false;
-      console.log(`[ADMIN] ${timestamp} - ${operation} - Result: ${success ? 'SUCCESS' : 'FAILED'}`);
+      if (!success && typeof body?.error === 'string') {
+        errorMessage = body.error;
+      }
+      logger.log(success ? 'info' : 'warn', `Admin operation ${operation} ${success ? 'succeeded' : 'failed'}`, {
+        operation,
+        admin: actor,
+        ...(errorMessage && { error: errorMessage })
+      });
       return originalJson.call(this, body);
     };
 
+    if (audited) {
+      res.on('finish', () => {
+        auditLogService.record({
+          ...res.locals.audit,
+          operation,
+          method: req.method,
+          path: req.originalUrl.split('?')[0],
+          status_code: res.statusCode,
+          admin: req.admin,
+          request_id: requestId,
+          ip: clientIP,
+          user_agent: userAgent,
+          error: errorMessage,
+          started_at: startedAt
+        }).catch(error => logger.error(`Failed to write audit log for ${operation}`, error));
+      });
+    }
+
     next();
   };
 };
 
-// Validate admin permissions for specific operations
-export const requireAdminPermission = (permission: string) => {
+// Require a permission of the authenticated admin (see utils/adminRoles.ts).
+// Dangerous operations additionally need explicit confirmation.
+export const requireAdminPermission = (permission: AdminPermission) => {
   return (req: Request, res: Response, next: NextFunction): void => {
-    // This is a placeholder for more sophisticated permission checking
-    // In a real system, you'd check user roles and permissions
-    
-    const dangerousOperations = ['reset', 'cleanup', 'import'];
-    
-    if (dangerousOperations.includes(permission)) {
+    if (!req.admin) {
+      res.status(401).json({
+        success: false,
+        error: 'Admin authentication required'
+      });
+      return;
+    }
+
+    if (!req.admin.permissions.includes(permission)) {
+      res.status(403).json({
+        success: false,
+        error: `Missing permission: ${permission}`,
+        hint: `Your role (${req.admin.role}) or API token does not allow this operation`
+      });
+      return;
+    }
+
+    if (CONFIRMED_PERMISSIONS.includes(permission)) {
       const confirmHeader = req.headers['x-confirm-operation'];
       if (confirmHeader !== 'true') {
         res.status(403).json({
@@ -103,4 +223,4 @@ export const requireAdminPermission = (permission: string) => {
 
     next();
   };
-};
\ No newline at end of file
+};
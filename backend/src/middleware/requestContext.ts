@@ -0,0 +1,34 @@
+import { Request, Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { createLogger, requestContext } from '../utils/logger';
+
+const logger = createLogger('http');
+
+// Accept a caller-supplied id (e.g. from a proxy) only if it looks sane
+const REQUEST_ID_PATTERN = /^[\w.-]{1,64}$/;
+
+// Assigns each request an id, echoes it as X-Request-Id, runs the rest of the
+// chain inside the logging context and logs the completed request
+export const requestId = (req: Request, res: Response, next: NextFunction): void => {
+  const incoming = req.headers['x-request-id'];
+  const id = typeof incoming === 'string' && REQUEST_ID_PATTERN.test(incoming) ? incoming : uuidv4();
+  const startedAt = Date.now();
+
+  res.setHeader('X-Request-Id', id);
+
+  requestContext.run({ requestId: id }, () => {
+    res.on('finish', () => {
+      const level = res.statusCode >= 500 ? 'error' : res.statusCode >= 400 ? 'warn' : 'info';
+      logger.log(level, `${req.method} ${req.originalUrl.split('?')[0]} ${res.statusCode}`, {
+        method: req.method,
+        path: req.originalUrl.split('?')[0],
+        status: res.statusCode,
+        duration_ms: Date.now() - startedAt,
+        ip: req.ip,
+        request_id: id
+      });
+    });
+
+    next();
+  });
+};
@@ -0,0 +1,95 @@
+import { z } from 'zod';
+
+export const AdminRoleSchema = z.enum(['viewer', 'curator', 'operator', 'owner']);
+
+export const AdminPermissionSchema = z.enum([
+  'dashboard:read',
+  'logs:read',
+  'settings:read',
+  'settings:write',
+  'images:write',
+  'pairs:write',
+  'challenges:read',
+  'challenges:write',
+  'data:export',
+  'data:import',
+  'system:backup',
+  'system:maintenance',
+  'admins:manage'
+]);
+
+export const AdminUserSchema = z.object({
+  admin_id: z.string().uuid(),
+  username: z.string(),
+  role: AdminRoleSchema,
+  password_hash: z.string(), // scrypt$<salt>$<hash>, never leaves the server
+  is_active: z.boolean().default(true),
+  created_at: z.date(),
+  updated_at: z.date(),
+  last_login: z.date().optional()
+});
+
+// Long-lived token for scripts. Only the SHA-256 of the secret is stored;
+// the plain value is shown once at creation.
+export const AdminApiTokenSchema = z.object({
+  token_id: z.string().uuid(),
+  admin_id: z.string().uuid(),
+  name: z.string(),
+  token_hash: z.string(),
+  token_prefix: z.string(), // first characters, to tell tokens apart in listings
+  permissions: z.array(AdminPermissionSchema),
+  created_at: z.date(),
+  expires_at: z.date().optional(),
+  last_used_at: z.date().optional(),
+  revoked_at: z.date().optional()
+});
+
+export const AdminLoginSchema = z.object({
+  username: z.string().trim().min(1, 'Username is required'),
+  password: z.string().min(1, 'Password is required')
+});
+
+export const CreateAdminUserSchema = z.object({
+  username: z.string()
+    .trim()
+    .min(3, 'Username must be at least 3 characters')
+    .max(32, 'Username must be at most 32 characters')
+    .regex(/^[a-zA-Z0-9_.-]+$/, 'Username may only contain letters, numbers, _, . and -')
+    .transform(name => name.toLowerCase()),
+  password: z.string().min(12, 'Admin passwords must be at least 12 characters').max(128),
+  role: AdminRoleSchema
+});
+
+export const UpdateAdminUserSchema = z.object({
+  role: AdminRoleSchema.optional(),
+  is_active: z.boolean().optional(),
+  password: z.string().min(12, 'Admin passwords must be at least 12 characters').max(128).optional()
+});
+
+export const CreateAdminApiTokenSchema = z.object({
+  name: z.string().trim().min(1, 'Token name is required').max(64),
+  permissions: z.array(AdminPermissionSchema).min(1, 'At least one permission is required'),
+  expires_in_days: z.number().int().min(1).max(365).optional()
+});
+
+export type AdminRole = z.infer<typeof AdminRoleSchema>;
+export type AdminPermission = z.infer<typeof AdminPermissionSchema>;
+export type AdminUser = z.infer<typeof AdminUserSchema>;
+export type AdminApiToken = z.infer<typeof AdminApiTokenSchema>;
+export type AdminLoginData = z.infer<typeof AdminLoginSchema>;
+export type CreateAdminUserData = z.infer<typeof CreateAdminUserSchema>;
+export type UpdateAdminUserData = z.infer<typeof UpdateAdminUserSchema>;
+export type CreateAdminApiTokenData = z.infer<typeof CreateAdminApiTokenSchema>;
+
+export type PublicAdminUser = Omit<AdminUser, 'password_hash'>;
+export type PublicAdminApiToken = Omit<AdminApiToken, 'token_hash'>;
+
+// The authenticated caller of an admin route, attached as req.admin
+export interface AdminPrincipal {
+  admin_id: string;
+  username: string;
+  role: AdminRole;
+  permissions: AdminPermission[];
+  via: 'session' | 'api-token';
+  token_id?: string;
+}
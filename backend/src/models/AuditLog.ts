@@ -0,0 +1,59 @@
+import { z } from 'zod';
+
+export const AuditLevelSchema = z.enum(['info', 'warn', 'error']);
+
+export const AuditFieldChangeSchema = z.object({
+  before: z.unknown(),
+  after: z.unknown()
+});
+
+// One recorded admin operation. before/after are snapshots of the affected
+// record as set by the controller; changes lists only the fields that differ.
+export const AuditLogSchema = z.object({
+  audit_id: z.string().uuid(),
+  timestamp: z.date(),
+  operation: z.string(),
+  level: AuditLevelSchema,
+  result: z.enum(['success', 'failure']),
+  status_code: z.number().int(),
+  method: z.string(),
+  path: z.string(),
+  actor_id: z.string().optional(),
+  actor_username: z.string().optional(),
+  actor_via: z.enum(['session', 'api-token']).optional(),
+  token_id: z.string().optional(),
+  request_id: z.string().optional(),
+  ip: z.string().optional(),
+  user_agent: z.string().optional(),
+  target_ids: z.array(z.string()).default([]),
+  before: z.unknown().optional(),
+  after: z.unknown().optional(),
+  changes: z.record(AuditFieldChangeSchema).optional(),
+  details: z.record(z.unknown()).optional(),
+  error: z.string().optional(),
+  duration_ms: z.number()
+});
+
+export const AuditLogQuerySchema = z.object({
+  actor: z.string().trim().min(1).optional(),
+  operation: z.string().trim().min(1).optional(),
+  level: z.enum(['all', 'info', 'warn', 'error']).optional().default('all'),
+  result: z.enum(['success', 'failure']).optional(),
+  target_id: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional().default(100),
+  offset: z.coerce.number().int().min(0).optional().default(0)
+});
+
+export type AuditLevel = z.infer<typeof AuditLevelSchema>;
+export type AuditLog = z.infer<typeof AuditLogSchema>;
+export type AuditLogQuery = z.infer<typeof AuditLogQuerySchema>;
+
+// What a controller can attach to res.locals.audit for the current request
+export interface AuditContext {
+  target_ids?: string[];
+  before?: unknown;
+  after?: unknown;
+  details?: Record<string, unknown>;
+}
@@ -1,4 +1,21 @@
 import { z } from 'zod';
+import { DAILY_ROUNDS } from '../utils/gameModes';
+
+export const DailyChallengeCategorySchema = z.enum(['portrait', 'landscape', 'object', 'abstract', 'any']);
+
+// Longest date range scheduled or shown in one request
+export const MAX_SCHEDULE_DAYS = 92;
+
+export const DailyDateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD')
+  .refine(date => !isNaN(Date.parse(date)) && new Date(date).toISOString().startsWith(date), {
+    message: 'Invalid date'
+  });
+
+// Admin-picked pairs for the day, in play order
+const CuratedPairIdsSchema = z.array(z.string().uuid())
+  .length(DAILY_ROUNDS, `A curated daily set needs exactly ${DAILY_ROUNDS} pairs`)
+  .refine(ids => new Set(ids).size === ids.length, { message: 'Curated pairs must be distinct' });
 
 export const DailyChallengeSchema = z.object({
   id: z.string().uuid(),
@@ -6,21 +23,106 @@ export const DailyChallengeSchema = z.object({
   title: z.string().min(1),
   description: z.string().min(1),
   difficulty_level: z.number().min(1).max(5),
-  category: z.enum(['portrait', 'landscape', 'object', 'abstract', 'any']).optional(),
+  category: DailyChallengeCategorySchema.optional(),
   points_reward: z.number().min(50).max(1000).default(100),
+  pair_ids: CuratedPairIdsSchema.optional(),
   is_active: z.boolean().default(true),
   created_at: z.date(),
   updated_at: z.date()
 });
 
 export const CreateDailyChallengeSchema = z.object({
-  date: z.string(),
+  date: DailyDateSchema,
   title: z.string().min(1),
   description: z.string().min(1),
   difficulty_level: z.number().min(1).max(5),
-  category: z.enum(['portrait', 'landscape', 'object', 'abstract', 'any']).optional(),
-  points_reward: z.number().min(50).max(1000).default(100)
+  category: DailyChallengeCategorySchema.optional(),
+  points_reward: z.number().min(50).max(1000).default(100),
+  pair_ids: CuratedPairIdsSchema.optional()
+});
+
+export const UpdateDailyChallengeSchema = CreateDailyChallengeSchema.partial().extend({
+  is_active: z.boolean().optional()
+});
+
+// Fields left out of a template are filled in by the generator's plan for the date
+export const DailyChallengeTemplateSchema = z.object({
+  title: z.string().min(1).optional(),
+  description: z.string().min(1).optional(),
+  difficulty_level: z.number().int().min(1).max(5).optional(),
+  category: DailyChallengeCategorySchema.optional(),
+  points_reward: z.number().min(50).max(1000).optional()
+});
+
+const isDateRange = (range: { start_date: string; end_date: string }): boolean => {
+  const days = (Date.parse(range.end_date) - Date.parse(range.start_date)) / (24 * 60 * 60 * 1000) + 1;
+  return days >= 1 && days <= MAX_SCHEDULE_DAYS;
+};
+
+const dateRangeMessage = {
+  message: `end_date must be on or after start_date and at most ${MAX_SCHEDULE_DAYS} days later`,
+  path: ['end_date']
+};
+
+// Templates are applied to the dates in turn, so two templates alternate
+export const ScheduleDailyChallengesSchema = z.object({
+  start_date: DailyDateSchema,
+  end_date: DailyDateSchema,
+  templates: z.array(DailyChallengeTemplateSchema).min(1).max(31)
+}).refine(isDateRange, dateRangeMessage);
+
+export const GenerateDailyChallengesSchema = z.object({
+  start_date: DailyDateSchema.optional(), // defaults to today
+  days: z.number().int().min(1).max(MAX_SCHEDULE_DAYS).default(14)
+});
+
+export const DailyCalendarQuerySchema = z.object({
+  start_date: DailyDateSchema,
+  end_date: DailyDateSchema
+}).refine(isDateRange, dateRangeMessage);
+
+// The pairs every player gets for one date, frozen the first time that date's
+// daily game is started so later pair or challenge edits can't change it
+export const DailyPairSetSchema = z.object({
+  date: z.string(), // YYYY-MM-DD format
+  pair_ids: z.array(z.string().uuid()),
+  source: z.enum(['curated', 'generated']),
+  challenge_id: z.string().uuid().optional(),
+  seed: z.string().optional(), // generated sets only
+  created_at: z.date()
 });
 
 export type DailyChallenge = z.infer<typeof DailyChallengeSchema>;
-export type CreateDailyChallengeData = z.infer<typeof CreateDailyChallengeSchema>;
\ No newline at end of file
+export type CreateDailyChallengeData = z.infer<typeof CreateDailyChallengeSchema>;
+export type UpdateDailyChallengeData = z.infer<typeof UpdateDailyChallengeSchema>;
+export type DailyPairSet = z.infer<typeof DailyPairSetSchema>;
+export type DailyChallengeCategory = z.infer<typeof DailyChallengeCategorySchema>;
+export type DailyChallengeTemplate = z.infer<typeof DailyChallengeTemplateSchema>;
+export type ScheduleDailyChallengesData = z.infer<typeof ScheduleDailyChallengesSchema>;
+export type GenerateDailyChallengesData = z.infer<typeof GenerateDailyChallengesSchema>;
+export type DailyCalendarQuery = z.infer<typeof DailyCalendarQuerySchema>;
+
+// What players see of a challenge when they start the daily game
+export type PublicDailyChallenge = Pick<
+  DailyChallenge,
+  'id' | 'date' | 'title' | 'description' | 'difficulty_level' | 'category' | 'points_reward'
+>;
+
+export interface DailyScheduleResult {
+  created: DailyChallenge[];
+  skipped_dates: string[]; // already had a challenge or a frozen pair set
+}
+
+export interface DailyCalendarDay {
+  date: string;
+  challenge: DailyChallenge | null;
+  pair_set_source: DailyPairSet['source'] | null; // null until the day is first played
+  eligible_pairs: number; // active pairs matching the challenge's category and difficulty
+  warnings: string[];
+}
+
+export interface DailyCalendar {
+  start_date: string;
+  end_date: string;
+  days: DailyCalendarDay[];
+}
@@ -1,6 +1,36 @@
 import { z } from 'zod';
+import { RoundScoreBreakdownSchema } from './Scoring';
+import { ImageSetTarget, MAX_SET_IMAGES } from './ImageSet';
+import { ImageAnnotation } from './Image';
 
-export const GameModeSchema = z.enum(['daily', 'streak']);
+export const GameModeSchema = z.enum(['daily', 'streak', 'spot', 'verdict', 'confidence', 'timeattack', 'practice']);
+
+export const ImagePositionSchema = z.enum(['left', 'right']);
+
+export const PlayerChoiceSchema = z.enum(['ai', 'real']);
+
+// How sure the player is of their answer, in percent: 50 is a guess
+export const MIN_CONFIDENCE = 50;
+export const ConfidenceSchema = z.number().int().min(MIN_CONFIDENCE).max(100);
+
+// Index of an image in a "Spot the Bot" round, in display order
+export const SetImageIndexSchema = z.number().int().min(0).max(MAX_SET_IMAGES - 1);
+
+// Round issued to the client but not yet graded. The AI image position only
+// ever lives server-side; the client sees the opaque token and positions.
+// A round shows a pair, an image set or a single image.
+export const ActiveRoundSchema = z.object({
+  round_token: z.string().uuid(),
+  pair_id: z.string().uuid().optional(),
+  ai_position: ImagePositionSchema.optional(),
+  set_id: z.string().uuid().optional(),
+  image_ids: z.array(z.string().uuid()).optional(), // the set's images in display order
+  image_id: z.string().uuid().optional(), // single image rounds
+  round_number: z.number().min(1),
+  issued_at: z.date(),
+  deadline_at: z.date(),
+  is_answered: z.boolean().default(false)
+});
 
 export const GameSessionSchema = z.object({
   session_id: z.string().uuid(),
@@ -12,36 +42,63 @@ export const GameSessionSchema = z.object({
   rounds_completed: z.number().min(0).default(0),
   current_streak: z.number().min(0).default(0),
   is_completed: z.boolean().default(false),
-  daily_challenge_date: z.string().optional() // YYYY-MM-DD format
+  daily_challenge_date: z.string().optional(), // YYYY-MM-DD format
+  daily_challenge_id: z.string().uuid().optional(), // challenge that was live when the daily game started
+  scoring_version: z.string().optional(), // scoring rule set; unset for sessions from before versioning
+  challenge_bonus: z.number().min(0).optional(), // share of the challenge's points_reward, added on completion
+  perfect_bonus: z.number().min(0).optional(), // added on completion
+  speed_bonus: z.number().min(0).optional(), // added on completion
+  expires_at: z.date().optional(), // time attack: the session clock runs out here, less any penalties
+  active_round: ActiveRoundSchema.optional(),
+  timing_anomalies: z.number().min(0).optional(),
+  is_flagged: z.boolean().optional(), // client timing diverged from the server clock
+  is_abandoned: z.boolean().optional() // daily ended before all its rounds were graded; earns nothing
 });
 
+// The player comes from the auth token, never from the request body
 export const CreateGameSessionSchema = z.object({
-  game_mode: GameModeSchema,
-  player_id: z.string().optional()
+  game_mode: GameModeSchema
 });
 
 export const GameRoundSchema = z.object({
   round_id: z.string().uuid(),
   session_id: z.string().uuid(),
-  pair_id: z.string().uuid(),
-  player_choice: z.enum(['ai', 'real']),
-  correct_answer: z.enum(['ai', 'real']),
-  is_correct: z.boolean(),
-  response_time: z.number().min(0), // milliseconds
+  pair_id: z.string().uuid().optional(), // unset for image set and single image rounds
+  set_id: z.string().uuid().optional(),
+  image_id: z.string().uuid().optional(),
+  player_choice: PlayerChoiceSchema,
+  correct_answer: PlayerChoiceSchema,
+  player_position: ImagePositionSchema.optional(),
+  ai_position: ImagePositionSchema.optional(),
+  selected_indexes: z.array(SetImageIndexSchema).optional(), // image set rounds: what the player picked
+  correct_indexes: z.array(SetImageIndexSchema).optional(), // and what they should have picked
+  credit: z.number().min(0).max(1).optional(), // image set rounds: partial credit
+  confidence: ConfidenceSchema.optional(), // pair and single image rounds, when the player gave one
+  is_correct: z.boolean(), // fully correct, for image set rounds
+  response_time: z.number().min(0), // milliseconds, measured by the server
+  client_response_time: z.number().min(0).optional(),
+  timed_out: z.boolean().optional(),
   points_earned: z.number().min(0),
+  score_breakdown: RoundScoreBreakdownSchema.optional(),
   round_number: z.number().min(1),
   timestamp: z.date()
 });
 
 export const CreateGameRoundSchema = z.object({
   session_id: z.string().uuid(),
-  pair_id: z.string().uuid(),
-  player_choice: z.enum(['ai', 'real']),
-  response_time: z.number().min(0)
+  round_token: z.string().uuid(),
+  choice: ImagePositionSchema.optional(), // omitted when the player ran out of time
+  selection: z.array(SetImageIndexSchema).max(MAX_SET_IMAGES).optional(), // image set rounds, instead of choice
+  verdict: PlayerChoiceSchema.optional(), // single image rounds, instead of choice
+  confidence: ConfidenceSchema.optional(), // ignored for image set rounds
+  response_time: z.number().min(0).optional() // client-reported, only used for anomaly checks
 });
 
 // TypeScript types
 export type GameMode = z.infer<typeof GameModeSchema>;
+export type ImagePosition = z.infer<typeof ImagePositionSchema>;
+export type PlayerChoice = z.infer<typeof PlayerChoiceSchema>;
+export type ActiveRound = z.infer<typeof ActiveRoundSchema>;
 export type GameSession = z.infer<typeof GameSessionSchema>;
 export type CreateGameSessionData = z.infer<typeof CreateGameSessionSchema>;
 export type GameRound = z.infer<typeof GameRoundSchema>;
@@ -52,8 +109,28 @@ export interface GameSessionWithRounds extends GameSession {
   rounds: GameRound[];
 }
 
-// Player choice type
-export type PlayerChoice = 'ai' | 'real';
+// Round as sent to the client: no pair or image ids, no labels
+export interface PublicRound {
+  session_id: string;
+  round_token: string;
+  round_number: number;
+  time_remaining_ms: number;
+  category: string;
+  difficulty_level: number;
+  current_streak: number;
+  total_score: number;
+  image_count?: number; // image set and single image rounds: images are fetched by index
+  pick?: ImageSetTarget; // image set rounds: pick every AI image, or the one real image
+  session_time_remaining_ms?: number; // time attack: left on the session clock
+}
+
+// What gave the AI image away, returned after each practice round. The AI
+// image can still be fetched by position until the next round is issued.
+export interface RoundExplanation {
+  ai_position: ImagePosition;
+  telltales: string[];
+  annotations: ImageAnnotation[];
+}
 
 // Game result
 export interface GameResult {
@@ -62,10 +139,23 @@ export interface GameResult {
   rounds_completed: number;
   current_streak: number;
   is_completed: boolean;
+  scoring_version: string;
+  challenge_bonus?: number; // bonuses are already included in total_score
+  perfect_bonus?: number;
+  speed_bonus?: number;
   final_stats: {
     correct_answers: number;
     total_rounds: number;
     accuracy_percentage: number;
     average_response_time: number;
   };
-}
\ No newline at end of file
+}
+// Where a player stands on their current daily
+export interface DailyStatus {
+  date: string; // the player's daily date, YYYY-MM-DD
+  timezone: string;
+  completed: boolean;
+  next_reset_at: Date;
+  daily_streak: number;
+  streak_freezes: number;
+}
@@ -4,6 +4,32 @@ import { z } from 'zod';
 export const ImageCategorySchema = z.enum(['portrait', 'landscape', 'object', 'abstract']);
 export const DifficultyLevelSchema = z.number().min(1).max(5);
 
+// How players judge the image on its own in verdict rounds
+export const ImageVerdictStatsSchema = z.object({
+  total_attempts: z.number().min(0),
+  correct_guesses: z.number().min(0),
+  success_rate: z.number().min(0).max(100),
+  average_response_time: z.number().min(0)
+});
+
+// Practice explanations: short hints at what gives an AI image away
+// ("hands", "text artifacts", "lighting") and boxes around where to look,
+// as fractions of the image size so they scale with the displayed image
+export const TelltaleSchema = z.string().trim().min(1).max(50);
+
+export const ImageAnnotationSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().gt(0).max(1),
+  height: z.number().gt(0).max(1),
+  label: z.string().trim().min(1).max(100).optional()
+}).refine(box => box.x + box.width <= 1 && box.y + box.height <= 1, {
+  message: 'Annotation must lie inside the image'
+});
+
+export const MAX_TELLTALES = 10;
+export const MAX_ANNOTATIONS = 10;
+
 export const ImageSchema = z.object({
   id: z.string().uuid(),
   filename: z.string().min(1),
@@ -20,7 +46,10 @@ export const ImageSchema = z.object({
     width: z.number().min(1),
     height: z.number().min(1)
   }),
-  tags: z.array(z.string()).default([])
+  tags: z.array(z.string()).default([]),
+  verdict_stats: ImageVerdictStatsSchema.optional(), // unset until the image is first judged
+  telltales: z.array(TelltaleSchema).max(MAX_TELLTALES).optional(),
+  annotations: z.array(ImageAnnotationSchema).max(MAX_ANNOTATIONS).optional()
 });
 
 export const CreateImageSchema = z.object({
@@ -33,12 +62,17 @@ export const CreateImageSchema = z.object({
   tags: z.array(z.string()).optional().default([])
 });
 
-export const UpdateImageSchema = CreateImageSchema.partial();
+export const UpdateImageSchema = CreateImageSchema.partial().extend({
+  telltales: z.array(TelltaleSchema).max(MAX_TELLTALES).optional(),
+  annotations: z.array(ImageAnnotationSchema).max(MAX_ANNOTATIONS).optional()
+});
 
 // TypeScript types
 export type ImageCategory = z.infer<typeof ImageCategorySchema>;
 export type DifficultyLevel = z.infer<typeof DifficultyLevelSchema>;
 export type Image = z.infer<typeof ImageSchema>;
+export type ImageVerdictStats = z.infer<typeof ImageVerdictStatsSchema>;
+export type ImageAnnotation = z.infer<typeof ImageAnnotationSchema>;
 export type CreateImageData = z.infer<typeof CreateImageSchema>;
 export type UpdateImageData = z.infer<typeof UpdateImageSchema>;
 
@@ -48,6 +82,13 @@ export interface ImageDimensions {
   height: number;
 }
 
+// Criteria for drawing a single image for a verdict round
+export interface ImageSelectionCriteria {
+  isAiGenerated?: boolean;
+  targetDifficulty?: number;
+  excludeImageIds?: string[];
+}
+
 // Image upload result
 export interface ProcessedImage {
   id: string;
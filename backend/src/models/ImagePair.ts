@@ -1,4 +1,17 @@
 import { z } from 'zod';
+import { SkillRatingSchema } from './SkillRating';
+
+// Difficulty estimated from round history by PairCalibrationService, kept
+// next to the manual difficulty_level
+export const PairCalibrationSchema = z.object({
+  difficulty: z.number().min(1).max(5), // same scale as difficulty_level, one decimal
+  logit: z.number(), // Rasch difficulty: 0 is an even chance for an average player
+  standard_error: z.number().min(0),
+  attempts: z.number().int().min(0), // rounds the estimate is based on
+  calibrated_at: z.date(),
+  flagged: z.boolean(), // far enough from difficulty_level to need review
+  dismissed_level: z.number().optional() // calibrated level an admin chose to keep the manual level against
+});
 
 export const ImagePairSchema = z.object({
   pair_id: z.string().uuid(),
@@ -11,7 +24,9 @@ export const ImagePairSchema = z.object({
   total_attempts: z.number().min(0).default(0),
   correct_guesses: z.number().min(0).default(0),
   average_response_time: z.number().min(0).default(0),
-  is_active: z.boolean().default(true)
+  is_active: z.boolean().default(true),
+  skill_rating: SkillRatingSchema.optional(), // unset until first played; seeded from difficulty_level
+  calibration: PairCalibrationSchema.optional()
 });
 
 export const CreateImagePairSchema = z.object({
@@ -23,8 +38,15 @@ export const UpdateImagePairSchema = z.object({
   is_active: z.boolean().optional()
 });
 
+// Resolve a calibration flag: take the calibrated level, or keep the manual one
+export const ReviewPairCalibrationSchema = z.object({
+  action: z.enum(['accept', 'dismiss'])
+});
+
 // TypeScript types
 export type ImagePair = z.infer<typeof ImagePairSchema>;
+export type PairCalibration = z.infer<typeof PairCalibrationSchema>;
+export type ReviewPairCalibrationData = z.infer<typeof ReviewPairCalibrationSchema>;
 export type CreateImagePairData = z.infer<typeof CreateImagePairSchema>;
 export type UpdateImagePairData = z.infer<typeof UpdateImagePairSchema>;
 
@@ -50,7 +72,29 @@ export interface ImagePairWithImages extends ImagePair {
 export interface PairSelectionCriteria {
   category?: string;
   difficulty?: number;
+  targetRating?: number; // prefer pairs rated closest to this
+  aiImageIds?: string[]; // only pairs whose AI image is one of these
   excludePairIds?: string[];
   limit?: number;
   activeOnly?: boolean;
-}
\ No newline at end of file
+}
+
+// Outcome of one calibration run
+export interface PairCalibrationRun {
+  rounds: number;
+  players: number;
+  calibrated: number; // pairs with enough attempts to store an estimate
+  skipped: number; // played pairs with too few attempts
+  flagged: number;
+  iterations: number;
+  converged: boolean;
+  ran_at: Date;
+}
+
+export interface PairCalibrationReport {
+  difficulty_source: 'manual' | 'calibrated';
+  calibrated_pairs: number;
+  uncalibrated_pairs: number;
+  last_calibrated_at: Date | null;
+  flagged: ImagePair[];
+}
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+
+export const MIN_SET_IMAGES = 3;
+export const MAX_SET_IMAGES = 6;
+
+// What the player has to pick: every AI image, or the one real image among fakes
+export const ImageSetTargetSchema = z.enum(['ai', 'real']);
+
+// A "Spot the Bot" round: several images shown at once, some of them AI
+export const ImageSetSchema = z.object({
+  set_id: z.string().uuid(),
+  image_ids: z.array(z.string().uuid()).min(MIN_SET_IMAGES).max(MAX_SET_IMAGES),
+  ai_image_ids: z.array(z.string().uuid()).min(1), // labels as they were when the set was created
+  target: ImageSetTargetSchema,
+  category: z.string(),
+  difficulty_level: z.number().min(1).max(5),
+  creation_date: z.date(),
+  success_rate: z.number().min(0).max(100).default(0), // fully correct rounds
+  average_credit: z.number().min(0).max(100).default(0), // partial credit, in percent
+  total_attempts: z.number().min(0).default(0),
+  correct_guesses: z.number().min(0).default(0),
+  average_response_time: z.number().min(0).default(0),
+  is_active: z.boolean().default(true)
+});
+
+export const CreateImageSetSchema = z.object({
+  image_ids: z.array(z.string().uuid())
+    .min(MIN_SET_IMAGES)
+    .max(MAX_SET_IMAGES)
+    .refine(ids => new Set(ids).size === ids.length, 'Images in a set must be distinct'),
+  target: ImageSetTargetSchema.default('ai')
+});
+
+export const UpdateImageSetSchema = z.object({
+  is_active: z.boolean().optional()
+});
+
+// TypeScript types
+export type ImageSetTarget = z.infer<typeof ImageSetTargetSchema>;
+export type ImageSet = z.infer<typeof ImageSetSchema>;
+export type CreateImageSetData = z.infer<typeof CreateImageSetSchema>;
+export type UpdateImageSetData = z.infer<typeof UpdateImageSetSchema>;
+
+// Set selection criteria
+export interface SetSelectionCriteria {
+  category?: string;
+  difficulty?: number;
+  excludeSetIds?: string[];
+  activeOnly?: boolean;
+}
@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { GameModeSchema } from './GameSession';
+
+export const LeaderboardWindowSchema = z.enum(['today', 'week', 'month', 'all']);
+
+export const LeaderboardRankBySchema = z.enum(['best_score', 'total_score', 'best_streak', 'accuracy']);
+
+// Accuracy over one or two games is meaningless, so that board needs more
+export const DEFAULT_MIN_GAMES: Record<z.infer<typeof LeaderboardRankBySchema>, number> = {
+  best_score: 1,
+  total_score: 1,
+  best_streak: 1,
+  accuracy: 5
+};
+
+export const LeaderboardQuerySchema = z.object({
+  mode: GameModeSchema.optional(),
+  window: LeaderboardWindowSchema.optional().default('all'),
+  rank_by: LeaderboardRankBySchema.optional().default('best_score'),
+  min_games: z.coerce.number().int().min(1).max(1000).optional(),
+  limit: z.coerce.number().int().min(1, 'Limit must be between 1 and 100').max(100, 'Limit must be between 1 and 100').optional().default(10)
+});
+
+export interface LeaderboardEntry {
+  rank: number;
+  player_id: string;
+  display_name: string;
+  best_score: number;
+  total_score: number;
+  best_streak: number;
+  daily_streak: number; // consecutive days with a completed daily
+  total_games: number;
+  rounds_played: number;
+  correct_answers: number;
+  accuracy: number; // percentage, two decimals
+  last_played: Date;
+}
+
+export interface Leaderboard {
+  entries: LeaderboardEntry[];
+  // The requesting player's own row, present even when outside the top N.
+  // null when they have no qualifying games in this window.
+  player_entry?: LeaderboardEntry | null;
+  total_players: number;
+  mode: z.infer<typeof GameModeSchema> | 'all';
+  window: LeaderboardWindow;
+  window_start: Date | null;
+  rank_by: LeaderboardRankBy;
+  min_games: number;
+}
+
+export type LeaderboardWindow = z.infer<typeof LeaderboardWindowSchema>;
+export type LeaderboardRankBy = z.infer<typeof LeaderboardRankBySchema>;
+export type LeaderboardQuery = z.infer<typeof LeaderboardQuerySchema>;
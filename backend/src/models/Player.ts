@@ -0,0 +1,112 @@
+import { z } from 'zod';
+import { isValidTimezone } from '../utils/dailyClock';
+import { SkillRatingSchema } from './SkillRating';
+
+// Guests get a generated username with this prefix
+export const GUEST_USERNAME_PREFIX = 'guest-';
+
+// Usernames are matched case-insensitively, so they are stored lowercased;
+// display_name keeps the casing the player typed
+const UsernameSchema = z.string()
+  .trim()
+  .min(3, 'Username must be at least 3 characters')
+  .max(24, 'Username must be at most 24 characters')
+  .regex(/^[a-zA-Z0-9_-]+$/, 'Username may only contain letters, numbers, _ and -')
+  .refine(name => !name.toLowerCase().startsWith(GUEST_USERNAME_PREFIX), {
+    message: `Usernames starting with "${GUEST_USERNAME_PREFIX}" are reserved`
+  });
+
+const PasswordSchema = z.string()
+  .min(8, 'Password must be at least 8 characters')
+  .max(128, 'Password must be at most 128 characters');
+
+// IANA zone name such as "Europe/Berlin", as reported by the browser
+const TimezoneSchema = z.string()
+  .trim()
+  .refine(isValidTimezone, { message: 'Unknown timezone' });
+
+// Attendance in daily mode: consecutive dates with a completed daily.
+// Freezes, earned by perfect dailies, are spent on missed days to keep the
+// streak going.
+export const DailyStreakSchema = z.object({
+  current: z.number().int().min(0),
+  longest: z.number().int().min(0),
+  last_date: z.string().optional(), // last daily completed, YYYY-MM-DD
+  days_played: z.number().int().min(0),
+  missed_days: z.number().int().min(0), // between the first and last daily
+  perfect_days: z.number().int().min(0),
+  freezes: z.number().int().min(0),
+  freezes_used: z.number().int().min(0)
+});
+
+export const PlayerSchema = z.object({
+  player_id: z.string().uuid(),
+  username: z.string(),
+  display_name: z.string(),
+  password_hash: z.string(), // scrypt$<salt>$<hash>, never leaves the server; empty for guests
+  is_guest: z.boolean().optional(), // anonymous identity that can be upgraded to an account
+  timezone: z.string().optional(), // decides when the player's daily rolls over
+  daily_streak: DailyStreakSchema.optional(),
+  skill_rating: SkillRatingSchema.optional(), // unset until the first round
+  created_at: z.date(),
+  updated_at: z.date(),
+  last_login: z.date().optional()
+});
+
+export const RegisterPlayerSchema = z.object({
+  username: UsernameSchema,
+  password: PasswordSchema
+});
+
+export const LoginPlayerSchema = z.object({
+  username: z.string().trim().min(1, 'Username is required'),
+  password: z.string().min(1, 'Password is required')
+});
+
+// Turns the calling guest into a named account. With existing_account the
+// credentials must match an existing player, which absorbs the guest's history.
+export const UpgradePlayerSchema = z.object({
+  username: z.string().trim().min(1, 'Username is required'),
+  password: z.string().min(1, 'Password is required'),
+  existing_account: z.boolean().optional().default(false)
+}).superRefine((data, ctx) => {
+  // A brand-new account must satisfy the registration rules
+  if (data.existing_account) return;
+  const result = RegisterPlayerSchema.safeParse(data);
+  if (!result.success) {
+    result.error.issues.forEach(issue => ctx.addIssue(issue));
+  }
+});
+
+// Settings players change about themselves
+export const UpdatePlayerSettingsSchema = z.object({
+  timezone: TimezoneSchema
+});
+
+export type Player = z.infer<typeof PlayerSchema>;
+export type RegisterPlayerData = z.infer<typeof RegisterPlayerSchema>;
+export type LoginPlayerData = z.infer<typeof LoginPlayerSchema>;
+export type UpgradePlayerData = z.infer<typeof UpgradePlayerSchema>;
+export type DailyStreak = z.infer<typeof DailyStreakSchema>;
+export type UpdatePlayerSettingsData = z.infer<typeof UpdatePlayerSettingsSchema>;
+
+// Player as exposed through the API and attached to authenticated requests
+export type PublicPlayer = Omit<Player, 'password_hash'>;
+
+// A player's daily streak as of their current daily date
+export interface DailyStreakStats {
+  current: number; // 0 once more days were missed than freezes could cover
+  longest: number;
+  daysPlayed: number;
+  missedDays: number;
+  perfectDays: number;
+  freezes: number;
+  freezesUsed: number;
+  lastPlayedDate?: string;
+}
+
+export interface AuthResult {
+  token: string;
+  expires_in: string;
+  player: PublicPlayer;
+}
@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import type { GameMode } from './GameSession';
+
+// How one round's points were made up. Stored on the round, so a score can be
+// explained even after the rules it was computed with have been superseded.
+export const RoundScoreBreakdownSchema = z.object({
+  scoring_version: z.string(),
+  base: z.number().min(0),
+  difficulty_bonus: z.number().min(0),
+  time_bonus: z.number().min(0),
+  streak_multiplier: z.number().min(1),
+  credit: z.number().min(0).max(1).optional(), // image set rounds: points are scaled by it
+  confidence: z.number().min(50).max(100).optional(), // confidence-scored rounds, in percent
+  brier_score: z.number().min(0).max(1).optional(), // (outcome - confidence)², lower is better
+  total: z.number().min(0)
+});
+
+export type RoundScoreBreakdown = z.infer<typeof RoundScoreBreakdownSchema>;
+
+// Points added once when a session completes
+export interface CompletionBonuses {
+  scoring_version: string;
+  challenge: number; // share of the daily challenge's points_reward
+  perfect: number;
+  speed: number;
+  total: number;
+}
+
+// Rounds answered with a confidence in one band, e.g. 90-100%
+export interface CalibrationBucket {
+  min_confidence: number;
+  max_confidence: number;
+  rounds: number;
+  average_confidence: number;
+  accuracy: number; // percent right; matches average_confidence when well calibrated
+}
+
+// How well a player's confidence matches how often they are right
+export interface PlayerCalibration {
+  rounds: number;
+  brier_score: number | null; // mean over rounds with a confidence; 0 is perfect, 0.25 is a coin flip
+  average_confidence: number;
+  accuracy: number;
+  buckets: CalibrationBucket[];
+}
+
+// One version of the scoring rules for a game mode. Rule sets are never
+// changed once sessions have been scored with them; add a new version instead.
+export interface ScoringRuleSet {
+  version: string;
+  game_mode: GameMode;
+  description: string;
+  round: {
+    base_points: number;
+    difficulty_bonus_per_level: number;
+    max_time_bonus: number; // for an instant answer
+    time_bonus_per_second: number; // lost per second taken
+    streak_multiplier_per_correct: number; // 0 for no streak multiplier
+    rounding: 'round' | 'floor';
+    // When set, a round earns confidence_points × (1 - Brier score) of the
+    // player's confidence instead of base, difficulty and time points
+    confidence_points?: number;
+  };
+  completion: {
+    challenge_reward: boolean; // award the challenge's points_reward pro rata
+    perfect_bonus: number; // all `rounds` rounds correct
+    speed_bonus: number;
+    speed_max_average_ms: number; // average response time needed for the speed bonus
+    speed_min_correct: number; // and at least this many correct answers
+    rounds: number;
+  };
+}
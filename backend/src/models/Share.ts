@@ -0,0 +1,41 @@
+import { z } from 'zod';
+
+// Share ids go into public URLs, so they are short and url-safe
+export const ShareIdSchema = z.string().regex(/^[A-Za-z0-9_-]{12}$/, 'Invalid share ID format');
+
+// A completed daily game a player has chosen to share. The results are read
+// from the session's rounds on request; the streak is kept as it stood when
+// the player shared, so the card doesn't change as the streak moves on.
+export const SharedResultSchema = z.object({
+  share_id: ShareIdSchema,
+  session_id: z.string().uuid(),
+  player_id: z.string(),
+  daily_streak: z.number().min(0),
+  created_at: z.date()
+});
+
+export type SharedResult = z.infer<typeof SharedResultSchema>;
+
+export type ShareRoundResult = 'correct' | 'wrong' | 'timeout';
+
+// What anyone with the link can see. It never names the pairs or which image
+// was the AI one, so sharing on the day gives nothing away.
+export interface ShareSummary {
+  share_id: string;
+  puzzle_number: number;
+  date: string; // YYYY-MM-DD
+  display_name: string;
+  results: ShareRoundResult[];
+  correct_answers: number;
+  total_rounds: number;
+  average_response_time: number; // milliseconds, over answered rounds
+  total_score: number;
+  daily_streak: number;
+}
+
+// Returned to the player who shared
+export interface ShareResult extends ShareSummary {
+  text: string;
+  path: string; // public results page
+  image_path: string; // PNG result card
+}
@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+// Elo-style skill of a player, or difficulty of a pair, updated after every
+// round the two meet in. Ratings with few games behind them move faster.
+export const SkillRatingSchema = z.object({
+  rating: z.number(),
+  games: z.number().int().min(0)
+});
+
+export type SkillRating = z.infer<typeof SkillRatingSchema>;
@@ -0,0 +1,100 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createDataStore } from './createDataStore';
+import { EntityDefinition, StorageDriver } from './Repository';
+
+interface Note {
+  id: string;
+  title: string;
+  pinned: boolean;
+  created_at: Date;
+  meta: { edited_at?: Date };
+}
+
+const NoteEntity: EntityDefinition<Note> = {
+  name: 'notes',
+  file: 'notes.json',
+  key: 'id',
+  dateFields: ['created_at', 'meta.edited_at'],
+  indexes: ['pinned', 'title'],
+  uniqueFields: ['title']
+};
+
+const note = (id: string, overrides: Partial<Note> = {}): Note => ({
+  id,
+  title: `note ${id}`,
+  pinned: false,
+  created_at: new Date('2026-01-02T03:04:05.000Z'),
+  meta: {},
+  ...overrides
+});
+
+// Both drivers must behave the same behind the Repository contract
+describe.each<StorageDriver>(['json', 'sqlite'])('%s data store', driver => {
+  let dataPath: string;
+
+  const open = async () => {
+    const store = createDataStore(dataPath, driver);
+    const notes = store.repository(NoteEntity);
+    await store.load();
+    return { store, notes };
+  };
+
+  beforeEach(() => {
+    dataPath = fs.mkdtempSync(path.join(os.tmpdir(), `${driver}-store-`));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataPath, { recursive: true, force: true });
+  });
+
+  it('saves, updates and deletes by key', async () => {
+    const { store, notes } = await open();
+    await notes.save(note('a'));
+    await notes.saveMany([note('b'), note('c')]);
+
+    expect(await notes.update('a', { title: 'renamed' })).toMatchObject({ id: 'a', title: 'renamed', pinned: false });
+    expect(await notes.update('missing', { title: 'x' })).toBeNull();
+    expect(await notes.delete('b')).toBe(true);
+    expect(await notes.delete('b')).toBe(false);
+    expect((await notes.getAll()).map(entity => entity.id).sort()).toEqual(['a', 'c']);
+    await store.close();
+  });
+
+  it('filters on indexed fields, ignoring undefined values', async () => {
+    const { store, notes } = await open();
+    await notes.saveMany([note('a', { pinned: true }), note('b'), note('c', { pinned: true })]);
+
+    expect((await notes.find({ pinned: true })).map(entity => entity.id).sort()).toEqual(['a', 'c']);
+    expect(await notes.find({ pinned: true, title: undefined })).toHaveLength(2);
+    expect((await notes.findIn('title', ['note b', 'note c'])).map(entity => entity.id).sort()).toEqual(['b', 'c']);
+    expect(await notes.findIn('title', [])).toEqual([]);
+    expect(await notes.count({ pinned: false })).toBe(1);
+    expect(await notes.count()).toBe(3);
+    await store.close();
+  });
+
+  it('keeps data and dates, nested ones included, across a restart', async () => {
+    const first = await open();
+    const editedAt = new Date('2026-02-03T04:05:06.000Z');
+    await first.notes.save(note('a', { meta: { edited_at: editedAt } }));
+    await first.store.close();
+
+    const { store, notes } = await open();
+    const reloaded = await notes.get('a');
+    expect(reloaded).toEqual(note('a', { meta: { edited_at: editedAt } }));
+    expect(reloaded!.meta.edited_at).toBeInstanceOf(Date);
+    await store.close();
+  });
+
+  it('rejects a unique field already used by another record, whatever its case', async () => {
+    const { store, notes } = await open();
+    await notes.save(note('a', { title: 'Shopping' }));
+
+    await expect(notes.save(note('b', { title: 'SHOPPING' }))).rejects.toThrow('Duplicate title in notes');
+    await expect(notes.update('a', { title: 'shopping', pinned: true })).resolves.toMatchObject({ pinned: true });
+    expect(await notes.count()).toBe(1);
+    await store.close();
+  });
+});
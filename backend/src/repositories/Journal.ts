@@ -0,0 +1,131 @@
+import fs from 'fs';
+import path from 'path';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('Journal');
+
+// Append-only write-ahead journal for the JSON store. Every mutation is
+// written (and fsynced) as one JSON line before it is applied in memory, and
+// replayed on top of the snapshot files at startup. Entries carry the full
+// record, so replaying an entry that is already in the snapshot is harmless.
+
+export type JournalEntry =
+  | { op: 'put'; entity: string; id: string; value: unknown }
+  | { op: 'delete'; entity: string; id: string };
+
+export class Journal {
+  private fd: number | null = null;
+  private size = 0;
+
+  constructor(private filePath: string) {}
+
+  public get byteSize(): number {
+    return this.size;
+  }
+
+  // Reads every complete entry. A torn final line (the process died mid-append)
+  // is dropped and cut off the file so new entries start on a clean line.
+  public replay(): JournalEntry[] {
+    if (!fs.existsSync(this.filePath)) return [];
+
+    const content = fs.readFileSync(this.filePath);
+    const entries: JournalEntry[] = [];
+    let offset = 0;
+    let validBytes = 0;
+
+    while (offset < content.length) {
+      const newline = content.indexOf(0x0a, offset);
+      const end = newline === -1 ? content.length : newline;
+      const line = content.subarray(offset, end).toString('utf-8').trim();
+      const isLastLine = newline === -1 || end + 1 >= content.length;
+
+      if (line) {
+        try {
+          entries.push(JSON.parse(line));
+        } catch (error) {
+          if (isLastLine) {
+            logger.warn(`Discarding truncated journal entry at byte ${offset}`);
+            break;
+          }
+          // Appends are sequential, so this is damage rather than a crash; keep
+          // the surrounding entries instead of refusing to start
+          logger.error(`Skipping corrupt journal entry at byte ${offset}`, { error: (error as Error).message });
+        }
+      }
+
+      if (newline === -1) {
+        // Parsed fine but never got its newline; keep it and terminate it below
+        validBytes = content.length;
+        break;
+      }
+      offset = newline + 1;
+      validBytes = offset;
+    }
+
+    if (validBytes < content.length) {
+      fs.truncateSync(this.filePath, validBytes);
+    } else if (content.length > 0 && content[content.length - 1] !== 0x0a) {
+      fs.appendFileSync(this.filePath, '\n');
+      validBytes += 1;
+    }
+
+    this.size = validBytes;
+    return entries;
+  }
+
+  public append(entry: JournalEntry): void {
+    const line = Buffer.from(JSON.stringify(entry) + '\n', 'utf-8');
+    const fd = this.open();
+    fs.writeSync(fd, line);
+    fs.fdatasyncSync(fd);
+    this.size += line.length;
+  }
+
+  // Called once the snapshot files contain everything in the journal
+  public truncate(): void {
+    const fd = this.open();
+    fs.ftruncateSync(fd, 0);
+    fs.fdatasyncSync(fd);
+    this.size = 0;
+  }
+
+  public close(): void {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  private open(): number {
+    if (this.fd === null) {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      this.fd = fs.openSync(this.filePath, 'a');
+    }
+    return this.fd;
+  }
+}
+
+// Writes a file so readers see either the old or the new content, never a
+// partial one: temp file, fsync, rename over the target, fsync the directory.
+export const writeFileAtomicSync = (filePath: string, content: string): void => {
+  const tempPath = `${filePath}.tmp`;
+  const fd = fs.openSync(tempPath, 'w');
+  try {
+    fs.writeSync(fd, content);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(tempPath, filePath);
+
+  try {
+    const dirFd = fs.openSync(path.dirname(filePath), 'r');
+    try {
+      fs.fsyncSync(dirFd);
+    } finally {
+      fs.closeSync(dirFd);
+    }
+  } catch {
+    // Directory fsync is not supported on every platform
+  }
+};
@@ -0,0 +1,128 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { JsonDataStore } from './JsonDataStore';
+import { EntityDefinition } from './Repository';
+
+interface Note {
+  id: string;
+  title: string;
+  created_at: Date;
+}
+
+const NoteEntity: EntityDefinition<Note> = {
+  name: 'notes',
+  file: 'notes.json',
+  key: 'id',
+  dateFields: ['created_at'],
+  indexes: []
+};
+
+const note = (id: string, title = `note ${id}`): Note => ({
+  id,
+  title,
+  created_at: new Date('2026-01-02T03:04:05.000Z')
+});
+
+describe('JsonDataStore', () => {
+  let dataPath: string;
+  let journalPath: string;
+
+  // A fresh store over the same directory, as after a restart
+  const open = async () => {
+    const store = new JsonDataStore(dataPath);
+    const notes = store.repository(NoteEntity);
+    await store.load();
+    return { store, notes };
+  };
+
+  beforeEach(() => {
+    dataPath = fs.mkdtempSync(path.join(os.tmpdir(), 'json-store-'));
+    journalPath = path.join(dataPath, 'journal.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataPath, { recursive: true, force: true });
+  });
+
+  it('replays writes that never reached a snapshot', async () => {
+    const { notes } = await open();
+    await notes.save(note('a'));
+    await notes.save(note('b'));
+    await notes.update('a', { title: 'renamed' });
+    await notes.delete('b');
+
+    // No flush: only the journal has them
+    const reopened = await open();
+    expect(await reopened.notes.getAll()).toEqual([{ ...note('a'), title: 'renamed' }]);
+  });
+
+  it('revives dates from the snapshot and the journal', async () => {
+    const { store, notes } = await open();
+    await notes.save(note('a'));
+    await store.flush();
+    await notes.save(note('b'));
+
+    const reopened = await open();
+    expect((await reopened.notes.get('a'))!.created_at).toBeInstanceOf(Date);
+    expect((await reopened.notes.get('b'))!.created_at).toBeInstanceOf(Date);
+  });
+
+  it('empties the journal when it flushes', async () => {
+    const { store, notes } = await open();
+    await notes.save(note('a'));
+    await store.flush();
+
+    expect(fs.statSync(journalPath).size).toBe(0);
+    const reopened = await open();
+    expect(await reopened.notes.get('a')).toEqual(note('a'));
+  });
+
+  it('drops a torn final entry and appends after it on a clean line', async () => {
+    const { notes } = await open();
+    await notes.save(note('a'));
+    // The process died halfway through appending the next entry
+    fs.appendFileSync(journalPath, '{"op":"put","entity":"notes","id":"b","val');
+
+    const afterCrash = await open();
+    expect((await afterCrash.notes.getAll()).map(entity => entity.id)).toEqual(['a']);
+
+    await afterCrash.notes.save(note('c'));
+    const reopened = await open();
+    expect((await reopened.notes.getAll()).map(entity => entity.id)).toEqual(['a', 'c']);
+  });
+
+  it('keeps an entry whose newline was never written', async () => {
+    const { notes } = await open();
+    await notes.save(note('a'));
+    fs.appendFileSync(journalPath, JSON.stringify({ op: 'put', entity: 'notes', id: 'b', value: note('b') }));
+
+    const afterCrash = await open();
+    await afterCrash.notes.save(note('c'));
+
+    const reopened = await open();
+    expect((await reopened.notes.getAll()).map(entity => entity.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('skips a damaged entry in the middle of the journal', async () => {
+    const { notes } = await open();
+    await notes.save(note('a'));
+    fs.appendFileSync(journalPath, 'not json\n');
+    fs.appendFileSync(journalPath, JSON.stringify({ op: 'put', entity: 'notes', id: 'b', value: note('b') }) + '\n');
+
+    const reopened = await open();
+    expect((await reopened.notes.getAll()).map(entity => entity.id)).toEqual(['a', 'b']);
+  });
+
+  it('moves an unreadable snapshot aside and still replays the journal', async () => {
+    const { store, notes } = await open();
+    await notes.save(note('a'));
+    await store.flush();
+    await notes.save(note('b'));
+    fs.writeFileSync(path.join(dataPath, 'notes.json'), '{"a": {');
+
+    const reopened = await open();
+    expect((await reopened.notes.getAll()).map(entity => entity.id)).toEqual(['b']);
+    expect(fs.readdirSync(dataPath).some(file => file.startsWith('notes.json.corrupt-'))).toBe(true);
+  });
+});
@@ -0,0 +1,217 @@
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  DataStore,
+  EntityDefinition,
+  EntityFilter,
+  Repository,
+  duplicateEntityError,
+  matchesFilter,
+  reviveDates
+} from './Repository';
+import { Journal, JournalEntry, writeFileAtomicSync } from './Journal';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('JsonDataStore');
+
+const JOURNAL_FILE = 'journal.jsonl';
+
+// Compact early once the journal grows past this, rather than waiting for the timer
+const JOURNAL_COMPACT_BYTES = 8 * 1024 * 1024;
+
+class JsonRepository<T> implements Repository<T> {
+  public readonly records: Map<string, T> = new Map();
+
+  constructor(
+    private definition: EntityDefinition<T>,
+    private record: (entry: JournalEntry) => void
+  ) {}
+
+  public async get(id: string): Promise<T | null> {
+    return this.records.get(id) || null;
+  }
+
+  public async getAll(): Promise<T[]> {
+    return Array.from(this.records.values());
+  }
+
+  public async find(filter: EntityFilter<T>): Promise<T[]> {
+    return Array.from(this.records.values()).filter(entity => matchesFilter(entity, filter));
+  }
+
+  public async findIn(field: keyof T & string, values: string[]): Promise<T[]> {
+    const wanted = new Set(values);
+    return Array.from(this.records.values()).filter(entity =>
+      wanted.has((entity as Record<string, any>)[field])
+    );
+  }
+
+  public async count(filter?: EntityFilter<T>): Promise<number> {
+    if (!filter) return this.records.size;
+    return (await this.find(filter)).length;
+  }
+
+  public async save(entity: T): Promise<T> {
+    this.put(entity);
+    return entity;
+  }
+
+  public async saveMany(entities: T[]): Promise<void> {
+    entities.forEach(entity => this.put(entity));
+  }
+
+  public async update(id: string, updates: Partial<T>): Promise<T | null> {
+    const existing = this.records.get(id);
+    if (!existing) return null;
+
+    const updated = { ...existing, ...updates };
+    this.put(updated);
+    return updated;
+  }
+
+  public async delete(id: string): Promise<boolean> {
+    if (!this.records.has(id)) return false;
+
+    this.record({ op: 'delete', entity: this.definition.name, id });
+    return this.records.delete(id);
+  }
+
+  // Journals the full record before applying it, so a crash after this line
+  // is recovered on the next load
+  private put(entity: T): void {
+    const id = String(entity[this.definition.key]);
+    this.checkUnique(id, entity);
+    this.record({ op: 'put', entity: this.definition.name, id, value: entity });
+    this.records.set(id, entity);
+  }
+
+  private checkUnique(id: string, entity: T): void {
+    const existing = this.records.get(id);
+    for (const field of this.definition.uniqueFields || []) {
+      const value = String(entity[field] ?? '').toLowerCase();
+      if (existing && String(existing[field] ?? '').toLowerCase() === value) continue;
+
+      for (const [otherId, other] of this.records) {
+        if (otherId !== id && String(other[field] ?? '').toLowerCase() === value) {
+          throw duplicateEntityError(this.definition, field);
+        }
+      }
+    }
+  }
+}
+
+// In-memory store backed by one JSON snapshot file per entity plus a shared
+// write-ahead journal. flush() compacts: it rewrites the snapshots atomically
+// and empties the journal.
+export class JsonDataStore implements DataStore {
+  public readonly driver = 'json' as const;
+  private repositories: Map<string, { definition: EntityDefinition<any>; repository: JsonRepository<any> }> = new Map();
+  private journal: Journal;
+  private compactionScheduled = false;
+
+  constructor(private dataPath: string) {
+    this.journal = new Journal(path.join(dataPath, JOURNAL_FILE));
+  }
+
+  public repository<T>(definition: EntityDefinition<T>): Repository<T> {
+    let entry = this.repositories.get(definition.name);
+    if (!entry) {
+      entry = {
+        definition,
+        repository: new JsonRepository<T>(definition, journalEntry => this.record(journalEntry))
+      };
+      this.repositories.set(definition.name, entry);
+    }
+    return entry.repository;
+  }
+
+  public async load(): Promise<void> {
+    for (const { definition, repository } of this.repositories.values()) {
+      const filePath = path.join(this.dataPath, definition.file);
+      await this.removeFile(`${filePath}.tmp`);
+      if (!(await this.fileExists(filePath))) continue;
+
+      let data: Record<string, unknown>;
+      try {
+        data = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      } catch (error) {
+        // Keep the damaged file for inspection; the journal still replays on top
+        const corruptPath = `${filePath}.corrupt-${Date.now()}`;
+        await fs.rename(filePath, corruptPath);
+        logger.error(`Unreadable snapshot ${definition.file}, moved to ${path.basename(corruptPath)}`, error);
+        continue;
+      }
+
+      Object.entries(data).forEach(([id, entity]) => {
+        repository.records.set(id, reviveDates(entity, definition.dateFields));
+      });
+      logger.info(`Loaded ${repository.records.size} ${definition.name}`);
+    }
+
+    const entries = this.journal.replay();
+    entries.forEach(entry => this.apply(entry));
+    if (entries.length > 0) {
+      logger.info(`Replayed ${entries.length} journal entries`);
+    }
+  }
+
+  // Synchronous on purpose: no mutation can land between writing the
+  // snapshots and truncating the journal
+  public async flush(): Promise<void> {
+    for (const { definition, repository } of this.repositories.values()) {
+      writeFileAtomicSync(
+        path.join(this.dataPath, definition.file),
+        JSON.stringify(Object.fromEntries(repository.records.entries()), null, 2)
+      );
+    }
+    this.journal.truncate();
+  }
+
+  public async close(): Promise<void> {
+    await this.flush();
+    this.journal.close();
+  }
+
+  private record(entry: JournalEntry): void {
+    this.journal.append(entry);
+
+    if (this.journal.byteSize > JOURNAL_COMPACT_BYTES && !this.compactionScheduled) {
+      this.compactionScheduled = true;
+      // Deferred so the mutation that triggered it is applied first
+      setImmediate(() => {
+        this.compactionScheduled = false;
+        this.flush().catch(error => logger.error('Journal compaction failed', error));
+      });
+    }
+  }
+
+  private apply(entry: JournalEntry): void {
+    const registered = this.repositories.get(entry.entity);
+    if (!registered) {
+      logger.warn(`Skipping journal entry for unknown entity "${entry.entity}"`);
+      return;
+    }
+
+    const { definition, repository } = registered;
+    if (entry.op === 'put') {
+      repository.records.set(entry.id, reviveDates(entry.value, definition.dateFields));
+    } else {
+      repository.records.delete(entry.id);
+    }
+  }
+
+  private async fileExists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async removeFile(filePath: string): Promise<void> {
+    if (await this.fileExists(filePath)) {
+      await fs.unlink(filePath);
+    }
+  }
+}
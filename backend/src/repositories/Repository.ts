@@ -0,0 +1,62 @@
+// Storage-agnostic persistence contracts. Services talk to DatabaseService,
+// which delegates to one Repository per entity on the configured DataStore.
+
+export type StorageDriver = 'json' | 'sqlite';
+
+// Equality filter on top-level fields; undefined values are ignored
+export type EntityFilter<T> = Partial<Record<keyof T & string, unknown>>;
+
+export interface EntityDefinition<T> {
+  name: string;            // table name / label
+  file: string;            // JSON snapshot file name
+  key: keyof T & string;   // primary key field
+  dateFields: string[];    // dot paths revived into Date objects on load
+  indexes: Array<keyof T & string>; // fields queried through find()
+  uniqueFields?: Array<keyof T & string>; // case-insensitively unique; saving a duplicate throws
+}
+
+export interface Repository<T> {
+  get(id: string): Promise<T | null>;
+  getAll(): Promise<T[]>;
+  find(filter: EntityFilter<T>): Promise<T[]>;
+  findIn(field: keyof T & string, values: string[]): Promise<T[]>;
+  count(filter?: EntityFilter<T>): Promise<number>;
+  save(entity: T): Promise<T>;
+  saveMany(entities: T[]): Promise<void>;
+  update(id: string, updates: Partial<T>): Promise<T | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface DataStore {
+  readonly driver: StorageDriver;
+  repository<T>(definition: EntityDefinition<T>): Repository<T>;
+  load(): Promise<void>;
+  flush(): Promise<void>;
+  close(): Promise<void>;
+}
+
+export const duplicateEntityError = (definition: EntityDefinition<any>, field: string): Error => {
+  return new Error(`Duplicate ${field} in ${definition.name}`);
+};
+
+export const matchesFilter = <T>(entity: T, filter: EntityFilter<T>): boolean => {
+  return Object.entries(filter).every(([field, value]) =>
+    value === undefined || (entity as Record<string, unknown>)[field] === value
+  );
+};
+
+// Converts ISO strings at the given dot paths back into Date objects
+export const reviveDates = <T>(entity: any, dateFields: string[]): T => {
+  for (const fieldPath of dateFields) {
+    const parts = fieldPath.split('.');
+    let target = entity;
+    for (const part of parts.slice(0, -1)) {
+      target = target?.[part];
+    }
+    const last = parts[parts.length - 1];
+    if (target && target[last] !== undefined && target[last] !== null) {
+      target[last] = new Date(target[last]);
+    }
+  }
+  return entity as T;
+};
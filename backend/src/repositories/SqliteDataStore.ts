@@ -0,0 +1,204 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import {
+  DataStore,
+  EntityDefinition,
+  EntityFilter,
+  Repository,
+  duplicateEntityError,
+  reviveDates
+} from './Repository';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('SqliteDataStore');
+
+// SQLite builds before 3.32 allow 999 bound variables per statement
+const MAX_IN_VALUES = 900;
+
+// SQLite cannot bind booleans or dates; JSON stores booleans as 1/0
+const toSqlValue = (value: unknown): unknown => {
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return value.toISOString();
+  return value;
+};
+
+class SqliteRepository<T> implements Repository<T> {
+  constructor(private db: Database.Database, private definition: EntityDefinition<T>) {}
+
+  public async get(id: string): Promise<T | null> {
+    return this.read(id);
+  }
+
+  public async getAll(): Promise<T[]> {
+    const rows = this.db.prepare(`SELECT data FROM ${this.definition.name}`).all() as Array<{ data: string }>;
+    return rows.map(row => this.deserialize(row.data));
+  }
+
+  public async find(filter: EntityFilter<T>): Promise<T[]> {
+    const { where, params } = this.buildWhere(filter);
+    const rows = this.db
+      .prepare(`SELECT data FROM ${this.definition.name}${where}`)
+      .all(...params) as Array<{ data: string }>;
+    return rows.map(row => this.deserialize(row.data));
+  }
+
+  public async findIn(field: keyof T & string, values: string[]): Promise<T[]> {
+    const results: T[] = [];
+
+    // One query per chunk keeps each statement under SQLite's bound-variable limit
+    for (let offset = 0; offset < values.length; offset += MAX_IN_VALUES) {
+      const chunk = values.slice(offset, offset + MAX_IN_VALUES);
+      const placeholders = chunk.map(() => '?').join(', ');
+      const rows = this.db
+        .prepare(`SELECT data FROM ${this.definition.name} WHERE ${this.column(field)} IN (${placeholders})`)
+        .all(...chunk) as Array<{ data: string }>;
+      rows.forEach(row => results.push(this.deserialize(row.data)));
+    }
+    return results;
+  }
+
+  public async count(filter: EntityFilter<T> = {}): Promise<number> {
+    const { where, params } = this.buildWhere(filter);
+    const row = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM ${this.definition.name}${where}`)
+      .get(...params) as { total: number };
+    return row.total;
+  }
+
+  public async save(entity: T): Promise<T> {
+    this.upsert(entity);
+    return entity;
+  }
+
+  public async saveMany(entities: T[]): Promise<void> {
+    this.db.transaction((batch: T[]) => batch.forEach(entity => this.upsert(entity)))(entities);
+  }
+
+  // Reads and writes without yielding, so concurrent updates of different
+  // fields of one record can't overwrite each other
+  public async update(id: string, updates: Partial<T>): Promise<T | null> {
+    const existing = this.read(id);
+    if (!existing) return null;
+
+    const updated = { ...existing, ...updates };
+    this.upsert(updated);
+    return updated;
+  }
+
+  public async delete(id: string): Promise<boolean> {
+    const result = this.db.prepare(`DELETE FROM ${this.definition.name} WHERE id = ?`).run(id);
+    return result.changes > 0;
+  }
+
+  private read(id: string): T | null {
+    const row = this.db
+      .prepare(`SELECT data FROM ${this.definition.name} WHERE id = ?`)
+      .get(id) as { data: string } | undefined;
+    return row ? this.deserialize(row.data) : null;
+  }
+
+  // An upsert rather than INSERT OR REPLACE, which would resolve a unique
+  // index conflict by deleting the other row
+  private upsert(entity: T): void {
+    try {
+      this.db
+        .prepare(
+          `INSERT INTO ${this.definition.name} (id, data) VALUES (?, ?) ` +
+          `ON CONFLICT(id) DO UPDATE SET data = excluded.data`
+        )
+        .run(String(entity[this.definition.key]), JSON.stringify(entity));
+    } catch (error: any) {
+      if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+        const field = (this.definition.uniqueFields || []).find(unique => error.message.includes(`_${unique}`));
+        throw duplicateEntityError(this.definition, field || 'value');
+      }
+      throw error;
+    }
+  }
+
+  private buildWhere(filter: EntityFilter<T>): { where: string; params: unknown[] } {
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+
+    Object.entries(filter).forEach(([field, value]) => {
+      if (value === undefined) return;
+      if (value === null) {
+        clauses.push(`${this.column(field)} IS NULL`);
+      } else {
+        clauses.push(`${this.column(field)} = ?`);
+        params.push(toSqlValue(value));
+      }
+    });
+
+    return { where: clauses.length > 0 ? ` WHERE ${clauses.join(' AND ')}` : '', params };
+  }
+
+  private column(field: string): string {
+    if (!/^[a-z_]+$/i.test(field)) {
+      throw new Error(`Invalid field name: ${field}`);
+    }
+    return `json_extract(data, '$.${field}')`;
+  }
+
+  private deserialize(data: string): T {
+    return reviveDates<T>(JSON.parse(data), this.definition.dateFields);
+  }
+}
+
+// File-based SQLite store. Each entity is a table of JSON documents with
+// expression indexes on the fields the services query by.
+export class SqliteDataStore implements DataStore {
+  public readonly driver = 'sqlite' as const;
+  private db: Database.Database;
+  private repositories: Map<string, SqliteRepository<any>> = new Map();
+
+  constructor(private filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+  }
+
+  public repository<T>(definition: EntityDefinition<T>): Repository<T> {
+    let repository = this.repositories.get(definition.name);
+    if (!repository) {
+      this.createTable(definition);
+      repository = new SqliteRepository<T>(this.db, definition);
+      this.repositories.set(definition.name, repository);
+    }
+    return repository;
+  }
+
+  public async load(): Promise<void> {
+    logger.info(`Using SQLite database at ${this.filePath}`);
+  }
+
+  public async flush(): Promise<void> {
+    // Every write is already committed to the database file
+  }
+
+  public async close(): Promise<void> {
+    this.db.close();
+  }
+
+  private createTable(definition: EntityDefinition<any>): void {
+    this.db.exec(`CREATE TABLE IF NOT EXISTS ${definition.name} (id TEXT PRIMARY KEY, data TEXT NOT NULL)`);
+    for (const field of definition.indexes) {
+      this.db.exec(
+        `CREATE INDEX IF NOT EXISTS idx_${definition.name}_${field} ` +
+        `ON ${definition.name} (json_extract(data, '$.${field}'))`
+      );
+    }
+    for (const field of definition.uniqueFields || []) {
+      try {
+        this.db.exec(
+          `CREATE UNIQUE INDEX IF NOT EXISTS uidx_${definition.name}_${field} ` +
+          `ON ${definition.name} (lower(json_extract(data, '$.${field}')))`
+        );
+      } catch (error) {
+        // Existing duplicates have to be resolved by hand before it can be enforced
+        logger.error(`Cannot enforce unique ${field} on ${definition.name}`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import path from 'path';
+import { DataStore, StorageDriver } from './Repository';
+import { JsonDataStore } from './JsonDataStore';
+import { SqliteDataStore } from './SqliteDataStore';
+
+export const getStorageDriver = (): StorageDriver => {
+  const driver = (process.env.DB_DRIVER || 'json').toLowerCase();
+  if (driver !== 'json' && driver !== 'sqlite') {
+    throw new Error(`Unsupported DB_DRIVER "${driver}" (expected json or sqlite)`);
+  }
+  return driver;
+};
+
+export const getSqlitePath = (dataPath: string): string => {
+  return process.env.SQLITE_PATH || path.join(dataPath, 'bot-or-not.db');
+};
+
+export const createDataStore = (dataPath: string, driver: StorageDriver = getStorageDriver()): DataStore => {
+  if (driver === 'sqlite') {
+    return new SqliteDataStore(getSqlitePath(dataPath));
+  }
+  return new JsonDataStore(dataPath);
+};
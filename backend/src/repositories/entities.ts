@@ -0,0 +1,122 @@
+import { EntityDefinition } from './Repository';
+import { Image } from '../models/Image';
+import { ImagePair } from '../models/ImagePair';
+import { ImageSet } from '../models/ImageSet';
+import { GameSession, GameRound } from '../models/GameSession';
+import { DailyChallenge, DailyPairSet } from '../models/DailyChallenge';
+import { Player } from '../models/Player';
+import { AdminUser, AdminApiToken } from '../models/AdminUser';
+import { AuditLog } from '../models/AuditLog';
+import { SharedResult } from '../models/Share';
+
+export const ImageEntity: EntityDefinition<Image> = {
+  name: 'images',
+  file: 'images.json',
+  key: 'id',
+  dateFields: ['upload_date'],
+  indexes: ['category', 'difficulty_level', 'is_ai_generated']
+};
+
+export const ImagePairEntity: EntityDefinition<ImagePair> = {
+  name: 'image_pairs',
+  file: 'pairs.json',
+  key: 'pair_id',
+  dateFields: ['creation_date', 'calibration.calibrated_at'],
+  indexes: ['category', 'difficulty_level', 'is_active']
+};
+
+export const ImageSetEntity: EntityDefinition<ImageSet> = {
+  name: 'image_sets',
+  file: 'imageSets.json',
+  key: 'set_id',
+  dateFields: ['creation_date'],
+  indexes: ['category', 'difficulty_level', 'is_active']
+};
+
+export const GameSessionEntity: EntityDefinition<GameSession> = {
+  name: 'game_sessions',
+  file: 'sessions.json',
+  key: 'session_id',
+  dateFields: ['start_time', 'end_time', 'expires_at', 'active_round.issued_at', 'active_round.deadline_at'],
+  indexes: ['player_id', 'game_mode', 'is_completed', 'daily_challenge_date']
+};
+
+export const GameRoundEntity: EntityDefinition<GameRound> = {
+  name: 'game_rounds',
+  file: 'rounds.json',
+  key: 'round_id',
+  dateFields: ['timestamp'],
+  indexes: ['session_id', 'pair_id']
+};
+
+export const DailyChallengeEntity: EntityDefinition<DailyChallenge> = {
+  name: 'daily_challenges',
+  file: 'dailyChallenges.json',
+  key: 'id',
+  dateFields: ['created_at', 'updated_at'],
+  indexes: ['date']
+};
+
+export const DailyPairSetEntity: EntityDefinition<DailyPairSet> = {
+  name: 'daily_pair_sets',
+  file: 'dailyPairSets.json',
+  key: 'date',
+  dateFields: ['created_at'],
+  indexes: []
+};
+
+export const PlayerEntity: EntityDefinition<Player> = {
+  name: 'players',
+  file: 'players.json',
+  key: 'player_id',
+  dateFields: ['created_at', 'updated_at', 'last_login'],
+  indexes: ['username'],
+  uniqueFields: ['username']
+};
+
+export const AdminUserEntity: EntityDefinition<AdminUser> = {
+  name: 'admin_users',
+  file: 'adminUsers.json',
+  key: 'admin_id',
+  dateFields: ['created_at', 'updated_at', 'last_login'],
+  indexes: ['username']
+};
+
+export const AdminApiTokenEntity: EntityDefinition<AdminApiToken> = {
+  name: 'admin_api_tokens',
+  file: 'adminTokens.json',
+  key: 'token_id',
+  dateFields: ['created_at', 'expires_at', 'last_used_at', 'revoked_at'],
+  indexes: ['admin_id', 'token_hash']
+};
+
+export const AuditLogEntity: EntityDefinition<AuditLog> = {
+  name: 'audit_logs',
+  file: 'auditLogs.json',
+  key: 'audit_id',
+  dateFields: ['timestamp'],
+  indexes: ['actor_username', 'operation', 'level']
+};
+
+export const SharedResultEntity: EntityDefinition<SharedResult> = {
+  name: 'shared_results',
+  file: 'sharedResults.json',
+  key: 'share_id',
+  dateFields: ['created_at'],
+  indexes: ['session_id']
+};
+
+export const ALL_ENTITIES: EntityDefinition<any>[] = [
+  ImageEntity,
+  ImagePairEntity,
+  ImageSetEntity,
+  GameSessionEntity,
+  GameRoundEntity,
+  DailyChallengeEntity,
+  DailyPairSetEntity,
+  PlayerEntity,
+  AdminUserEntity,
+  AdminApiTokenEntity,
+  AuditLogEntity,
+  SharedResultEntity
+];
@@ -1,29 +1,41 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { AdminController } from '../controllers/adminController';
 import { DailyChallengeController } from '../controllers/dailyChallengeController';
+import { AdminAuthController } from '../controllers/adminAuthController';
 import { uploadMultiple, handleUploadError } from '../middleware/upload';
-import { validateBody, validateQuery } from '../middleware/validation';
-import { requireApiKey, adminRateLimit, logAdminOperation, requireAdminPermission } from '../middleware/auth';
+import { validateBody, validateQuery, validateParams, UUIDSchema } from '../middleware/validation';
+import { requireAdmin, adminRateLimit, logAdminOperation, requireAdminPermission } from '../middleware/auth';
+import {
+  AdminLoginSchema,
+  CreateAdminUserSchema,
+  UpdateAdminUserSchema,
+  CreateAdminApiTokenSchema
+} from '../models/AdminUser';
+import { AuditLogQuerySchema } from '../models/AuditLog';
+import {
+  ScheduleDailyChallengesSchema,
+  GenerateDailyChallengesSchema,
+  DailyCalendarQuerySchema
+} from '../models/DailyChallenge';
 import { z } from 'zod';
+import path from 'path';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('admin-routes');
 
 const router = Router();
 const adminController = new AdminController();
 const dailyChallengeController = new DailyChallengeController();
+const adminAuthController = new AdminAuthController();
+
+// Admin login is the only unauthenticated admin route
+router.post('/auth/login', adminRateLimit, validateBody(AdminLoginSchema), adminAuthController.login);
 
-// Apply authentication and rate limiting to all admin routes
-router.use(requireApiKey);
+// Apply authentication and rate limiting to all other admin routes
+router.use(requireAdmin);
 router.use(adminRateLimit);
 
 // Validation schemas
-const BulkUploadMetadataSchema = z.object({
-  category: z.enum(['portrait', 'landscape', 'object', 'abstract']).optional(),
-  difficulty_level: z.string().optional().transform(val => val ? parseInt(val, 10) : 3),
-  is_ai_generated: z.string().optional().transform(val => val === 'true'),
-  source_info: z.string().optional(),
-  quality_score: z.string().optional().transform(val => val ? parseInt(val, 10) : 7),
-  tags: z.string().optional()
-});
-
 const AutoPairSchema = z.object({
   category: z.enum(['portrait', 'landscape', 'object', 'abstract']).optional()
 });
@@ -33,7 +45,7 @@ const ExportQuerySchema = z.object({
 });
 
 const LogsQuerySchema = z.object({
-  limit: z.string().optional().transform(val => val ? parseInt(val, 10) : 100),
+  limit: z.coerce.number().int().min(1).max(1000).optional().default(100),
   level: z.enum(['all', 'error', 'warn', 'info', 'debug']).optional().default('all')
 });
 
@@ -41,19 +53,55 @@ const ResetSystemSchema = z.object({
   confirmToken: z.string().min(1, 'Confirmation token is required')
 });
 
+// Current admin, admin users and API tokens
+router.get('/auth/me', adminAuthController.getCurrentAdmin);
+router.get('/users', requireAdminPermission('admins:manage'), adminAuthController.getAdmins);
+router.post(
+  '/users',
+  requireAdminPermission('admins:manage'),
+  validateBody(CreateAdminUserSchema),
+  logAdminOperation('create-admin'),
+  adminAuthController.createAdmin
+);
+router.patch(
+  '/users/:id',
+  requireAdminPermission('admins:manage'),
+  validateParams(UUIDSchema),
+  validateBody(UpdateAdminUserSchema),
+  logAdminOperation('update-admin'),
+  adminAuthController.updateAdmin
+);
+router.get('/tokens', adminAuthController.getApiTokens);
+router.post(
+  '/tokens',
+  validateBody(CreateAdminApiTokenSchema),
+  logAdminOperation('create-api-token'),
+  adminAuthController.createApiToken
+);
+router.delete(
+  '/tokens/:id',
+  validateParams(UUIDSchema),
+  logAdminOperation('revoke-api-token'),
+  adminAuthController.revokeApiToken
+);
+
 // Dashboard and statistics
-router.get('/dashboard', logAdminOperation('dashboard'), adminController.getDashboard);
-router.get('/health', logAdminOperation('health-check'), adminController.getSystemHealth);
-router.get('/performance', logAdminOperation('performance-metrics'), adminController.getPerformanceMetrics);
-router.get('/logs', validateQuery(LogsQuerySchema), logAdminOperation('view-logs'), adminController.getSystemLogs);
+router.get('/dashboard', requireAdminPermission('dashboard:read'), logAdminOperation('dashboard'), adminController.getDashboard);
+router.get('/health', requireAdminPermission('dashboard:read'), logAdminOperation('health-check'), adminController.getSystemHealth);
+router.get('/performance', requireAdminPermission('dashboard:read'), logAdminOperation('performance-metrics'), adminController.getPerformanceMetrics);
+
+// Audit trail of admin operations, and the server's own logs
+router.get('/logs', requireAdminPermission('logs:read'), validateQuery(AuditLogQuerySchema), logAdminOperation('view-audit-log'), adminController.getAuditLogs);
+router.get('/system-logs', requireAdminPermission('logs:read'), validateQuery(LogsQuerySchema), logAdminOperation('view-logs'), adminController.getSystemLogs);
 
 // Settings management
-router.get('/settings', adminController.getSettings);
-router.put('/settings', adminController.updateSettings);
+router.get('/settings', requireAdminPermission('settings:read'), adminController.getSettings);
+router.put('/settings', requireAdminPermission('settings:write'), logAdminOperation('update-settings'), adminController.updateSettings);
 
 // Bulk operations
 router.post(
   '/bulk-upload',
+  requireAdminPermission('images:write'),
   uploadMultiple.array('images', 50), // Max 50 files
   handleUploadError,
   (req: Request, res: Response, next: NextFunction) => {
@@ -89,47 +137,53 @@ router.post(
 
 router.post(
   '/auto-pairs',
+  requireAdminPermission('pairs:write'),
   validateBody(AutoPairSchema),
+  logAdminOperation('auto-pairs'),
   adminController.createAutoPairs
 );
 
 // Data management
 router.get(
   '/export',
+  requireAdminPermission('data:export'),
   validateQuery(ExportQuerySchema),
+  logAdminOperation('export-data', { audit: true }),
   adminController.exportData
 );
 
 router.post(
   '/import',
+  requireAdminPermission('data:import'),
   uploadMultiple.single('importFile'),
   handleUploadError,
+  logAdminOperation('import-data'),
   adminController.importData
 );
 
-router.post('/backup', adminController.createBackup);
+router.post('/backup', requireAdminPermission('system:backup'), logAdminOperation('create-backup'), adminController.createBackup);
 
 // Maintenance operations
 router.post(
   '/cleanup',
-  requireAdminPermission('cleanup'),
+  requireAdminPermission('system:maintenance'),
   logAdminOperation('cleanup-images'),
   adminController.cleanupImages
 );
 
 router.post(
   '/reset',
-  requireAdminPermission('reset'),
+  requireAdminPermission('system:maintenance'),
   validateBody(ResetSystemSchema),
   logAdminOperation('system-reset'),
   adminController.resetSystem
 );
 
 // File download endpoint (for exports)
-router.get('/download/:filename', (req: Request, res: Response): void => {
+router.get('/download/:filename', requireAdminPermission('data:export'), logAdminOperation('download-export', { audit: true }), (req: Request, res: Response): void => {
   try {
     const filename = req.params.filename;
-    const filePath = require('path').join(process.cwd(), 'data', 'exports', filename);
+    const filePath = path.join(process.cwd(), 'data', 'exports', filename);
     
     // Security check - ensure filename doesn't contain path traversal
     if (filename.includes('..') || filename.includes('/') || filename.includes('\\')) {
@@ -142,7 +196,7 @@ router.get('/download/:filename', (req: Request, res: Response): void => {
 
     res.download(filePath, filename, (err) => {
       if (err) {
-        console.error('Download error:', err);
+        logger.error('Download error', err);
         if (!res.headersSent) {
           res.status(404).json({
             success: false,
@@ -152,7 +206,7 @@ router.get('/download/:filename', (req: Request, res: Response): void => {
       }
     });
   } catch (error) {
-    console.error('Download endpoint error:', error);
+    logger.error('Download endpoint error', error);
     res.status(500).json({
       success: false,
       error: 'Download failed'
@@ -161,11 +215,14 @@ router.get('/download/:filename', (req: Request, res: Response): void => {
 });
 
 // Daily Challenge Management
-router.post('/daily-challenges', dailyChallengeController.createDailyChallenge);
-router.get('/daily-challenges', dailyChallengeController.getAllChallenges);
-router.get('/daily-challenges/today', dailyChallengeController.getTodaysChallenge);
-router.get('/daily-challenges/:date', dailyChallengeController.getChallengeByDate);
-router.put('/daily-challenges/:id', dailyChallengeController.updateDailyChallenge);
-router.delete('/daily-challenges/:id', dailyChallengeController.deleteDailyChallenge);
+router.post('/daily-challenges', requireAdminPermission('challenges:write'), logAdminOperation('create-daily-challenge'), dailyChallengeController.createDailyChallenge);
+router.get('/daily-challenges', requireAdminPermission('challenges:read'), dailyChallengeController.getAllChallenges);
+router.post('/daily-challenges/schedule', requireAdminPermission('challenges:write'), validateBody(ScheduleDailyChallengesSchema), logAdminOperation('schedule-daily-challenges'), dailyChallengeController.scheduleDailyChallenges);
+router.post('/daily-challenges/generate', requireAdminPermission('challenges:write'), validateBody(GenerateDailyChallengesSchema), logAdminOperation('generate-daily-challenges'), dailyChallengeController.generateDailyChallenges);
+router.get('/daily-challenges/calendar', requireAdminPermission('challenges:read'), validateQuery(DailyCalendarQuerySchema), dailyChallengeController.getCalendar);
+router.get('/daily-challenges/today', requireAdminPermission('challenges:read'), dailyChallengeController.getTodaysChallenge);
+router.get('/daily-challenges/:date', requireAdminPermission('challenges:read'), dailyChallengeController.getChallengeByDate);
+router.put('/daily-challenges/:id', requireAdminPermission('challenges:write'), logAdminOperation('update-daily-challenge'), dailyChallengeController.updateDailyChallenge);
+router.delete('/daily-challenges/:id', requireAdminPermission('challenges:write'), logAdminOperation('delete-daily-challenge'), dailyChallengeController.deleteDailyChallenge);
 
 export default router;
\ No newline at end of file
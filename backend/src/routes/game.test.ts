@@ -0,0 +1,118 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import gameRoutes from './game';
+import imageRoutes from './images';
+import pairRoutes from './pairs';
+import { DatabaseService } from '../services/DatabaseService';
+import { PlayerService } from '../services/PlayerService';
+import { createTestPair } from '../testing/fixtures';
+
+// Uploads are never processed here
+jest.mock('sharp', () => jest.fn());
+
+describe('player-facing game routes', () => {
+  const db = DatabaseService.getInstance();
+  let server: Server;
+  let baseUrl: string;
+  let token: string;
+  let playerId: string;
+  // Every JSON body a player received, checked for labels at the end
+  const bodies: string[] = [];
+
+  const call = async (method: string, url: string, body?: unknown) => {
+    const response = await fetch(`${baseUrl}${url}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        ...(body ? { 'Content-Type': 'application/json' } : {})
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+    const text = await response.text();
+    bodies.push(text);
+    return { status: response.status, body: JSON.parse(text) };
+  };
+
+  beforeAll(async () => {
+    await createTestPair();
+    await createTestPair();
+    const auth = await new PlayerService().register({ username: 'player1', password: 'password123' });
+    token = auth.token;
+    playerId = auth.player.player_id;
+
+    const app = express();
+    app.use(express.json());
+    app.use('/api/game', gameRoutes);
+    app.use('/api/images', imageRoutes);
+    app.use('/api/pairs', pairRoutes);
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  afterAll(async () => {
+    server.close();
+    await db.shutdown();
+  });
+
+  it('never tells a player which image is AI', async () => {
+    const started = await call('POST', '/game/start', { game_mode: 'streak' });
+    const sessionId = started.body.data.session_id;
+
+    const round = await call('GET', `/game/sessions/${sessionId}/next-pair`);
+    expect(round.status).toBe(200);
+
+    const { ai_position } = (await db.getGameSession(sessionId))!.active_round!;
+    await call('POST', `/game/sessions/${sessionId}/submit`, {
+      round_token: round.body.data.round_token,
+      choice: ai_position,
+      response_time: 1000
+    });
+    await call('GET', `/game/sessions/${sessionId}`);
+    await call('POST', `/game/sessions/${sessionId}/end`);
+    await call('GET', '/game/leaderboard');
+    await call('GET', `/game/stats/${playerId}`);
+    await call('GET', '/game/daily-challenge');
+
+    for (const body of bodies) {
+      expect(body).not.toMatch(/ai_image_id|real_image_id|is_ai_generated/);
+    }
+  });
+
+  it('serves round images without validators that would identify them', async () => {
+    const started = await call('POST', '/game/start', { game_mode: 'streak' });
+    const sessionId = started.body.data.session_id;
+    const round = await call('GET', `/game/sessions/${sessionId}/next-pair`);
+
+    for (const position of ['left', 'right']) {
+      const response = await fetch(`${baseUrl}/game/sessions/${sessionId}/rounds/${round.body.data.round_token}/images/${position}`);
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toBe('image/jpeg');
+      expect(response.headers.get('etag')).toBeNull();
+      expect(response.headers.get('last-modified')).toBeNull();
+    }
+  });
+
+  it('keeps the image and pair catalog behind the admin key', async () => {
+    const pair = (await db.getAllImagePairs())[0];
+    const catalogUrls = [
+      '/images',
+      '/images/stats',
+      `/images/${pair.ai_image_id}`,
+      `/images/${pair.ai_image_id}/file`,
+      '/pairs',
+      '/pairs/stats',
+      '/pairs/recommended',
+      '/pairs/select-for-game',
+      `/pairs/${pair.pair_id}`,
+      `/pairs/${pair.pair_id}/with-images`,
+      '/pairs/sets',
+      `/pairs/sets/${pair.pair_id}`
+    ];
+
+    for (const url of catalogUrls) {
+      const response = await fetch(`${baseUrl}${url}`);
+      expect({ url, status: response.status }).toEqual({ url, status: 401 });
+    }
+  });
+});
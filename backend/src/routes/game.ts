@@ -1,28 +1,29 @@
 import { Router } from 'express';
 import { GameController } from '../controllers/gameController';
-import { validateParams, validateQuery, validateBody, UUIDSchema } from '../middleware/validation';
-import { CreateGameSessionSchema, CreateGameRoundSchema, GameModeSchema } from '../models/GameSession';
+import { ShareController } from '../controllers/shareController';
+import { validateParams, validateQuery, validateBody } from '../middleware/validation';
+import { requirePlayer, optionalPlayer } from '../middleware/auth';
+import { CreateGameSessionSchema, CreateGameRoundSchema, ImagePositionSchema } from '../models/GameSession';
+import { LeaderboardQuerySchema } from '../models/Leaderboard';
 import { z } from 'zod';
 
 const router = Router();
 const gameController = new GameController();
+const shareController = new ShareController();
 
 // Validation schemas
 const SessionParamsSchema = z.object({
   sessionId: z.string().uuid('Invalid session ID format')
 });
 
-const PlayerParamsSchema = z.object({
-  playerId: z.string().min(1, 'Player ID is required')
+const RoundImageParamsSchema = z.object({
+  sessionId: z.string().uuid('Invalid session ID format'),
+  roundToken: z.string().uuid('Invalid round token format'),
+  position: z.union([ImagePositionSchema, z.string().regex(/^\d$/, 'Invalid image index')])
 });
 
-const LeaderboardQuerySchema = z.object({
-  mode: GameModeSchema.optional(),
-  limit: z.string().optional().transform(val => val ? parseInt(val, 10) : 10)
-}).refine(data => {
-  return data.limit >= 1 && data.limit <= 100;
-}, {
-  message: 'Limit must be between 1 and 100'
+const PlayerParamsSchema = z.object({
+  playerId: z.string().min(1, 'Player ID is required')
 });
 
 const SubmitChoiceSchema = CreateGameRoundSchema.omit({ session_id: true });
@@ -30,6 +31,7 @@ const SubmitChoiceSchema = CreateGameRoundSchema.omit({ session_id: true });
 // Start new game session
 router.post(
   '/start',
+  requirePlayer,
   validateBody(CreateGameSessionSchema),
   gameController.startGame
 );
@@ -37,15 +39,22 @@ router.post(
 // Get leaderboard
 router.get(
   '/leaderboard',
+  optionalPlayer,
   validateQuery(LeaderboardQuerySchema),
   gameController.getLeaderboard
 );
 
-// Check daily challenge availability for player
+// Check daily challenge availability for the calling player
 router.get(
-  '/daily-challenge/:playerId',
-  validateParams(PlayerParamsSchema),
-  gameController.checkDailyChallenge
+  '/daily-challenge',
+  requirePlayer,
+  gameController.getDailyStatus
+);
+
+// Scoring rule sets, current and past
+router.get(
+  '/scoring-rules',
+  gameController.getScoringRules
 );
 
 // Get player statistics
@@ -58,6 +67,7 @@ router.get(
 // Get game session details
 router.get(
   '/sessions/:sessionId',
+  requirePlayer,
   validateParams(SessionParamsSchema),
   gameController.getGameSession
 );
@@ -65,13 +75,24 @@ router.get(
 // Get next image pair for game session
 router.get(
   '/sessions/:sessionId/next-pair',
+  requirePlayer,
   validateParams(SessionParamsSchema),
   gameController.getNextPair
 );
 
+// Get an image of the current round by position (or index, for image set
+// rounds). Loaded through <img> tags, so it is authorized by the unguessable
+// round token rather than a header.
+router.get(
+  '/sessions/:sessionId/rounds/:roundToken/images/:position',
+  validateParams(RoundImageParamsSchema),
+  gameController.getRoundImage
+);
+
 // Submit player choice for a round
 router.post(
   '/sessions/:sessionId/submit',
+  requirePlayer,
   validateParams(SessionParamsSchema),
   validateBody(SubmitChoiceSchema),
   gameController.submitChoice
@@ -80,8 +101,17 @@ router.post(
 // End game session manually
 router.post(
   '/sessions/:sessionId/end',
+  requirePlayer,
   validateParams(SessionParamsSchema),
   gameController.endGame
 );
 
+// Share a completed daily game's spoiler-free results
+router.post(
+  '/sessions/:sessionId/share',
+  requirePlayer,
+  validateParams(SessionParamsSchema),
+  shareController.createShare
+);
+
 export default router;
\ No newline at end of file
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { ImageController } from '../controllers/imageController';
 import { upload, handleUploadError } from '../middleware/upload';
 import { validateParams, validateQuery, validateBody, UUIDSchema, ImageFiltersSchema, validateImageMetadata } from '../middleware/validation';
+import { requireAdmin, requireAdminPermission, logAdminOperation } from '../middleware/auth';
 import { UpdateImageSchema } from '../models/Image';
 
 const router = Router();
@@ -10,25 +11,35 @@ const imageController = new ImageController();
 // Upload single image
 router.post(
   '/upload',
+  requireAdmin,
+  requireAdminPermission('images:write'),
+  logAdminOperation('upload-image'),
   upload.single('image'),
   handleUploadError,
   validateImageMetadata,
   imageController.uploadImage
 );
 
+// The catalog says which images are AI generated, so reading it is for
+// admins only; players only ever see images through their rounds
+
 // Get all images with pagination and filters
 router.get(
   '/',
+  requireAdmin,
+  requireAdminPermission('dashboard:read'),
   validateQuery(ImageFiltersSchema),
   imageController.getImages
 );
 
 // Get image statistics
-router.get('/stats', imageController.getImageStats);
+router.get('/stats', requireAdmin, requireAdminPermission('dashboard:read'), imageController.getImageStats);
 
 // Get single image by ID
 router.get(
   '/:id',
+  requireAdmin,
+  requireAdminPermission('dashboard:read'),
   validateParams(UUIDSchema),
   imageController.getImageById
 );
@@ -36,6 +47,8 @@ router.get(
 // Get image file
 router.get(
   '/:id/file',
+  requireAdmin,
+  requireAdminPermission('dashboard:read'),
   validateParams(UUIDSchema),
   imageController.getImageFile
 );
@@ -43,6 +56,9 @@ router.get(
 // Update image metadata
 router.put(
   '/:id',
+  requireAdmin,
+  requireAdminPermission('images:write'),
+  logAdminOperation('update-image'),
   validateParams(UUIDSchema),
   validateBody(UpdateImageSchema),
   imageController.updateImage
@@ -51,6 +67,9 @@ router.put(
 // Delete image
 router.delete(
   '/:id',
+  requireAdmin,
+  requireAdminPermission('images:write'),
+  logAdminOperation('delete-image'),
   validateParams(UUIDSchema),
   imageController.deleteImage
 );
@@ -1,7 +1,9 @@
 import { Router } from 'express';
 import { PairController } from '../controllers/pairController';
 import { validateParams, validateQuery, validateBody, UUIDSchema } from '../middleware/validation';
-import { CreateImagePairSchema } from '../models/ImagePair';
+import { requireAdmin, requireAdminPermission, logAdminOperation } from '../middleware/auth';
+import { CreateImagePairSchema, ReviewPairCalibrationSchema } from '../models/ImagePair';
+import { CreateImageSetSchema } from '../models/ImageSet';
 import { z } from 'zod';
 
 const router = Router();
@@ -26,6 +28,11 @@ const GameSelectionSchema = z.object({
   active_only: z.string().optional().transform(val => val !== 'false')
 });
 
+const SetFiltersSchema = z.object({
+  category: z.enum(['portrait', 'landscape', 'object', 'abstract']).optional(),
+  is_active: z.enum(['true', 'false']).optional()
+});
+
 const RecommendedPairsSchema = z.object({
   category: z.enum(['portrait', 'landscape', 'object', 'abstract']).optional(),
   limit: z.string().optional().transform(val => val ? parseInt(val, 10) : 5)
@@ -34,23 +41,103 @@ const RecommendedPairsSchema = z.object({
 // Create new image pair
 router.post(
   '/',
+  requireAdmin,
+  requireAdminPermission('pairs:write'),
+  logAdminOperation('create-pair'),
   validateBody(CreateImagePairSchema),
   pairController.createPair
 );
 
+// Pairs say which image is AI generated, so every read below is for admins
+// only; players only ever see them through their rounds
+
 // Get all pairs with pagination and filters
 router.get(
   '/',
+  requireAdmin,
+  requireAdminPermission('dashboard:read'),
   validateQuery(PairFiltersSchema),
   pairController.getPairs
 );
 
 // Get pair statistics
-router.get('/stats', pairController.getPairStats);
+router.get('/stats', requireAdmin, requireAdminPermission('dashboard:read'), pairController.getPairStats);
+
+// Difficulty calibration from play data: report, run and review
+router.get(
+  '/calibration',
+  requireAdmin,
+  requireAdminPermission('dashboard:read'),
+  pairController.getCalibrationReport
+);
+
+router.post(
+  '/calibration/run',
+  requireAdmin,
+  requireAdminPermission('pairs:write'),
+  logAdminOperation('calibrate-pairs'),
+  pairController.calibratePairs
+);
+
+router.post(
+  '/:id/calibration/review',
+  requireAdmin,
+  requireAdminPermission('pairs:write'),
+  logAdminOperation('review-pair-calibration'),
+  validateParams(UUIDSchema),
+  validateBody(ReviewPairCalibrationSchema),
+  pairController.reviewCalibration
+);
+
+// "Spot the Bot" image sets: several images, some AI, shown in one round
+router.post(
+  '/sets',
+  requireAdmin,
+  requireAdminPermission('pairs:write'),
+  logAdminOperation('create-image-set'),
+  validateBody(CreateImageSetSchema),
+  pairController.createSet
+);
+
+router.get(
+  '/sets',
+  requireAdmin,
+  requireAdminPermission('dashboard:read'),
+  validateQuery(SetFiltersSchema),
+  pairController.getSets
+);
+
+router.get(
+  '/sets/:id',
+  requireAdmin,
+  requireAdminPermission('dashboard:read'),
+  validateParams(UUIDSchema),
+  pairController.getSetById
+);
+
+router.patch(
+  '/sets/:id/toggle-active',
+  requireAdmin,
+  requireAdminPermission('pairs:write'),
+  logAdminOperation('toggle-image-set'),
+  validateParams(UUIDSchema),
+  pairController.toggleSetActive
+);
+
+router.delete(
+  '/sets/:id',
+  requireAdmin,
+  requireAdminPermission('pairs:write'),
+  logAdminOperation('delete-image-set'),
+  validateParams(UUIDSchema),
+  pairController.deleteSet
+);
 
 // Get recommended pairs for games
 router.get(
   '/recommended',
+  requireAdmin,
+  requireAdminPermission('dashboard:read'),
   validateQuery(RecommendedPairsSchema),
   pairController.getRecommendedPairs
 );
@@ -58,6 +145,8 @@ router.get(
 // Select pair for game (used by game service)
 router.get(
   '/select-for-game',
+  requireAdmin,
+  requireAdminPermission('dashboard:read'),
   validateQuery(GameSelectionSchema),
   pairController.selectPairForGame
 );
@@ -65,6 +154,8 @@ router.get(
 // Get single pair by ID
 router.get(
   '/:id',
+  requireAdmin,
+  requireAdminPermission('dashboard:read'),
   validateParams(UUIDSchema),
   pairController.getPairById
 );
@@ -72,6 +163,8 @@ router.get(
 // Get pair with full image data
 router.get(
   '/:id/with-images',
+  requireAdmin,
+  requireAdminPermission('dashboard:read'),
   validateParams(UUIDSchema),
   pairController.getPairWithImages
 );
@@ -79,6 +172,9 @@ router.get(
 // Toggle pair active status
 router.patch(
   '/:id/toggle-active',
+  requireAdmin,
+  requireAdminPermission('pairs:write'),
+  logAdminOperation('toggle-pair'),
   validateParams(UUIDSchema),
   pairController.togglePairActive
 );
@@ -86,6 +182,9 @@ router.patch(
 // Delete pair
 router.delete(
   '/:id',
+  requireAdmin,
+  requireAdminPermission('pairs:write'),
+  logAdminOperation('delete-pair'),
   validateParams(UUIDSchema),
   pairController.deletePair
 );
@@ -0,0 +1,53 @@
+import { Router } from 'express';
+import { PlayerController } from '../controllers/playerController';
+import { validateBody } from '../middleware/validation';
+import { requirePlayer } from '../middleware/auth';
+import { RegisterPlayerSchema, LoginPlayerSchema, UpgradePlayerSchema, UpdatePlayerSettingsSchema } from '../models/Player';
+
+const router = Router();
+const playerController = new PlayerController();
+
+// Register a new player
+router.post(
+  '/register',
+  validateBody(RegisterPlayerSchema),
+  playerController.register
+);
+
+// Log in with username and password
+router.post(
+  '/login',
+  validateBody(LoginPlayerSchema),
+  playerController.login
+);
+
+// Start playing as a guest
+router.post(
+  '/guest',
+  playerController.createGuest
+);
+
+// Convert the calling guest into an account (new or existing)
+router.post(
+  '/upgrade',
+  requirePlayer,
+  validateBody(UpgradePlayerSchema),
+  playerController.upgradeGuest
+);
+
+// Get the player behind the bearer token
+router.get(
+  '/me',
+  requirePlayer,
+  playerController.getCurrentPlayer
+);
+
+// Update the calling player's settings
+router.patch(
+  '/me',
+  requirePlayer,
+  validateBody(UpdatePlayerSettingsSchema),
+  playerController.updateSettings
+);
+
+export default router;
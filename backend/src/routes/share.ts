@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { ShareController } from '../controllers/shareController';
+import { validateParams } from '../middleware/validation';
+import { ShareIdSchema } from '../models/Share';
+import { z } from 'zod';
+
+const router = Router();
+const shareController = new ShareController();
+
+const ShareParamsSchema = z.object({
+  shareId: ShareIdSchema
+});
+
+// Shared results are public: anyone with the link can view them
+
+// Get a shared result
+router.get(
+  '/:shareId',
+  validateParams(ShareParamsSchema),
+  shareController.getShare
+);
+
+// Get a shared result's PNG card
+router.get(
+  '/:shareId/card.png',
+  validateParams(ShareParamsSchema),
+  shareController.getShareCard
+);
+
+export default router;
@@ -0,0 +1,244 @@
+// Benchmark for the leaderboard index. Seeds a synthetic game history into a
+// temporary data directory, then times the index rebuild, leaderboard and
+// player stats queries and live updates, next to the full scan of sessions
+// and rounds that leaderboard requests used to do.
+//
+// Usage: npm run benchmark:leaderboard [-- --players 5000] [-- --sessions 60000]
+//          [-- --rounds 8] [-- --driver sqlite|json] [-- --keep]
+//
+// Seeding uses SQLite by default; the JSON store journals (and fsyncs) every
+// record, which makes seeding hundreds of thousands of rounds very slow.
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { createDataStore } from '../repositories/createDataStore';
+import { GameSessionEntity, GameRoundEntity, PlayerEntity } from '../repositories/entities';
+import { StorageDriver } from '../repositories/Repository';
+import { DatabaseService } from '../services/DatabaseService';
+import { LeaderboardIndex } from '../services/LeaderboardIndex';
+import { LeaderboardService } from '../services/LeaderboardService';
+import { GameSession, GameRound, GameMode } from '../models/GameSession';
+import { Player } from '../models/Player';
+import { LeaderboardRankBySchema, LeaderboardWindowSchema, DEFAULT_MIN_GAMES } from '../models/Leaderboard';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HISTORY_DAYS = 90;
+const SEED_BATCH_SIZE = 10000;
+
+const getArg = (name: string): string | undefined => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+};
+
+const getNumberArg = (name: string, fallback: number): number => {
+  const value = parseInt(getArg(name) || '', 10);
+  return value > 0 ? value : fallback;
+};
+
+// Seeded so runs with the same options produce the same dataset
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) >>> 0;
+  return seed / 2 ** 32;
+};
+
+const time = async <T>(label: string, run: () => Promise<T> | T): Promise<T> => {
+  const startedAt = process.hrtime.bigint();
+  const result = await run();
+  const ms = Number(process.hrtime.bigint() - startedAt) / 1e6;
+  console.log(`  ${label.padEnd(52)} ${ms.toFixed(2).padStart(10)} ms`);
+  return result;
+};
+
+const timeEach = async (label: string, runs: number, run: (iteration: number) => Promise<unknown> | unknown): Promise<void> => {
+  const startedAt = process.hrtime.bigint();
+  for (let iteration = 0; iteration < runs; iteration++) {
+    await run(iteration);
+  }
+  const ms = Number(process.hrtime.bigint() - startedAt) / 1e6 / runs;
+  console.log(`  ${`${label} (avg of ${runs})`.padEnd(52)} ${ms.toFixed(3).padStart(10)} ms`);
+};
+
+const random = createRandom(42);
+const averageRounds = getNumberArg('rounds', 8);
+
+const generateSession = (playerId: string, now: number, daysBack: number): { session: GameSession; rounds: GameRound[] } => {
+  const mode: GameMode = random() < 0.3 ? 'daily' : 'streak';
+  const roundCount = mode === 'daily' ? 3 : 1 + Math.floor(random() * averageRounds * 2);
+  const startTime = new Date(now - random() * daysBack * DAY_MS);
+  const sessionId = uuidv4();
+
+  const rounds: GameRound[] = [];
+  let score = 0;
+  let streak = 0;
+  for (let number = 1; number <= roundCount; number++) {
+    // Streak games end on the first miss
+    const isCorrect = mode === 'streak' ? number < roundCount : random() < 0.7;
+    const points = isCorrect ? 100 + Math.floor(random() * 200) : 0;
+    score += points;
+    if (isCorrect && mode === 'streak') streak += 1;
+
+    rounds.push({
+      round_id: uuidv4(),
+      session_id: sessionId,
+      pair_id: uuidv4(),
+      player_choice: isCorrect ? 'ai' : 'real',
+      correct_answer: 'ai',
+      is_correct: isCorrect,
+      response_time: 1000 + Math.floor(random() * 9000),
+      points_earned: points,
+      round_number: number,
+      timestamp: new Date(startTime.getTime() + number * 10000)
+    });
+  }
+
+  const isCompleted = random() > 0.03;
+  const session: GameSession = {
+    session_id: sessionId,
+    player_id: playerId,
+    game_mode: mode,
+    start_time: startTime,
+    end_time: isCompleted ? new Date(startTime.getTime() + (roundCount + 1) * 10000) : undefined,
+    total_score: score,
+    rounds_completed: roundCount,
+    current_streak: streak,
+    is_completed: isCompleted,
+    is_flagged: random() < 0.01 || undefined
+  };
+
+  return { session, rounds };
+};
+
+// What a leaderboard request cost before the index: every completed session,
+// then every round of those sessions, aggregated and sorted per request
+const scanLeaderboard = async (db: DatabaseService): Promise<number> => {
+  const sessions = (await db.getGameSessions({ is_completed: true })).filter(session => !session.is_flagged);
+  const rounds = await db.getGameRoundsBySessions(sessions.map(session => session.session_id));
+
+  const totals = new Map<string, { best_score: number; correct: number; rounds: number }>();
+  const playerBySession = new Map<string, string>();
+  for (const session of sessions) {
+    playerBySession.set(session.session_id, session.player_id!);
+    const existing = totals.get(session.player_id!) || { best_score: 0, correct: 0, rounds: 0 };
+    existing.best_score = Math.max(existing.best_score, session.total_score);
+    totals.set(session.player_id!, existing);
+  }
+  for (const round of rounds) {
+    const player = totals.get(playerBySession.get(round.session_id)!)!;
+    player.rounds += 1;
+    if (round.is_correct) player.correct += 1;
+  }
+
+  return Array.from(totals.values()).sort((a, b) => b.best_score - a.best_score).length;
+};
+
+const seed = async (dataPath: string, driver: StorageDriver, playerCount: number, sessionCount: number, playerIds: string[]): Promise<void> => {
+  const store = createDataStore(dataPath, driver);
+  const players = store.repository(PlayerEntity);
+  const sessions = store.repository(GameSessionEntity);
+  const rounds = store.repository(GameRoundEntity);
+  await store.load();
+
+  const now = Date.now();
+  const createdAt = new Date(now - HISTORY_DAYS * DAY_MS);
+  const playerRecords: Player[] = Array.from({ length: playerCount }, (_, index) => ({
+    player_id: uuidv4(),
+    username: `bench_${index}`,
+    display_name: `Bench ${index}`,
+    password_hash: '',
+    created_at: createdAt,
+    updated_at: createdAt
+  }));
+  await players.saveMany(playerRecords);
+  playerIds.push(...playerRecords.map(player => player.player_id));
+
+  let roundCount = 0;
+  for (let offset = 0; offset < sessionCount; offset += SEED_BATCH_SIZE) {
+    const batch = Array.from({ length: Math.min(SEED_BATCH_SIZE, sessionCount - offset) }, () => {
+      // A skewed pick so some players are far more active than others
+      const playerId = playerIds[Math.floor(random() ** 2 * playerIds.length)];
+      return generateSession(playerId, now, HISTORY_DAYS);
+    });
+    const batchRounds = batch.flatMap(game => game.rounds);
+    await sessions.saveMany(batch.map(game => game.session));
+    await rounds.saveMany(batchRounds);
+    roundCount += batchRounds.length;
+  }
+
+  await store.close();
+  console.log(`  seeded ${playerCount} players, ${sessionCount} sessions, ${roundCount} rounds`);
+};
+
+const benchmark = async (): Promise<void> => {
+  const playerCount = getNumberArg('players', 5000);
+  const sessionCount = getNumberArg('sessions', 60000);
+  const driver = (getArg('driver') || 'sqlite') as StorageDriver;
+  const keep = process.argv.includes('--keep');
+
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bot-or-not-benchmark-'));
+  const dataPath = path.join(workDir, 'data');
+  const originalDir = process.cwd();
+
+  // DatabaseService reads these when it is first created, below
+  process.env.DB_DRIVER = driver;
+  delete process.env.SQLITE_PATH;
+
+  console.log(`Leaderboard benchmark (${driver} store in ${workDir})`);
+  const playerIds: string[] = [];
+  await time('seed dataset', () => seed(dataPath, driver, playerCount, sessionCount, playerIds));
+
+  process.chdir(workDir);
+  const db = DatabaseService.getInstance();
+  const index = LeaderboardIndex.getInstance();
+  const leaderboards = new LeaderboardService();
+
+  try {
+    await time('load data store', () => db.ready());
+    await time('build index from history', () => index.ready());
+    await time('full scan leaderboard (previous approach)', () => scanLeaderboard(db));
+
+    console.log('Leaderboard queries (top 50 plus own rank):');
+    for (const window of LeaderboardWindowSchema.options) {
+      for (const rankBy of LeaderboardRankBySchema.options) {
+        const query = { window, rank_by: rankBy, limit: 50 };
+        await time(`${window}/${rankBy} first query`, () => leaderboards.getLeaderboard(query, playerIds[0]));
+        await timeEach(`${window}/${rankBy}`, 20, iteration =>
+          leaderboards.getLeaderboard(query, playerIds[iteration % playerIds.length])
+        );
+      }
+    }
+    await timeEach('daily mode, all/accuracy', 20, () =>
+      leaderboards.getLeaderboard({ mode: 'daily', window: 'all', rank_by: 'accuracy', limit: 50, min_games: DEFAULT_MIN_GAMES.accuracy })
+    );
+
+    console.log('Player stats:');
+    await timeEach('getPlayerStats', 1000, iteration => index.getPlayerStats(playerIds[iteration % playerIds.length]));
+
+    console.log('Live updates (every ranking already built):');
+    const games = Array.from({ length: 1000 }, (_, iteration) =>
+      generateSession(playerIds[iteration % playerIds.length], Date.now(), 0)
+    );
+    await timeEach('start, grade rounds and complete a session', games.length, iteration => {
+      const { session, rounds } = games[iteration];
+      index.recordSessionStarted(session);
+      rounds.forEach(round => index.recordRound(session, round, session.current_streak));
+      index.recordSessionCompleted({ ...session, is_completed: true, end_time: new Date(), is_flagged: false }, rounds);
+    });
+
+    const memory = process.memoryUsage();
+    console.log(`Heap used: ${(memory.heapUsed / 1024 / 1024).toFixed(0)} MB`);
+  } finally {
+    await db.shutdown();
+    process.chdir(originalDir);
+    if (keep) {
+      console.log(`Kept benchmark data in ${workDir}`);
+    } else {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  }
+};
+
+benchmark().catch(error => {
+  console.error('Benchmark failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,49 @@
+// One-off migration: copies every entity from the JSON snapshot files in
+// data/ into the SQLite database used when DB_DRIVER=sqlite.
+//
+// Usage: npm run db:migrate [-- --data <dir>] [-- --sqlite <file>]
+import path from 'path';
+import { JsonDataStore } from '../repositories/JsonDataStore';
+import { SqliteDataStore } from '../repositories/SqliteDataStore';
+import { ALL_ENTITIES } from '../repositories/entities';
+import { getSqlitePath } from '../repositories/createDataStore';
+
+const getArg = (name: string): string | undefined => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+};
+
+const migrate = async (): Promise<void> => {
+  const dataPath = path.resolve(getArg('data') || path.join(process.cwd(), 'data'));
+  const sqlitePath = path.resolve(getArg('sqlite') || getSqlitePath(dataPath));
+
+  console.log(`Migrating JSON data from ${dataPath} to ${sqlitePath}`);
+
+  const source = new JsonDataStore(dataPath);
+  const target = new SqliteDataStore(sqlitePath);
+
+  // Repositories must be registered before load() so their files are read
+  const repositories = ALL_ENTITIES.map(entity => ({
+    entity,
+    from: source.repository(entity),
+    to: target.repository(entity)
+  }));
+
+  await source.load();
+  await target.load();
+
+  for (const { entity, from, to } of repositories) {
+    const records = await from.getAll();
+    await to.saveMany(records);
+    console.log(`  ${entity.name}: ${records.length} migrated (${await to.count()} in database)`);
+  }
+
+  // Only the target is closed; closing the JSON store would rewrite its files
+  await target.close();
+  console.log('Migration completed successfully');
+};
+
+migrate().catch(error => {
+  console.error('Migration failed:', error);
+  process.exit(1);
+});
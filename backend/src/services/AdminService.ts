@@ -4,8 +4,12 @@ import { DatabaseService } from './DatabaseService';
 import { ImageService } from './ImageService';
 import { ImagePairService } from './ImagePairService';
 import { GameService } from './GameService';
+import { LeaderboardIndex } from './LeaderboardIndex';
 import { Image, CreateImageData } from '../models/Image';
 import { ImagePair } from '../models/ImagePair';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('AdminService');
 
 export interface SystemStats {
   database: {
@@ -90,7 +94,7 @@ export class AdminService {
   public async getDashboardStats(): Promise<SystemStats> {
     try {
       // Get basic database stats
-      const dbStats = this.db.getStats();
+      const dbStats = await this.db.getStats();
 
       // Get detailed image stats
       const imageStats = await this.imageService.getImageStats();
@@ -112,15 +116,10 @@ export class AdminService {
         },
         pairs: pairStats,
         games: gameStats,
-        system: {
-          uptime: Date.now() - this.startTime,
-          memoryUsage: process.memoryUsage(),
-          lastBackup: await this.getLastBackupDate(),
-          dataSize: await this.calculateDataSize()
-        }
+        system: systemStats
       };
     } catch (error) {
-      console.error('Error getting dashboard stats:', error);
+      logger.error('Error getting dashboard stats', error);
       throw new Error('Failed to retrieve dashboard statistics');
     }
   }
@@ -150,7 +149,7 @@ export class AdminService {
         result.successful++;
         result.uploadedImages.push(image);
         
-        console.log(`Bulk upload success: ${file.originalname}`);
+        logger.info(`Bulk upload success: ${file.originalname}`);
       } catch (error: any) {
         result.failed++;
         result.errors.push({
@@ -158,11 +157,11 @@ export class AdminService {
           error: error.message
         });
         
-        console.error(`Bulk upload failed for ${file.originalname}:`, error.message);
+        logger.error(`Bulk upload failed for ${file.originalname}`, { error: error.message });
       }
     }
 
-    console.log(`Bulk upload completed: ${result.successful} successful, ${result.failed} failed`);
+    logger.info(`Bulk upload completed: ${result.successful} successful, ${result.failed} failed`);
     return result;
   }
 
@@ -222,10 +221,10 @@ export class AdminService {
         }
       }
 
-      console.log(`Auto-pair creation completed: ${result.created} pairs created`);
+      logger.info(`Auto-pair creation completed: ${result.created} pairs created`);
       return result;
     } catch (error) {
-      console.error('Error in auto-pair creation:', error);
+      logger.error('Error in auto-pair creation', error);
       throw new Error('Failed to create automatic pairs');
     }
   }
@@ -245,7 +244,7 @@ export class AdminService {
         return await this.exportToSQL(path.join(exportPath, filename));
       }
     } catch (error) {
-      console.error('Error exporting data:', error);
+      logger.error('Error exporting data', error);
       throw new Error('Failed to export data');
     }
   }
@@ -297,10 +296,15 @@ export class AdminService {
         }
       }
 
-      console.log(`Data import completed: ${JSON.stringify(result.imported)}`);
+      // Imported sessions bypass GameService, so recount from storage
+      if (result.imported.sessions > 0) {
+        await LeaderboardIndex.getInstance().rebuild();
+      }
+
+      logger.info(`Data import completed: ${JSON.stringify(result.imported)}`);
       return result;
     } catch (error) {
-      console.error('Error importing data:', error);
+      logger.error('Error importing data', error);
       throw new Error('Failed to import data');
     }
   }
@@ -338,10 +342,10 @@ export class AdminService {
         }
       }
 
-      console.log(`Cleanup completed: ${result.deleted} images deleted, ${result.freedSpace} bytes freed`);
+      logger.info(`Cleanup completed: ${result.deleted} images deleted, ${result.freedSpace} bytes freed`);
       return result;
     } catch (error) {
-      console.error('Error in cleanup:', error);
+      logger.error('Error in cleanup', error);
       throw new Error('Failed to cleanup unused images');
     }
   }
@@ -349,10 +353,10 @@ export class AdminService {
   public async createBackup(): Promise<string> {
     try {
       const backupFilename = await this.db.createBackup();
-      console.log(`Manual backup created: ${backupFilename}`);
+      logger.info(`Manual backup created: ${backupFilename}`);
       return backupFilename;
     } catch (error) {
-      console.error('Error creating backup:', error);
+      logger.error('Error creating backup', error);
       throw new Error('Failed to create backup');
     }
   }
@@ -390,7 +394,7 @@ export class AdminService {
     }
 
     // Database stats check
-    const dbStats = this.db.getStats();
+    const dbStats = await this.db.getStats();
     checks.push({
       name: 'Database',
       status: 'pass' as const,
@@ -465,17 +469,22 @@ export class AdminService {
   }
 
   private async exportToJSON(filePath: string): Promise<string> {
+    const images = await this.db.getAllImages();
+    const pairs = await this.db.getAllImagePairs();
+    const sessions = await this.db.getGameSessions();
+    const rounds = await this.db.getGameRounds();
+
     const exportData: ExportData = {
       version: '1.0.0',
       exportDate: new Date().toISOString(),
-      images: Object.fromEntries(await this.db['images']),
-      pairs: Object.fromEntries(await this.db['imagePairs']),
-      sessions: Object.fromEntries(await this.db['gameSessions']),
-      rounds: Object.fromEntries(await this.db['gameRounds']),
+      images: Object.fromEntries(images.map(image => [image.id, image])),
+      pairs: Object.fromEntries(pairs.map(pair => [pair.pair_id, pair])),
+      sessions: Object.fromEntries(sessions.map(session => [session.session_id, session])),
+      rounds: Object.fromEntries(rounds.map(round => [round.round_id, round])),
       metadata: {
-        totalImages: (await this.db['images']).size,
-        totalPairs: (await this.db['imagePairs']).size,
-        totalSessions: (await this.db['gameSessions']).size,
+        totalImages: images.length,
+        totalPairs: pairs.length,
+        totalSessions: sessions.length,
         exportSize: 0
       }
     };
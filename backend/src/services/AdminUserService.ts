@@ -0,0 +1,258 @@
+import { createHash, randomBytes } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from './DatabaseService';
+import {
+  AdminUser,
+  AdminApiToken,
+  AdminPrincipal,
+  AdminLoginData,
+  CreateAdminUserData,
+  UpdateAdminUserData,
+  CreateAdminApiTokenData,
+  PublicAdminUser,
+  PublicAdminApiToken
+} from '../models/AdminUser';
+import { getRolePermissions } from '../utils/adminRoles';
+import { hashPassword, verifyPassword, getJwtSecret } from '../utils/passwords';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('AdminUserService');
+
+const ADMIN_TOKEN_AUDIENCE = 'admin';
+const API_TOKEN_PREFIX = 'bon_';
+
+interface AdminSessionPayload {
+  sub: string;
+  role: string;
+}
+
+export class AdminUserService {
+  private db: DatabaseService;
+
+  constructor() {
+    this.db = DatabaseService.getInstance();
+  }
+
+  // Creates the first owner so a fresh install can be administered. Uses
+  // ADMIN_BOOTSTRAP_USERNAME / ADMIN_BOOTSTRAP_PASSWORD when set; outside
+  // production a random password is generated and printed once to stderr.
+  // It never goes through the logger, whose file admins with logs:read can
+  // read back.
+  public async ensureBootstrapOwner(): Promise<void> {
+    const admins = await this.db.getAdminUsers();
+    if (admins.length > 0) return;
+
+    const username = (process.env.ADMIN_BOOTSTRAP_USERNAME || 'owner').toLowerCase();
+    let password = process.env.ADMIN_BOOTSTRAP_PASSWORD;
+
+    if (!password) {
+      if (process.env.NODE_ENV === 'production') {
+        logger.warn('No admin users exist; set ADMIN_BOOTSTRAP_USERNAME and ADMIN_BOOTSTRAP_PASSWORD to create an owner');
+        return;
+      }
+      password = randomBytes(12).toString('base64url');
+      process.stderr.write(`Created development owner "${username}" with password: ${password}\n`);
+    }
+
+    await this.createAdmin({ username, password, role: 'owner' });
+    logger.info(`Bootstrap owner created: ${username}`);
+  }
+
+  public async login(data: AdminLoginData): Promise<{ token: string; expires_in: string; admin: PublicAdminUser }> {
+    const admin = await this.db.getAdminUserByUsername(data.username.toLowerCase());
+
+    if (!admin || !admin.is_active || !(await verifyPassword(data.password, admin.password_hash))) {
+      throw new Error('Invalid username or password');
+    }
+
+    const updated = await this.db.updateAdminUser(admin.admin_id, { last_login: new Date() });
+    const expiresIn = process.env.ADMIN_SESSION_EXPIRES_IN || '8h';
+    const payload: AdminSessionPayload = { sub: admin.admin_id, role: admin.role };
+    const token = jwt.sign(payload, getJwtSecret(), {
+      expiresIn,
+      audience: ADMIN_TOKEN_AUDIENCE
+    } as jwt.SignOptions);
+
+    logger.info(`Admin logged in: ${admin.username} (${admin.role})`);
+    return { token, expires_in: expiresIn, admin: this.toPublicAdmin(updated || admin) };
+  }
+
+  // Resolves an admin session token (from login) to its principal
+  public async authenticateSession(token: string): Promise<AdminPrincipal | null> {
+    let payload: AdminSessionPayload;
+    try {
+      payload = jwt.verify(token, getJwtSecret(), { audience: ADMIN_TOKEN_AUDIENCE }) as AdminSessionPayload;
+    } catch {
+      return null;
+    }
+
+    // Role and status are read from storage so changes apply immediately
+    const admin = await this.db.getAdminUser(payload.sub);
+    if (!admin || !admin.is_active) return null;
+
+    return {
+      admin_id: admin.admin_id,
+      username: admin.username,
+      role: admin.role,
+      permissions: getRolePermissions(admin.role),
+      via: 'session'
+    };
+  }
+
+  // Resolves a scoped API token. Its permissions are capped by the owner's
+  // current role, so demoting an admin also narrows their tokens.
+  public async authenticateApiToken(rawToken: string): Promise<AdminPrincipal | null> {
+    if (!rawToken.startsWith(API_TOKEN_PREFIX)) return null;
+
+    const token = await this.db.getAdminApiTokenByHash(this.hashToken(rawToken));
+    if (!token || token.revoked_at || (token.expires_at && token.expires_at.getTime() < Date.now())) {
+      return null;
+    }
+
+    const admin = await this.db.getAdminUser(token.admin_id);
+    if (!admin || !admin.is_active) return null;
+
+    const rolePermissions = getRolePermissions(admin.role);
+    await this.db.updateAdminApiToken(token.token_id, { last_used_at: new Date() });
+
+    return {
+      admin_id: admin.admin_id,
+      username: admin.username,
+      role: admin.role,
+      permissions: token.permissions.filter(permission => rolePermissions.includes(permission)),
+      via: 'api-token',
+      token_id: token.token_id
+    };
+  }
+
+  public async createAdmin(data: CreateAdminUserData): Promise<PublicAdminUser> {
+    if (await this.db.getAdminUserByUsername(data.username)) {
+      throw new Error('Admin username is already taken');
+    }
+
+    const now = new Date();
+    const admin: AdminUser = {
+      admin_id: uuidv4(),
+      username: data.username,
+      role: data.role,
+      password_hash: await hashPassword(data.password),
+      is_active: true,
+      created_at: now,
+      updated_at: now
+    };
+
+    await this.db.createAdminUser(admin);
+    return this.toPublicAdmin(admin);
+  }
+
+  public async getAdmins(): Promise<PublicAdminUser[]> {
+    const admins = await this.db.getAdminUsers();
+    return admins.map(admin => this.toPublicAdmin(admin));
+  }
+
+  public async getAdmin(adminId: string): Promise<PublicAdminUser | null> {
+    const admin = await this.db.getAdminUser(adminId);
+    return admin ? this.toPublicAdmin(admin) : null;
+  }
+
+  public async updateAdmin(adminId: string, data: UpdateAdminUserData, actor: AdminPrincipal): Promise<PublicAdminUser> {
+    const admin = await this.db.getAdminUser(adminId);
+    if (!admin) {
+      throw new Error('Admin user not found');
+    }
+
+    const demotesOwner = admin.role === 'owner' &&
+      ((data.role && data.role !== 'owner') || data.is_active === false);
+    if (demotesOwner && (await this.countActiveOwners()) <= 1) {
+      throw new Error('Cannot remove the last active owner');
+    }
+    if (adminId === actor.admin_id && data.is_active === false) {
+      throw new Error('Cannot deactivate your own account');
+    }
+
+    const updates: Partial<AdminUser> = { updated_at: new Date() };
+    if (data.role) updates.role = data.role;
+    if (data.is_active !== undefined) updates.is_active = data.is_active;
+    if (data.password) updates.password_hash = await hashPassword(data.password);
+
+    const updated = await this.db.updateAdminUser(adminId, updates);
+    if (!updated) {
+      throw new Error('Admin user not found');
+    }
+    return this.toPublicAdmin(updated);
+  }
+
+  // Issues a token limited to permissions the creator holds. The raw token
+  // is returned only here.
+  public async createApiToken(
+    actor: AdminPrincipal,
+    data: CreateAdminApiTokenData
+  ): Promise<{ token: string; api_token: PublicAdminApiToken }> {
+    const outOfScope = data.permissions.filter(permission => !actor.permissions.includes(permission));
+    if (outOfScope.length > 0) {
+      throw new Error(`Cannot grant permissions you do not have: ${outOfScope.join(', ')}`);
+    }
+
+    const rawToken = API_TOKEN_PREFIX + randomBytes(32).toString('base64url');
+    const now = new Date();
+    const apiToken: AdminApiToken = {
+      token_id: uuidv4(),
+      admin_id: actor.admin_id,
+      name: data.name,
+      token_hash: this.hashToken(rawToken),
+      token_prefix: rawToken.slice(0, API_TOKEN_PREFIX.length + 6),
+      permissions: Array.from(new Set(data.permissions)),
+      created_at: now,
+      expires_at: data.expires_in_days
+        ? new Date(now.getTime() + data.expires_in_days * 24 * 60 * 60 * 1000)
+        : undefined
+    };
+
+    await this.db.createAdminApiToken(apiToken);
+    logger.info(`API token "${apiToken.name}" created by ${actor.username}`);
+
+    return { token: rawToken, api_token: this.toPublicToken(apiToken) };
+  }
+
+  // Owners see every token; other admins only their own
+  public async getApiTokens(actor: AdminPrincipal): Promise<PublicAdminApiToken[]> {
+    const tokens = this.canManageAdmins(actor)
+      ? await this.db.getAdminApiTokens()
+      : await this.db.getAdminApiTokens({ admin_id: actor.admin_id });
+    return tokens.map(token => this.toPublicToken(token));
+  }
+
+  public async revokeApiToken(tokenId: string, actor: AdminPrincipal): Promise<PublicAdminApiToken> {
+    const token = await this.db.getAdminApiToken(tokenId);
+    if (!token || (token.admin_id !== actor.admin_id && !this.canManageAdmins(actor))) {
+      throw new Error('API token not found');
+    }
+
+    const revoked = await this.db.updateAdminApiToken(tokenId, { revoked_at: token.revoked_at || new Date() });
+    return this.toPublicToken(revoked || token);
+  }
+
+  public toPublicAdmin(admin: AdminUser): PublicAdminUser {
+    const { password_hash, ...publicAdmin } = admin;
+    return publicAdmin;
+  }
+
+  private toPublicToken(token: AdminApiToken): PublicAdminApiToken {
+    const { token_hash, ...publicToken } = token;
+    return publicToken;
+  }
+
+  private canManageAdmins(actor: AdminPrincipal): boolean {
+    return actor.permissions.includes('admins:manage');
+  }
+
+  private async countActiveOwners(): Promise<number> {
+    const admins = await this.db.getAdminUsers();
+    return admins.filter(admin => admin.role === 'owner' && admin.is_active).length;
+  }
+
+  private hashToken(rawToken: string): string {
+    return createHash('sha256').update(rawToken).digest('hex');
+  }
+}
@@ -0,0 +1,115 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from './DatabaseService';
+import { AuditLog, AuditLevel, AuditLogQuery, AuditContext } from '../models/AuditLog';
+import { AdminPrincipal } from '../models/AdminUser';
+
+// Fields that never belong in the audit trail, wherever they appear
+const REDACTED_FIELDS = ['password', 'password_hash', 'token_hash', 'confirmToken'];
+
+export interface AuditRecordInput extends AuditContext {
+  operation: string;
+  method: string;
+  path: string;
+  status_code: number;
+  admin?: AdminPrincipal;
+  request_id?: string;
+  ip?: string;
+  user_agent?: string;
+  error?: string;
+  started_at: Date;
+}
+
+export class AuditLogService {
+  private db: DatabaseService;
+
+  constructor() {
+    this.db = DatabaseService.getInstance();
+  }
+
+  public async record(input: AuditRecordInput): Promise<AuditLog> {
+    const before = this.sanitize(input.before);
+    const after = this.sanitize(input.after);
+    const succeeded = input.status_code < 400;
+
+    const entry: AuditLog = {
+      audit_id: uuidv4(),
+      timestamp: input.started_at,
+      operation: input.operation,
+      level: this.levelFor(input.status_code),
+      result: succeeded ? 'success' : 'failure',
+      status_code: input.status_code,
+      method: input.method,
+      path: input.path,
+      actor_id: input.admin?.admin_id,
+      actor_username: input.admin?.username,
+      actor_via: input.admin?.via,
+      token_id: input.admin?.token_id,
+      request_id: input.request_id,
+      ip: input.ip,
+      user_agent: input.user_agent,
+      target_ids: input.target_ids || [],
+      before,
+      after,
+      changes: before !== undefined && after !== undefined ? this.diff(before, after) : undefined,
+      details: this.sanitize(input.details) as Record<string, unknown> | undefined,
+      error: input.error,
+      duration_ms: Date.now() - input.started_at.getTime()
+    };
+
+    return await this.db.createAuditLog(entry);
+  }
+
+  public async query(query: AuditLogQuery): Promise<{ logs: AuditLog[]; total: number; limit: number; offset: number }> {
+    const result = await this.db.getAuditLogs({
+      actor_username: query.actor?.toLowerCase(),
+      operation: query.operation,
+      level: query.level === 'all' ? undefined : query.level,
+      result: query.result,
+      target_id: query.target_id,
+      from: query.from,
+      to: query.to,
+      limit: query.limit,
+      offset: query.offset
+    });
+
+    return { ...result, limit: query.limit, offset: query.offset };
+  }
+
+  // Top-level fields whose values differ between the two snapshots
+  public diff(before: unknown, after: unknown): Record<string, { before: unknown; after: unknown }> {
+    const changes: Record<string, { before: unknown; after: unknown }> = {};
+    if (!this.isObject(before) || !this.isObject(after)) {
+      if (JSON.stringify(before) !== JSON.stringify(after)) {
+        changes.value = { before, after };
+      }
+      return changes;
+    }
+
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const field of fields) {
+      if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+        changes[field] = { before: before[field], after: after[field] };
+      }
+    }
+    return changes;
+  }
+
+  private levelFor(statusCode: number): AuditLevel {
+    if (statusCode >= 500) return 'error';
+    if (statusCode >= 400) return 'warn';
+    return 'info';
+  }
+
+  // Plain JSON copy with secrets removed, so stored snapshots cannot change
+  // after the fact and never contain credentials
+  private sanitize(value: unknown): unknown {
+    if (value === undefined) return undefined;
+    return JSON.parse(JSON.stringify(value, (key, fieldValue) =>
+      REDACTED_FIELDS.includes(key) ? '[redacted]' : fieldValue
+    ));
+  }
+
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
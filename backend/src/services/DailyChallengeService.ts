@@ -1,6 +1,33 @@
 import { DatabaseService } from './DatabaseService';
-import { DailyChallenge, CreateDailyChallengeData } from '../models/DailyChallenge';
+import {
+  DailyChallenge,
+  CreateDailyChallengeData,
+  UpdateDailyChallengeData,
+  PublicDailyChallenge,
+  DailyPairSet
+} from '../models/DailyChallenge';
+import { ImagePair } from '../models/ImagePair';
+import { createHmac } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
+import { DAILY_ROUNDS } from '../utils/gameModes';
+import { createSeededRandom, seededShuffle } from '../utils/seededRandom';
+import { getDailyDate } from '../utils/dailyClock';
+import { getPairDifficulty } from '../utils/pairDifficulty';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('DailyChallengeService');
+
+// Keyed into every generated pair set's seed. The eligible pairs can be
+// listed, so a seed from the date alone would give away future days' sets.
+const getDailySeedSecret = (): string => {
+  const secret = process.env.DAILY_SEED_SECRET;
+  if (secret) return secret;
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('DAILY_SEED_SECRET must be set in production');
+  }
+  return 'dev-daily-seed-secret-change-me';
+};
 
 export class DailyChallengeService {
   private db: DatabaseService;
@@ -17,6 +44,9 @@ export class DailyChallengeService {
     if (existing) {
       throw new Error(`Daily challenge already exists for ${data.date}`);
     }
+    if (data.pair_ids) {
+      await this.assertPairsExist(data.pair_ids);
+    }
 
     const challenge: DailyChallenge = {
       id: uuidv4(),
@@ -26,42 +56,65 @@ export class DailyChallengeService {
       difficulty_level: data.difficulty_level,
       category: data.category,
       points_reward: data.points_reward,
+      pair_ids: data.pair_ids,
       is_active: true,
       created_at: now,
       updated_at: now
     };
 
     await this.db.createDailyChallenge(challenge);
-    console.log(`Created daily challenge for ${data.date}: ${data.title}`);
+    logger.info(`Created daily challenge for ${data.date}: ${data.title}`);
     
     return challenge;
   }
 
   public async getDailyChallengeByDate(date: string): Promise<DailyChallenge | null> {
     try {
-      const challenges = await this.db.getDailyChallenges();
-      return challenges.find(c => c.date === date && c.is_active) || null;
+      const challenges = await this.db.getDailyChallengesByDate(date);
+      return challenges.find(c => c.is_active) || null;
     } catch (error) {
-      console.error('Error getting daily challenge by date:', error);
+      logger.error('Error getting daily challenge by date', error);
       return null;
     }
   }
 
+  // Today by the default daily clock (DAILY_TIMEZONE and DAILY_RESET_HOUR)
   public async getTodaysChallenge(): Promise<DailyChallenge | null> {
-    const today = new Date().toISOString().split('T')[0];
-    return this.getDailyChallengeByDate(today);
+    return this.getDailyChallengeByDate(getDailyDate());
   }
 
   public async getAllDailyChallenges(): Promise<DailyChallenge[]> {
     try {
       return await this.db.getDailyChallenges();
     } catch (error) {
-      console.error('Error getting all daily challenges:', error);
+      logger.error('Error getting all daily challenges', error);
       return [];
     }
   }
 
-  public async updateDailyChallenge(id: string, updates: Partial<DailyChallenge>): Promise<DailyChallenge | null> {
+  public async getDailyChallengeById(id: string): Promise<DailyChallenge | null> {
+    return await this.db.getDailyChallengeById(id);
+  }
+
+  public async updateDailyChallenge(id: string, updates: UpdateDailyChallengeData): Promise<DailyChallenge | null> {
+    // Moving or reactivating a challenge must not give a date two
+    if (updates.date || updates.is_active) {
+      const challenge = await this.db.getDailyChallengeById(id);
+      const date = updates.date ?? challenge?.date;
+      const existing = date ? await this.getDailyChallengeByDate(date) : null;
+      if (existing && existing.id !== id) {
+        throw new Error(`Daily challenge already exists for ${date}`);
+      }
+    }
+    if (updates.pair_ids) {
+      const challenge = await this.db.getDailyChallengeById(id);
+      const changed = challenge && updates.pair_ids.join(',') !== (challenge.pair_ids || []).join(',');
+      if (changed && await this.db.getDailyPairSet(challenge.date)) {
+        throw new Error(`The daily pair set for ${challenge.date} is already frozen`);
+      }
+      await this.assertPairsExist(updates.pair_ids);
+    }
+
     try {
       const challenge = await this.db.getDailyChallengeById(id);
       if (!challenge) {
@@ -77,7 +130,7 @@ export class DailyChallengeService {
       await this.db.updateDailyChallenge(id, updatedChallenge);
       return updatedChallenge;
     } catch (error) {
-      console.error('Error updating daily challenge:', error);
+      logger.error('Error updating daily challenge', error);
       return null;
     }
   }
@@ -86,18 +139,101 @@ export class DailyChallengeService {
     try {
       return await this.db.deleteDailyChallenge(id);
     } catch (error) {
-      console.error('Error deleting daily challenge:', error);
+      logger.error('Error deleting daily challenge', error);
       return false;
     }
   }
 
+  // The pairs for a date's daily game, in play order. Created on first use and
+  // stored, so every player that day gets the same set even if pairs or the
+  // challenge change later.
+  public async getDailyPairSet(date: string): Promise<DailyPairSet> {
+    const existing = await this.db.getDailyPairSet(date);
+    if (existing) {
+      return existing;
+    }
+
+    const challenge = await this.getDailyChallengeByDate(date);
+    const pairSet: DailyPairSet = challenge?.pair_ids
+      ? {
+          date,
+          pair_ids: challenge.pair_ids,
+          source: 'curated',
+          challenge_id: challenge.id,
+          created_at: new Date()
+        }
+      : await this.generatePairSet(date, challenge);
+
+    await this.db.createDailyPairSet(pairSet);
+    logger.info(`Froze ${pairSet.source} daily pair set for ${date}`, { pair_ids: pairSet.pair_ids });
+    return pairSet;
+  }
+
+  public toPublicChallenge(challenge: DailyChallenge): PublicDailyChallenge {
+    return {
+      id: challenge.id,
+      date: challenge.date,
+      title: challenge.title,
+      description: challenge.description,
+      difficulty_level: challenge.difficulty_level,
+      category: challenge.category,
+      points_reward: challenge.points_reward
+    };
+  }
+
   public async getActiveChallenges(): Promise<DailyChallenge[]> {
     try {
       const challenges = await this.db.getDailyChallenges();
       return challenges.filter(c => c.is_active);
     } catch (error) {
-      console.error('Error getting active challenges:', error);
+      logger.error('Error getting active challenges', error);
       return [];
     }
   }
-}
\ No newline at end of file
+
+  // Seeded by the date and DAILY_SEED_SECRET, so any server with the secret
+  // generating a date's set from the same pairs picks the same ones
+  private async generatePairSet(date: string, challenge: DailyChallenge | null): Promise<DailyPairSet> {
+    const category = challenge?.category !== 'any' ? challenge?.category : undefined;
+    const candidates = await this.getEligiblePairs(category, challenge?.difficulty_level);
+    if (candidates.length === 0) {
+      throw new Error('No image pairs available. Please upload images and create pairs through the admin panel first.');
+    }
+
+    const seed = createHmac('sha256', getDailySeedSecret()).update(`daily:${date}`).digest('hex');
+    const ordered = [...candidates].sort((a, b) => a.pair_id.localeCompare(b.pair_id));
+    const picked = seededShuffle(ordered, createSeededRandom(seed)).slice(0, DAILY_ROUNDS);
+
+    // Easiest first; with fewer pairs than rounds, pairs repeat
+    picked.sort((a, b) => getPairDifficulty(a) - getPairDifficulty(b));
+    const pairIds = Array.from({ length: DAILY_ROUNDS }, (_, round) => picked[round % picked.length].pair_id);
+
+    return {
+      date,
+      pair_ids: pairIds,
+      source: 'generated',
+      challenge_id: challenge?.id,
+      seed,
+      created_at: new Date()
+    };
+  }
+
+  // The challenge's category and difficulty when there are enough pairs for a
+  // full set; difficulty is relaxed first, then category
+  private async getEligiblePairs(category?: string, difficulty?: number): Promise<ImagePair[]> {
+    const inCategory = await this.db.getAllImagePairs({ category, is_active: true });
+    const atDifficulty = inCategory.filter(pair => difficulty === undefined || getPairDifficulty(pair) === difficulty);
+
+    if (atDifficulty.length >= DAILY_ROUNDS) return atDifficulty;
+    if (inCategory.length >= DAILY_ROUNDS) return inCategory;
+    return await this.db.getAllImagePairs({ is_active: true });
+  }
+
+  private async assertPairsExist(pairIds: string[]): Promise<void> {
+    for (const pairId of pairIds) {
+      if (!await this.db.getImagePair(pairId)) {
+        throw new Error(`Image pair ${pairId} not found`);
+      }
+    }
+  }
+}
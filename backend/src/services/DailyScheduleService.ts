@@ -0,0 +1,205 @@
+import { DatabaseService } from './DatabaseService';
+import { DailyChallengeService } from './DailyChallengeService';
+import {
+  DailyChallenge,
+  DailyChallengeCategory,
+  DailyChallengeTemplate,
+  CreateDailyChallengeData,
+  DailyScheduleResult,
+  DailyCalendar,
+  DailyCalendarDay,
+  DailyPairSet
+} from '../models/DailyChallenge';
+import { ImagePair } from '../models/ImagePair';
+import { DAILY_ROUNDS } from '../utils/gameModes';
+import { addDays, getDailyDate, getDatesInRange } from '../utils/dailyClock';
+import { getPairDifficulty } from '../utils/pairDifficulty';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('DailyScheduleService');
+
+// Difficulty by weekday (Sunday first): easy on Monday, hardest on Sunday
+const WEEKDAY_DIFFICULTY = [5, 1, 2, 2, 3, 4, 4];
+
+const ROTATED_CATEGORIES: DailyChallengeCategory[] = ['portrait', 'landscape', 'object', 'abstract'];
+
+const AUTO_GENERATE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// Plans and bulk-creates daily challenges ahead of time, and reports upcoming
+// days that will not get the pairs their challenge asks for
+export class DailyScheduleService {
+  private db: DatabaseService;
+  private dailyChallengeService: DailyChallengeService;
+
+  constructor() {
+    this.db = DatabaseService.getInstance();
+    this.dailyChallengeService = new DailyChallengeService();
+  }
+
+  // Creates a challenge for every date in the range that has none, applying
+  // the templates in turn. Dates already played keep their frozen pairs and
+  // are skipped too.
+  public async scheduleDailyChallenges(
+    startDate: string,
+    endDate: string,
+    templates: DailyChallengeTemplate[]
+  ): Promise<DailyScheduleResult> {
+    const dates = getDatesInRange(startDate, endDate);
+    const [challenges, pairSets, pairs] = await Promise.all([
+      this.db.getDailyChallenges(),
+      this.db.getDailyPairSetsByDates(dates),
+      this.db.getAllImagePairs({ is_active: true })
+    ]);
+    const taken = new Set([
+      ...challenges.filter(challenge => challenge.is_active).map(challenge => challenge.date),
+      ...pairSets.map(pairSet => pairSet.date)
+    ]);
+    const categories = this.getRotatableCategories(pairs);
+
+    const result: DailyScheduleResult = { created: [], skipped_dates: [] };
+    for (const [index, date] of dates.entries()) {
+      if (taken.has(date)) {
+        result.skipped_dates.push(date);
+        continue;
+      }
+
+      const data = { ...this.planChallenge(date, categories), ...templates[index % templates.length] };
+      result.created.push(await this.dailyChallengeService.createDailyChallenge(data));
+    }
+
+    logger.info(`Scheduled ${result.created.length} daily challenges for ${startDate} to ${endDate}`, {
+      skipped: result.skipped_dates.length
+    });
+    return result;
+  }
+
+  // Fills the gaps in the coming days from the generator's plan alone
+  public async generateDailyChallenges(days: number, startDate: string = getDailyDate()): Promise<DailyScheduleResult> {
+    return await this.scheduleDailyChallenges(startDate, addDays(startDate, days - 1), [{}]);
+  }
+
+  public async getCalendar(startDate: string, endDate: string): Promise<DailyCalendar> {
+    const dates = getDatesInRange(startDate, endDate);
+    const [challenges, pairSets, pairs] = await Promise.all([
+      this.db.getDailyChallenges(),
+      this.db.getDailyPairSetsByDates(dates),
+      this.db.getAllImagePairs({ is_active: true })
+    ]);
+    const challengeByDate = new Map(
+      challenges.filter(challenge => challenge.is_active).map(challenge => [challenge.date, challenge])
+    );
+    const pairSetByDate = new Map(pairSets.map(pairSet => [pairSet.date, pairSet]));
+    const today = getDailyDate();
+
+    return {
+      start_date: startDate,
+      end_date: endDate,
+      days: dates.map(date =>
+        this.describeDay(date, challengeByDate.get(date) || null, pairSetByDate.get(date) || null, pairs, date < today)
+      )
+    };
+  }
+
+  // Tops up the schedule now and every few hours, and logs any upcoming day
+  // that is short of pairs. DAILY_AUTOGENERATE_DAYS=0 turns it off.
+  public startAutoGeneration(): void {
+    const days = parseInt(process.env.DAILY_AUTOGENERATE_DAYS || '14', 10);
+    if (!(days > 0)) {
+      logger.info('Daily challenge auto-generation disabled');
+      return;
+    }
+
+    const run = async () => {
+      try {
+        await this.generateDailyChallenges(days);
+        await this.logShortages(days);
+      } catch (error) {
+        logger.error('Daily challenge auto-generation failed', error);
+      }
+    };
+
+    run();
+    setInterval(run, AUTO_GENERATE_INTERVAL_MS).unref();
+  }
+
+  private async logShortages(days: number): Promise<void> {
+    const today = getDailyDate();
+    const calendar = await this.getCalendar(today, addDays(today, days - 1));
+    for (const day of calendar.days) {
+      if (day.warnings.length > 0) {
+        logger.warn(`Daily challenge for ${day.date} needs attention`, { warnings: day.warnings });
+      }
+    }
+  }
+
+  // Categories rotate by date among those with enough pairs for a full day;
+  // difficulty follows the weekday
+  private planChallenge(date: string, categories: DailyChallengeCategory[]): CreateDailyChallengeData {
+    const dayNumber = Math.floor(Date.parse(date) / (24 * 60 * 60 * 1000));
+    const difficulty = WEEKDAY_DIFFICULTY[new Date(date).getUTCDay()];
+    const category = categories.length > 0 ? categories[dayNumber % categories.length] : 'any';
+    const subject = category === 'any' ? 'images' : `${category} images`;
+
+    return {
+      date,
+      title: `Daily Challenge - ${date}`,
+      description: `Can you spot the AI-generated ${subject} in today's challenge?`,
+      difficulty_level: difficulty,
+      category,
+      points_reward: 50 + difficulty * 50
+    };
+  }
+
+  private getRotatableCategories(pairs: ImagePair[]): DailyChallengeCategory[] {
+    return ROTATED_CATEGORIES.filter(
+      category => pairs.filter(pair => pair.category === category).length >= DAILY_ROUNDS
+    );
+  }
+
+  private describeDay(
+    date: string,
+    challenge: DailyChallenge | null,
+    pairSet: DailyPairSet | null,
+    pairs: ImagePair[],
+    isPast: boolean
+  ): DailyCalendarDay {
+    const category = challenge?.category !== 'any' ? challenge?.category : undefined;
+    const inCategory = pairs.filter(pair => !category || pair.category === category);
+    const eligible = inCategory.filter(
+      pair => !challenge || getPairDifficulty(pair) === challenge.difficulty_level
+    );
+
+    // Past and already-played days can no longer be fixed
+    const warnings: string[] = [];
+    if (!isPast && !pairSet) {
+      if (!challenge) {
+        warnings.push('No challenge scheduled; pairs will be drawn from all active pairs');
+      }
+
+      if (challenge?.pair_ids) {
+        const activeIds = new Set(pairs.map(pair => pair.pair_id));
+        const unavailable = challenge.pair_ids.filter(pairId => !activeIds.has(pairId));
+        if (unavailable.length > 0) {
+          warnings.push(`Curated pairs missing or inactive: ${unavailable.join(', ')}`);
+        }
+      } else if (inCategory.length < DAILY_ROUNDS) {
+        warnings.push(category
+          ? `Only ${inCategory.length} active ${category} pairs (needs ${DAILY_ROUNDS}); other categories will be used`
+          : `Only ${inCategory.length} active pairs (needs ${DAILY_ROUNDS}); pairs will repeat`
+        );
+      } else if (challenge && eligible.length < DAILY_ROUNDS) {
+        warnings.push(
+          `Only ${eligible.length} active pairs at difficulty ${challenge.difficulty_level} (needs ${DAILY_ROUNDS}); other difficulties will be used`
+        );
+      }
+    }
+
+    return {
+      date,
+      challenge,
+      pair_set_source: pairSet?.source || null,
+      eligible_pairs: eligible.length,
+      warnings
+    };
+  }
+}
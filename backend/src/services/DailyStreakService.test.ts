@@ -0,0 +1,150 @@
+import { GameRound, GameSession } from '../models/GameSession';
+import { DailyStreak, Player } from '../models/Player';
+import { MAX_STREAK_FREEZES } from '../utils/gameModes';
+import { DailyStreakService } from './DailyStreakService';
+
+const mockPlayers = new Map<string, Player>();
+let mockSessions: GameSession[] = [];
+let mockRounds: GameRound[] = [];
+
+jest.mock('./DatabaseService', () => ({
+  DatabaseService: {
+    getInstance: () => ({
+      getPlayer: async (id: string) => mockPlayers.get(id) ?? null,
+      updatePlayer: async (id: string, updates: Partial<Player>) => {
+        const player = { ...mockPlayers.get(id)!, ...updates };
+        mockPlayers.set(id, player);
+        return player;
+      },
+      getGameSessions: async (filters: Partial<GameSession>) =>
+        mockSessions.filter(session =>
+          Object.entries(filters).every(([field, value]) => session[field as keyof GameSession] === value)
+        ),
+      getGameRoundsBySessions: async (sessionIds: string[]) =>
+        mockRounds.filter(round => sessionIds.includes(round.session_id))
+    })
+  }
+}));
+
+const PLAYER_ID = 'player';
+
+const streakOf = (): DailyStreak => mockPlayers.get(PLAYER_ID)!.daily_streak!;
+
+const dailySession = (id: string, date: string, overrides: Partial<GameSession> = {}): GameSession => ({
+  session_id: id,
+  player_id: PLAYER_ID,
+  game_mode: 'daily',
+  start_time: new Date(`${date}T12:00:00.000Z`),
+  total_score: 0,
+  rounds_completed: 3,
+  current_streak: 0,
+  is_completed: true,
+  daily_challenge_date: date,
+  ...overrides
+});
+
+const roundsOf = (sessionId: string, correct: number): GameRound[] =>
+  [1, 2, 3].map(roundNumber => ({
+    round_id: `${sessionId}-${roundNumber}`,
+    session_id: sessionId,
+    pair_id: `${sessionId}-pair-${roundNumber}`,
+    player_choice: 'ai',
+    correct_answer: roundNumber <= correct ? 'ai' : 'real',
+    is_correct: roundNumber <= correct,
+    response_time: 5000,
+    points_earned: 0,
+    round_number: roundNumber,
+    timestamp: new Date()
+  }));
+
+describe('DailyStreakService', () => {
+  const service = new DailyStreakService();
+
+  const complete = (date: string, correct = 2) => service.recordDailyCompleted(PLAYER_ID, date, correct);
+
+  beforeEach(() => {
+    mockPlayers.clear();
+    mockPlayers.set(PLAYER_ID, {
+      player_id: PLAYER_ID,
+      username: 'player',
+      display_name: 'player',
+      password_hash: '',
+      timezone: 'UTC',
+      created_at: new Date(),
+      updated_at: new Date()
+    });
+    mockSessions = [];
+    mockRounds = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('extends the streak on consecutive days', async () => {
+    await complete('2026-03-01');
+    await complete('2026-03-02');
+    await complete('2026-03-03');
+
+    expect(streakOf()).toMatchObject({ current: 3, longest: 3, days_played: 3, missed_days: 0, last_date: '2026-03-03' });
+  });
+
+  it('changes nothing for a second daily on the same or an earlier date', async () => {
+    await complete('2026-03-02');
+    const before = streakOf();
+
+    await complete('2026-03-02', 3);
+    await complete('2026-03-01', 3);
+    expect(streakOf()).toBe(before);
+  });
+
+  it('earns a freeze for each perfect day, up to the maximum', async () => {
+    for (let day = 1; day <= MAX_STREAK_FREEZES + 2; day++) {
+      await complete(`2026-03-0${day}`, 3);
+    }
+
+    expect(streakOf()).toMatchObject({ perfect_days: MAX_STREAK_FREEZES + 2, freezes: MAX_STREAK_FREEZES });
+  });
+
+  it('spends freezes on missed days to keep the streak', async () => {
+    await complete('2026-03-01', 3);
+    await complete('2026-03-02', 3);
+    await complete('2026-03-05');
+
+    expect(streakOf()).toMatchObject({ current: 3, missed_days: 2, freezes: 0, freezes_used: 2 });
+  });
+
+  it('resets the streak when more days are missed than freezes cover', async () => {
+    await complete('2026-03-01', 3);
+    await complete('2026-03-02');
+    await complete('2026-03-05');
+
+    expect(streakOf()).toMatchObject({ current: 1, longest: 2, missed_days: 2, freezes: 1, freezes_used: 0 });
+  });
+
+  it('reports a lapsed streak before the next daily is played', async () => {
+    await complete('2026-03-01', 3);
+    await complete('2026-03-02');
+
+    jest.useFakeTimers({ now: new Date('2026-03-04T12:00:00.000Z') });
+    expect(service.getStats(mockPlayers.get(PLAYER_ID)!)).toMatchObject({ current: 2, missedDays: 1 });
+
+    jest.setSystemTime(new Date('2026-03-05T12:00:00.000Z'));
+    expect(service.getStats(mockPlayers.get(PLAYER_ID)!)).toMatchObject({ current: 0, missedDays: 2 });
+  });
+
+  it('rebuilds from the first counted daily per date', async () => {
+    mockSessions = [
+      dailySession('first', '2026-03-01'),
+      // A second game the same day, already knowing the answers
+      dailySession('replay', '2026-03-01', { start_time: new Date('2026-03-01T13:00:00.000Z') }),
+      dailySession('abandoned', '2026-03-02', { rounds_completed: 0, is_abandoned: true }),
+      dailySession('third', '2026-03-03')
+    ];
+    mockRounds = [...roundsOf('first', 2), ...roundsOf('replay', 3), ...roundsOf('third', 3)];
+
+    const streak = await service.rebuild(PLAYER_ID);
+    expect(streak).toMatchObject({ current: 1, days_played: 2, missed_days: 1, perfect_days: 1, freezes: 1 });
+    expect(streakOf()).toEqual(streak);
+  });
+});
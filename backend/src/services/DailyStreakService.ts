@@ -0,0 +1,131 @@
+import { DatabaseService } from './DatabaseService';
+import { Player, DailyStreak, DailyStreakStats } from '../models/Player';
+import { DAILY_ROUNDS, MAX_STREAK_FREEZES, getCountedDailySessionIds } from '../utils/gameModes';
+import { daysBetween, getDailyDate } from '../utils/dailyClock';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('DailyStreakService');
+
+const EMPTY_STREAK: DailyStreak = {
+  current: 0,
+  longest: 0,
+  days_played: 0,
+  missed_days: 0,
+  perfect_days: 0,
+  freezes: 0,
+  freezes_used: 0
+};
+
+// The streak after completing the daily for `date`. Dates on or before the
+// last counted one (a second game, or a timezone moved back) change nothing.
+const advanceStreak = (streak: DailyStreak, date: string, perfect: boolean): DailyStreak => {
+  if (streak.last_date && date <= streak.last_date) {
+    return streak;
+  }
+
+  const next = { ...streak, last_date: date, days_played: streak.days_played + 1 };
+  const missed = streak.last_date ? daysBetween(streak.last_date, date) - 1 : 0;
+
+  if (missed === 0) {
+    next.current = streak.current + 1;
+  } else if (missed <= streak.freezes) {
+    next.current = streak.current + 1;
+    next.freezes = streak.freezes - missed;
+    next.freezes_used = streak.freezes_used + missed;
+  } else {
+    next.current = 1;
+  }
+  next.missed_days = streak.missed_days + missed;
+  next.longest = Math.max(streak.longest, next.current);
+
+  if (perfect) {
+    next.perfect_days = streak.perfect_days + 1;
+    next.freezes = Math.min(next.freezes + 1, MAX_STREAK_FREEZES);
+  }
+  return next;
+};
+
+// Daily attendance per player, stored on the player record and advanced as
+// each daily completes
+export class DailyStreakService {
+  private db: DatabaseService;
+
+  constructor() {
+    this.db = DatabaseService.getInstance();
+  }
+
+  // Called once, when a daily session first completes
+  public async recordDailyCompleted(playerId: string, date: string, correctAnswers: number): Promise<DailyStreak | null> {
+    const player = await this.db.getPlayer(playerId);
+    if (!player) return null;
+
+    const streak = advanceStreak(player.daily_streak || EMPTY_STREAK, date, correctAnswers >= DAILY_ROUNDS);
+    if (streak === player.daily_streak) return streak;
+
+    await this.db.updatePlayer(playerId, { daily_streak: streak });
+    return streak;
+  }
+
+  // Replays the player's completed dailies, e.g. after a guest's history has
+  // been merged into the account
+  public async rebuild(playerId: string): Promise<DailyStreak> {
+    const dailies = await this.db.getGameSessions({ player_id: playerId, game_mode: 'daily' });
+    const counted = getCountedDailySessionIds(dailies);
+    const sessions = dailies.filter(session =>
+      session.is_completed && !session.is_abandoned && counted.has(session.session_id)
+    );
+    const rounds = await this.db.getGameRoundsBySessions(sessions.map(session => session.session_id));
+
+    const correctBySession = new Map<string, number>();
+    for (const round of rounds) {
+      if (round.is_correct) {
+        correctBySession.set(round.session_id, (correctBySession.get(round.session_id) || 0) + 1);
+      }
+    }
+
+    const dated = sessions
+      .filter(session => session.daily_challenge_date)
+      .sort((a, b) => a.daily_challenge_date!.localeCompare(b.daily_challenge_date!));
+    const streak = dated.reduce(
+      (current, session) => advanceStreak(
+        current,
+        session.daily_challenge_date!,
+        (correctBySession.get(session.session_id) || 0) >= DAILY_ROUNDS
+      ),
+      EMPTY_STREAK
+    );
+
+    await this.db.updatePlayer(playerId, { daily_streak: streak });
+    logger.info(`Rebuilt daily streak for ${playerId}`, { current: streak.current, days_played: streak.days_played });
+    return streak;
+  }
+
+  // The streak as it stands on the player's current daily date. Days missed
+  // since the last daily are only charged (to freezes or the streak) when
+  // the next daily completes, so they are accounted for here.
+  public getStats(player: Player | null): DailyStreakStats {
+    const streak = player?.daily_streak || EMPTY_STREAK;
+    const pending = this.getPendingMissedDays(streak, getDailyDate(player?.timezone));
+
+    return {
+      current: pending > streak.freezes ? 0 : streak.current,
+      longest: streak.longest,
+      daysPlayed: streak.days_played,
+      missedDays: streak.missed_days + pending,
+      perfectDays: streak.perfect_days,
+      freezes: streak.freezes,
+      freezesUsed: streak.freezes_used,
+      lastPlayedDate: streak.last_date
+    };
+  }
+
+  public getCurrentStreak(player: Player | null): number {
+    return this.getStats(player).current;
+  }
+
+  // Days since the last daily that have passed without one, not counting today
+  private getPendingMissedDays(streak: DailyStreak, today: string): number {
+    if (!streak.last_date) return 0;
+    return Math.max(0, daysBetween(streak.last_date, today) - 1);
+  }
+}
@@ -2,15 +2,46 @@ import fs from 'fs/promises';
 import path from 'path';
 import { Image } from '../models/Image';
 import { ImagePair } from '../models/ImagePair';
-import { GameSession, GameRound } from '../models/GameSession';
-import { DailyChallenge } from '../models/DailyChallenge';
+import { ImageSet } from '../models/ImageSet';
+import { GameSession, GameRound, GameMode } from '../models/GameSession';
+import { DailyChallenge, DailyPairSet } from '../models/DailyChallenge';
+import { Player } from '../models/Player';
+import { AdminUser, AdminApiToken } from '../models/AdminUser';
+import { AuditLog, AuditLevel } from '../models/AuditLog';
+import { SharedResult } from '../models/Share';
+import { DataStore, Repository } from '../repositories/Repository';
+import { createDataStore } from '../repositories/createDataStore';
+import {
+  ImageEntity,
+  ImagePairEntity,
+  ImageSetEntity,
+  GameSessionEntity,
+  GameRoundEntity,
+  DailyChallengeEntity,
+  DailyPairSetEntity,
+  PlayerEntity,
+  AdminUserEntity,
+  AdminApiTokenEntity,
+  AuditLogEntity,
+  SharedResultEntity
+} from '../repositories/entities';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('DatabaseService');
 
 export interface DatabaseData {
   images: Record<string, Image>;
   imagePairs: Record<string, ImagePair>;
+  imageSets: Record<string, ImageSet>;
   gameSessions: Record<string, GameSession>;
   gameRounds: Record<string, GameRound>;
   dailyChallenges: Record<string, DailyChallenge>;
+  dailyPairSets: Record<string, DailyPairSet>;
+  players: Record<string, Player>;
+  adminUsers: Record<string, AdminUser>;
+  adminApiTokens: Record<string, AdminApiToken>;
+  auditLogs: Record<string, AuditLog>;
+  sharedResults: Record<string, SharedResult>;
   statistics: Record<string, any>;
 }
 
@@ -20,22 +51,48 @@ export class DatabaseService {
   private backupPath: string;
   private autoSaveInterval: NodeJS.Timeout | null = null;
 
-  // In-memory storage
-  private images: Map<string, Image> = new Map();
-  private imagePairs: Map<string, ImagePair> = new Map();
-  private gameSessions: Map<string, GameSession> = new Map();
-  private gameRounds: Map<string, GameRound> = new Map();
-  private dailyChallenges: Map<string, DailyChallenge> = new Map();
+  // Storage backend selected by DB_DRIVER (json or sqlite)
+  private store: DataStore;
+  private images: Repository<Image>;
+  private imagePairs: Repository<ImagePair>;
+  private imageSets: Repository<ImageSet>;
+  private gameSessions: Repository<GameSession>;
+  private gameRounds: Repository<GameRound>;
+  private dailyChallenges: Repository<DailyChallenge>;
+  private dailyPairSets: Repository<DailyPairSet>;
+  private players: Repository<Player>;
+  private adminUsers: Repository<AdminUser>;
+  private adminApiTokens: Repository<AdminApiToken>;
+  private auditLogs: Repository<AuditLog>;
+  private sharedResults: Repository<SharedResult>;
   private statistics: Map<string, any> = new Map();
+  private loading: Promise<void>;
 
   private constructor() {
     this.dataPath = path.join(process.cwd(), 'data');
     this.backupPath = path.join(this.dataPath, 'backups');
-    this.ensureDirectories();
-    this.loadFromDisk();
+    this.store = createDataStore(this.dataPath);
+    this.images = this.store.repository(ImageEntity);
+    this.imagePairs = this.store.repository(ImagePairEntity);
+    this.imageSets = this.store.repository(ImageSetEntity);
+    this.gameSessions = this.store.repository(GameSessionEntity);
+    this.gameRounds = this.store.repository(GameRoundEntity);
+    this.dailyChallenges = this.store.repository(DailyChallengeEntity);
+    this.dailyPairSets = this.store.repository(DailyPairSetEntity);
+    this.players = this.store.repository(PlayerEntity);
+    this.adminUsers = this.store.repository(AdminUserEntity);
+    this.adminApiTokens = this.store.repository(AdminApiTokenEntity);
+    this.auditLogs = this.store.repository(AuditLogEntity);
+    this.sharedResults = this.store.repository(SharedResultEntity);
+    this.loading = Promise.all([this.ensureDirectories(), this.loadFromDisk()]).then(() => undefined);
     this.startAutoSave();
   }
 
+  // Resolves once persisted data has been loaded and the data directories exist
+  public async ready(): Promise<void> {
+    await this.loading;
+  }
+
   public static getInstance(): DatabaseService {
     if (!DatabaseService.instance) {
       DatabaseService.instance = new DatabaseService();
@@ -49,140 +106,42 @@ export class DatabaseService {
       await fs.mkdir(this.backupPath, { recursive: true });
       await fs.mkdir(path.join(process.cwd(), 'uploads', 'images'), { recursive: true });
     } catch (error) {
-      console.error('Error creating directories:', error);
+      logger.error('Error creating directories', error);
     }
   }
 
   private async loadFromDisk(): Promise<void> {
     try {
-      console.log('Loading data from disk...');
-      
-      // Load images
-      const imagesPath = path.join(this.dataPath, 'images.json');
-      if (await this.fileExists(imagesPath)) {
-        const imagesData = JSON.parse(await fs.readFile(imagesPath, 'utf-8'));
-        Object.entries(imagesData).forEach(([id, image]: [string, any]) => {
-          // Convert date strings back to Date objects
-          image.upload_date = new Date(image.upload_date);
-          this.images.set(id, image as Image);
-        });
-        console.log(`Loaded ${this.images.size} images`);
-      }
-
-      // Load image pairs
-      const pairsPath = path.join(this.dataPath, 'pairs.json');
-      if (await this.fileExists(pairsPath)) {
-        const pairsData = JSON.parse(await fs.readFile(pairsPath, 'utf-8'));
-        Object.entries(pairsData).forEach(([id, pair]: [string, any]) => {
-          pair.creation_date = new Date(pair.creation_date);
-          this.imagePairs.set(id, pair as ImagePair);
-        });
-        console.log(`Loaded ${this.imagePairs.size} image pairs`);
-      }
-
-      // Load game sessions
-      const sessionsPath = path.join(this.dataPath, 'sessions.json');
-      if (await this.fileExists(sessionsPath)) {
-        const sessionsData = JSON.parse(await fs.readFile(sessionsPath, 'utf-8'));
-        Object.entries(sessionsData).forEach(([id, session]: [string, any]) => {
-          session.start_time = new Date(session.start_time);
-          if (session.end_time) session.end_time = new Date(session.end_time);
-          this.gameSessions.set(id, session as GameSession);
-        });
-        console.log(`Loaded ${this.gameSessions.size} game sessions`);
-      }
-
-      // Load game rounds
-      const roundsPath = path.join(this.dataPath, 'rounds.json');
-      if (await this.fileExists(roundsPath)) {
-        const roundsData = JSON.parse(await fs.readFile(roundsPath, 'utf-8'));
-        Object.entries(roundsData).forEach(([id, round]: [string, any]) => {
-          round.timestamp = new Date(round.timestamp);
-          this.gameRounds.set(id, round as GameRound);
-        });
-        console.log(`Loaded ${this.gameRounds.size} game rounds`);
-      }
-
-      // Load daily challenges
-      const challengesPath = path.join(this.dataPath, 'dailyChallenges.json');
-      if (await this.fileExists(challengesPath)) {
-        const challengesData = JSON.parse(await fs.readFile(challengesPath, 'utf-8'));
-        Object.entries(challengesData).forEach(([id, challenge]: [string, any]) => {
-          challenge.created_at = new Date(challenge.created_at);
-          challenge.updated_at = new Date(challenge.updated_at);
-          this.dailyChallenges.set(id, challenge as DailyChallenge);
-        });
-        console.log(`Loaded ${this.dailyChallenges.size} daily challenges`);
-      }
-
-      console.log('Data loading completed successfully');
+      logger.info(`Loading data (${this.store.driver} store)...`);
+      await this.store.load();
+      logger.info('Data loading completed successfully');
     } catch (error) {
-      console.error('Error loading data from disk:', error);
-    }
-  }
-
-  private async fileExists(filePath: string): Promise<boolean> {
-    try {
-      await fs.access(filePath);
-      return true;
-    } catch {
-      return false;
+      logger.error('Error loading data from disk', error);
     }
   }
 
   private startAutoSave(): void {
-    // Auto-save every 5 minutes
+    // SQLite commits every write; only the JSON store needs periodic snapshots
+    if (this.store.driver !== 'json') return;
+
+    // Every JSON mutation is journaled immediately; snapshot and compact the
+    // journal every 5 minutes
     this.autoSaveInterval = setInterval(() => {
       this.saveToDisk().catch(error => {
-        console.error('Auto-save failed:', error);
+        logger.error('Auto-save failed', error);
       });
     }, 5 * 60 * 1000);
 
-    console.log('Auto-save started (every 5 minutes)');
+    logger.info('Auto-save started (journal compaction every 5 minutes)');
   }
 
   public async saveToDisk(): Promise<void> {
     try {
-      console.log('Saving data to disk...');
-
-      // Save images
-      const imagesData = Object.fromEntries(this.images.entries());
-      await fs.writeFile(
-        path.join(this.dataPath, 'images.json'),
-        JSON.stringify(imagesData, null, 2)
-      );
-
-      // Save image pairs
-      const pairsData = Object.fromEntries(this.imagePairs.entries());
-      await fs.writeFile(
-        path.join(this.dataPath, 'pairs.json'),
-        JSON.stringify(pairsData, null, 2)
-      );
-
-      // Save game sessions
-      const sessionsData = Object.fromEntries(this.gameSessions.entries());
-      await fs.writeFile(
-        path.join(this.dataPath, 'sessions.json'),
-        JSON.stringify(sessionsData, null, 2)
-      );
-
-      // Save game rounds
-      const roundsData = Object.fromEntries(this.gameRounds.entries());
-      await fs.writeFile(
-        path.join(this.dataPath, 'rounds.json'),
-        JSON.stringify(roundsData, null, 2)
-      );
-
-      // Save daily challenges
-      const challengesData = Object.fromEntries(this.dailyChallenges.entries());
-      await fs.writeFile(
-        path.join(this.dataPath, 'dailyChallenges.json'),
-        JSON.stringify(challengesData, null, 2)
-      );
-
-      console.log('Data saved successfully');
+      logger.info('Saving data to disk...');
+      await this.store.flush();
+      logger.info('Data saved successfully');
     } catch (error) {
-      console.error('Error saving data to disk:', error);
+      logger.error('Error saving data to disk', error);
       throw error;
     }
   }
@@ -193,27 +152,33 @@ export class DatabaseService {
     const backupFilePath = path.join(this.backupPath, backupFileName);
 
     const backupData: DatabaseData = {
-      images: Object.fromEntries(this.images.entries()),
-      imagePairs: Object.fromEntries(this.imagePairs.entries()),
-      gameSessions: Object.fromEntries(this.gameSessions.entries()),
-      gameRounds: Object.fromEntries(this.gameRounds.entries()),
-      dailyChallenges: Object.fromEntries(this.dailyChallenges.entries()),
+      images: this.toRecord(await this.images.getAll(), image => image.id),
+      imagePairs: this.toRecord(await this.imagePairs.getAll(), pair => pair.pair_id),
+      imageSets: this.toRecord(await this.imageSets.getAll(), set => set.set_id),
+      gameSessions: this.toRecord(await this.gameSessions.getAll(), session => session.session_id),
+      gameRounds: this.toRecord(await this.gameRounds.getAll(), round => round.round_id),
+      dailyChallenges: this.toRecord(await this.dailyChallenges.getAll(), challenge => challenge.id),
+      dailyPairSets: this.toRecord(await this.dailyPairSets.getAll(), pairSet => pairSet.date),
+      players: this.toRecord(await this.players.getAll(), player => player.player_id),
+      adminUsers: this.toRecord(await this.adminUsers.getAll(), admin => admin.admin_id),
+      adminApiTokens: this.toRecord(await this.adminApiTokens.getAll(), token => token.token_id),
+      auditLogs: this.toRecord(await this.auditLogs.getAll(), entry => entry.audit_id),
+      sharedResults: this.toRecord(await this.sharedResults.getAll(), share => share.share_id),
       statistics: Object.fromEntries(this.statistics.entries())
     };
 
     await fs.writeFile(backupFilePath, JSON.stringify(backupData, null, 2));
-    console.log(`Backup created: ${backupFileName}`);
+    logger.info(`Backup created: ${backupFileName}`);
     return backupFileName;
   }
 
   // Image operations
   public async createImage(image: Image): Promise<Image> {
-    this.images.set(image.id, image);
-    return image;
+    return await this.images.save(image);
   }
 
   public async getImage(id: string): Promise<Image | null> {
-    return this.images.get(id) || null;
+    return await this.images.get(id);
   }
 
   public async getAllImages(filters?: {
@@ -221,44 +186,28 @@ export class DatabaseService {
     difficulty?: number;
     is_ai_generated?: boolean;
   }): Promise<Image[]> {
-    let images = Array.from(this.images.values());
-
-    if (filters) {
-      if (filters.category) {
-        images = images.filter(img => img.category === filters.category);
-      }
-      if (filters.difficulty) {
-        images = images.filter(img => img.difficulty_level === filters.difficulty);
-      }
-      if (filters.is_ai_generated !== undefined) {
-        images = images.filter(img => img.is_ai_generated === filters.is_ai_generated);
-      }
-    }
-
-    return images;
+    return await this.images.find({
+      category: filters?.category || undefined,
+      difficulty_level: filters?.difficulty || undefined,
+      is_ai_generated: filters?.is_ai_generated
+    });
   }
 
   public async updateImage(id: string, updates: Partial<Image>): Promise<Image | null> {
-    const image = this.images.get(id);
-    if (!image) return null;
-
-    const updatedImage = { ...image, ...updates };
-    this.images.set(id, updatedImage);
-    return updatedImage;
+    return await this.images.update(id, updates);
   }
 
   public async deleteImage(id: string): Promise<boolean> {
-    return this.images.delete(id);
+    return await this.images.delete(id);
   }
 
   // Image pair operations
   public async createImagePair(pair: ImagePair): Promise<ImagePair> {
-    this.imagePairs.set(pair.pair_id, pair);
-    return pair;
+    return await this.imagePairs.save(pair);
   }
 
   public async getImagePair(id: string): Promise<ImagePair | null> {
-    return this.imagePairs.get(id) || null;
+    return await this.imagePairs.get(id);
   }
 
   public async getAllImagePairs(filters?: {
@@ -266,99 +215,261 @@ export class DatabaseService {
     difficulty?: number;
     is_active?: boolean;
   }): Promise<ImagePair[]> {
-    let pairs = Array.from(this.imagePairs.values());
-
-    if (filters) {
-      if (filters.category) {
-        pairs = pairs.filter(pair => pair.category === filters.category);
-      }
-      if (filters.difficulty) {
-        pairs = pairs.filter(pair => pair.difficulty_level === filters.difficulty);
-      }
-      if (filters.is_active !== undefined) {
-        pairs = pairs.filter(pair => pair.is_active === filters.is_active);
-      }
-    }
-
-    return pairs;
+    return await this.imagePairs.find({
+      category: filters?.category || undefined,
+      difficulty_level: filters?.difficulty || undefined,
+      is_active: filters?.is_active
+    });
   }
 
   public async updateImagePair(id: string, updates: Partial<ImagePair>): Promise<ImagePair | null> {
-    const pair = this.imagePairs.get(id);
-    if (!pair) return null;
-
-    const updatedPair = { ...pair, ...updates };
-    this.imagePairs.set(id, updatedPair);
-    return updatedPair;
+    return await this.imagePairs.update(id, updates);
   }
 
   public async deleteImagePair(id: string): Promise<boolean> {
-    return this.imagePairs.delete(id);
+    return await this.imagePairs.delete(id);
+  }
+
+  // Image set operations
+  public async createImageSet(set: ImageSet): Promise<ImageSet> {
+    return await this.imageSets.save(set);
+  }
+
+  public async getImageSet(id: string): Promise<ImageSet | null> {
+    return await this.imageSets.get(id);
+  }
+
+  public async getAllImageSets(filters?: {
+    category?: string;
+    difficulty?: number;
+    is_active?: boolean;
+  }): Promise<ImageSet[]> {
+    return await this.imageSets.find({
+      category: filters?.category || undefined,
+      difficulty_level: filters?.difficulty || undefined,
+      is_active: filters?.is_active
+    });
+  }
+
+  public async updateImageSet(id: string, updates: Partial<ImageSet>): Promise<ImageSet | null> {
+    return await this.imageSets.update(id, updates);
+  }
+
+  public async deleteImageSet(id: string): Promise<boolean> {
+    return await this.imageSets.delete(id);
   }
 
   // Game session operations
   public async createGameSession(session: GameSession): Promise<GameSession> {
-    this.gameSessions.set(session.session_id, session);
-    return session;
+    return await this.gameSessions.save(session);
   }
 
   public async getGameSession(id: string): Promise<GameSession | null> {
-    return this.gameSessions.get(id) || null;
+    return await this.gameSessions.get(id);
+  }
+
+  public async getGameSessions(filters?: {
+    player_id?: string;
+    game_mode?: GameMode;
+    is_completed?: boolean;
+    daily_challenge_date?: string;
+  }): Promise<GameSession[]> {
+    return await this.gameSessions.find({ ...filters });
   }
 
   public async updateGameSession(id: string, updates: Partial<GameSession>): Promise<GameSession | null> {
-    const session = this.gameSessions.get(id);
-    if (!session) return null;
+    return await this.gameSessions.update(id, updates);
+  }
 
-    const updatedSession = { ...session, ...updates };
-    this.gameSessions.set(id, updatedSession);
-    return updatedSession;
+  // Moves every session of one player to another; rounds follow their session
+  public async reassignGameSessions(fromPlayerId: string, toPlayerId: string): Promise<number> {
+    const sessions = await this.gameSessions.find({ player_id: fromPlayerId });
+    await this.gameSessions.saveMany(sessions.map(session => ({ ...session, player_id: toPlayerId })));
+    return sessions.length;
   }
 
   // Game round operations
   public async createGameRound(round: GameRound): Promise<GameRound> {
-    this.gameRounds.set(round.round_id, round);
-    return round;
+    return await this.gameRounds.save(round);
   }
 
   public async getGameRoundsBySession(sessionId: string): Promise<GameRound[]> {
-    return Array.from(this.gameRounds.values())
-      .filter(round => round.session_id === sessionId)
-      .sort((a, b) => a.round_number - b.round_number);
+    const rounds = await this.gameRounds.find({ session_id: sessionId });
+    return rounds.sort((a, b) => a.round_number - b.round_number);
+  }
+
+  public async getGameRoundsBySessions(sessionIds: string[]): Promise<GameRound[]> {
+    return await this.gameRounds.findIn('session_id', sessionIds);
+  }
+
+  public async getGameRounds(filters?: { pair_id?: string }): Promise<GameRound[]> {
+    return await this.gameRounds.find({ ...filters });
   }
 
   // Daily Challenges
   public async createDailyChallenge(challenge: DailyChallenge): Promise<DailyChallenge> {
-    this.dailyChallenges.set(challenge.id, challenge);
-    return challenge;
+    return await this.dailyChallenges.save(challenge);
   }
 
   public async getDailyChallenges(): Promise<DailyChallenge[]> {
-    return Array.from(this.dailyChallenges.values());
+    return await this.dailyChallenges.getAll();
+  }
+
+  public async getDailyChallengesByDate(date: string): Promise<DailyChallenge[]> {
+    return await this.dailyChallenges.find({ date });
   }
 
   public async getDailyChallengeById(id: string): Promise<DailyChallenge | null> {
-    return this.dailyChallenges.get(id) || null;
+    return await this.dailyChallenges.get(id);
   }
 
   public async updateDailyChallenge(id: string, challenge: DailyChallenge): Promise<DailyChallenge> {
-    this.dailyChallenges.set(id, challenge);
-    return challenge;
+    return await this.dailyChallenges.save({ ...challenge, id });
   }
 
   public async deleteDailyChallenge(id: string): Promise<boolean> {
-    return this.dailyChallenges.delete(id);
+    return await this.dailyChallenges.delete(id);
+  }
+
+  public async getDailyPairSet(date: string): Promise<DailyPairSet | null> {
+    return await this.dailyPairSets.get(date);
+  }
+
+  public async getDailyPairSetsByDates(dates: string[]): Promise<DailyPairSet[]> {
+    return await this.dailyPairSets.findIn('date', dates);
+  }
+
+  public async createDailyPairSet(pairSet: DailyPairSet): Promise<DailyPairSet> {
+    return await this.dailyPairSets.save(pairSet);
+  }
+
+  // Players
+  public async createPlayer(player: Player): Promise<Player> {
+    return await this.players.save(player);
+  }
+
+  public async getPlayer(id: string): Promise<Player | null> {
+    return await this.players.get(id);
+  }
+
+  public async getPlayerByUsername(username: string): Promise<Player | null> {
+    const players = await this.players.find({ username });
+    return players[0] || null;
+  }
+
+  public async getPlayersByIds(ids: string[]): Promise<Player[]> {
+    return await this.players.findIn('player_id', ids);
+  }
+
+  public async updatePlayer(id: string, updates: Partial<Player>): Promise<Player | null> {
+    return await this.players.update(id, updates);
+  }
+
+  public async deletePlayer(id: string): Promise<boolean> {
+    return await this.players.delete(id);
+  }
+
+  // Admin users and API tokens
+  public async createAdminUser(admin: AdminUser): Promise<AdminUser> {
+    return await this.adminUsers.save(admin);
+  }
+
+  public async getAdminUser(id: string): Promise<AdminUser | null> {
+    return await this.adminUsers.get(id);
+  }
+
+  public async getAdminUserByUsername(username: string): Promise<AdminUser | null> {
+    const admins = await this.adminUsers.find({ username });
+    return admins[0] || null;
+  }
+
+  public async getAdminUsers(): Promise<AdminUser[]> {
+    return await this.adminUsers.getAll();
+  }
+
+  public async updateAdminUser(id: string, updates: Partial<AdminUser>): Promise<AdminUser | null> {
+    return await this.adminUsers.update(id, updates);
+  }
+
+  public async createAdminApiToken(token: AdminApiToken): Promise<AdminApiToken> {
+    return await this.adminApiTokens.save(token);
+  }
+
+  public async getAdminApiToken(id: string): Promise<AdminApiToken | null> {
+    return await this.adminApiTokens.get(id);
+  }
+
+  public async getAdminApiTokenByHash(tokenHash: string): Promise<AdminApiToken | null> {
+    const tokens = await this.adminApiTokens.find({ token_hash: tokenHash });
+    return tokens[0] || null;
+  }
+
+  public async getAdminApiTokens(filters?: { admin_id?: string }): Promise<AdminApiToken[]> {
+    return await this.adminApiTokens.find({ ...filters });
+  }
+
+  public async updateAdminApiToken(id: string, updates: Partial<AdminApiToken>): Promise<AdminApiToken | null> {
+    return await this.adminApiTokens.update(id, updates);
+  }
+
+  // Audit log
+  public async createAuditLog(entry: AuditLog): Promise<AuditLog> {
+    return await this.auditLogs.save(entry);
+  }
+
+  // Equality filters go through the repository; time range and target are
+  // applied afterwards. Newest entries first.
+  public async getAuditLogs(filters: {
+    actor_username?: string;
+    operation?: string;
+    level?: AuditLevel;
+    result?: AuditLog['result'];
+    target_id?: string;
+    from?: Date;
+    to?: Date;
+    limit: number;
+    offset: number;
+  }): Promise<{ logs: AuditLog[]; total: number }> {
+    const { from, to, target_id, limit, offset, ...equality } = filters;
+    const entries = await this.auditLogs.find(equality);
+
+    const matching = entries
+      .filter(entry => !from || entry.timestamp >= from)
+      .filter(entry => !to || entry.timestamp <= to)
+      .filter(entry => !target_id || entry.target_ids.includes(target_id))
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+    return {
+      logs: matching.slice(offset, offset + limit),
+      total: matching.length
+    };
+  }
+
+  // Shared results
+  public async createSharedResult(share: SharedResult): Promise<SharedResult> {
+    return await this.sharedResults.save(share);
+  }
+
+  public async getSharedResult(shareId: string): Promise<SharedResult | null> {
+    return await this.sharedResults.get(shareId);
+  }
+
+  public async getSharedResultBySession(sessionId: string): Promise<SharedResult | null> {
+    const shares = await this.sharedResults.find({ session_id: sessionId });
+    return shares[0] || null;
   }
 
   // Statistics
-  public getStats() {
+  public async getStats() {
     return {
-      totalImages: this.images.size,
-      totalPairs: this.imagePairs.size,
-      totalSessions: this.gameSessions.size,
-      totalRounds: this.gameRounds.size,
-      totalDailyChallenges: this.dailyChallenges.size,
-      activePairs: Array.from(this.imagePairs.values()).filter(p => p.is_active).length
+      totalImages: await this.images.count(),
+      totalPairs: await this.imagePairs.count(),
+      totalImageSets: await this.imageSets.count(),
+      totalSessions: await this.gameSessions.count(),
+      totalRounds: await this.gameRounds.count(),
+      totalDailyChallenges: await this.dailyChallenges.count(),
+      totalPlayers: await this.players.count(),
+      activePairs: await this.imagePairs.count({ is_active: true })
     };
   }
 
@@ -367,7 +478,11 @@ export class DatabaseService {
     if (this.autoSaveInterval) {
       clearInterval(this.autoSaveInterval);
     }
-    await this.saveToDisk();
-    console.log('Database service shutdown completed');
+    await this.store.close();
+    logger.info('Database service shutdown completed');
   }
-}
\ No newline at end of file
+
+  private toRecord<T>(entities: T[], getKey: (entity: T) => string): Record<string, T> {
+    return Object.fromEntries(entities.map(entity => [getKey(entity), entity]));
+  }
+}
@@ -0,0 +1,373 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from './DatabaseService';
+import { GameService } from './GameService';
+import { ImagePairService } from './ImagePairService';
+import { LeaderboardIndex } from './LeaderboardIndex';
+import { DailyStreakService } from './DailyStreakService';
+import { GameMode, PublicRound } from '../models/GameSession';
+import {
+  getRoundTimeLimit,
+  ROUND_DEADLINE_GRACE_MS,
+  SPOT_ROUNDS,
+  TIME_ATTACK_DURATION_MS,
+  TIME_ATTACK_WRONG_PENALTY_MS,
+  VERDICT_ROUNDS
+} from '../utils/gameModes';
+import { createTestImage, createTestPair } from '../testing/fixtures';
+
+// Uploads are never processed here
+jest.mock('sharp', () => jest.fn());
+
+describe('GameService', () => {
+  const db = DatabaseService.getInstance();
+  const service = new GameService();
+
+  const start = async (gameMode: GameMode = 'daily') => {
+    const session = await service.startGameSession({ game_mode: gameMode }, `player-${uuidv4()}`);
+    const round = await service.getNextPairForGame(session.session_id);
+    return { sessionId: session.session_id, round };
+  };
+
+  const aiPosition = async (sessionId: string) => (await db.getGameSession(sessionId))!.active_round!.ai_position!;
+
+  const answer = async (sessionId: string, round: PublicRound, choice: 'left' | 'right', responseTime = 3000) =>
+    service.submitPlayerChoice({
+      session_id: sessionId,
+      round_token: round.round_token,
+      choice,
+      response_time: responseTime
+    });
+
+  // Moves the clock only; timers and I/O keep running for real
+  const freezeClock = () => {
+    const now = Date.now();
+    jest.useFakeTimers({ now, doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'setInterval', 'clearTimeout', 'clearInterval', 'clearImmediate', 'queueMicrotask'] });
+    return (ms: number) => jest.setSystemTime(now + ms);
+  };
+
+  beforeAll(async () => {
+    for (let i = 0; i < 4; i++) {
+      await createTestPair();
+    }
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  afterAll(async () => {
+    await db.shutdown();
+  });
+
+  describe('grading', () => {
+    it('grades the pick by position against the round token', async () => {
+      const { sessionId, round } = await start();
+
+      const result = await answer(sessionId, round, await aiPosition(sessionId));
+      expect(result.isCorrect).toBe(true);
+      expect(result.round).toMatchObject({ player_choice: 'ai', is_correct: true, round_number: 1 });
+    });
+
+    it('rejects an unknown token and a second answer to the same round', async () => {
+      const { sessionId, round } = await start();
+
+      await expect(answer(sessionId, { ...round, round_token: uuidv4() }, 'left')).rejects.toThrow('Round token');
+      await answer(sessionId, round, 'left');
+      await expect(answer(sessionId, round, 'right')).rejects.toThrow('Round token');
+    });
+
+    it('grades only one of two answers racing for the same round', async () => {
+      const { sessionId, round } = await start();
+
+      const results = await Promise.allSettled([answer(sessionId, round, 'left'), answer(sessionId, round, 'right')]);
+      expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(await db.getGameRoundsBySession(sessionId)).toHaveLength(1);
+    });
+  });
+
+  describe('timing', () => {
+    it('measures the response time on the server', async () => {
+      const advance = freezeClock();
+      const { sessionId, round } = await start();
+
+      advance(4000);
+      const result = await answer(sessionId, round, await aiPosition(sessionId), 500);
+      expect(result.round).toMatchObject({ response_time: 4000, client_response_time: 500, timed_out: false });
+    });
+
+    it('counts an answer after the deadline as a timed out miss', async () => {
+      const advance = freezeClock();
+      const { sessionId, round } = await start();
+
+      advance(getRoundTimeLimit('daily') + ROUND_DEADLINE_GRACE_MS + 1);
+      const result = await answer(sessionId, round, await aiPosition(sessionId));
+      expect(result.isCorrect).toBe(false);
+      expect(result.round).toMatchObject({ timed_out: true, response_time: getRoundTimeLimit('daily') });
+    });
+
+    it('records a round the player walked away from as missed', async () => {
+      const advance = freezeClock();
+      const { sessionId } = await start();
+
+      advance(getRoundTimeLimit('daily') + ROUND_DEADLINE_GRACE_MS + 1);
+      const next = await service.getNextPairForGame(sessionId);
+      expect(next.round_number).toBe(2);
+      expect(await db.getGameRoundsBySession(sessionId)).toEqual([
+        expect.objectContaining({ round_number: 1, is_correct: false, timed_out: true })
+      ]);
+    });
+
+    it('flags a session whose client keeps misreporting response times', async () => {
+      const advance = freezeClock();
+      const { sessionId, round } = await start();
+
+      advance(8000);
+      await answer(sessionId, round, 'left', 100);
+      const second = await service.getNextPairForGame(sessionId);
+      advance(16000);
+      await answer(sessionId, second, 'left', 100);
+
+      expect(await db.getGameSession(sessionId)).toMatchObject({ timing_anomalies: 2, is_flagged: true });
+    });
+  });
+
+  describe('daily', () => {
+    it('resumes the day\'s daily session instead of opening another', async () => {
+      const playerId = `player-${uuidv4()}`;
+      const [first, second] = await Promise.all([
+        service.startGameSession({ game_mode: 'daily' }, playerId),
+        service.startGameSession({ game_mode: 'daily' }, playerId)
+      ]);
+      expect(second.session_id).toBe(first.session_id);
+
+      const round = await service.getNextPairForGame(first.session_id);
+      const resumed = await service.startGameSession({ game_mode: 'daily' }, playerId);
+      expect(resumed.session_id).toBe(first.session_id);
+      expect((await service.getNextPairForGame(resumed.session_id)).round_token).toBe(round.round_token);
+    });
+  });
+
+  describe('spot', () => {
+    let setId: string;
+    let aiImageIds: string[];
+
+    // Indexes of the AI images in the round's shuffled order
+    const aiIndexes = async (sessionId: string) => (await db.getGameSession(sessionId))!.active_round!.image_ids!
+      .map((imageId, index) => (aiImageIds.includes(imageId) ? index : -1))
+      .filter(index => index >= 0);
+
+    const select = (sessionId: string, round: PublicRound, selection: number[]) =>
+      service.submitPlayerChoice({ session_id: sessionId, round_token: round.round_token, selection, response_time: 3000 });
+
+    beforeAll(async () => {
+      const images = [
+        await createTestImage({ is_ai_generated: true }),
+        await createTestImage({ is_ai_generated: true }),
+        await createTestImage(),
+        await createTestImage()
+      ];
+      aiImageIds = [images[0].id, images[1].id];
+      const set = await new ImagePairService().createImageSet({ image_ids: images.map(image => image.id), target: 'ai' });
+      setId = set.set_id;
+    });
+
+    it('gives partial credit for picking only some of the AI images', async () => {
+      const { sessionId, round } = await start('spot');
+      expect(round).toMatchObject({ image_count: 4, pick: 'ai' });
+
+      const [firstAi] = await aiIndexes(sessionId);
+      const result = await select(sessionId, round, [firstAi]);
+      expect(result.isCorrect).toBe(false);
+      expect(result.round).toMatchObject({ set_id: setId, credit: 0.5, selected_indexes: [firstAi] });
+      expect(result.pointsEarned).toBeGreaterThan(0);
+      expect(await db.getImageSet(setId)).toMatchObject({ total_attempts: 1, average_credit: 50 });
+    });
+
+    it('ends after a fixed number of rounds, right or wrong', async () => {
+      const { sessionId, round } = await start('spot');
+      let next = round;
+      for (let number = 1; number < SPOT_ROUNDS; number++) {
+        expect((await select(sessionId, next, await aiIndexes(sessionId))).gameResult).toBeUndefined();
+        next = await service.getNextPairForGame(sessionId);
+      }
+
+      const last = await select(sessionId, next, []);
+      expect(last.round).toMatchObject({ credit: 0, is_correct: false });
+      expect(last.gameResult).toMatchObject({ is_completed: true, rounds_completed: SPOT_ROUNDS });
+    });
+  });
+
+  describe('verdict', () => {
+    // The verdict for the round's image, right or wrong
+    const judge = async (sessionId: string, round: PublicRound, right: boolean) => {
+      const imageId = (await db.getGameSession(sessionId))!.active_round!.image_id!;
+      const isAi = (await db.getImage(imageId))!.is_ai_generated;
+      const verdict: 'ai' | 'real' = isAi === right ? 'ai' : 'real';
+      return { imageId, result: await service.submitPlayerChoice({ session_id: sessionId, round_token: round.round_token, verdict }) };
+    };
+
+    it('grades a verdict on one image and records it in the image stats', async () => {
+      const { sessionId, round } = await start('verdict');
+
+      const { imageId, result } = await judge(sessionId, round, true);
+      expect(result.round).toMatchObject({ image_id: imageId, is_correct: true });
+      expect((await db.getImage(imageId))!.verdict_stats).toMatchObject({ total_attempts: 1, correct_guesses: 1 });
+    });
+
+    it('shows as many AI as real images and ends after a fixed number of rounds', async () => {
+      const { sessionId, round } = await start('verdict');
+      let next = round;
+      for (let number = 1; number < VERDICT_ROUNDS; number++) {
+        expect((await judge(sessionId, next, number % 2 === 0)).result.gameResult).toBeUndefined();
+        next = await service.getNextPairForGame(sessionId);
+      }
+
+      const { result } = await judge(sessionId, next, false);
+      expect(result.gameResult).toMatchObject({ is_completed: true, rounds_completed: VERDICT_ROUNDS });
+      const answers = (await db.getGameRoundsBySession(sessionId)).map(played => played.correct_answer);
+      expect(answers.filter(answer => answer === 'ai')).toHaveLength(VERDICT_ROUNDS / 2);
+    });
+  });
+
+  describe('confidence', () => {
+    const answerWith = (sessionId: string, round: PublicRound, choice: 'left' | 'right', confidence?: number) =>
+      service.submitPlayerChoice({ session_id: sessionId, round_token: round.round_token, choice, confidence });
+
+    it('scores a round by the confidence stated with it', async () => {
+      const { sessionId, round } = await start('confidence');
+
+      const result = await answerWith(sessionId, round, await aiPosition(sessionId), 80);
+      expect(result.round).toMatchObject({ confidence: 80, points_earned: 192 });
+      expect(result.round.score_breakdown).toMatchObject({ scoring_version: 'confidence-1', brier_score: 0.04 });
+    });
+
+    it('takes an answer without a confidence as a guess', async () => {
+      const { sessionId, round } = await start('confidence');
+
+      const result = await answerWith(sessionId, round, 'left');
+      expect(result.round).toMatchObject({ confidence: 50, points_earned: 150 });
+    });
+  });
+
+  describe('time attack', () => {
+    const wrongPosition = async (sessionId: string) => ((await aiPosition(sessionId)) === 'left' ? 'right' : 'left');
+
+    it('takes seconds off the session clock for a wrong answer', async () => {
+      freezeClock();
+      const { sessionId, round } = await start('timeattack');
+      const { expires_at } = (await db.getGameSession(sessionId))!;
+      expect(expires_at!.getTime() - Date.now()).toBe(TIME_ATTACK_DURATION_MS);
+
+      const result = await answer(sessionId, round, await wrongPosition(sessionId));
+      expect(result.gameResult).toBeUndefined();
+      expect((await db.getGameSession(sessionId))!.expires_at!.getTime()).toBe(
+        expires_at!.getTime() - TIME_ATTACK_WRONG_PENALTY_MS
+      );
+    });
+
+    it('ends the game when a penalty runs the clock out', async () => {
+      const advance = freezeClock();
+      const { sessionId, round } = await start('timeattack');
+
+      advance(TIME_ATTACK_DURATION_MS - TIME_ATTACK_WRONG_PENALTY_MS + 1000);
+      const result = await answer(sessionId, round, await wrongPosition(sessionId));
+      expect(result.gameResult).toMatchObject({ is_completed: true });
+    });
+
+    it('refuses answers once the clock ran out and completes the session', async () => {
+      const advance = freezeClock();
+      const { sessionId, round } = await start('timeattack');
+
+      advance(TIME_ATTACK_DURATION_MS + ROUND_DEADLINE_GRACE_MS + 1);
+      await expect(answer(sessionId, round, await aiPosition(sessionId))).rejects.toThrow('already completed');
+      expect(await db.getGameSession(sessionId)).toMatchObject({ is_completed: true });
+      expect(await db.getGameRoundsBySession(sessionId)).toEqual([]);
+    });
+
+    it('completes a session the player walked away from once, racing an end', async () => {
+      const advance = freezeClock();
+      const { sessionId } = await start('timeattack');
+      const creditLeaderboard = jest.spyOn(LeaderboardIndex.getInstance(), 'recordSessionCompleted');
+
+      advance(TIME_ATTACK_DURATION_MS + ROUND_DEADLINE_GRACE_MS + 1);
+      await Promise.all([service.completeExpiredSessions(), service.endGameSession(sessionId)]);
+      expect(await db.getGameSession(sessionId)).toMatchObject({ is_completed: true });
+      expect(creditLeaderboard.mock.calls.filter(([session]) => session.session_id === sessionId)).toHaveLength(1);
+      creditLeaderboard.mockRestore();
+    });
+  });
+
+  describe('practice', () => {
+    it('explains each round and stays out of ratings, stats and rankings', async () => {
+      const explained = await createTestPair();
+      await db.updateImage(explained.ai_image_id, { telltales: ['Melted earrings'] });
+      const playerId = `player-${uuidv4()}`;
+      const session = await service.startGameSession({ game_mode: 'practice' }, playerId);
+      const round = await service.getNextPairForGame(session.session_id);
+      const { pair_id } = (await db.getGameSession(session.session_id))!.active_round!;
+      const before = (await db.getImagePair(pair_id!))!;
+
+      const result = await answer(session.session_id, round, await aiPosition(session.session_id));
+      expect(result.explanation).toEqual({ ai_position: result.round.ai_position, telltales: ['Melted earrings'], annotations: [] });
+      expect(await db.getImagePair(pair_id!)).toEqual(before);
+
+      await service.endGameSession(session.session_id);
+      expect(await LeaderboardIndex.getInstance().getPlayerStats(playerId)).toMatchObject({ totalGames: 0, totalScore: 0 });
+    });
+  });
+
+  describe('ending', () => {
+    it('completes a session once when two ends race', async () => {
+      const { sessionId } = await start('streak');
+      const updateSession = jest.spyOn(db, 'updateGameSession');
+      const creditLeaderboard = jest.spyOn(LeaderboardIndex.getInstance(), 'recordSessionCompleted');
+
+      const [first, second] = await Promise.all([service.endGameSession(sessionId), service.endGameSession(sessionId)]);
+      expect(second).toEqual(first);
+      expect(updateSession.mock.calls.filter(([, updates]) => updates.is_completed)).toHaveLength(1);
+      expect(creditLeaderboard).toHaveBeenCalledTimes(1);
+      updateSession.mockRestore();
+      creditLeaderboard.mockRestore();
+    });
+
+    it('credits a daily once when its last answer races an end', async () => {
+      const { sessionId, round } = await start('daily');
+      await answer(sessionId, round, await aiPosition(sessionId));
+      const second = await service.getNextPairForGame(sessionId);
+      await answer(sessionId, second, await aiPosition(sessionId));
+      const third = await service.getNextPairForGame(sessionId);
+      const creditStreak = jest.spyOn(DailyStreakService.prototype, 'recordDailyCompleted');
+
+      const [graded, ended] = await Promise.all([
+        answer(sessionId, third, await aiPosition(sessionId)),
+        service.endGameSession(sessionId)
+      ]);
+      expect(ended).toEqual(graded.gameResult);
+      expect(creditStreak).toHaveBeenCalledTimes(1);
+      expect(await db.getGameSession(sessionId)).not.toHaveProperty('is_abandoned');
+      creditStreak.mockRestore();
+    });
+
+    it('adds completion bonuses to the score once', async () => {
+      const { sessionId, round } = await start('daily');
+      await answer(sessionId, round, await aiPosition(sessionId));
+      const second = await service.getNextPairForGame(sessionId);
+      await answer(sessionId, second, await aiPosition(sessionId));
+      const third = await service.getNextPairForGame(sessionId);
+      const { gameResult } = await answer(sessionId, third, await aiPosition(sessionId));
+      expect(gameResult).toMatchObject({ scoring_version: 'daily-2', perfect_bonus: 100, speed_bonus: 50 });
+
+      const [first, again] = await Promise.all([service.endGameSession(sessionId), service.endGameSession(sessionId)]);
+      expect(first.total_score).toBe(gameResult!.total_score);
+      expect(again.total_score).toBe(gameResult!.total_score);
+    });
+
+    it('marks a daily ended before its last round as abandoned', async () => {
+      const { sessionId, round } = await start('daily');
+      await answer(sessionId, round, await aiPosition(sessionId));
+
+      await service.endGameSession(sessionId);
+      expect(await db.getGameSession(sessionId)).toMatchObject({ is_completed: true, is_abandoned: true });
+    });
+  });
+});
@@ -1,3 +1,4 @@
+import { randomInt } from "crypto";
 import { v4 as uuidv4 } from "uuid";
 import {
   GameSession,
@@ -6,54 +7,203 @@ import {
   CreateGameRoundData,
   GameResult,
   PlayerChoice,
+  ActiveRound,
+  ImagePosition,
+  PublicRound,
+  DailyStatus,
+  RoundExplanation,
+  MIN_CONFIDENCE,
 } from "../models/GameSession";
+import { ImagePair } from "../models/ImagePair";
+import { ImageSet } from "../models/ImageSet";
+import { Image } from "../models/Image";
+import { DailyChallenge, PublicDailyChallenge } from "../models/DailyChallenge";
+import { DailyStreakStats } from "../models/Player";
 import { DatabaseService } from "./DatabaseService";
 import { ImagePairService } from "./ImagePairService";
+import { ImageService } from "./ImageService";
+import { LeaderboardIndex, PlayerStats } from "./LeaderboardIndex";
+import { DailyChallengeService } from "./DailyChallengeService";
+import { DailyStreakService } from "./DailyStreakService";
+import { SkillRatingService, getPlayerSkill } from "./SkillRatingService";
+import {
+  getRoundTimeLimit,
+  DAILY_ROUNDS,
+  SPOT_ROUNDS,
+  VERDICT_ROUNDS,
+  CONFIDENCE_ROUNDS,
+  PRACTICE_ROUNDS,
+  TIME_ATTACK_DURATION_MS,
+  TIME_ATTACK_WRONG_PENALTY_MS,
+  ROUND_DEADLINE_GRACE_MS,
+  TIMING_DIVERGENCE_TOLERANCE_MS,
+  TIMING_ANOMALIES_BEFORE_FLAG,
+  UNRANKED_MODES,
+  getCountedDailySessionIds,
+} from "../utils/gameModes";
+import { createKeyedLock } from "../utils/keyedLock";
+import {
+  getCurrentRuleSet,
+  getSessionRuleSet,
+  scoreRound,
+  scoreCompletion,
+  getSelectionCredit,
+} from "../utils/scoringEngine";
+import {
+  getDailyDate,
+  getNextDailyReset,
+  resolveTimezone,
+} from "../utils/dailyClock";
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('GameService');
+
+// How often time attack sessions abandoned mid-game are looked for
+const EXPIRED_SESSION_SWEEP_INTERVAL_MS = 30 * 1000;
+
+// A session's rounds are issued, graded and ended one request at a time, so
+// two submits with the same round token can't both pass the answered check
+// and two ends can't both complete the session
+const withSessionLock = createKeyedLock();
+
+// An answer to a pair, image set or single image round, graded but not yet recorded
+interface GradedAnswer {
+  isCorrect: boolean;
+  credit?: number; // image set rounds
+  difficulty: number;
+  pair?: ImagePair; // pair rounds, for skill ratings
+  fields: Pick<
+    GameRound,
+    | "pair_id"
+    | "set_id"
+    | "image_id"
+    | "player_choice"
+    | "correct_answer"
+    | "player_position"
+    | "ai_position"
+    | "selected_indexes"
+    | "correct_indexes"
+    | "credit"
+  >;
+}
+
+// A graded and recorded answer, as returned for a submit
+interface SubmittedAnswer {
+  round: GameRound;
+  isCorrect: boolean;
+  pointsEarned: number;
+  gameResult?: GameResult;
+  explanation?: RoundExplanation; // practice rounds
+}
+
+// Daily starts take turns per player, so two requests can't both find no
+// session for the date and open one each
+const withDailyStartLock = createKeyedLock();
+
+// Fisher-Yates with a cryptographic RNG, so image order can't be predicted
+const shuffleSecurely = <T>(items: T[]): T[] => {
+  const shuffled = [...items];
+  for (let index = shuffled.length - 1; index > 0; index--) {
+    const swap = randomInt(index + 1);
+    [shuffled[index], shuffled[swap]] = [shuffled[swap], shuffled[index]];
+  }
+  return shuffled;
+};
 
 export class GameService {
   private db: DatabaseService;
   private pairService: ImagePairService;
+  private imageService: ImageService;
+  private leaderboardIndex: LeaderboardIndex;
+  private dailyChallengeService: DailyChallengeService;
+  private dailyStreakService: DailyStreakService;
+  private skillRatingService: SkillRatingService;
 
   constructor() {
     this.db = DatabaseService.getInstance();
     this.pairService = new ImagePairService();
+    this.imageService = new ImageService();
+    this.leaderboardIndex = LeaderboardIndex.getInstance();
+    this.dailyChallengeService = new DailyChallengeService();
+    this.dailyStreakService = new DailyStreakService();
+    this.skillRatingService = new SkillRatingService();
   }
 
   public async startGameSession(
-    data: CreateGameSessionData
+    data: CreateGameSessionData,
+    playerId: string
+  ): Promise<GameSession> {
+    if (data.game_mode === "daily") {
+      return withDailyStartLock(playerId, () =>
+        this.createGameSession(data, playerId)
+      );
+    }
+    return this.createGameSession(data, playerId);
+  }
+
+  private async createGameSession(
+    data: CreateGameSessionData,
+    playerId: string
   ): Promise<GameSession> {
     try {
+      const dailyDate =
+        data.game_mode === "daily"
+          ? getDailyDate(await this.getPlayerTimezone(playerId))
+          : undefined;
+
       const session: GameSession = {
         session_id: uuidv4(),
-        player_id: data.player_id,
+        player_id: playerId,
         game_mode: data.game_mode,
         start_time: new Date(),
         total_score: 0,
         rounds_completed: 0,
         current_streak: 0,
         is_completed: false,
-        daily_challenge_date:
-          data.game_mode === "daily" ? this.getTodayString() : undefined,
+        daily_challenge_date: dailyDate,
+        scoring_version: getCurrentRuleSet(data.game_mode).version,
       };
 
-      // Check if daily challenge already completed today
-      if (data.game_mode === "daily" && data.player_id) {
-        const existingSession = await this.getTodaysDailySession(
-          data.player_id
+      if (data.game_mode === "timeattack") {
+        session.expires_at = new Date(
+          session.start_time.getTime() + TIME_ATTACK_DURATION_MS
         );
-        if (existingSession && existingSession.is_completed) {
+      }
+
+      // A player gets one daily session per date. Another would be served
+      // the same pairs, whose answers the first one has already revealed.
+      if (data.game_mode === "daily") {
+        const existing = await this.getDailySession(playerId, dailyDate!);
+        if (existing?.is_completed) {
           throw new Error("Daily challenge already completed today");
         }
+        if (existing) {
+          logger.info(`Resuming daily session ${existing.session_id}`);
+          return existing;
+        }
+
+        // Today's challenge (if any) picks the pairs and the completion bonus
+        const challenge =
+          await this.dailyChallengeService.getDailyChallengeByDate(
+            session.daily_challenge_date!
+          );
+        session.daily_challenge_id = challenge?.id;
+
+        // Freeze the day's pairs before the first player sees one of them
+        await this.dailyChallengeService.getDailyPairSet(
+          session.daily_challenge_date!
+        );
       }
 
       await this.db.createGameSession(session);
-      console.log(
+      this.leaderboardIndex.recordSessionStarted(session);
+      logger.info(
         `Game session started: ${session.session_id} (${session.game_mode})`
       );
 
       return session;
     } catch (error) {
-      console.error("Error starting game session:", error);
+      logger.error("Error starting game session", error);
       throw error;
     }
   }
@@ -62,7 +212,34 @@ export class GameService {
     return await this.db.getGameSession(sessionId);
   }
 
-  public async getNextPairForGame(sessionId: string): Promise<any> {
+  // The challenge a daily session is played under, as shown to the player
+  public async getSessionChallenge(
+    session: GameSession
+  ): Promise<PublicDailyChallenge | null> {
+    const challenge = await this.loadSessionChallenge(session);
+    return challenge
+      ? this.dailyChallengeService.toPublicChallenge(challenge)
+      : null;
+  }
+
+  // Loads a session on behalf of a player. Other players' sessions are
+  // reported as missing so session ids cannot be probed.
+  public async getPlayerSession(
+    sessionId: string,
+    playerId: string
+  ): Promise<GameSession> {
+    const session = await this.db.getGameSession(sessionId);
+    if (!session || session.player_id !== playerId) {
+      throw new Error("Game session not found");
+    }
+    return session;
+  }
+
+  public async getNextPairForGame(sessionId: string): Promise<PublicRound> {
+    return await withSessionLock(sessionId, () => this.issueNextRound(sessionId));
+  }
+
+  private async issueNextRound(sessionId: string): Promise<PublicRound> {
     try {
       const session = await this.db.getGameSession(sessionId);
       if (!session) {
@@ -73,83 +250,87 @@ export class GameService {
         throw new Error("Game session is already completed");
       }
 
+      if (this.isOutOfTime(session)) {
+        await this.completeGameSession(sessionId);
+        throw new Error("Game session is already completed");
+      }
+
+      if (session.active_round && !session.active_round.is_answered) {
+        const deadline =
+          session.active_round.deadline_at.getTime() + ROUND_DEADLINE_GRACE_MS;
+
+        if (Date.now() > deadline) {
+          // The player walked away from the last round: record it as wrong
+          const expired = await this.gradeActiveRound(
+            session,
+            session.active_round,
+            {}
+          );
+          if (expired.gameResult) {
+            throw new Error("Game session is already completed");
+          }
+          return await this.issueNextRound(sessionId);
+        }
+
+        // Re-serve an unanswered round instead of letting the client re-roll it
+        const activeContent = await this.loadRoundContent(session.active_round);
+        if (activeContent) {
+          return this.toPublicRound(session, session.active_round, activeContent);
+        }
+      }
+
       // Get rounds already played in this session
       const playedRounds = await this.db.getGameRoundsBySession(sessionId);
-      const usedPairIds = playedRounds.map((round) => round.pair_id);
+      if (session.game_mode === "spot") {
+        return await this.issueSetRound(session, playedRounds);
+      }
+      if (session.game_mode === "verdict") {
+        return await this.issueImageRound(session, playedRounds);
+      }
+      const usedPairIds = playedRounds
+        .map((round) => round.pair_id)
+        .filter((pairId): pairId is string => !!pairId);
 
-      // Determine difficulty based on game mode and progress
-      let difficulty: number | undefined;
+      let pair: ImagePair | null = null;
       if (session.game_mode === "daily") {
-        // Daily mode: use available difficulty levels
-        // Get available difficulty levels from existing pairs
-        const allPairs = await this.pairService.getAllImagePairs({
-          is_active: true,
-        });
-        const availableDifficulties = [
-          ...new Set(allPairs.pairs.map((p) => p.difficulty_level)),
-        ].sort();
-
-        if (availableDifficulties.length > 0) {
-          const roundNumber = playedRounds.length + 1;
-          // Distribute available difficulties across 3 rounds
-          if (availableDifficulties.length === 1) {
-            // Only one difficulty available - use it for all rounds
-            difficulty = availableDifficulties[0];
-          } else if (availableDifficulties.length >= 3) {
-            // Multiple difficulties - use progression
-            if (roundNumber === 1)
-              difficulty = availableDifficulties[0]; // Easiest
-            else if (roundNumber === 2)
-              difficulty =
-                availableDifficulties[
-                  Math.floor(availableDifficulties.length / 2)
-                ];
-            // Medium
-            else
-              difficulty =
-                availableDifficulties[availableDifficulties.length - 1]; // Hardest
-          } else {
-            // Two difficulties - alternate
-            difficulty = availableDifficulties[roundNumber <= 2 ? 0 : 1];
-          }
-        }
-        // If no specific difficulty found, let it be undefined (any difficulty)
-      } else if (session.game_mode === "streak") {
-        // Streak mode: progressive difficulty
-        const streak = session.current_streak;
-        if (streak < 3) difficulty = 1;
-        else if (streak < 7) difficulty = 2;
-        else if (streak < 12) difficulty = 3;
-        else if (streak < 20) difficulty = 4;
-        else difficulty = 5; // Maximum difficulty
+        // Every player gets the same pairs on the same day
+        pair = await this.getDailyPair(session, playedRounds.length);
       }
 
-      // Select appropriate pair
-      let pair = await this.pairService.selectPairForGame({
-        difficulty,
-        excludePairIds: usedPairIds,
-        activeOnly: true,
-      });
+      // Practice favours pairs whose AI image has an explanation to show
+      if (session.game_mode === "practice") {
+        const explainedImageIds = await this.imageService.getExplainedImageIds();
+        if (explainedImageIds.length > 0) {
+          pair = await this.pairService.selectPairForGame({
+            aiImageIds: explainedImageIds,
+            excludePairIds: usedPairIds,
+            activeOnly: true,
+          });
+        }
+      }
 
-      // If no pair found with specific difficulty, try without difficulty constraint
-      if (!pair && difficulty !== undefined) {
-        pair = await this.pairService.selectPairForGame({
-          excludePairIds: usedPairIds,
-          activeOnly: true,
-        });
+      // Streak mode adapts to the player: pairs they should get right with
+      // the target probability
+      let targetRating: number | undefined;
+      if (session.game_mode === "streak") {
+        targetRating = await this.skillRatingService.getTargetPairRating(
+          session.player_id
+        );
       }
 
-      // If still no pair found, try without excluding used pairs (allow repeats)
+      // Select appropriate pair
       if (!pair) {
         pair = await this.pairService.selectPairForGame({
-          difficulty,
+          targetRating,
+          excludePairIds: usedPairIds,
           activeOnly: true,
         });
       }
 
-      // Last resort: try any active pair
+      // If no pair found, try without excluding used pairs (allow repeats)
       if (!pair) {
         pair = await this.pairService.selectPairForGame({
+          targetRating,
           activeOnly: true,
         });
       }
@@ -170,7 +351,7 @@ export class GameService {
         }
       }
 
-      // Get pair with full image data
+      // Make sure both images are still there before issuing the round
       const pairWithImages = await this.pairService.getImagePairWithImages(
         pair.pair_id
       );
@@ -178,25 +359,131 @@ export class GameService {
         throw new Error("Failed to load image pair data");
       }
 
-      return {
-        session_id: sessionId,
-        pair: pairWithImages,
-        round_number: playedRounds.length + 1,
-        current_streak: session.current_streak,
-        total_score: session.total_score,
-      };
+      return await this.issueRound(
+        session,
+        playedRounds.length + 1,
+        {
+          pair_id: pair.pair_id,
+          ai_position: randomInt(2) === 0 ? "left" : "right",
+        },
+        pair
+      );
     } catch (error) {
-      console.error("Error getting next pair:", error);
+      logger.error("Error getting next pair", error);
       throw error;
     }
   }
 
-  public async submitPlayerChoice(data: CreateGameRoundData): Promise<{
-    round: GameRound;
-    isCorrect: boolean;
-    pointsEarned: number;
-    gameResult?: GameResult;
-  }> {
+  // Next round of a "Spot the Bot" game: an image set, shown in random order
+  private async issueSetRound(
+    session: GameSession,
+    playedRounds: GameRound[]
+  ): Promise<PublicRound> {
+    const usedSetIds = playedRounds
+      .map((round) => round.set_id)
+      .filter((setId): setId is string => !!setId);
+
+    // Allow repeats once every set has been played
+    const set =
+      (await this.pairService.selectSetForGame({
+        excludeSetIds: usedSetIds,
+        activeOnly: true,
+      })) ||
+      (await this.pairService.selectSetForGame({ activeOnly: true }));
+    if (!set) {
+      throw new Error(
+        "No image sets available. Please create image sets through the admin panel first."
+      );
+    }
+
+    // Make sure every image is still there before issuing the round
+    const images = await Promise.all(
+      set.image_ids.map((imageId) => this.imageService.getImageById(imageId))
+    );
+    if (images.some((image) => !image)) {
+      throw new Error("Failed to load image set data");
+    }
+
+    return await this.issueRound(
+      session,
+      playedRounds.length + 1,
+      { set_id: set.set_id, image_ids: shuffleSecurely(set.image_ids) },
+      set
+    );
+  }
+
+  // Next round of a verdict game: one image, AI or real. The session stays
+  // balanced between the two, and later rounds aim at harder images.
+  private async issueImageRound(
+    session: GameSession,
+    playedRounds: GameRound[]
+  ): Promise<PublicRound> {
+    const imageRounds = playedRounds.filter((round) => round.image_id);
+    const usedImageIds = imageRounds.map((round) => round.image_id!);
+    const aiShown = imageRounds.filter((round) => round.correct_answer === "ai").length;
+    const realShown = imageRounds.length - aiShown;
+    const showAi = aiShown === realShown ? randomInt(2) === 0 : aiShown < realShown;
+    const targetDifficulty = 1 + (4 * playedRounds.length) / (VERDICT_ROUNDS - 1);
+
+    // Fall back to the other kind, then to repeats, once a kind runs out
+    const image =
+      (await this.imageService.selectImageForVerdict({
+        isAiGenerated: showAi,
+        targetDifficulty,
+        excludeImageIds: usedImageIds,
+      })) ||
+      (await this.imageService.selectImageForVerdict({
+        targetDifficulty,
+        excludeImageIds: usedImageIds,
+      })) ||
+      (await this.imageService.selectImageForVerdict({ targetDifficulty }));
+    if (!image) {
+      throw new Error(
+        "No images available. Please upload images through the admin panel first."
+      );
+    }
+
+    return await this.issueRound(
+      session,
+      playedRounds.length + 1,
+      { image_id: image.id },
+      image
+    );
+  }
+
+  private async issueRound(
+    session: GameSession,
+    roundNumber: number,
+    content: Pick<ActiveRound, "pair_id" | "ai_position" | "set_id" | "image_ids" | "image_id">,
+    source: ImagePair | ImageSet | Image
+  ): Promise<PublicRound> {
+    const issuedAt = new Date();
+    // A round can't outlast the time attack clock
+    const deadline = Math.min(
+      issuedAt.getTime() + getRoundTimeLimit(session.game_mode),
+      session.expires_at?.getTime() ?? Infinity
+    );
+    const activeRound: ActiveRound = {
+      round_token: uuidv4(),
+      ...content,
+      round_number: roundNumber,
+      issued_at: issuedAt,
+      deadline_at: new Date(deadline),
+      is_answered: false,
+    };
+
+    await this.db.updateGameSession(session.session_id, {
+      active_round: activeRound,
+    });
+
+    return this.toPublicRound(session, activeRound, source);
+  }
+
+  public async submitPlayerChoice(data: CreateGameRoundData): Promise<SubmittedAnswer> {
+    return await withSessionLock(data.session_id, () => this.gradeSubmission(data));
+  }
+
+  private async gradeSubmission(data: CreateGameRoundData): Promise<SubmittedAnswer> {
     try {
       const session = await this.db.getGameSession(data.session_id);
       if (!session) {
@@ -207,120 +494,356 @@ export class GameService {
         throw new Error("Game session is already completed");
       }
 
-      // Get the image pair to determine correct answer
-      const pair = await this.pairService.getImagePairById(data.pair_id);
-      if (!pair) {
-        throw new Error("Image pair not found");
+      // Answers after the time attack clock ran out don't count
+      if (this.isOutOfTime(session)) {
+        await this.completeGameSession(session.session_id);
+        throw new Error("Game session is already completed");
       }
 
-      // Determine correct answer (which image is AI-generated)
-      const correctAnswer: PlayerChoice = "ai"; // Player should choose the AI image
+      const activeRound = session.active_round;
+      if (
+        !activeRound ||
+        activeRound.is_answered ||
+        activeRound.round_token !== data.round_token
+      ) {
+        throw new Error("Round token is invalid or has already been answered");
+      }
 
-      // Check if player's choice is correct
-      const isCorrect = data.player_choice === correctAnswer;
+      const result = await this.gradeActiveRound(session, activeRound, {
+        choice: data.choice,
+        selection: data.selection,
+        verdict: data.verdict,
+        confidence: data.confidence,
+        clientResponseTime: data.response_time,
+      });
 
-      // Calculate points
-      const pointsEarned = this.calculatePoints(
-        isCorrect,
-        data.response_time,
-        pair.difficulty_level,
-        session.current_streak,
-        session.game_mode
-      );
+      if (session.game_mode === "practice" && result.round.pair_id) {
+        return { ...result, explanation: await this.explainRound(result.round) };
+      }
+      return result;
+    } catch (error) {
+      logger.error("Error submitting player choice", error);
+      throw error;
+    }
+  }
+
+  // Grades the session's active round against the server clock. A missing
+  // answer or an answer past the deadline counts as a wrong, timed-out round.
+  private async gradeActiveRound(
+    session: GameSession,
+    activeRound: ActiveRound,
+    answer: {
+      choice?: ImagePosition;
+      selection?: number[];
+      verdict?: PlayerChoice;
+      confidence?: number;
+      clientResponseTime?: number;
+    }
+  ): Promise<SubmittedAnswer> {
+    const now = new Date();
+    let answered = answer.choice !== undefined;
+    if (activeRound.set_id) answered = answer.selection !== undefined;
+    if (activeRound.image_id) answered = answer.verdict !== undefined;
+    const timedOut =
+      !answered ||
+      now.getTime() > activeRound.deadline_at.getTime() + ROUND_DEADLINE_GRACE_MS;
+    const serverResponseTime = Math.min(
+      now.getTime() - activeRound.issued_at.getTime(),
+      getRoundTimeLimit(session.game_mode)
+    );
+
+    let graded: GradedAnswer;
+    if (activeRound.set_id) {
+      graded = await this.gradeSetAnswer(activeRound, timedOut ? undefined : answer.selection);
+    } else if (activeRound.image_id) {
+      graded = await this.gradeImageAnswer(activeRound, timedOut ? undefined : answer.verdict);
+    } else {
+      graded = await this.gradePairAnswer(activeRound, timedOut ? undefined : answer.choice);
+    }
+    const isCorrect = graded.isCorrect;
+    const answeredRound: ActiveRound = { ...activeRound, is_answered: true };
+    const timingUpdates = this.checkClientTiming(
+      session,
+      serverResponseTime,
+      answer.clientResponseTime
+    );
+
+    // Image set rounds have no single answer to be sure of. Confidence-scored
+    // modes take an answer without a confidence as a guess.
+    const rules = getSessionRuleSet(session);
+    const confidence =
+      timedOut || activeRound.set_id
+        ? undefined
+        : answer.confidence ??
+          (rules.round.confidence_points !== undefined ? MIN_CONFIDENCE : undefined);
+
+    const scoreBreakdown = scoreRound(rules, {
+      isCorrect,
+      credit: graded.credit,
+      confidence,
+      responseTime: serverResponseTime,
+      difficulty: graded.difficulty,
+      currentStreak: session.current_streak,
+    });
+    const pointsEarned = scoreBreakdown.total;
+
+    // Create game round
+    const round: GameRound = {
+      round_id: uuidv4(),
+      session_id: session.session_id,
+      ...graded.fields,
+      confidence,
+      is_correct: isCorrect,
+      response_time: serverResponseTime,
+      client_response_time: answer.clientResponseTime,
+      timed_out: timedOut,
+      points_earned: pointsEarned,
+      score_breakdown: scoreBreakdown,
+      round_number: activeRound.round_number,
+      timestamp: now,
+    };
+
+    // Unranked rounds leave ratings and pair, set and image stats alone
+    const ranked = !UNRANKED_MODES.includes(session.game_mode);
+
+    await this.db.createGameRound(round);
+    if (ranked && graded.pair) {
+      await this.skillRatingService.recordRound(session.player_id, graded.pair, isCorrect);
+    }
+
+    // Update session statistics
+    const newRoundsCompleted = session.rounds_completed + 1;
+    const newCurrentStreak =
+      session.game_mode === "streak" && isCorrect
+        ? session.current_streak + 1
+        : session.current_streak;
+    this.leaderboardIndex.recordRound(session, round, newCurrentStreak);
 
-      // Get current round number
-      const existingRounds = await this.db.getGameRoundsBySession(
-        data.session_id
+    const sessionUpdates: Partial<GameSession> = {
+      total_score: session.total_score + pointsEarned,
+      rounds_completed: newRoundsCompleted,
+      current_streak: newCurrentStreak,
+      active_round: answeredRound,
+      ...timingUpdates,
+    };
+
+    // A wrong time attack answer takes seconds off the session clock
+    if (session.expires_at && !isCorrect) {
+      sessionUpdates.expires_at = new Date(
+        session.expires_at.getTime() - TIME_ATTACK_WRONG_PENALTY_MS
       );
-      const roundNumber = existingRounds.length + 1;
-
-      // Create game round
-      const round: GameRound = {
-        round_id: uuidv4(),
-        session_id: data.session_id,
-        pair_id: data.pair_id,
-        player_choice: data.player_choice,
-        correct_answer: correctAnswer,
-        is_correct: isCorrect,
-        response_time: data.response_time,
-        points_earned: pointsEarned,
-        round_number: roundNumber,
-        timestamp: new Date(),
-      };
+    }
+    const expiresAt = sessionUpdates.expires_at ?? session.expires_at;
 
-      await this.db.createGameRound(round);
+    // A wrong answer ends a streak and time attack ends with its clock; the
+    // other modes have a fixed number of rounds
+    const gameOver =
+      (!!expiresAt && now.getTime() >= expiresAt.getTime()) ||
+      (session.game_mode === "streak" && !isCorrect) ||
+      (session.game_mode === "daily" && newRoundsCompleted >= DAILY_ROUNDS) ||
+      (session.game_mode === "spot" && newRoundsCompleted >= SPOT_ROUNDS) ||
+      (session.game_mode === "verdict" && newRoundsCompleted >= VERDICT_ROUNDS) ||
+      (session.game_mode === "confidence" && newRoundsCompleted >= CONFIDENCE_ROUNDS) ||
+      (session.game_mode === "practice" && newRoundsCompleted >= PRACTICE_ROUNDS);
 
-      // Update session statistics
-      const newTotalScore = session.total_score + pointsEarned;
-      const newRoundsCompleted = session.rounds_completed + 1;
-      let newCurrentStreak = session.current_streak;
+    let gameResult: GameResult | undefined;
+    if (gameOver) {
+      gameResult = await this.completeGameSession(session.session_id, {
+        ...sessionUpdates,
+        is_completed: true,
+        end_time: now,
+      });
+    } else {
+      await this.db.updateGameSession(session.session_id, sessionUpdates);
+    }
 
-      if (session.game_mode === "streak") {
-        if (isCorrect) {
-          newCurrentStreak += 1;
-        } else {
-          // Streak broken - end the game
-          const gameResult = await this.endGameSession(data.session_id, {
-            total_score: newTotalScore,
-            rounds_completed: newRoundsCompleted,
-            current_streak: newCurrentStreak,
-            is_completed: true,
-            end_time: new Date(),
-          });
+    // Update pair, set or image statistics
+    if (ranked) {
+      if (round.set_id) {
+        await this.pairService.updateSetStats(round.set_id, round.credit ?? 0, serverResponseTime);
+      } else if (round.image_id) {
+        await this.imageService.updateImageStats(round.image_id, isCorrect, serverResponseTime);
+      } else {
+        await this.pairService.updatePairStats(round.pair_id!, isCorrect, serverResponseTime);
+      }
+    }
 
-          // Update pair statistics
-          await this.pairService.updatePairStats(
-            data.pair_id,
-            isCorrect,
-            data.response_time
-          );
+    return { round, isCorrect, pointsEarned, gameResult };
+  }
 
-          return { round, isCorrect, pointsEarned, gameResult };
-        }
-      } else if (session.game_mode === "daily") {
-        // Daily mode: complete after 3 rounds
-        if (newRoundsCompleted >= 3) {
-          const gameResult = await this.endGameSession(data.session_id, {
-            total_score: newTotalScore,
-            rounds_completed: newRoundsCompleted,
-            current_streak: newCurrentStreak,
-            is_completed: true,
-            end_time: new Date(),
-          });
+  // The player is asked to pick the AI image, graded by position
+  private async gradePairAnswer(
+    activeRound: ActiveRound,
+    choice?: ImagePosition
+  ): Promise<GradedAnswer> {
+    const pair = await this.pairService.getImagePairById(activeRound.pair_id!);
+    if (!pair) {
+      throw new Error("Image pair not found");
+    }
 
-          // Update pair statistics
-          await this.pairService.updatePairStats(
-            data.pair_id,
-            isCorrect,
-            data.response_time
-          );
+    const isCorrect = choice !== undefined && choice === activeRound.ai_position;
+    return {
+      isCorrect,
+      difficulty: pair.difficulty_level,
+      pair,
+      fields: {
+        pair_id: pair.pair_id,
+        player_choice: isCorrect ? "ai" : "real",
+        correct_answer: "ai",
+        player_position: choice,
+        ai_position: activeRound.ai_position,
+      },
+    };
+  }
 
-          return { round, isCorrect, pointsEarned, gameResult };
-        }
+  // The player picks every AI image of the set (or its one real image), with
+  // partial credit for a partly right selection
+  private async gradeSetAnswer(
+    activeRound: ActiveRound,
+    selection?: number[]
+  ): Promise<GradedAnswer> {
+    const set = await this.pairService.getImageSetById(activeRound.set_id!);
+    if (!set) {
+      throw new Error("Image set not found");
+    }
+
+    const imageIds = activeRound.image_ids!;
+    const aiImageIds = new Set(set.ai_image_ids);
+    const correctIndexes = imageIds
+      .map((imageId, index) => ({ index, isAi: aiImageIds.has(imageId) }))
+      .filter(({ isAi }) => isAi === (set.target === "ai"))
+      .map(({ index }) => index);
+    const selectedIndexes = [...new Set(selection || [])]
+      .filter((index) => index < imageIds.length)
+      .sort((a, b) => a - b);
+
+    const credit = getSelectionCredit(correctIndexes, selectedIndexes, imageIds.length);
+    const isCorrect = credit === 1;
+    const otherAnswer: PlayerChoice = set.target === "ai" ? "real" : "ai";
+    return {
+      isCorrect,
+      credit,
+      difficulty: set.difficulty_level,
+      fields: {
+        set_id: set.set_id,
+        player_choice: isCorrect ? set.target : otherAnswer,
+        correct_answer: set.target,
+        selected_indexes: selectedIndexes,
+        correct_indexes: correctIndexes,
+        credit,
+      },
+    };
+  }
+
+  // The player judges one image on its own, with nothing to compare it to
+  private async gradeImageAnswer(
+    activeRound: ActiveRound,
+    verdict?: PlayerChoice
+  ): Promise<GradedAnswer> {
+    const image = await this.imageService.getImageById(activeRound.image_id!);
+    if (!image) {
+      throw new Error("Image not found");
+    }
+
+    const correctAnswer: PlayerChoice = image.is_ai_generated ? "ai" : "real";
+    const isCorrect = verdict === correctAnswer;
+    return {
+      isCorrect,
+      difficulty: image.difficulty_level,
+      fields: {
+        image_id: image.id,
+        player_choice: verdict ?? (correctAnswer === "ai" ? "real" : "ai"),
+        correct_answer: correctAnswer,
+      },
+    };
+  }
+
+  // The admin-authored telltales and annotations of a pair round's AI image.
+  // Images nobody has explained yet come back with empty lists.
+  private async explainRound(round: GameRound): Promise<RoundExplanation> {
+    const pair = await this.pairService.getImagePairById(round.pair_id!);
+    const image = pair ? await this.imageService.getImageById(pair.ai_image_id) : null;
+
+    return {
+      ai_position: round.ai_position!,
+      telltales: image?.telltales ?? [],
+      annotations: image?.annotations ?? [],
+    };
+  }
+
+  // Whether a time attack session's clock has run out, allowing for latency
+  private isOutOfTime(session: GameSession): boolean {
+    return (
+      !!session.expires_at &&
+      Date.now() > session.expires_at.getTime() + ROUND_DEADLINE_GRACE_MS
+    );
+  }
+
+  // Completes time attack sessions whose clock ran out while the player was
+  // away, so they reach the leaderboard without the client coming back
+  public async completeExpiredSessions(): Promise<number> {
+    const sessions = await this.db.getGameSessions({
+      game_mode: "timeattack",
+      is_completed: false,
+    });
+    const expired = sessions.filter((session) => this.isOutOfTime(session));
+
+    for (const session of expired) {
+      await this.endGameSession(session.session_id);
+    }
+    if (expired.length > 0) {
+      logger.info(`Completed ${expired.length} expired time attack sessions`);
+    }
+    return expired.length;
+  }
+
+  public startExpiredSessionSweeper(): void {
+    const run = async () => {
+      try {
+        await this.completeExpiredSessions();
+      } catch (error) {
+        logger.error("Expired session sweep failed", error);
       }
+    };
 
-      // Update session (game continues)
-      await this.db.updateGameSession(data.session_id, {
-        total_score: newTotalScore,
-        rounds_completed: newRoundsCompleted,
-        current_streak: newCurrentStreak,
-      });
+    run();
+    setInterval(run, EXPIRED_SESSION_SWEEP_INTERVAL_MS).unref();
+  }
 
-      // Update pair statistics
-      await this.pairService.updatePairStats(
-        data.pair_id,
-        isCorrect,
-        data.response_time
-      );
+  // Compares the client-reported response time with the server measurement
+  // and flags sessions that keep claiming impossibly fast answers.
+  private checkClientTiming(
+    session: GameSession,
+    serverResponseTime: number,
+    clientResponseTime?: number
+  ): Partial<GameSession> {
+    if (clientResponseTime === undefined) return {};
 
-      return { round, isCorrect, pointsEarned };
-    } catch (error) {
-      console.error("Error submitting player choice:", error);
-      throw error;
+    const divergence = Math.abs(serverResponseTime - clientResponseTime);
+    if (divergence <= TIMING_DIVERGENCE_TOLERANCE_MS) return {};
+
+    const timingAnomalies = (session.timing_anomalies || 0) + 1;
+    const isFlagged =
+      session.is_flagged || timingAnomalies >= TIMING_ANOMALIES_BEFORE_FLAG;
+
+    logger.warn(
+      `Timing anomaly in session ${session.session_id}: client ${clientResponseTime}ms vs server ${serverResponseTime}ms`
+    );
+    if (isFlagged && !session.is_flagged) {
+      logger.warn(`Session flagged for timing anomalies: ${session.session_id}`);
     }
+
+    return { timing_anomalies: timingAnomalies, is_flagged: isFlagged };
   }
 
-  public async endGameSession(
+  // Ends a session at the player's request, or once its time attack clock ran out
+  public async endGameSession(sessionId: string): Promise<GameResult> {
+    return await withSessionLock(sessionId, () => this.completeGameSession(sessionId));
+  }
+
+  // Marks a session completed. Callers hold the session lock, so the session
+  // read here is current.
+  private async completeGameSession(
     sessionId: string,
     updates?: Partial<GameSession>
   ): Promise<GameResult> {
@@ -330,11 +853,40 @@ export class GameService {
         throw new Error("Game session not found");
       }
 
-      const finalUpdates = {
-        ...updates,
-        is_completed: true,
-        end_time: new Date(),
-      };
+      // Get all rounds for final statistics
+      const rounds = await this.db.getGameRoundsBySession(sessionId);
+      const correctAnswers = rounds.filter((r) => r.is_correct).length;
+
+      // Ending a session that already ended only reports its result again
+      const finalUpdates: Partial<GameSession> = session.is_completed
+        ? {}
+        : { ...updates, is_completed: true, end_time: new Date() };
+
+      // A daily ended early (from the end endpoint) still uses up the day,
+      // but earns no bonuses, streak or ranking
+      const abandoned =
+        session.game_mode === "daily" &&
+        (updates?.rounds_completed ?? session.rounds_completed) < DAILY_ROUNDS;
+      if (abandoned && !session.is_completed) {
+        finalUpdates.is_abandoned = true;
+      }
+
+      // Completion bonuses are awarded once, when the session first completes
+      if (!session.is_completed && !abandoned) {
+        const challenge = await this.loadSessionChallenge(session);
+        const bonuses = scoreCompletion(
+          getSessionRuleSet(session),
+          rounds,
+          challenge?.points_reward || 0
+        );
+        if (bonuses.total > 0) {
+          if (bonuses.challenge > 0) finalUpdates.challenge_bonus = bonuses.challenge;
+          if (bonuses.perfect > 0) finalUpdates.perfect_bonus = bonuses.perfect;
+          if (bonuses.speed > 0) finalUpdates.speed_bonus = bonuses.speed;
+          finalUpdates.total_score =
+            (updates?.total_score ?? session.total_score) + bonuses.total;
+        }
+      }
 
       const updatedSession = await this.db.updateGameSession(
         sessionId,
@@ -344,9 +896,19 @@ export class GameService {
         throw new Error("Failed to update game session");
       }
 
-      // Get all rounds for final statistics
-      const rounds = await this.db.getGameRoundsBySession(sessionId);
-      const correctAnswers = rounds.filter((r) => r.is_correct).length;
+      const counted =
+        updatedSession.game_mode !== "daily" ||
+        (await this.isCountedDaily(updatedSession));
+      if (!session.is_completed && !abandoned && counted) {
+        this.leaderboardIndex.recordSessionCompleted(updatedSession, rounds);
+        if (updatedSession.game_mode === "daily") {
+          await this.dailyStreakService.recordDailyCompleted(
+            updatedSession.player_id!,
+            updatedSession.daily_challenge_date!,
+            correctAnswers
+          );
+        }
+      }
       const totalRounds = rounds.length;
       const accuracyPercentage =
         totalRounds > 0 ? (correctAnswers / totalRounds) * 100 : 0;
@@ -361,6 +923,10 @@ export class GameService {
         rounds_completed: updatedSession.rounds_completed,
         current_streak: updatedSession.current_streak,
         is_completed: true,
+        scoring_version: getSessionRuleSet(updatedSession).version,
+        challenge_bonus: updatedSession.challenge_bonus,
+        perfect_bonus: updatedSession.perfect_bonus,
+        speed_bonus: updatedSession.speed_bonus,
         final_stats: {
           correct_answers: correctAnswers,
           total_rounds: totalRounds,
@@ -369,177 +935,206 @@ export class GameService {
         },
       };
 
-      console.log(
+      logger.info(
         `Game session completed: ${sessionId} - Score: ${gameResult.total_score}`
       );
       return gameResult;
     } catch (error) {
-      console.error("Error ending game session:", error);
+      logger.error("Error ending game session", error);
       throw error;
     }
   }
 
-  private calculatePoints(
-    isCorrect: boolean,
-    responseTime: number,
-    difficulty: number,
-    currentStreak: number,
-    gameMode: string
-  ): number {
-    if (!isCorrect) return 0;
+  // Resolves an unlabeled round image handle to the file on disk. Only the
+  // session's current round can be served, so old tokens stop working.
+  public async getRoundImageFile(
+    sessionId: string,
+    roundToken: string,
+    position: ImagePosition | number // an index for image set and single image rounds
+  ): Promise<{ filePath: string; contentType: string } | null> {
+    const session = await this.db.getGameSession(sessionId);
+    const activeRound = session?.active_round;
+    if (!activeRound || activeRound.round_token !== roundToken) {
+      return null;
+    }
 
-    const basePoints = 100;
-    const difficultyMultiplier = difficulty * 0.2; // 0.2 to 1.0
-    const timeBonus = Math.max(0, (30 - responseTime / 1000) * 2); // Bonus for quick responses
+    let imageId: string | undefined;
+    if (activeRound.image_ids) {
+      if (typeof position !== "number") return null;
+      imageId = activeRound.image_ids[position];
+    } else if (activeRound.image_id) {
+      if (position !== 0) return null;
+      imageId = activeRound.image_id;
+    } else {
+      if (typeof position === "number") return null;
+      const pair = await this.pairService.getImagePairById(activeRound.pair_id!);
+      if (!pair) return null;
 
-    let streakMultiplier = 1;
-    if (gameMode === "streak") {
-      streakMultiplier = 1 + currentStreak * 0.1; // 10% bonus per streak
+      imageId =
+        position === activeRound.ai_position
+          ? pair.ai_image_id
+          : pair.real_image_id;
     }
+    if (!imageId) return null;
 
-    const totalPoints =
-      (basePoints + basePoints * difficultyMultiplier + timeBonus) *
-      streakMultiplier;
-    return Math.round(totalPoints);
+    const result = await this.imageService.getImageFile(imageId);
+    return result ? { filePath: result.filePath, contentType: result.contentType } : null;
   }
 
-  private getTodayString(): string {
-    return new Date().toISOString().split("T")[0]; // YYYY-MM-DD
+  private async loadRoundContent(
+    activeRound: ActiveRound
+  ): Promise<ImagePair | ImageSet | Image | null> {
+    if (activeRound.set_id) {
+      return await this.pairService.getImageSetById(activeRound.set_id);
+    }
+    if (activeRound.image_id) {
+      return await this.imageService.getImageById(activeRound.image_id);
+    }
+    return await this.pairService.getImagePairById(activeRound.pair_id!);
   }
 
-  private async getTodaysDailySession(
-    playerId: string
-  ): Promise<GameSession | null> {
-    const today = this.getTodayString();
-    const allSessions = Object.values(await this.db["gameSessions"]);
-
-    return (
-      allSessions.find(
-        (session) =>
-          session.player_id === playerId &&
-          session.game_mode === "daily" &&
-          session.daily_challenge_date === today
-      ) || null
-    );
+  private toPublicRound(
+    session: GameSession,
+    activeRound: ActiveRound,
+    source: ImagePair | ImageSet | Image
+  ): PublicRound {
+    return {
+      session_id: session.session_id,
+      round_token: activeRound.round_token,
+      round_number: activeRound.round_number,
+      time_remaining_ms: Math.max(
+        0,
+        activeRound.deadline_at.getTime() - Date.now()
+      ),
+      category: source.category,
+      difficulty_level: source.difficulty_level,
+      current_streak: session.current_streak,
+      total_score: session.total_score,
+      ...("set_id" in source && {
+        image_count: source.image_ids.length,
+        pick: source.target,
+      }),
+      ...("is_ai_generated" in source && { image_count: 1 }),
+      ...(session.expires_at && {
+        session_time_remaining_ms: Math.max(
+          0,
+          session.expires_at.getTime() - Date.now()
+        ),
+      }),
+    };
   }
 
-  public async getPlayerStats(playerId: string): Promise<{
-    totalGames: number;
-    dailyGames: number;
-    streakGames: number;
-    totalScore: number;
-    bestStreak: number;
-    averageAccuracy: number;
-    averageResponseTime: number;
-    lastPlayed?: Date;
-  }> {
-    // This is a simplified version - in a real implementation, you'd have proper player tracking
-    const allSessions = Object.values(await this.db["gameSessions"]);
-    const playerSessions = allSessions.filter((s) => s.player_id === playerId);
-
-    if (playerSessions.length === 0) {
-      return {
-        totalGames: 0,
-        dailyGames: 0,
-        streakGames: 0,
-        totalScore: 0,
-        bestStreak: 0,
-        averageAccuracy: 0,
-        averageResponseTime: 0,
-      };
+  private async loadSessionChallenge(
+    session: GameSession
+  ): Promise<DailyChallenge | null> {
+    if (session.game_mode !== "daily" || !session.daily_challenge_id) {
+      return null;
     }
-
-    const dailyGames = playerSessions.filter(
-      (s) => s.game_mode === "daily"
-    ).length;
-    const streakGames = playerSessions.filter(
-      (s) => s.game_mode === "streak"
-    ).length;
-    const totalScore = playerSessions.reduce(
-      (sum, s) => sum + s.total_score,
-      0
-    );
-    const bestStreak = Math.max(...playerSessions.map((s) => s.current_streak));
-    const lastPlayed = new Date(
-      Math.max(...playerSessions.map((s) => s.start_time.getTime()))
+    return await this.dailyChallengeService.getDailyChallengeById(
+      session.daily_challenge_id
     );
+  }
 
-    // Calculate accuracy from all rounds
-    const allRounds = Object.values(await this.db["gameRounds"]);
-    const playerRounds = allRounds.filter((r) =>
-      playerSessions.some((s) => s.session_id === r.session_id)
+  // The pair for the next round of a daily session, from the day's frozen
+  // pair set. Returns null (so normal selection takes over) if the pair has
+  // since been deleted or deactivated.
+  private async getDailyPair(
+    session: GameSession,
+    roundIndex: number
+  ): Promise<ImagePair | null> {
+    const pairSet = await this.dailyChallengeService.getDailyPairSet(
+      session.daily_challenge_date!
     );
+    const pairId = pairSet.pair_ids[roundIndex];
+    if (!pairId) return null;
 
-    const correctRounds = playerRounds.filter((r) => r.is_correct).length;
-    const averageAccuracy =
-      playerRounds.length > 0 ? (correctRounds / playerRounds.length) * 100 : 0;
-    const averageResponseTime =
-      playerRounds.length > 0
-        ? playerRounds.reduce((sum, r) => sum + r.response_time, 0) /
-          playerRounds.length
-        : 0;
-
-    return {
-      totalGames: playerSessions.length,
-      dailyGames,
-      streakGames,
-      totalScore,
-      bestStreak,
-      averageAccuracy: Math.round(averageAccuracy * 100) / 100,
-      averageResponseTime: Math.round(averageResponseTime),
-      lastPlayed,
-    };
+    const pair = await this.pairService.getImagePairById(pairId);
+    if (!pair || !pair.is_active) {
+      logger.warn(
+        `Daily pair ${pairId} for ${pairSet.date} is no longer available; selecting another pair`
+      );
+      return null;
+    }
+    return pair;
   }
 
-  public async getLeaderboard(
-    gameMode?: "daily" | "streak",
-    limit: number = 10
-  ): Promise<any[]> {
-    const allSessions = Object.values(await this.db["gameSessions"]);
+  private async getPlayerTimezone(playerId: string): Promise<string> {
+    const player = await this.db.getPlayer(playerId);
+    return resolveTimezone(player?.timezone);
+  }
 
-    let filteredSessions = allSessions.filter((s) => s.is_completed);
-    if (gameMode) {
-      filteredSessions = filteredSessions.filter(
-        (s) => s.game_mode === gameMode
-      );
-    }
+  // The player's counted daily session for the date, or for a later one so
+  // moving the timezone back a day does not open another game
+  private async getDailySession(
+    playerId: string,
+    date: string
+  ): Promise<GameSession | null> {
+    const sessions = await this.db.getGameSessions({
+      player_id: playerId,
+      game_mode: "daily",
+    });
+    const counted = getCountedDailySessionIds(sessions);
 
-    // Group by player and get best scores
-    const playerStats = new Map<string, any>();
+    return (
+      sessions
+        .filter(
+          (session) =>
+            counted.has(session.session_id) &&
+            session.daily_challenge_date! >= date
+        )
+        .sort((a, b) => a.start_time.getTime() - b.start_time.getTime())[0] ??
+      null
+    );
+  }
 
-    filteredSessions.forEach((session) => {
-      const playerId = session.player_id || "anonymous";
-      const existing = playerStats.get(playerId);
+  private async hasCompletedDaily(
+    playerId: string,
+    date: string
+  ): Promise<boolean> {
+    const session = await this.getDailySession(playerId, date);
+    return session?.is_completed === true;
+  }
 
-      if (!existing || session.total_score > existing.best_score) {
-        playerStats.set(playerId, {
-          player_id: playerId,
-          best_score: session.total_score,
-          best_streak: session.current_streak,
-          total_games: (existing?.total_games || 0) + 1,
-          last_played: session.end_time || session.start_time,
-        });
-      } else {
-        existing.total_games += 1;
-        existing.best_streak = Math.max(
-          existing.best_streak,
-          session.current_streak
-        );
-        if (session.end_time && session.end_time > existing.last_played) {
-          existing.last_played = session.end_time;
-        }
-      }
+  // Only the first daily session a player started for a date counts for it
+  private async isCountedDaily(session: GameSession): Promise<boolean> {
+    const sessions = await this.db.getGameSessions({
+      player_id: session.player_id,
+      game_mode: "daily",
+      daily_challenge_date: session.daily_challenge_date,
     });
+    return getCountedDailySessionIds(sessions).has(session.session_id);
+  }
 
-    // Sort by best score and return top players
-    const leaderboard = Array.from(playerStats.values())
-      .sort((a, b) => b.best_score - a.best_score)
-      .slice(0, limit)
-      .map((player, index) => ({
-        rank: index + 1,
-        ...player,
-      }));
+  // The server is the only judge of whether today's daily has been played
+  public async getDailyStatus(playerId: string): Promise<DailyStatus> {
+    const player = await this.db.getPlayer(playerId);
+    const timezone = resolveTimezone(player?.timezone);
+    const date = getDailyDate(timezone);
+    const streak = this.dailyStreakService.getStats(player);
 
-    return leaderboard;
+    return {
+      date,
+      timezone,
+      completed: await this.hasCompletedDaily(playerId, date),
+      next_reset_at: getNextDailyReset(timezone),
+      daily_streak: streak.current,
+      streak_freezes: streak.freezes,
+    };
+  }
+
+  public async getPlayerStats(
+    playerId: string
+  ): Promise<
+    PlayerStats & { dailyStreak: DailyStreakStats; skillRating: number }
+  > {
+    const [stats, player] = await Promise.all([
+      this.leaderboardIndex.getPlayerStats(playerId),
+      this.db.getPlayer(playerId),
+    ]);
+    return {
+      ...stats,
+      dailyStreak: this.dailyStreakService.getStats(player),
+      skillRating: Math.round(getPlayerSkill(player).rating),
+    };
   }
 }
@@ -1,7 +1,18 @@
 import { v4 as uuidv4 } from 'uuid';
 import { ImagePair, CreateImagePairData, PairSelectionCriteria, ImagePairWithImages } from '../models/ImagePair';
+import { ImageSet, CreateImageSetData, SetSelectionCriteria } from '../models/ImageSet';
 import { DatabaseService } from './DatabaseService';
 import { ImageService } from './ImageService';
+import { getPairSkill } from './SkillRatingService';
+import { getPairDifficulty } from '../utils/pairDifficulty';
+import { createKeyedLock } from '../utils/keyedLock';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('ImagePairService');
+
+// Stats are read, updated and written back; rounds finishing on the same pair
+// or set at once take turns so no attempt is lost
+const withStatsLock = createKeyedLock();
 
 export class ImagePairService {
   private db: DatabaseService;
@@ -63,11 +74,11 @@ export class ImagePairService {
       };
 
       await this.db.createImagePair(imagePair);
-      console.log(`Image pair created: ${imagePair.pair_id}`);
+      logger.info(`Image pair created: ${imagePair.pair_id}`);
       
       return imagePair;
     } catch (error) {
-      console.error('Error creating image pair:', error);
+      logger.error('Error creating image pair', error);
       throw error;
     }
   }
@@ -84,7 +95,7 @@ export class ImagePairService {
     const realImage = await this.imageService.getImageById(pair.real_image_id);
 
     if (!aiImage || !realImage) {
-      console.error(`Missing images for pair ${id}`);
+      logger.error(`Missing images for pair ${id}`);
       return null;
     }
 
@@ -141,11 +152,13 @@ export class ImagePairService {
     try {
       const filters = {
         category: criteria.category,
-        difficulty: criteria.difficulty,
         is_active: criteria.activeOnly !== false // Default to true
       };
 
-      const allPairs = await this.db.getAllImagePairs(filters);
+      const allPairs = (await this.db.getAllImagePairs(filters)).filter(pair =>
+        (criteria.difficulty === undefined || getPairDifficulty(pair) === criteria.difficulty) &&
+        (!criteria.aiImageIds || criteria.aiImageIds.includes(pair.ai_image_id))
+      );
       
       // Filter out excluded pairs
       let availablePairs = allPairs;
@@ -156,10 +169,21 @@ export class ImagePairService {
       }
 
       if (availablePairs.length === 0) {
-        console.warn('No available pairs found for criteria:', criteria);
+        logger.warn('No available pairs found for criteria', criteria);
         return null;
       }
 
+      // Adaptive selection: the pairs rated closest to the target
+      if (criteria.targetRating !== undefined) {
+        const targetRating = criteria.targetRating;
+        const closest = [...availablePairs]
+          .sort((a, b) =>
+            Math.abs(getPairSkill(a).rating - targetRating) - Math.abs(getPairSkill(b).rating - targetRating)
+          )
+          .slice(0, 5);
+        return closest[Math.floor(Math.random() * closest.length)];
+      }
+
       // Smart selection algorithm
       // Prefer pairs with lower usage counts and success rates for better balance
       const weightedPairs = availablePairs.map(pair => {
@@ -187,7 +211,7 @@ export class ImagePairService {
       
       return topCandidates[selectedIndex].pair;
     } catch (error) {
-      console.error('Error selecting pair for game:', error);
+      logger.error('Error selecting pair for game', error);
       return null;
     }
   }
@@ -197,10 +221,14 @@ export class ImagePairService {
     isCorrect: boolean, 
     responseTime: number
   ): Promise<void> {
+    await withStatsLock(pairId, () => this.applyPairStats(pairId, isCorrect, responseTime));
+  }
+
+  private async applyPairStats(pairId: string, isCorrect: boolean, responseTime: number): Promise<void> {
     try {
       const pair = await this.db.getImagePair(pairId);
       if (!pair) {
-        console.error(`Pair not found: ${pairId}`);
+        logger.error(`Pair not found: ${pairId}`);
         return;
       }
 
@@ -224,9 +252,9 @@ export class ImagePairService {
       await this.imageService.incrementUsageCount(pair.ai_image_id);
       await this.imageService.incrementUsageCount(pair.real_image_id);
 
-      console.log(`Updated stats for pair ${pairId}: ${newSuccessRate.toFixed(1)}% success rate`);
+      logger.info(`Updated stats for pair ${pairId}: ${newSuccessRate.toFixed(1)}% success rate`);
     } catch (error) {
-      console.error('Error updating pair stats:', error);
+      logger.error('Error updating pair stats', error);
     }
   }
 
@@ -243,6 +271,136 @@ export class ImagePairService {
     return await this.db.deleteImagePair(id);
   }
 
+  public async createImageSet(data: CreateImageSetData): Promise<ImageSet> {
+    try {
+      const images = await Promise.all(data.image_ids.map(id => this.imageService.getImageById(id)));
+      if (images.some(image => !image)) {
+        throw new Error('One or more images not found');
+      }
+
+      const aiImages = images.filter(image => image!.is_ai_generated);
+      const realImages = images.filter(image => !image!.is_ai_generated);
+      if (aiImages.length === 0 || realImages.length === 0) {
+        throw new Error('A set needs at least one AI-generated and one real image');
+      }
+      if (data.target === 'real' && realImages.length !== 1) {
+        throw new Error('A set where the real image is picked must have exactly one real image');
+      }
+
+      // The same images in any order make the same set
+      const key = [...data.image_ids].sort().join(',');
+      const existingSets = await this.db.getAllImageSets();
+      if (existingSets.some(set => set.target === data.target && [...set.image_ids].sort().join(',') === key)) {
+        throw new Error('This image set already exists');
+      }
+
+      const imageSet: ImageSet = {
+        set_id: uuidv4(),
+        image_ids: data.image_ids,
+        ai_image_ids: aiImages.map(image => image!.id),
+        target: data.target,
+        category: aiImages[0]!.category, // Use the first AI image's category, as pairs do
+        difficulty_level: Math.max(...images.map(image => image!.difficulty_level)),
+        creation_date: new Date(),
+        success_rate: 0,
+        average_credit: 0,
+        total_attempts: 0,
+        correct_guesses: 0,
+        average_response_time: 0,
+        is_active: true
+      };
+
+      await this.db.createImageSet(imageSet);
+      logger.info(`Image set created: ${imageSet.set_id}`, { images: imageSet.image_ids.length, target: imageSet.target });
+
+      return imageSet;
+    } catch (error) {
+      logger.error('Error creating image set', error);
+      throw error;
+    }
+  }
+
+  public async getImageSetById(id: string): Promise<ImageSet | null> {
+    return await this.db.getImageSet(id);
+  }
+
+  public async getAllImageSets(filters?: {
+    category?: string;
+    difficulty?: number;
+    is_active?: boolean;
+  }): Promise<ImageSet[]> {
+    return await this.db.getAllImageSets(filters);
+  }
+
+  // Prefers less played sets, like pair selection without a target rating
+  public async selectSetForGame(criteria: SetSelectionCriteria): Promise<ImageSet | null> {
+    try {
+      const sets = (await this.db.getAllImageSets({
+        category: criteria.category,
+        difficulty: criteria.difficulty,
+        is_active: criteria.activeOnly !== false
+      })).filter(set => !criteria.excludeSetIds?.includes(set.set_id));
+
+      if (sets.length === 0) {
+        logger.warn('No available image sets found for criteria', criteria);
+        return null;
+      }
+
+      const candidates = [...sets]
+        .sort((a, b) => a.total_attempts - b.total_attempts)
+        .slice(0, 5);
+      return candidates[Math.floor(Math.random() * candidates.length)];
+    } catch (error) {
+      logger.error('Error selecting image set for game', error);
+      return null;
+    }
+  }
+
+  // `credit` is the round's partial credit, from 0 to 1
+  public async updateSetStats(setId: string, credit: number, responseTime: number): Promise<void> {
+    await withStatsLock(setId, () => this.applySetStats(setId, credit, responseTime));
+  }
+
+  private async applySetStats(setId: string, credit: number, responseTime: number): Promise<void> {
+    try {
+      const set = await this.db.getImageSet(setId);
+      if (!set) {
+        logger.error(`Image set not found: ${setId}`);
+        return;
+      }
+
+      const newTotalAttempts = set.total_attempts + 1;
+      const newCorrectGuesses = set.correct_guesses + (credit === 1 ? 1 : 0);
+      const totalCredit = set.average_credit * set.total_attempts + credit * 100;
+      const totalResponseTime = set.average_response_time * set.total_attempts + responseTime;
+
+      await this.db.updateImageSet(setId, {
+        total_attempts: newTotalAttempts,
+        correct_guesses: newCorrectGuesses,
+        success_rate: Math.round((newCorrectGuesses / newTotalAttempts) * 10000) / 100,
+        average_credit: Math.round((totalCredit / newTotalAttempts) * 100) / 100,
+        average_response_time: Math.round(totalResponseTime / newTotalAttempts)
+      });
+
+      await Promise.all(set.image_ids.map(id => this.imageService.incrementUsageCount(id)));
+    } catch (error) {
+      logger.error('Error updating image set stats', error);
+    }
+  }
+
+  public async toggleSetActive(id: string): Promise<ImageSet | null> {
+    const set = await this.db.getImageSet(id);
+    if (!set) return null;
+
+    return await this.db.updateImageSet(id, {
+      is_active: !set.is_active
+    });
+  }
+
+  public async deleteSet(id: string): Promise<boolean> {
+    return await this.db.deleteImageSet(id);
+  }
+
   public async getPairStats(): Promise<{
     totalPairs: number;
     activePairs: number;
@@ -0,0 +1,62 @@
+import { DatabaseService } from './DatabaseService';
+import { ImageService } from './ImageService';
+import { createTestImage } from '../testing/fixtures';
+
+// Uploads are never processed here
+jest.mock('sharp', () => jest.fn());
+
+describe('ImageService', () => {
+  const db = DatabaseService.getInstance();
+  const service = new ImageService();
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await db.shutdown();
+  });
+
+  describe('selectImageForVerdict', () => {
+    it('still draws at random when no image has a quality score', async () => {
+      const images = [
+        await createTestImage({ quality_score: 0 }),
+        await createTestImage({ quality_score: 0 }),
+        await createTestImage({ quality_score: 0 })
+      ];
+
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+      expect((await service.selectImageForVerdict({ isAiGenerated: false }))!.id).toBe(images[0].id);
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+      expect((await service.selectImageForVerdict({ isAiGenerated: false }))!.id).toBe(images[1].id);
+    });
+
+    it('favours images near the target difficulty', async () => {
+      const easy = await createTestImage({ is_ai_generated: true, difficulty_level: 1 });
+      const hard = await createTestImage({ is_ai_generated: true, difficulty_level: 5 });
+
+      // Weights 1/5 and 1: a draw past the first sixth lands on the hard image
+      jest.spyOn(Math, 'random').mockReturnValue(0.1);
+      expect((await service.selectImageForVerdict({ isAiGenerated: true, targetDifficulty: 5 }))!.id).toBe(easy.id);
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+      expect((await service.selectImageForVerdict({ isAiGenerated: true, targetDifficulty: 5 }))!.id).toBe(hard.id);
+      expect(await service.selectImageForVerdict({ isAiGenerated: true, excludeImageIds: [easy.id, hard.id] })).toBeNull();
+    });
+  });
+
+  describe('updateImageStats', () => {
+    it('keeps every attempt when rounds on one image finish at once', async () => {
+      const image = await createTestImage();
+
+      await Promise.all([
+        service.updateImageStats(image.id, true, 2000),
+        service.updateImageStats(image.id, false, 4000),
+        service.incrementUsageCount(image.id)
+      ]);
+      expect(await db.getImage(image.id)).toMatchObject({
+        usage_count: 3,
+        verdict_stats: { total_attempts: 2, correct_guesses: 1, success_rate: 50, average_response_time: 3000 }
+      });
+    });
+  });
+});
@@ -2,8 +2,17 @@ import sharp from 'sharp';
 import { v4 as uuidv4 } from 'uuid';
 import path from 'path';
 import fs from 'fs/promises';
-import { Image, CreateImageData, ProcessedImage, ImageDimensions } from '../models/Image';
+import { Image, CreateImageData, ProcessedImage, ImageSelectionCriteria } from '../models/Image';
 import { DatabaseService } from './DatabaseService';
+import { detectImageContentType } from '../utils/imageType';
+import { createKeyedLock } from '../utils/keyedLock';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('ImageService');
+
+// Usage counts and verdict stats are read, updated and written back; updates
+// of one image take turns so none is lost
+const withImageStatsLock = createKeyedLock();
 
 export class ImageService {
   private db: DatabaseService;
@@ -48,10 +57,10 @@ export class ImageService {
       // Save to database
       await this.db.createImage(image);
 
-      console.log(`Image processed and saved: ${image.filename} (${image.id})`);
+      logger.info(`Image processed and saved: ${image.filename} (${image.id})`);
       return image;
     } catch (error) {
-      console.error('Error processing image:', error);
+      logger.error('Error processing image', error);
       throw new Error('Failed to process and save image');
     }
   }
@@ -98,7 +107,7 @@ export class ImageService {
         mimeType: 'image/jpeg'
       };
     } catch (error) {
-      console.error('Error in image processing:', error);
+      logger.error('Error in image processing', error);
       throw new Error('Image processing failed');
     }
   }
@@ -151,38 +160,123 @@ export class ImageService {
       try {
         await fs.unlink(filePath);
       } catch (error) {
-        console.warn(`Could not delete file ${filePath}:`, error);
+        logger.warn(`Could not delete file ${filePath}`, error);
       }
 
       // Delete from database
       return await this.db.deleteImage(id);
     } catch (error) {
-      console.error('Error deleting image:', error);
+      logger.error('Error deleting image', error);
       return false;
     }
   }
 
-  public async getImageFile(id: string): Promise<{ filePath: string; image: Image } | null> {
+  public async getImageFile(id: string): Promise<{ filePath: string; contentType: string; image: Image } | null> {
     const image = await this.db.getImage(id);
     if (!image) return null;
 
     const filePath = path.join(this.uploadsPath, image.storedFilename);
     
     try {
-      await fs.access(filePath);
-      return { filePath, image };
+      const contentType = await detectImageContentType(filePath);
+      return { filePath, contentType, image };
     } catch {
-      console.error(`Image file not found: ${filePath}`);
+      logger.error(`Image file not found: ${filePath}`);
       return null;
     }
   }
 
   public async incrementUsageCount(id: string): Promise<void> {
-    const image = await this.db.getImage(id);
-    if (image) {
+    await withImageStatsLock(id, async () => {
+      const image = await this.db.getImage(id);
+      if (image) {
+        await this.db.updateImage(id, {
+          usage_count: image.usage_count + 1
+        });
+      }
+    });
+  }
+
+  // Draws one image for a verdict round at random, weighted towards higher
+  // quality_score and a difficulty_level near the target
+  public async selectImageForVerdict(criteria: ImageSelectionCriteria): Promise<Image | null> {
+    try {
+      const images = (await this.db.getAllImages({ is_ai_generated: criteria.isAiGenerated }))
+        .filter(image => !criteria.excludeImageIds?.includes(image.id));
+
+      if (images.length === 0) {
+        logger.warn('No available images found for criteria', criteria);
+        return null;
+      }
+
+      const weights = images.map(image => {
+        const distance = criteria.targetDifficulty !== undefined
+          ? Math.abs(image.difficulty_level - criteria.targetDifficulty)
+          : 0;
+        // Floored so images scored 0 can still be drawn
+        return Math.max(image.quality_score, 1) / (1 + distance);
+      });
+
+      let remaining = Math.random() * weights.reduce((sum, weight) => sum + weight, 0);
+      for (let index = 0; index < images.length; index++) {
+        remaining -= weights[index];
+        if (remaining < 0) return images[index];
+      }
+      return images[images.length - 1];
+    } catch (error) {
+      logger.error('Error selecting image for verdict round', error);
+      return null;
+    }
+  }
+
+  // AI images with telltales or annotations for practice rounds to explain
+  public async getExplainedImageIds(): Promise<string[]> {
+    const images = await this.db.getAllImages({ is_ai_generated: true });
+    return images
+      .filter(image => (image.telltales?.length ?? 0) > 0 || (image.annotations?.length ?? 0) > 0)
+      .map(image => image.id);
+  }
+
+  public async updateImageStats(
+    id: string,
+    isCorrect: boolean,
+    responseTime: number
+  ): Promise<void> {
+    await withImageStatsLock(id, () => this.applyImageStats(id, isCorrect, responseTime));
+  }
+
+  private async applyImageStats(id: string, isCorrect: boolean, responseTime: number): Promise<void> {
+    try {
+      const image = await this.db.getImage(id);
+      if (!image) {
+        logger.error(`Image not found: ${id}`);
+        return;
+      }
+
+      const stats = image.verdict_stats || {
+        total_attempts: 0,
+        correct_guesses: 0,
+        success_rate: 0,
+        average_response_time: 0
+      };
+      const newTotalAttempts = stats.total_attempts + 1;
+      const newCorrectGuesses = stats.correct_guesses + (isCorrect ? 1 : 0);
+      const newSuccessRate = (newCorrectGuesses / newTotalAttempts) * 100;
+      const totalResponseTime = stats.average_response_time * stats.total_attempts + responseTime;
+
       await this.db.updateImage(id, {
-        usage_count: image.usage_count + 1
+        usage_count: image.usage_count + 1,
+        verdict_stats: {
+          total_attempts: newTotalAttempts,
+          correct_guesses: newCorrectGuesses,
+          success_rate: Math.round(newSuccessRate * 100) / 100,
+          average_response_time: Math.round(totalResponseTime / newTotalAttempts)
+        }
       });
+
+      logger.info(`Updated verdict stats for image ${id}: ${newSuccessRate.toFixed(1)}% success rate`);
+    } catch (error) {
+      logger.error('Error updating image stats', error);
     }
   }
 
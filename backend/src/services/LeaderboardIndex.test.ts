@@ -0,0 +1,122 @@
+import { DatabaseService } from './DatabaseService';
+import { LeaderboardIndex, LeaderboardIndexQuery, getWindowStart } from './LeaderboardIndex';
+import { GameRound } from '../models/GameSession';
+import { createTestSession } from '../testing/fixtures';
+
+describe('LeaderboardIndex', () => {
+  const db = DatabaseService.getInstance();
+  const index = LeaderboardIndex.getInstance();
+  // A Wednesday
+  const NOW = new Date('2026-10-14T10:00:00.000Z');
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  const query = (overrides: Partial<LeaderboardIndexQuery> = {}, now = NOW) =>
+    index.query({ window: 'all', rankBy: 'best_score', minGames: 1, limit: 10, ...overrides }, now);
+  const ranked = async (overrides: Partial<LeaderboardIndexQuery> = {}, now = NOW) =>
+    (await query(overrides, now)).entries.map(entry => [entry.player_id, entry.rank]);
+
+  // Completes a session the way GameService reports it to the index
+  const complete = async (playerId: string, totalScore: number, answers: boolean[] = [true]) => {
+    const session = await createTestSession({ player_id: playerId, total_score: totalScore, end_time: new Date() }, answers);
+    index.recordSessionCompleted(session, await db.getGameRoundsBySession(session.session_id));
+  };
+
+  beforeAll(async () => {
+    jest.useFakeTimers({ now: NOW, doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'setInterval', 'clearTimeout', 'clearInterval', 'clearImmediate', 'queueMicrotask'] });
+
+    // Stored before the index is built, then picked up by the build
+    await createTestSession({ player_id: 'ana', total_score: 300, end_time: NOW }, [true, true]);
+    await createTestSession({ player_id: 'old', total_score: 900, end_time: new Date(NOW.getTime() - 60 * DAY_MS) });
+    await createTestSession({ player_id: 'quit', total_score: 800, end_time: NOW, is_completed: false }, [true]);
+    await index.ready();
+
+    await complete('ben', 300);
+    await complete('cy', 200);
+    await complete('cy', 50);
+  });
+
+  afterAll(async () => {
+    jest.useRealTimers();
+    await db.shutdown();
+  });
+
+  it('ranks built and recorded sessions together, sharing ranks on ties', async () => {
+    expect(await ranked({ window: 'today' })).toEqual([['ana', 1], ['ben', 1], ['cy', 3]]);
+    expect(await ranked({ rankBy: 'total_score' })).toEqual([['old', 1], ['ana', 2], ['ben', 2], ['cy', 4]]);
+  });
+
+  it('ranks the requesting player among qualifying players only', async () => {
+    const result = await query({ window: 'today', minGames: 2, playerId: 'ana' });
+    expect(result.entries).toEqual([expect.objectContaining({ player_id: 'cy', rank: 1, total_games: 2, total_score: 250 })]);
+    expect(result.playerEntry).toBeNull();
+    expect(result.totalPlayers).toBe(1);
+
+    expect((await query({ window: 'today', limit: 1, playerId: 'cy' })).playerEntry).toMatchObject({ rank: 3 });
+    expect((await query({ window: 'today', playerId: 'old' })).playerEntry).toBeNull();
+  });
+
+  it('starts an empty board once its period rolls over', async () => {
+    const thursday = new Date(NOW.getTime() + DAY_MS);
+    const nextMonday = new Date('2026-10-19T00:00:00.000Z');
+    const nextMonth = new Date('2026-11-01T00:00:00.000Z');
+
+    expect(await ranked({ window: 'today' }, thursday)).toEqual([]);
+    expect(await ranked({ window: 'week' }, thursday)).toHaveLength(3);
+    expect(await ranked({ window: 'week' }, nextMonday)).toEqual([]);
+    expect(await ranked({ window: 'month' }, nextMonday)).toHaveLength(3);
+    expect(await ranked({ window: 'month' }, nextMonth)).toEqual([]);
+    expect(await ranked({ window: 'all' }, nextMonth)).toHaveLength(4);
+  });
+
+  it('keeps player stats for sessions still in progress', async () => {
+    expect(await index.getPlayerStats('quit')).toMatchObject({ totalGames: 1, totalScore: 800, averageAccuracy: 100 });
+    expect(await index.getPlayerStats('nobody')).toMatchObject({ totalGames: 0 });
+  });
+
+  it('keeps the calibration curve up to date as rounds are graded', async () => {
+    const session = await createTestSession({ player_id: 'dee', end_time: NOW });
+    index.recordSessionStarted(session);
+    const answers: Array<Partial<GameRound>> = [
+      { confidence: 100, is_correct: true },
+      { confidence: 90, is_correct: false },
+      { confidence: 55, is_correct: true },
+      { confidence: 80, is_correct: false, timed_out: true },
+      { is_correct: true }
+    ];
+    for (const [number, answer] of answers.entries()) {
+      const round = await db.createGameRound({
+        round_id: `round-${number}`,
+        session_id: session.session_id,
+        pair_id: '00000000-0000-4000-8000-000000000000',
+        player_choice: 'ai',
+        correct_answer: 'ai',
+        is_correct: false,
+        response_time: 3000,
+        points_earned: 0,
+        round_number: number + 1,
+        timestamp: NOW,
+        ...answer
+      });
+      index.recordRound(session, round, 0);
+    }
+
+    const { calibration } = await index.getPlayerStats('dee');
+    // Brier scores 0, 0.81 and 0.2025 over the three rounds that count
+    expect(calibration).toMatchObject({ rounds: 3, brier_score: 0.3375, average_confidence: 81.67, accuracy: 66.67 });
+    expect(calibration.buckets.map(bucket => [bucket.min_confidence, bucket.max_confidence, bucket.rounds])).toEqual([
+      [50, 59, 1], [60, 69, 0], [70, 79, 0], [80, 89, 0], [90, 100, 2]
+    ]);
+    expect(calibration.buckets[4]).toMatchObject({ average_confidence: 95, accuracy: 50 });
+
+    await index.rebuild();
+    expect((await index.getPlayerStats('dee')).calibration).toEqual(calibration);
+  });
+
+  it('starts windows at midnight UTC, on Mondays and on the first of the month', () => {
+    expect(getWindowStart('today', NOW)).toEqual(new Date('2026-10-14T00:00:00.000Z'));
+    expect(getWindowStart('week', NOW)).toEqual(new Date('2026-10-12T00:00:00.000Z'));
+    expect(getWindowStart('week', new Date('2026-10-18T23:59:59.000Z'))).toEqual(new Date('2026-10-12T00:00:00.000Z'));
+    expect(getWindowStart('month', NOW)).toEqual(new Date('2026-10-01T00:00:00.000Z'));
+    expect(getWindowStart('all', NOW)).toBeNull();
+  });
+});
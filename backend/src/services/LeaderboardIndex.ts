@@ -0,0 +1,522 @@
+import { DatabaseService } from './DatabaseService';
+import { GameSession, GameRound, GameMode } from '../models/GameSession';
+import { LeaderboardEntry, LeaderboardRankBy, LeaderboardWindow } from '../models/Leaderboard';
+import { PlayerCalibration } from '../models/Scoring';
+import { SortedList } from '../utils/sortedList';
+import { createLogger } from '../utils/logger';
+import { SEPARATE_LEADERBOARD_MODES, UNRANKED_MODES, getCountedDailySessionIds } from '../utils/gameModes';
+import { getSessionBonusTotal } from '../utils/scoringEngine';
+import {
+  ConfidenceTally,
+  addRoundToTally,
+  createConfidenceTally,
+  mergeTallies,
+  summarizeTally
+} from '../utils/calibration';
+
+const logger = createLogger('LeaderboardIndex');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WINDOWS: LeaderboardWindow[] = ['today', 'week', 'month', 'all'];
+
+export type PlayerTotals = Omit<LeaderboardEntry, 'rank' | 'display_name' | 'daily_streak'>;
+export type RankedTotals = Omit<LeaderboardEntry, 'display_name' | 'daily_streak'>;
+
+export interface PlayerStats {
+  totalGames: number;
+  dailyGames: number;
+  streakGames: number;
+  totalScore: number;
+  bestStreak: number;
+  averageAccuracy: number;
+  averageResponseTime: number;
+  lastPlayed?: Date;
+  calibration: PlayerCalibration;
+}
+
+export interface LeaderboardIndexQuery {
+  mode?: GameMode;
+  window: LeaderboardWindow;
+  rankBy: LeaderboardRankBy;
+  minGames: number;
+  limit: number;
+  playerId?: string;
+}
+
+export interface LeaderboardIndexResult {
+  entries: RankedTotals[];
+  playerEntry?: RankedTotals | null;
+  totalPlayers: number;
+  windowStart: Date | null;
+}
+
+// Lifetime activity behind the player stats endpoint; unlike the
+// leaderboards this counts sessions that are still in progress. Unranked
+// modes count towards neither.
+interface PlayerActivity {
+  total_games: number;
+  daily_games: number;
+  streak_games: number;
+  total_score: number;
+  best_streak: number;
+  rounds_played: number;
+  correct_answers: number;
+  response_time_total: number;
+  confidence: ConfidenceTally;
+  last_played?: Date;
+}
+
+interface RoundTotals {
+  rounds_played: number;
+  correct_answers: number;
+  response_time_total: number;
+}
+
+// Calendar windows in UTC; weeks start on Monday
+export const getWindowStart = (window: LeaderboardWindow, now: Date = new Date()): Date | null => {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+
+  switch (window) {
+    case 'today':
+      return new Date(today);
+    case 'week':
+      return new Date(today - ((now.getUTCDay() + 6) % 7) * DAY_MS);
+    case 'month':
+      return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    case 'all':
+      return null;
+  }
+};
+
+const isRanked = (session: GameSession): boolean => !UNRANKED_MODES.includes(session.game_mode);
+
+const toPercentage = (correct: number, total: number): number => {
+  return total > 0 ? Math.round((correct / total) * 10000) / 100 : 0;
+};
+
+const summarizeRounds = (rounds: GameRound[]): RoundTotals => ({
+  rounds_played: rounds.length,
+  correct_answers: rounds.filter(round => round.is_correct).length,
+  response_time_total: rounds.reduce((sum, round) => sum + round.response_time, 0)
+});
+
+// Ranked metric first, then total score, then player id so the order is total
+const compareBy = (rankBy: LeaderboardRankBy) => (a: PlayerTotals, b: PlayerTotals): number => {
+  return (b[rankBy] - a[rankBy]) ||
+    (b.total_score - a.total_score) ||
+    (a.player_id < b.player_id ? -1 : a.player_id > b.player_id ? 1 : 0);
+};
+
+// Per-player totals for one mode and period, with a sorted ranking per
+// rank_by. Rankings are built the first time they are asked for and then
+// kept in order as totals change.
+class LeaderboardBoard {
+  private players = new Map<string, PlayerTotals>();
+  private rankings = new Map<LeaderboardRankBy, SortedList<PlayerTotals>>();
+
+  constructor(public readonly periodStart: Date | null) {}
+
+  public get size(): number {
+    return this.players.size;
+  }
+
+  public get(playerId: string): PlayerTotals | undefined {
+    return this.players.get(playerId);
+  }
+
+  public update(playerId: string, apply: (totals: PlayerTotals) => void): void {
+    let totals = this.players.get(playerId);
+    if (totals) {
+      this.rankings.forEach(ranking => ranking.remove(totals!));
+    } else {
+      totals = {
+        player_id: playerId,
+        best_score: 0,
+        total_score: 0,
+        best_streak: 0,
+        total_games: 0,
+        rounds_played: 0,
+        correct_answers: 0,
+        accuracy: 0,
+        last_played: new Date(0)
+      };
+      this.players.set(playerId, totals);
+    }
+
+    apply(totals);
+    totals.accuracy = toPercentage(totals.correct_answers, totals.rounds_played);
+    this.rankings.forEach(ranking => ranking.insert(totals!));
+  }
+
+  public remove(playerId: string): PlayerTotals | undefined {
+    const totals = this.players.get(playerId);
+    if (totals) {
+      this.rankings.forEach(ranking => ranking.remove(totals));
+      this.players.delete(playerId);
+    }
+    return totals;
+  }
+
+  public ranking(rankBy: LeaderboardRankBy): SortedList<PlayerTotals> {
+    let ranking = this.rankings.get(rankBy);
+    if (!ranking) {
+      ranking = SortedList.from(this.players.values(), compareBy(rankBy));
+      this.rankings.set(rankBy, ranking);
+    }
+    return ranking;
+  }
+}
+
+// In-memory leaderboards and player stats, so queries never scan sessions or
+// rounds. Built from history on first use and then updated by GameService as
+// sessions start, rounds are graded and sessions complete.
+export class LeaderboardIndex {
+  private static instance: LeaderboardIndex;
+  private db: DatabaseService;
+  // Keyed by `${mode}:${window}`; the today/week/month boards only hold the
+  // current period and are replaced once it rolls over
+  private boards = new Map<string, LeaderboardBoard>();
+  private activity = new Map<string, PlayerActivity>();
+  private building: Promise<void> | null = null;
+  private built = false;
+  private changedWhileBuilding = false;
+
+  private constructor() {
+    this.db = DatabaseService.getInstance();
+  }
+
+  public static getInstance(): LeaderboardIndex {
+    if (!LeaderboardIndex.instance) {
+      LeaderboardIndex.instance = new LeaderboardIndex();
+    }
+    return LeaderboardIndex.instance;
+  }
+
+  // Resolves once the index has been built from stored sessions and rounds
+  public async ready(): Promise<void> {
+    if (!this.building) {
+      this.building = this.build();
+    }
+    await this.building;
+  }
+
+  // For changes made behind the index's back, such as a data import
+  public async rebuild(): Promise<void> {
+    if (this.built) {
+      this.built = false;
+      this.building = this.build();
+    } else {
+      this.changedWhileBuilding = true;
+    }
+    await this.ready();
+  }
+
+  public recordSessionStarted(session: GameSession): void {
+    if (!this.acceptsUpdates() || !session.player_id || !isRanked(session)) return;
+
+    this.updateActivity(session.player_id, activity => {
+      activity.total_games += 1;
+      if (session.game_mode === 'daily') activity.daily_games += 1;
+      if (session.game_mode === 'streak') activity.streak_games += 1;
+      if (!activity.last_played || session.start_time > activity.last_played) {
+        activity.last_played = session.start_time;
+      }
+    });
+  }
+
+  // currentStreak is the session's streak after this round was graded
+  public recordRound(session: GameSession, round: GameRound, currentStreak: number): void {
+    if (!this.acceptsUpdates() || !session.player_id || !isRanked(session)) return;
+
+    this.updateActivity(session.player_id, activity => {
+      activity.total_score += round.points_earned;
+      activity.best_streak = Math.max(activity.best_streak, currentStreak);
+      activity.rounds_played += 1;
+      if (round.is_correct) activity.correct_answers += 1;
+      activity.response_time_total += round.response_time;
+      addRoundToTally(activity.confidence, round);
+    });
+  }
+
+  // Only completed sessions that are neither flagged nor abandoned count
+  // towards the leaderboards
+  public recordSessionCompleted(session: GameSession, rounds: GameRound[]): void {
+    if (!this.acceptsUpdates() || !isRanked(session)) return;
+
+    // Round points were counted as they were graded; bonuses are added on top
+    const bonusTotal = getSessionBonusTotal(session);
+    if (session.player_id && bonusTotal > 0) {
+      this.updateActivity(session.player_id, activity => {
+        activity.total_score += bonusTotal;
+      });
+    }
+    this.addCompletedSession(session, summarizeRounds(rounds), new Date());
+  }
+
+  // Folds one player's totals into another's, after their sessions moved
+  public mergePlayers(fromPlayerId: string, toPlayerId: string): void {
+    if (!this.acceptsUpdates() || fromPlayerId === toPlayerId) return;
+
+    const from = this.activity.get(fromPlayerId);
+    if (from) {
+      this.activity.delete(fromPlayerId);
+      this.updateActivity(toPlayerId, activity => {
+        activity.total_games += from.total_games;
+        activity.daily_games += from.daily_games;
+        activity.streak_games += from.streak_games;
+        activity.total_score += from.total_score;
+        activity.best_streak = Math.max(activity.best_streak, from.best_streak);
+        activity.rounds_played += from.rounds_played;
+        activity.correct_answers += from.correct_answers;
+        activity.response_time_total += from.response_time_total;
+        mergeTallies(activity.confidence, from.confidence);
+        if (from.last_played && (!activity.last_played || from.last_played > activity.last_played)) {
+          activity.last_played = from.last_played;
+        }
+      });
+    }
+
+    this.boards.forEach(board => {
+      const fromTotals = board.remove(fromPlayerId);
+      if (!fromTotals) return;
+      board.update(toPlayerId, totals => {
+        totals.best_score = Math.max(totals.best_score, fromTotals.best_score);
+        totals.total_score += fromTotals.total_score;
+        totals.best_streak = Math.max(totals.best_streak, fromTotals.best_streak);
+        totals.total_games += fromTotals.total_games;
+        totals.rounds_played += fromTotals.rounds_played;
+        totals.correct_answers += fromTotals.correct_answers;
+        if (fromTotals.last_played > totals.last_played) {
+          totals.last_played = fromTotals.last_played;
+        }
+      });
+    });
+  }
+
+  // Standard competition ranking (1, 2, 2, 4): players tied on the ranked
+  // metric share a rank. Ties are listed by total score.
+  public async query(query: LeaderboardIndexQuery, now: Date = new Date()): Promise<LeaderboardIndexResult> {
+    await this.ready();
+
+    const board = this.board(query.mode || 'all', query.window, now);
+    const ranking = board.ranking(query.rankBy);
+    const qualifies = (totals: PlayerTotals) => totals.total_games >= query.minGames;
+
+    const entries: RankedTotals[] = [];
+    let qualifying = 0;
+    for (let index = 0; index < ranking.length && entries.length < query.limit; index++) {
+      const totals = ranking.at(index)!;
+      if (!qualifies(totals)) continue;
+
+      qualifying += 1;
+      const previous = entries[entries.length - 1];
+      const rank = previous && previous[query.rankBy] === totals[query.rankBy] ? previous.rank : qualifying;
+      entries.push({ rank, ...totals });
+    }
+
+    let playerEntry: RankedTotals | null | undefined;
+    if (query.playerId) {
+      const own = board.get(query.playerId);
+      playerEntry = own && qualifies(own)
+        ? entries.find(entry => entry.player_id === own.player_id) || { rank: this.rankOf(own, ranking, query), ...own }
+        : null;
+    }
+
+    return {
+      entries,
+      ...(query.playerId && { playerEntry }),
+      totalPlayers: query.minGames <= 1 ? board.size : this.countQualifying(ranking, query.minGames),
+      windowStart: board.periodStart
+    };
+  }
+
+  public async getPlayerStats(playerId: string): Promise<PlayerStats> {
+    await this.ready();
+
+    const activity = this.activity.get(playerId);
+    if (!activity || activity.total_games === 0) {
+      return {
+        totalGames: 0,
+        dailyGames: 0,
+        streakGames: 0,
+        totalScore: 0,
+        bestStreak: 0,
+        averageAccuracy: 0,
+        averageResponseTime: 0,
+        calibration: summarizeTally(createConfidenceTally())
+      };
+    }
+
+    return {
+      totalGames: activity.total_games,
+      dailyGames: activity.daily_games,
+      streakGames: activity.streak_games,
+      totalScore: activity.total_score,
+      bestStreak: activity.best_streak,
+      averageAccuracy: toPercentage(activity.correct_answers, activity.rounds_played),
+      averageResponseTime: activity.rounds_played > 0
+        ? Math.round(activity.response_time_total / activity.rounds_played)
+        : 0,
+      lastPlayed: activity.last_played,
+      calibration: summarizeTally(activity.confidence)
+    };
+  }
+
+  private async build(): Promise<void> {
+    await this.db.ready();
+    const startedAt = Date.now();
+
+    let sessions: GameSession[];
+    let rounds: GameRound[];
+    do {
+      this.changedWhileBuilding = false;
+      sessions = await this.db.getGameSessions();
+      rounds = await this.db.getGameRounds();
+      this.load(sessions, rounds, new Date());
+    } while (this.changedWhileBuilding);
+
+    this.built = true;
+    logger.info(`Leaderboard index built from ${sessions.length} sessions and ${rounds.length} rounds`, {
+      players: this.activity.size,
+      duration_ms: Date.now() - startedAt
+    });
+  }
+
+  private load(sessions: GameSession[], rounds: GameRound[], now: Date): void {
+    this.boards.clear();
+    this.activity.clear();
+
+    const playerBySession = new Map<string, string>();
+    for (const session of sessions) {
+      if (session.player_id && isRanked(session)) playerBySession.set(session.session_id, session.player_id);
+    }
+
+    const roundsBySession = new Map<string, RoundTotals>();
+    for (const round of rounds) {
+      const totals = roundsBySession.get(round.session_id) || { rounds_played: 0, correct_answers: 0, response_time_total: 0 };
+      totals.rounds_played += 1;
+      if (round.is_correct) totals.correct_answers += 1;
+      totals.response_time_total += round.response_time;
+      roundsBySession.set(round.session_id, totals);
+
+      const playerId = playerBySession.get(round.session_id);
+      if (playerId) {
+        this.updateActivity(playerId, activity => addRoundToTally(activity.confidence, round));
+      }
+    }
+
+    const countedDailies = getCountedDailySessionIds(sessions);
+    for (const session of sessions) {
+      if (!session.player_id || !isRanked(session)) continue;
+      const sessionRounds = roundsBySession.get(session.session_id) || { rounds_played: 0, correct_answers: 0, response_time_total: 0 };
+
+      this.updateActivity(session.player_id, activity => {
+        activity.total_games += 1;
+        if (session.game_mode === 'daily') activity.daily_games += 1;
+        if (session.game_mode === 'streak') activity.streak_games += 1;
+        activity.total_score += session.total_score;
+        activity.best_streak = Math.max(activity.best_streak, session.current_streak);
+        activity.rounds_played += sessionRounds.rounds_played;
+        activity.correct_answers += sessionRounds.correct_answers;
+        activity.response_time_total += sessionRounds.response_time_total;
+        if (!activity.last_played || session.start_time > activity.last_played) {
+          activity.last_played = session.start_time;
+        }
+      });
+
+      if (session.game_mode !== 'daily' || countedDailies.has(session.session_id)) {
+        this.addCompletedSession(session, sessionRounds, now);
+      }
+    }
+  }
+
+  private addCompletedSession(session: GameSession, rounds: RoundTotals, now: Date): void {
+    if (!session.is_completed || session.is_flagged || session.is_abandoned || !session.player_id) return;
+
+    const playerId = session.player_id;
+    const finishedAt = session.end_time || session.start_time;
+
+    const modes = SEPARATE_LEADERBOARD_MODES.includes(session.game_mode)
+      ? [session.game_mode]
+      : ['all', session.game_mode];
+    for (const mode of modes) {
+      for (const window of WINDOWS) {
+        const board = this.board(mode, window, now);
+        if (board.periodStart && finishedAt < board.periodStart) continue;
+
+        board.update(playerId, totals => {
+          totals.best_score = Math.max(totals.best_score, session.total_score);
+          totals.total_score += session.total_score;
+          totals.best_streak = Math.max(totals.best_streak, session.current_streak);
+          totals.total_games += 1;
+          totals.rounds_played += rounds.rounds_played;
+          totals.correct_answers += rounds.correct_answers;
+          if (finishedAt > totals.last_played) {
+            totals.last_played = finishedAt;
+          }
+        });
+      }
+    }
+  }
+
+  private board(mode: string, window: LeaderboardWindow, now: Date): LeaderboardBoard {
+    const key = `${mode}:${window}`;
+    const periodStart = getWindowStart(window, now);
+    let board = this.boards.get(key);
+
+    if (!board || board.periodStart?.getTime() !== periodStart?.getTime()) {
+      board = new LeaderboardBoard(periodStart);
+      this.boards.set(key, board);
+    }
+    return board;
+  }
+
+  private rankOf(totals: PlayerTotals, ranking: SortedList<PlayerTotals>, query: LeaderboardIndexQuery): number {
+    const firstTied = ranking.findFirst(other => other[query.rankBy] <= totals[query.rankBy]);
+    if (query.minGames <= 1) return firstTied + 1;
+
+    let ahead = 0;
+    for (let index = 0; index < firstTied; index++) {
+      if (ranking.at(index)!.total_games >= query.minGames) ahead += 1;
+    }
+    return ahead + 1;
+  }
+
+  private countQualifying(ranking: SortedList<PlayerTotals>, minGames: number): number {
+    let count = 0;
+    for (let index = 0; index < ranking.length; index++) {
+      if (ranking.at(index)!.total_games >= minGames) count += 1;
+    }
+    return count;
+  }
+
+  private updateActivity(playerId: string, apply: (activity: PlayerActivity) => void): void {
+    let activity = this.activity.get(playerId);
+    if (!activity) {
+      activity = {
+        total_games: 0,
+        daily_games: 0,
+        streak_games: 0,
+        total_score: 0,
+        best_streak: 0,
+        rounds_played: 0,
+        correct_answers: 0,
+        response_time_total: 0,
+        confidence: createConfidenceTally()
+      };
+      this.activity.set(playerId, activity);
+    }
+    apply(activity);
+  }
+
+  // Until the first build finishes, changes are picked up by reading the
+  // stored data (again) instead of being applied twice
+  private acceptsUpdates(): boolean {
+    if (!this.built) {
+      this.changedWhileBuilding = true;
+      return false;
+    }
+    return true;
+  }
+}
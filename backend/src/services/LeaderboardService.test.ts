@@ -0,0 +1,55 @@
+import { DatabaseService } from './DatabaseService';
+import { LeaderboardService } from './LeaderboardService';
+import { LeaderboardQuerySchema } from '../models/Leaderboard';
+import { createTestSession } from '../testing/fixtures';
+
+describe('LeaderboardService', () => {
+  const db = DatabaseService.getInstance();
+  const service = new LeaderboardService();
+  const query = (overrides: object = {}) => LeaderboardQuerySchema.parse(overrides);
+  const ids = (entries: Array<{ player_id: string }>) => entries.map(entry => entry.player_id);
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  beforeAll(async () => {
+    await createTestSession({ player_id: 'ana', total_score: 300 }, [true, true, true]);
+    await createTestSession({ player_id: 'ana', total_score: 200 }, [true, true, false]);
+    await createTestSession({ player_id: 'ben', total_score: 300 }, [true, false, false]);
+    await createTestSession({ player_id: 'cy', total_score: 100, game_mode: 'daily' }, [true]);
+    // Last year's best, flagged and unfinished games
+    await createTestSession({ player_id: 'dee', total_score: 900, end_time: new Date(Date.now() - 400 * DAY_MS) });
+    await createTestSession({ player_id: 'eve', total_score: 800, is_flagged: true });
+    await createTestSession({ player_id: 'fay', total_score: 700, is_completed: false });
+  });
+
+  afterAll(async () => {
+    await db.shutdown();
+  });
+
+  it('shares a rank between tied players and lists them by total score', async () => {
+    const leaderboard = await service.getLeaderboard(query({ window: 'month' }));
+
+    expect(leaderboard.entries.map(entry => [entry.player_id, entry.rank])).toEqual([['ana', 1], ['ben', 1], ['cy', 3]]);
+    expect(leaderboard.entries[0]).toMatchObject({ best_score: 300, total_score: 500, total_games: 2, accuracy: 83.33 });
+    expect(leaderboard.total_players).toBe(3);
+  });
+
+  it('counts only completed, unflagged games finished inside the window', async () => {
+    expect(ids((await service.getLeaderboard(query({ window: 'all' }))).entries)).toEqual(['dee', 'ana', 'ben', 'cy']);
+    expect(ids((await service.getLeaderboard(query({ window: 'today' }))).entries)).toEqual(['ana', 'ben', 'cy']);
+    expect(ids((await service.getLeaderboard(query({ window: 'month', mode: 'daily' }))).entries)).toEqual(['cy']);
+  });
+
+  it('returns the requesting player even outside the top', async () => {
+    const leaderboard = await service.getLeaderboard(query({ window: 'month', limit: 1 }), 'cy');
+
+    expect(ids(leaderboard.entries)).toEqual(['ana']);
+    expect(leaderboard.player_entry).toMatchObject({ player_id: 'cy', rank: 3, display_name: 'Anonymous' });
+    expect((await service.getLeaderboard(query({ window: 'month' }), 'nobody')).player_entry).toBeNull();
+  });
+
+  it('needs more games before ranking by accuracy', async () => {
+    expect((await service.getLeaderboard(query({ rank_by: 'accuracy' }))).entries).toEqual([]);
+    expect(ids((await service.getLeaderboard(query({ rank_by: 'accuracy', min_games: 1, window: 'month' }))).entries))
+      .toEqual(['cy', 'ana', 'ben']);
+  });
+});
@@ -0,0 +1,66 @@
+import { DatabaseService } from './DatabaseService';
+import { LeaderboardIndex, RankedTotals } from './LeaderboardIndex';
+import { DailyStreakService } from './DailyStreakService';
+import {
+  Leaderboard,
+  LeaderboardEntry,
+  LeaderboardQuery,
+  DEFAULT_MIN_GAMES
+} from '../models/Leaderboard';
+
+export class LeaderboardService {
+  private db: DatabaseService;
+  private index: LeaderboardIndex;
+  private dailyStreakService: DailyStreakService;
+
+  constructor() {
+    this.db = DatabaseService.getInstance();
+    this.index = LeaderboardIndex.getInstance();
+    this.dailyStreakService = new DailyStreakService();
+  }
+
+  // Ranks players over completed, unflagged sessions finished inside the
+  // window. Pass playerId to also get that player's own row.
+  public async getLeaderboard(query: LeaderboardQuery, playerId?: string): Promise<Leaderboard> {
+    const minGames = query.min_games ?? DEFAULT_MIN_GAMES[query.rank_by];
+
+    const result = await this.index.query({
+      mode: query.mode,
+      window: query.window,
+      rankBy: query.rank_by,
+      minGames,
+      limit: query.limit,
+      playerId
+    });
+
+    const own = result.playerEntry;
+    const top = result.entries;
+    const named = await this.withPlayerDetails(own && !top.includes(own) ? [...top, own] : top);
+
+    return {
+      entries: named.slice(0, top.length),
+      ...(playerId && { player_entry: own ? named.find(entry => entry.player_id === playerId)! : null }),
+      total_players: result.totalPlayers,
+      mode: query.mode || 'all',
+      window: query.window,
+      window_start: result.windowStart,
+      rank_by: query.rank_by,
+      min_games: minGames
+    };
+  }
+
+  // Display names and daily streaks live on the player, not in the index
+  private async withPlayerDetails(entries: RankedTotals[]): Promise<LeaderboardEntry[]> {
+    const players = await this.db.getPlayersByIds(entries.map(entry => entry.player_id));
+    const byId = new Map(players.map(player => [player.player_id, player]));
+
+    return entries.map(entry => {
+      const player = byId.get(entry.player_id) || null;
+      return {
+        ...entry,
+        display_name: player?.display_name || 'Anonymous',
+        daily_streak: this.dailyStreakService.getCurrentStreak(player)
+      };
+    });
+  }
+}
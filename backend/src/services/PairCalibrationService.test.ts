@@ -0,0 +1,93 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from './DatabaseService';
+import { PairCalibrationService } from './PairCalibrationService';
+import { ImagePair } from '../models/ImagePair';
+import { createTestPair, createTestSession } from '../testing/fixtures';
+
+// Uploads are never processed here
+jest.mock('sharp', () => jest.fn());
+
+describe('PairCalibrationService', () => {
+  const db = DatabaseService.getInstance();
+  const service = new PairCalibrationService();
+  let easy: ImagePair;
+  let hard: ImagePair;
+  let average: ImagePair;
+  let thin: ImagePair;
+
+  // Each player answers every pair in one session; `correct` decides the outcome
+  const play = async (players: number, pairs: ImagePair[], correct: (player: number, pair: ImagePair) => boolean) => {
+    for (let player = 0; player < players; player++) {
+      const session = await createTestSession({ player_id: `player-${player}` });
+      for (const [index, pair] of pairs.entries()) {
+        const isCorrect = correct(player, pair);
+        await db.createGameRound({
+          round_id: uuidv4(),
+          session_id: session.session_id,
+          pair_id: pair.pair_id,
+          player_choice: isCorrect ? 'ai' : 'real',
+          correct_answer: 'ai',
+          is_correct: isCorrect,
+          response_time: 3000,
+          points_earned: isCorrect ? 100 : 0,
+          round_number: index + 1,
+          timestamp: new Date()
+        });
+      }
+    }
+  };
+
+  beforeAll(async () => {
+    easy = await createTestPair({ difficulty_level: 3 });
+    hard = await createTestPair({ difficulty_level: 5 });
+    average = await createTestPair({ difficulty_level: 3 });
+    thin = await createTestPair({ difficulty_level: 3 });
+
+    // 36 of 40 spot the easy pair, 4 the hard one, every other player the average one
+    await play(40, [easy, hard, average], (player, pair) =>
+      pair === easy ? player < 36 : pair === hard ? player < 4 : player % 2 === 0
+    );
+    await play(10, [thin], () => true);
+  });
+
+  afterAll(async () => {
+    await db.shutdown();
+  });
+
+  it('estimates difficulty from who got each pair right', async () => {
+    const run = await service.calibrate();
+    expect(run).toMatchObject({ rounds: 130, players: 40, calibrated: 3, skipped: 1, converged: true });
+
+    const [calibratedEasy, calibratedHard, calibratedAverage, calibratedThin] = await Promise.all(
+      [easy, hard, average, thin].map(pair => db.getImagePair(pair.pair_id))
+    );
+    expect(calibratedEasy!.calibration!.difficulty).toBeLessThan(2);
+    expect(calibratedHard!.calibration!.difficulty).toBeGreaterThan(4);
+    expect(calibratedAverage!.calibration!.difficulty).toBeCloseTo(3, 0);
+    expect(calibratedEasy!.calibration!.attempts).toBe(40);
+    expect(calibratedEasy!.calibration!.standard_error).toBeGreaterThan(0);
+    expect(calibratedThin!.calibration).toBeUndefined();
+  });
+
+  it('flags only pairs whose manual level is far off', async () => {
+    const report = await service.getReport();
+
+    expect(report.flagged.map(pair => pair.pair_id)).toEqual([easy.pair_id]);
+    expect(report).toMatchObject({ difficulty_source: 'manual', calibrated_pairs: 3 });
+  });
+
+  it('keeps a dismissed flag cleared across runs until the level changes', async () => {
+    await service.reviewCalibration(easy.pair_id, { action: 'dismiss' });
+    await service.calibrate();
+
+    expect((await service.getReport()).flagged).toEqual([]);
+    expect((await db.getImagePair(easy.pair_id))!.difficulty_level).toBe(3);
+  });
+
+  it('moves the manual level to the calibrated one when accepted', async () => {
+    const accepted = await service.reviewCalibration(hard.pair_id, { action: 'accept' });
+
+    expect(accepted.difficulty_level).toBe(Math.round(accepted.calibration!.difficulty));
+    await expect(service.reviewCalibration(thin.pair_id, { action: 'accept' })).rejects.toThrow('not been calibrated');
+  });
+});
@@ -0,0 +1,258 @@
+import { DatabaseService } from './DatabaseService';
+import {
+  ImagePair,
+  PairCalibration,
+  PairCalibrationRun,
+  PairCalibrationReport,
+  ReviewPairCalibrationData
+} from '../models/ImagePair';
+import { getDifficultySource } from '../utils/pairDifficulty';
+import { UNRANKED_MODES } from '../utils/gameModes';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('PairCalibrationService');
+
+// Pairs need this many rounds before their estimate is stored
+const MIN_ATTEMPTS = 30;
+
+// Logits per difficulty level, with level 3 at an even chance for an average player
+const LOGITS_PER_LEVEL = 1;
+
+// Calibrated and manual levels this far apart get flagged for review
+const FLAG_THRESHOLD = 1.5;
+
+// Standard deviation of the normal prior on player skill and pair difficulty.
+// It keeps estimates finite for perfect or zero scores.
+const PRIOR_SD = 2;
+
+const MAX_ITERATIONS = 100;
+const CONVERGENCE_TOLERANCE = 0.001;
+const MAX_STEP = 1;
+
+const DEFAULT_INTERVAL_HOURS = 24;
+
+interface RoundResponse {
+  player: number;
+  pair: number;
+  correct: boolean;
+}
+
+interface Estimates {
+  skill: Float64Array;
+  difficulty: Float64Array;
+  information: Float64Array; // per pair, for its standard error
+  iterations: number;
+  converged: boolean;
+}
+
+const chanceCorrect = (skill: number, difficulty: number): number => 1 / (1 + Math.exp(difficulty - skill));
+
+// Joint maximum a posteriori fit of the Rasch model
+//   P(correct) = 1 / (1 + e^(difficulty - skill))
+// by alternating Newton steps on players and pairs
+const fitRasch = (responses: RoundResponse[], players: number, pairs: number): Estimates => {
+  const skill = new Float64Array(players);
+  const difficulty = new Float64Array(pairs);
+  const information = new Float64Array(pairs);
+  const priorPrecision = 1 / (PRIOR_SD * PRIOR_SD);
+
+  // One Newton step per parameter; `sign` is +1 for player skill, -1 for pair difficulty
+  const step = (values: Float64Array, indexOf: (response: RoundResponse) => number, sign: number): number => {
+    const gradient = new Float64Array(values.length);
+    const curvature = new Float64Array(values.length);
+    for (const response of responses) {
+      const p = chanceCorrect(skill[response.player], difficulty[response.pair]);
+      const index = indexOf(response);
+      gradient[index] += sign * ((response.correct ? 1 : 0) - p);
+      curvature[index] += p * (1 - p);
+    }
+
+    let largest = 0;
+    for (let index = 0; index < values.length; index++) {
+      const change = (gradient[index] - values[index] * priorPrecision) / (curvature[index] + priorPrecision);
+      const bounded = Math.max(-MAX_STEP, Math.min(MAX_STEP, change));
+      values[index] += bounded;
+      largest = Math.max(largest, Math.abs(bounded));
+      if (sign < 0) information[index] = curvature[index] + priorPrecision;
+    }
+    return largest;
+  };
+
+  for (let iteration = 1; iteration <= MAX_ITERATIONS; iteration++) {
+    const playerChange = step(skill, response => response.player, 1);
+    const pairChange = step(difficulty, response => response.pair, -1);
+    if (Math.max(playerChange, pairChange) < CONVERGENCE_TOLERANCE) {
+      return { skill, difficulty, information, iterations: iteration, converged: true };
+    }
+  }
+  return { skill, difficulty, information, iterations: MAX_ITERATIONS, converged: false };
+};
+
+const toLevel = (logit: number): number => {
+  const level = 3 + logit / LOGITS_PER_LEVEL;
+  return Math.round(Math.max(1, Math.min(5, level)) * 10) / 10;
+};
+
+// Estimates each pair's difficulty from who got it right, allowing for how
+// good those players are, and flags pairs whose manual level looks wrong
+export class PairCalibrationService {
+  private db: DatabaseService;
+
+  constructor() {
+    this.db = DatabaseService.getInstance();
+  }
+
+  public async calibrate(): Promise<PairCalibrationRun> {
+    const [rounds, sessions, pairs] = await Promise.all([
+      this.db.getGameRounds(),
+      this.db.getGameSessions(),
+      this.db.getAllImagePairs()
+    ]);
+    // Practice serves explained pairs first and never rates anyone, so its
+    // rounds would skew the fit
+    const playerBySession = new Map(
+      sessions
+        .filter(session => session.player_id && !UNRANKED_MODES.includes(session.game_mode))
+        .map(session => [session.session_id, session.player_id!])
+    );
+
+    const playerIndex = new Map<string, number>();
+    const pairIndex = new Map<string, number>();
+    const attempts = new Map<string, number>();
+    const responses: RoundResponse[] = [];
+    for (const round of rounds) {
+      // Image set rounds have no pair to calibrate
+      const playerId = playerBySession.get(round.session_id);
+      if (!playerId || !round.pair_id) continue;
+
+      if (!playerIndex.has(playerId)) playerIndex.set(playerId, playerIndex.size);
+      if (!pairIndex.has(round.pair_id)) pairIndex.set(round.pair_id, pairIndex.size);
+      attempts.set(round.pair_id, (attempts.get(round.pair_id) || 0) + 1);
+      responses.push({
+        player: playerIndex.get(playerId)!,
+        pair: pairIndex.get(round.pair_id)!,
+        correct: round.is_correct
+      });
+    }
+
+    const estimates = fitRasch(responses, playerIndex.size, pairIndex.size);
+    const ranAt = new Date();
+    const run: PairCalibrationRun = {
+      rounds: responses.length,
+      players: playerIndex.size,
+      calibrated: 0,
+      skipped: 0,
+      flagged: 0,
+      iterations: estimates.iterations,
+      converged: estimates.converged,
+      ran_at: ranAt
+    };
+
+    for (const pair of pairs) {
+      const index = pairIndex.get(pair.pair_id);
+      if (index === undefined) continue;
+
+      const pairAttempts = attempts.get(pair.pair_id) || 0;
+      if (pairAttempts < MIN_ATTEMPTS) {
+        run.skipped++;
+        continue;
+      }
+
+      const logit = estimates.difficulty[index];
+      const calibration = this.withFlag(pair, {
+        difficulty: toLevel(logit),
+        logit: Math.round(logit * 1000) / 1000,
+        standard_error: Math.round((1 / Math.sqrt(estimates.information[index])) * 1000) / 1000,
+        attempts: pairAttempts,
+        calibrated_at: ranAt,
+        flagged: false,
+        dismissed_level: pair.calibration?.dismissed_level
+      });
+      await this.db.updateImagePair(pair.pair_id, { calibration });
+
+      run.calibrated++;
+      if (calibration.flagged) run.flagged++;
+    }
+
+    if (!estimates.converged) {
+      logger.warn(`Pair calibration stopped after ${estimates.iterations} iterations without converging`);
+    }
+    logger.info(`Calibrated ${run.calibrated} pairs from ${run.rounds} rounds`, {
+      players: run.players,
+      skipped: run.skipped,
+      flagged: run.flagged
+    });
+    return run;
+  }
+
+  public async getReport(): Promise<PairCalibrationReport> {
+    const pairs = await this.db.getAllImagePairs();
+    const calibrated = pairs.filter(pair => pair.calibration);
+    const lastCalibratedAt = calibrated.reduce<Date | null>(
+      (latest, pair) => !latest || pair.calibration!.calibrated_at > latest ? pair.calibration!.calibrated_at : latest,
+      null
+    );
+
+    return {
+      difficulty_source: getDifficultySource(),
+      calibrated_pairs: calibrated.length,
+      uncalibrated_pairs: pairs.length - calibrated.length,
+      last_calibrated_at: lastCalibratedAt,
+      flagged: calibrated
+        .filter(pair => pair.calibration!.flagged)
+        .sort((a, b) => this.getDisagreement(b) - this.getDisagreement(a))
+    };
+  }
+
+  // Accepting moves the manual level to the calibrated one; dismissing keeps
+  // it, and the pair stays unflagged until its calibrated level changes
+  public async reviewCalibration(pairId: string, data: ReviewPairCalibrationData): Promise<ImagePair> {
+    const pair = await this.db.getImagePair(pairId);
+    if (!pair) {
+      throw new Error('Image pair not found');
+    }
+    if (!pair.calibration) {
+      throw new Error('Image pair has not been calibrated yet');
+    }
+
+    const level = Math.round(pair.calibration.difficulty);
+    const updates: Partial<ImagePair> = data.action === 'accept'
+      ? { difficulty_level: level, calibration: { ...pair.calibration, flagged: false } }
+      : { calibration: { ...pair.calibration, flagged: false, dismissed_level: level } };
+
+    const updated = await this.db.updateImagePair(pairId, updates);
+    logger.info(`Calibration of pair ${pairId} ${data.action === 'accept' ? 'accepted' : 'dismissed'}`, { level });
+    return updated!;
+  }
+
+  // Recalibrates now and then every PAIR_CALIBRATION_INTERVAL_HOURS (default
+  // 24); 0 turns it off
+  public startScheduledCalibration(): void {
+    const hours = Number(process.env.PAIR_CALIBRATION_INTERVAL_HOURS ?? DEFAULT_INTERVAL_HOURS);
+    if (!(hours > 0)) {
+      logger.info('Scheduled pair calibration disabled');
+      return;
+    }
+
+    const run = async () => {
+      try {
+        await this.calibrate();
+      } catch (error) {
+        logger.error('Scheduled pair calibration failed', error);
+      }
+    };
+
+    run();
+    setInterval(run, hours * 60 * 60 * 1000).unref();
+  }
+
+  private withFlag(pair: ImagePair, calibration: PairCalibration): PairCalibration {
+    const level = Math.round(calibration.difficulty);
+    const disagrees = Math.abs(calibration.difficulty - pair.difficulty_level) >= FLAG_THRESHOLD;
+    return { ...calibration, flagged: disagrees && calibration.dismissed_level !== level };
+  }
+
+  private getDisagreement(pair: ImagePair): number {
+    return Math.abs(pair.calibration!.difficulty - pair.difficulty_level);
+  }
+}
@@ -0,0 +1,89 @@
+import jwt from 'jsonwebtoken';
+import { DatabaseService } from './DatabaseService';
+import { PlayerService } from './PlayerService';
+import { GameService } from './GameService';
+
+// Uploads are never processed here
+jest.mock('sharp', () => jest.fn());
+
+describe('PlayerService', () => {
+  const db = DatabaseService.getInstance();
+  const service = new PlayerService();
+
+  afterAll(async () => {
+    await db.shutdown();
+  });
+
+  it('registers a player and logs them in with the same password', async () => {
+    const registered = await service.register({ username: 'Alice', password: 'password123' });
+    expect(registered.player).toMatchObject({ username: 'alice', display_name: 'Alice' });
+    expect(registered.player).not.toHaveProperty('password_hash');
+
+    const loggedIn = await service.login({ username: 'ALICE', password: 'password123' });
+    expect(loggedIn.player.player_id).toBe(registered.player.player_id);
+    await expect(service.login({ username: 'alice', password: 'wrong-password' })).rejects.toThrow('Invalid username or password');
+  });
+
+  it('rejects a username already taken, whatever its case', async () => {
+    await service.register({ username: 'bob', password: 'password123' });
+    await expect(service.register({ username: 'BOB', password: 'password123' })).rejects.toThrow('Username is already taken');
+  });
+
+  it('lets only one of two concurrent registrations claim a username', async () => {
+    const { totalPlayers } = await db.getStats();
+    const results = await Promise.allSettled([
+      service.register({ username: 'Carol', password: 'password123' }),
+      service.register({ username: 'carol', password: 'password456' })
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect((await db.getStats()).totalPlayers).toBe(totalPlayers + 1);
+  });
+
+  it('authenticates its own tokens only', async () => {
+    const { token, player } = await service.register({ username: 'dave', password: 'password123' });
+
+    expect(await service.authenticate(token)).toEqual(player);
+    expect(await service.authenticate('not-a-token')).toBeNull();
+    expect(await service.authenticate(jwt.sign({ sub: player.player_id }, 'another-secret'))).toBeNull();
+  });
+
+  describe('upgradeGuest', () => {
+    const gameService = new GameService();
+
+    it('turns a guest into a named account, keeping its id and sessions', async () => {
+      const { player: guest } = await service.createGuest();
+      const session = await gameService.startGameSession({ game_mode: 'streak' }, guest.player_id);
+
+      const upgraded = await service.upgradeGuest(guest.player_id, { username: 'Erin', password: 'password123', existing_account: false });
+      expect(upgraded.player).toMatchObject({ player_id: guest.player_id, username: 'erin', display_name: 'Erin', is_guest: false });
+      expect((await db.getGameSession(session.session_id))!.player_id).toBe(guest.player_id);
+      expect((await service.login({ username: 'erin', password: 'password123' })).player.player_id).toBe(guest.player_id);
+      await expect(service.upgradeGuest(guest.player_id, { username: 'erin2', password: 'password123', existing_account: false }))
+        .rejects.toThrow('Only guest players can be upgraded');
+    });
+
+    it('merges a guest into an existing account and removes the guest', async () => {
+      const { player: account } = await service.register({ username: 'frank', password: 'password123' });
+      const { player: guest } = await service.createGuest();
+      const session = await gameService.startGameSession({ game_mode: 'streak' }, guest.player_id);
+
+      await expect(service.upgradeGuest(guest.player_id, { username: 'frank', password: 'wrong-password', existing_account: true }))
+        .rejects.toThrow('Invalid username or password');
+
+      const merged = await service.upgradeGuest(guest.player_id, { username: 'frank', password: 'password123', existing_account: true });
+      expect(merged.player.player_id).toBe(account.player_id);
+      expect((await db.getGameSession(session.session_id))!.player_id).toBe(account.player_id);
+      expect(await db.getPlayer(guest.player_id)).toBeNull();
+    });
+
+    it('will not upgrade a guest to a username that is taken', async () => {
+      await service.register({ username: 'grace', password: 'password123' });
+      const { player: guest } = await service.createGuest();
+
+      await expect(service.upgradeGuest(guest.player_id, { username: 'Grace', password: 'password123', existing_account: false }))
+        .rejects.toThrow('Username is already taken');
+      expect(await db.getPlayer(guest.player_id)).toMatchObject({ is_guest: true });
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from './DatabaseService';
+import { LeaderboardIndex } from './LeaderboardIndex';
+import { DailyStreakService } from './DailyStreakService';
+import {
+  Player,
+  PublicPlayer,
+  RegisterPlayerData,
+  LoginPlayerData,
+  UpgradePlayerData,
+  UpdatePlayerSettingsData,
+  AuthResult,
+  GUEST_USERNAME_PREFIX
+} from '../models/Player';
+import { hashPassword, verifyPassword, getJwtSecret } from '../utils/passwords';
+import { createKeyedLock } from '../utils/keyedLock';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('PlayerService');
+
+// Claims of a username are serialized so the taken check and the write that
+// follows it (after a slow password hash) can't race another claim. Shared
+// by every PlayerService instance.
+const withUsernameLock = createKeyedLock();
+
+interface PlayerTokenPayload {
+  sub: string;
+  username: string;
+  aud?: string; // only admin session tokens carry an audience
+}
+
+export class PlayerService {
+  private db: DatabaseService;
+  private leaderboardIndex: LeaderboardIndex;
+  private dailyStreakService: DailyStreakService;
+
+  constructor() {
+    this.db = DatabaseService.getInstance();
+    this.leaderboardIndex = LeaderboardIndex.getInstance();
+    this.dailyStreakService = new DailyStreakService();
+  }
+
+  public async register(data: RegisterPlayerData): Promise<AuthResult> {
+    const username = data.username.toLowerCase();
+    await this.ensureUsernameFree(username);
+    const passwordHash = await hashPassword(data.password);
+
+    return await withUsernameLock(username, async () => {
+      await this.ensureUsernameFree(username);
+
+      const now = new Date();
+      const player: Player = {
+        player_id: uuidv4(),
+        username,
+        display_name: data.username,
+        password_hash: passwordHash,
+        created_at: now,
+        updated_at: now,
+        last_login: now
+      };
+
+      await this.claimUsername(() => this.db.createPlayer(player));
+      logger.info(`Player registered: ${player.username} (${player.player_id})`);
+
+      return this.issueToken(player);
+    });
+  }
+
+  public async login(data: LoginPlayerData): Promise<AuthResult> {
+    const player = await this.verifyCredentials(data);
+
+    const updated = await this.db.updatePlayer(player.player_id, { last_login: new Date() });
+    return this.issueToken(updated || player);
+  }
+
+  // Anonymous identity so players can start without registering. Its token
+  // is long-lived because it is the only way back to the guest's history.
+  public async createGuest(): Promise<AuthResult> {
+    const playerId = uuidv4();
+    const now = new Date();
+    const guest: Player = {
+      player_id: playerId,
+      username: `${GUEST_USERNAME_PREFIX}${playerId.slice(0, 8)}`,
+      display_name: `Guest ${playerId.slice(0, 4).toUpperCase()}`,
+      password_hash: '',
+      is_guest: true,
+      created_at: now,
+      updated_at: now,
+      last_login: now
+    };
+
+    await this.db.createPlayer(guest);
+    logger.info(`Guest player created: ${guest.player_id}`);
+
+    return this.issueToken(guest);
+  }
+
+  // Converts a guest into a named account in place (same player_id, so its
+  // sessions are kept), or merges it into an existing account by moving the
+  // guest's sessions over and removing the guest
+  public async upgradeGuest(guestId: string, data: UpgradePlayerData): Promise<AuthResult> {
+    const guest = await this.db.getPlayer(guestId);
+    if (!guest || !guest.is_guest) {
+      throw new Error('Only guest players can be upgraded');
+    }
+
+    if (data.existing_account) {
+      const account = await this.verifyCredentials(data);
+      const moved = await this.db.reassignGameSessions(guest.player_id, account.player_id);
+      await this.db.deletePlayer(guest.player_id);
+      this.leaderboardIndex.mergePlayers(guest.player_id, account.player_id);
+      if (moved > 0) {
+        await this.dailyStreakService.rebuild(account.player_id);
+      }
+      logger.info(`Guest ${guest.player_id} merged into ${account.username} (${moved} sessions)`);
+
+      // Ratings can't be replayed per player, so an unrated account takes the guest's
+      const updated = await this.db.updatePlayer(account.player_id, {
+        last_login: new Date(),
+        ...(!account.skill_rating && guest.skill_rating && { skill_rating: guest.skill_rating })
+      });
+      return this.issueToken(updated || account);
+    }
+
+    const username = data.username.toLowerCase();
+    await this.ensureUsernameFree(username);
+    const passwordHash = await hashPassword(data.password);
+
+    return await withUsernameLock(username, async () => {
+      await this.ensureUsernameFree(username);
+
+      const upgraded = await this.claimUsername(() => this.db.updatePlayer(guest.player_id, {
+        username,
+        display_name: data.username,
+        password_hash: passwordHash,
+        is_guest: false,
+        updated_at: new Date()
+      }));
+      if (!upgraded) {
+        throw new Error('Failed to upgrade guest player');
+      }
+
+      logger.info(`Guest ${guest.player_id} upgraded to ${upgraded.username}`);
+      return this.issueToken(upgraded);
+    });
+  }
+
+  // Resolves a bearer token to its player; null when invalid, expired or deleted
+  public async authenticate(token: string): Promise<PublicPlayer | null> {
+    let payload: PlayerTokenPayload;
+    try {
+      payload = jwt.verify(token, getJwtSecret()) as PlayerTokenPayload;
+    } catch {
+      return null;
+    }
+    if (payload.aud) return null;
+
+    const player = await this.db.getPlayer(payload.sub);
+    return player ? this.toPublicPlayer(player) : null;
+  }
+
+  public async getPlayer(playerId: string): Promise<PublicPlayer | null> {
+    const player = await this.db.getPlayer(playerId);
+    return player ? this.toPublicPlayer(player) : null;
+  }
+
+  public async updateSettings(playerId: string, data: UpdatePlayerSettingsData): Promise<PublicPlayer> {
+    const updated = await this.db.updatePlayer(playerId, { ...data, updated_at: new Date() });
+    if (!updated) {
+      throw new Error('Player not found');
+    }
+    return this.toPublicPlayer(updated);
+  }
+
+  public toPublicPlayer(player: Player): PublicPlayer {
+    const { password_hash, ...publicPlayer } = player;
+    return publicPlayer;
+  }
+
+  private async verifyCredentials(data: LoginPlayerData): Promise<Player> {
+    const player = await this.db.getPlayerByUsername(data.username.toLowerCase());
+
+    // Same message for unknown users and wrong passwords; guests have no password
+    if (!player || player.is_guest || !(await verifyPassword(data.password, player.password_hash))) {
+      throw new Error('Invalid username or password');
+    }
+    return player;
+  }
+
+  private async ensureUsernameFree(username: string): Promise<void> {
+    if (await this.db.getPlayerByUsername(username)) {
+      throw new Error('Username is already taken');
+    }
+  }
+
+  // Runs a write that claims a username. The store's unique constraint
+  // catches a claim made by another process since the check above.
+  private async claimUsername<T>(write: () => Promise<T>): Promise<T> {
+    try {
+      return await write();
+    } catch (error: any) {
+      if (error.message?.startsWith('Duplicate username')) {
+        throw new Error('Username is already taken');
+      }
+      throw error;
+    }
+  }
+
+  private issueToken(player: Player): AuthResult {
+    const expiresIn = player.is_guest
+      ? process.env.GUEST_TOKEN_EXPIRES_IN || '365d'
+      : process.env.JWT_EXPIRES_IN || '7d';
+    const payload: PlayerTokenPayload = { sub: player.player_id, username: player.username };
+    const token = jwt.sign(payload, getJwtSecret(), { expiresIn } as jwt.SignOptions);
+
+    return {
+      token,
+      expires_in: expiresIn,
+      player: this.toPublicPlayer(player)
+    };
+  }
+}
@@ -0,0 +1,89 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from './DatabaseService';
+import { PlayerService } from './PlayerService';
+import { ShareService } from './ShareService';
+import { createTestSession } from '../testing/fixtures';
+
+// Cards are never rendered here
+jest.mock('sharp', () => jest.fn());
+
+describe('ShareService', () => {
+  const db = DatabaseService.getInstance();
+  const service = new ShareService();
+  let playerId: string;
+
+  // A daily with a correct, a wrong and a timed out round
+  const playDaily = async (overrides = {}) => {
+    const session = await createTestSession(
+      { player_id: playerId, game_mode: 'daily', daily_challenge_date: '2026-03-10', total_score: 250, ...overrides },
+      [true, false]
+    );
+    await db.createGameRound({
+      round_id: uuidv4(),
+      session_id: session.session_id,
+      pair_id: uuidv4(),
+      player_choice: 'real',
+      correct_answer: 'ai',
+      is_correct: false,
+      response_time: 10000,
+      timed_out: true,
+      points_earned: 0,
+      round_number: 3,
+      timestamp: new Date()
+    });
+    return session;
+  };
+
+  beforeAll(async () => {
+    playerId = (await new PlayerService().register({ username: 'Sharer', password: 'password123' })).player.player_id;
+  });
+
+  afterAll(async () => {
+    await db.shutdown();
+  });
+
+  it('summarizes a daily without revealing its images', async () => {
+    const session = await playDaily();
+    const share = await service.createShare(session.session_id, playerId);
+
+    expect(share).toMatchObject({
+      puzzle_number: 191,
+      date: '2026-03-10',
+      display_name: 'Sharer',
+      results: ['correct', 'wrong', 'timeout'],
+      correct_answers: 1,
+      total_rounds: 3,
+      average_response_time: 3000,
+      total_score: 250,
+      daily_streak: 0,
+      path: `/share/${share.share_id}`,
+      image_path: `/api/share/${share.share_id}/card.png`
+    });
+    expect(share.text).toBe('Bot or Not #191 ✅❌⌛ 3.0s avg');
+
+    const rounds = await db.getGameRoundsBySession(session.session_id);
+    const published = JSON.stringify(await service.getShare(share.share_id));
+    for (const round of rounds) {
+      expect(published).not.toContain(round.pair_id);
+    }
+    expect(published).not.toContain(session.session_id);
+  });
+
+  it('returns the existing share when a game is shared again', async () => {
+    const session = await playDaily();
+    const first = await service.createShare(session.session_id, playerId);
+
+    expect((await service.createShare(session.session_id, playerId)).share_id).toBe(first.share_id);
+  });
+
+  it('shares only the player\'s own completed dailies', async () => {
+    const session = await playDaily();
+    const streak = await createTestSession({ player_id: playerId, game_mode: 'streak' });
+    const unfinished = await playDaily({ is_completed: false });
+
+    await expect(service.createShare(session.session_id, 'someone-else')).rejects.toThrow('Game session not found');
+    await expect(service.createShare(streak.session_id, playerId)).rejects.toThrow('Only completed daily games can be shared');
+    await expect(service.createShare(unfinished.session_id, playerId)).rejects.toThrow('Only completed daily games can be shared');
+    await expect(service.getShare('missing')).rejects.toThrow('Shared result not found');
+  });
+});
@@ -0,0 +1,192 @@
+import sharp from 'sharp';
+import { randomBytes } from 'crypto';
+import { DatabaseService } from './DatabaseService';
+import { DailyStreakService } from './DailyStreakService';
+import { GameRound } from '../models/GameSession';
+import { SharedResult, ShareSummary, ShareResult, ShareRoundResult } from '../models/Share';
+import { DAILY_PUZZLE_EPOCH } from '../utils/gameModes';
+import { daysBetween } from '../utils/dailyClock';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('ShareService');
+
+const CARD_WIDTH = 1200;
+const CARD_HEIGHT = 630;
+const TILE_SIZE = 150;
+const TILE_GAP = 40;
+
+const RESULT_EMOJI: Record<ShareRoundResult, string> = {
+  correct: '✅',
+  wrong: '❌',
+  timeout: '⌛'
+};
+
+const TILE_COLORS: Record<ShareRoundResult, string> = {
+  correct: '#28a745',
+  wrong: '#dc3545',
+  timeout: '#6c757d'
+};
+
+const escapeXml = (value: string): string =>
+  value.replace(/[<>&'"]/g, char => `&#${char.charCodeAt(0)};`);
+
+const formatSeconds = (ms: number): string => `${(ms / 1000).toFixed(1)}s`;
+
+// The mark inside a result tile, drawn as shapes so the card doesn't depend
+// on an emoji font being installed on the server
+const tileGlyph = (result: ShareRoundResult, x: number, y: number): string => {
+  const cx = x + TILE_SIZE / 2;
+  const cy = y + TILE_SIZE / 2;
+  const stroke = 'stroke="white" stroke-width="14" stroke-linecap="round" stroke-linejoin="round" fill="none"';
+
+  switch (result) {
+    case 'correct':
+      return `<path d="M ${cx - 38} ${cy + 2} L ${cx - 10} ${cy + 30} L ${cx + 40} ${cy - 28}" ${stroke}/>`;
+    case 'wrong':
+      return `<path d="M ${cx - 32} ${cy - 32} L ${cx + 32} ${cy + 32} M ${cx + 32} ${cy - 32} L ${cx - 32} ${cy + 32}" ${stroke}/>`;
+    case 'timeout':
+      return `<circle cx="${cx}" cy="${cy}" r="40" ${stroke}/>` +
+        `<path d="M ${cx} ${cy - 22} L ${cx} ${cy} L ${cx + 18} ${cy + 12}" ${stroke}/>`;
+  }
+};
+
+// Shared, spoiler-free results of completed daily games: a share text, a PNG
+// card and the summary behind the public results page
+export class ShareService {
+  private db: DatabaseService;
+  private dailyStreakService: DailyStreakService;
+
+  constructor() {
+    this.db = DatabaseService.getInstance();
+    this.dailyStreakService = new DailyStreakService();
+  }
+
+  // Sharing the same game twice returns the existing share
+  public async createShare(sessionId: string, playerId: string): Promise<ShareResult> {
+    const session = await this.db.getGameSession(sessionId);
+    if (!session || session.player_id !== playerId) {
+      throw new Error('Game session not found');
+    }
+    if (session.game_mode !== 'daily' || !session.is_completed) {
+      throw new Error('Only completed daily games can be shared');
+    }
+
+    let shared = await this.db.getSharedResultBySession(sessionId);
+    if (!shared) {
+      const player = await this.db.getPlayer(playerId);
+      shared = await this.db.createSharedResult({
+        share_id: randomBytes(9).toString('base64url'),
+        session_id: sessionId,
+        player_id: playerId,
+        daily_streak: this.dailyStreakService.getCurrentStreak(player),
+        created_at: new Date()
+      });
+      logger.info(`Shared daily result ${shared.share_id}`, { session_id: sessionId, player_id: playerId });
+    }
+
+    const summary = await this.buildSummary(shared);
+    return {
+      ...summary,
+      text: this.buildText(summary),
+      path: `/share/${summary.share_id}`,
+      image_path: `/api/share/${summary.share_id}/card.png`
+    };
+  }
+
+  public async getShare(shareId: string): Promise<ShareSummary> {
+    const shared = await this.db.getSharedResult(shareId);
+    if (!shared) {
+      throw new Error('Shared result not found');
+    }
+    return await this.buildSummary(shared);
+  }
+
+  public async renderCard(shareId: string): Promise<Buffer> {
+    const summary = await this.getShare(shareId);
+    return await sharp(Buffer.from(this.buildCardSvg(summary))).png().toBuffer();
+  }
+
+  private async buildSummary(shared: SharedResult): Promise<ShareSummary> {
+    const [session, rounds, player] = await Promise.all([
+      this.db.getGameSession(shared.session_id),
+      this.db.getGameRoundsBySession(shared.session_id),
+      this.db.getPlayer(shared.player_id)
+    ]);
+    if (!session || !session.daily_challenge_date) {
+      throw new Error('Shared result not found');
+    }
+
+    const ordered = [...rounds].sort((a, b) => a.round_number - b.round_number);
+    const answered = ordered.filter(round => !round.timed_out);
+    const totalResponseTime = answered.reduce((total, round) => total + round.response_time, 0);
+
+    return {
+      share_id: shared.share_id,
+      puzzle_number: daysBetween(DAILY_PUZZLE_EPOCH, session.daily_challenge_date) + 1,
+      date: session.daily_challenge_date,
+      display_name: player?.display_name || 'A player',
+      results: ordered.map(round => this.getRoundResult(round)),
+      correct_answers: ordered.filter(round => round.is_correct).length,
+      total_rounds: ordered.length,
+      average_response_time: answered.length > 0 ? Math.round(totalResponseTime / answered.length) : 0,
+      total_score: session.total_score,
+      daily_streak: shared.daily_streak
+    };
+  }
+
+  private getRoundResult(round: GameRound): ShareRoundResult {
+    if (round.timed_out) return 'timeout';
+    return round.is_correct ? 'correct' : 'wrong';
+  }
+
+  // e.g. "Bot or Not #123 ✅❌✅ 2.4s avg"
+  private buildText(summary: ShareSummary): string {
+    const marks = summary.results.map(result => RESULT_EMOJI[result]).join('');
+    const average = summary.average_response_time > 0 ? ` ${formatSeconds(summary.average_response_time)} avg` : '';
+    return `Bot or Not #${summary.puzzle_number} ${marks}${average}`;
+  }
+
+  private buildCardSvg(summary: ShareSummary): string {
+    const rowWidth = summary.results.length * TILE_SIZE + Math.max(0, summary.results.length - 1) * TILE_GAP;
+    const rowX = (CARD_WIDTH - rowWidth) / 2;
+    const tileY = 250;
+    const tiles = summary.results.map((result, index) => {
+      const x = rowX + index * (TILE_SIZE + TILE_GAP);
+      return `<rect x="${x}" y="${tileY}" width="${TILE_SIZE}" height="${TILE_SIZE}" rx="24" fill="${TILE_COLORS[result]}"/>` +
+        tileGlyph(result, x, tileY);
+    }).join('');
+
+    const date = new Date(`${summary.date}T00:00:00Z`).toLocaleDateString('en-US', {
+      timeZone: 'UTC',
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+      year: 'numeric'
+    });
+    const stats = [
+      `${summary.correct_answers}/${summary.total_rounds} correct`,
+      ...(summary.average_response_time > 0 ? [`${formatSeconds(summary.average_response_time)} avg`] : []),
+      `${summary.total_score.toLocaleString('en-US')} pts`
+    ].join('  ·  ');
+    const footer = summary.daily_streak > 1
+      ? `${summary.display_name}  ·  ${summary.daily_streak}-day streak`
+      : summary.display_name;
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${CARD_WIDTH}" height="${CARD_HEIGHT}" viewBox="0 0 ${CARD_WIDTH} ${CARD_HEIGHT}">
+  <defs>
+    <linearGradient id="background" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0%" stop-color="#667eea"/>
+      <stop offset="100%" stop-color="#764ba2"/>
+    </linearGradient>
+  </defs>
+  <rect width="${CARD_WIDTH}" height="${CARD_HEIGHT}" fill="url(#background)"/>
+  <g font-family="Helvetica, Arial, sans-serif" fill="white" text-anchor="middle">
+    <text x="${CARD_WIDTH / 2}" y="140" font-size="76" font-weight="bold">Bot or Not #${summary.puzzle_number}</text>
+    <text x="${CARD_WIDTH / 2}" y="200" font-size="32" opacity="0.85">${escapeXml(date)}</text>
+    ${tiles}
+    <text x="${CARD_WIDTH / 2}" y="480" font-size="40" font-weight="bold">${escapeXml(stats)}</text>
+    <text x="${CARD_WIDTH / 2}" y="560" font-size="30" opacity="0.85">${escapeXml(footer)}</text>
+  </g>
+</svg>`;
+  }
+}
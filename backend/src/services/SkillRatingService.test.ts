@@ -0,0 +1,88 @@
+import { DatabaseService } from './DatabaseService';
+import { ImagePairService } from './ImagePairService';
+import { PlayerService } from './PlayerService';
+import {
+  INITIAL_RATING,
+  SkillRatingService,
+  getPairSkill,
+  getTargetWinProbability,
+  getWinProbability
+} from './SkillRatingService';
+import { createTestPair } from '../testing/fixtures';
+
+// Uploads are never processed here
+jest.mock('sharp', () => jest.fn());
+
+describe('SkillRatingService', () => {
+  const db = DatabaseService.getInstance();
+  const service = new SkillRatingService();
+  let playerCount = 0;
+
+  const registerPlayer = async () => {
+    const auth = await new PlayerService().register({ username: `rated${++playerCount}`, password: 'password123' });
+    return auth.player.player_id;
+  };
+
+  afterEach(() => {
+    delete process.env.SKILL_TARGET_WIN_PROBABILITY;
+  });
+
+  afterAll(async () => {
+    await db.shutdown();
+  });
+
+  it('puts player skill and pair difficulty on one Elo scale', async () => {
+    expect(getWinProbability(1500, 1500)).toBe(0.5);
+    expect(getWinProbability(1900, 1500)).toBeCloseTo(10 / 11);
+    expect(getPairSkill(await createTestPair({ difficulty_level: 5 }))).toEqual({ rating: 1800, games: 0 });
+  });
+
+  it('moves player and pair ratings apart by the surprise of the round', async () => {
+    const playerId = await registerPlayer();
+    const pair = await createTestPair();
+
+    await service.recordRound(playerId, pair, true);
+    expect((await db.getPlayer(playerId))!.skill_rating).toEqual({ rating: INITIAL_RATING + 32, games: 1 });
+    expect((await db.getImagePair(pair.pair_id))!.skill_rating).toEqual({ rating: INITIAL_RATING - 32, games: 1 });
+  });
+
+  it('leaves ratings alone for a round without a player', async () => {
+    const pair = await createTestPair();
+
+    await service.recordRound(undefined, pair, true);
+    expect((await db.getImagePair(pair.pair_id))!.skill_rating).toBeUndefined();
+  });
+
+  it('keeps every update when rounds of one player finish at once', async () => {
+    const playerId = await registerPlayer();
+    const [first, second] = [await createTestPair(), await createTestPair()];
+
+    await Promise.all([service.recordRound(playerId, first, false), service.recordRound(playerId, second, false)]);
+    expect((await db.getPlayer(playerId))!.skill_rating!.games).toBe(2);
+  });
+
+  it('aims pair selection at the rating the player beats with the target probability', async () => {
+    const playerId = await registerPlayer();
+    expect(await service.getTargetPairRating(playerId)).toBeCloseTo(INITIAL_RATING + 400 * Math.log10(3 / 7));
+
+    process.env.SKILL_TARGET_WIN_PROBABILITY = '0.5';
+    expect(await service.getTargetPairRating(playerId)).toBe(INITIAL_RATING);
+
+    process.env.SKILL_TARGET_WIN_PROBABILITY = '1';
+    expect(getTargetWinProbability()).toBe(0.7);
+  });
+
+  it('selects one of the five pairs rated closest to the target', async () => {
+    const pairService = new ImagePairService();
+    const pairs = [];
+    for (const rating of [900, 1000, 1400, 1450, 1500, 1550, 1600, 2200]) {
+      pairs.push(await createTestPair({ category: 'elo', skill_rating: { rating, games: 10 } }));
+    }
+    const closest = pairs.slice(2, 7).map(pair => pair.pair_id);
+
+    for (let i = 0; i < 20; i++) {
+      const selected = await pairService.selectPairForGame({ category: 'elo', targetRating: 1500 });
+      expect(closest).toContain(selected!.pair_id);
+    }
+  });
+});
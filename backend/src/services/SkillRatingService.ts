@@ -0,0 +1,110 @@
+import { DatabaseService } from './DatabaseService';
+import { Player } from '../models/Player';
+import { ImagePair } from '../models/ImagePair';
+import { SkillRating } from '../models/SkillRating';
+import { getPairDifficulty } from '../utils/pairDifficulty';
+import { createKeyedLock } from '../utils/keyedLock';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('SkillRatingService');
+
+// A rating update reads both ratings and writes both back; concurrent rounds
+// on the same player or pair take turns so neither update is lost. The player
+// key is always taken before the pair key.
+const withRatingLock = createKeyedLock();
+
+export const INITIAL_RATING = 1500;
+
+// Unplayed pairs are seeded from their difficulty level (calibrated when
+// enabled): 3 is average
+const DIFFICULTY_RATING_STEP = 150;
+
+// K-factor: 64 for a new rating, settling towards 16 over its first few dozen games
+const MAX_K = 64;
+const MIN_K = 16;
+const K_DECAY_GAMES = 10;
+
+const DEFAULT_TARGET_WIN_PROBABILITY = 0.7;
+
+// Chance the player spots the AI image in the pair
+export const getWinProbability = (playerRating: number, pairRating: number): number => {
+  return 1 / (1 + Math.pow(10, (pairRating - playerRating) / 400));
+};
+
+export const getPlayerSkill = (player: Player | null): SkillRating => {
+  return player?.skill_rating || { rating: INITIAL_RATING, games: 0 };
+};
+
+export const getPairSkill = (pair: ImagePair): SkillRating => {
+  return pair.skill_rating || {
+    rating: INITIAL_RATING + (getPairDifficulty(pair) - 3) * DIFFICULTY_RATING_STEP,
+    games: 0
+  };
+};
+
+// How often adaptive pair selection aims to let the player win a round
+export const getTargetWinProbability = (): number => {
+  const value = process.env.SKILL_TARGET_WIN_PROBABILITY;
+  if (!value) return DEFAULT_TARGET_WIN_PROBABILITY;
+
+  const probability = Number(value);
+  if (probability >= 0.05 && probability <= 0.95) return probability;
+
+  logger.warn(`Ignoring invalid SKILL_TARGET_WIN_PROBABILITY "${value}"; using ${DEFAULT_TARGET_WIN_PROBABILITY}`);
+  return DEFAULT_TARGET_WIN_PROBABILITY;
+};
+
+const getKFactor = (games: number): number => {
+  return MIN_K + (MAX_K - MIN_K) * Math.exp(-games / K_DECAY_GAMES);
+};
+
+// Each round is a game between player and pair: the player wins by picking
+// the AI image, the pair wins otherwise (including timeouts)
+const rateRound = (player: SkillRating, pair: SkillRating, isCorrect: boolean): { player: SkillRating; pair: SkillRating } => {
+  const surprise = (isCorrect ? 1 : 0) - getWinProbability(player.rating, pair.rating);
+  return {
+    player: { rating: player.rating + getKFactor(player.games) * surprise, games: player.games + 1 },
+    pair: { rating: pair.rating - getKFactor(pair.games) * surprise, games: pair.games + 1 }
+  };
+};
+
+// Keeps player skill and pair difficulty on one Elo scale, so pairs can be
+// picked that a player should get right with a chosen probability
+export class SkillRatingService {
+  private db: DatabaseService;
+
+  constructor() {
+    this.db = DatabaseService.getInstance();
+  }
+
+  public async recordRound(playerId: string | undefined, pair: ImagePair, isCorrect: boolean): Promise<void> {
+    if (!playerId) return;
+
+    try {
+      await withRatingLock(`player:${playerId}`, () =>
+        withRatingLock(`pair:${pair.pair_id}`, async () => {
+          const [player, current] = await Promise.all([
+            this.db.getPlayer(playerId),
+            this.db.getImagePair(pair.pair_id)
+          ]);
+          if (!player || !current) return;
+
+          const rated = rateRound(getPlayerSkill(player), getPairSkill(current), isCorrect);
+          await Promise.all([
+            this.db.updatePlayer(playerId, { skill_rating: rated.player }),
+            this.db.updateImagePair(pair.pair_id, { skill_rating: rated.pair })
+          ]);
+        })
+      );
+    } catch (error) {
+      logger.error('Error updating skill ratings', error);
+    }
+  }
+
+  // The pair rating at which the player wins with the target probability
+  public async getTargetPairRating(playerId: string | undefined): Promise<number> {
+    const player = playerId ? await this.db.getPlayer(playerId) : null;
+    const probability = getTargetWinProbability();
+    return getPlayerSkill(player).rating + 400 * Math.log10(1 / probability - 1);
+  }
+}
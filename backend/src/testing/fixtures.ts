@@ -0,0 +1,95 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from '../services/DatabaseService';
+import { Image } from '../models/Image';
+import { ImagePair } from '../models/ImagePair';
+import { GameSession } from '../models/GameSession';
+
+// Test data helpers. Everything is written through the database service
+// into the scratch directory jest.setup.js gives each test file.
+
+// The leading bytes of a JPEG, enough for content type detection
+const JPEG_BYTES = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01]);
+
+export const createTestImage = async (overrides: Partial<Image> = {}): Promise<Image> => {
+  const id = overrides.id ?? uuidv4();
+  const image: Image = {
+    id,
+    filename: `${id}.jpg`,
+    storedFilename: `${id}.jpg`,
+    category: 'portrait',
+    difficulty_level: 3,
+    is_ai_generated: false,
+    source_info: 'test',
+    upload_date: new Date(),
+    quality_score: 7,
+    usage_count: 0,
+    file_size: JPEG_BYTES.length,
+    dimensions: { width: 1, height: 1 },
+    tags: [],
+    ...overrides
+  };
+
+  const uploadsPath = path.join(process.cwd(), 'uploads', 'images');
+  fs.mkdirSync(uploadsPath, { recursive: true });
+  fs.writeFileSync(path.join(uploadsPath, image.storedFilename), JPEG_BYTES);
+  return DatabaseService.getInstance().createImage(image);
+};
+
+export const createTestPair = async (overrides: Partial<ImagePair> = {}): Promise<ImagePair> => {
+  const aiImage = await createTestImage({ is_ai_generated: true });
+  const realImage = await createTestImage();
+  return DatabaseService.getInstance().createImagePair({
+    pair_id: uuidv4(),
+    ai_image_id: aiImage.id,
+    real_image_id: realImage.id,
+    category: 'portrait',
+    difficulty_level: 3,
+    creation_date: new Date(),
+    success_rate: 0,
+    total_attempts: 0,
+    correct_guesses: 0,
+    average_response_time: 0,
+    is_active: true,
+    ...overrides
+  });
+};
+
+// A finished session with one graded round per answer (true for correct)
+export const createTestSession = async (
+  overrides: Partial<GameSession> = {},
+  answers: boolean[] = []
+): Promise<GameSession> => {
+  const db = DatabaseService.getInstance();
+  const endTime = overrides.end_time ?? new Date();
+  const session = await db.createGameSession({
+    session_id: uuidv4(),
+    player_id: `player-${uuidv4()}`,
+    game_mode: 'streak',
+    start_time: new Date(endTime.getTime() - 60 * 1000),
+    end_time: endTime,
+    total_score: 0,
+    rounds_completed: answers.length,
+    current_streak: 0,
+    is_completed: true,
+    daily_challenge_date: overrides.game_mode === 'daily' ? endTime.toISOString().slice(0, 10) : undefined,
+    ...overrides
+  });
+
+  for (const [index, isCorrect] of answers.entries()) {
+    await db.createGameRound({
+      round_id: uuidv4(),
+      session_id: session.session_id,
+      pair_id: uuidv4(),
+      player_choice: isCorrect ? 'ai' : 'real',
+      correct_answer: 'ai',
+      is_correct: isCorrect,
+      response_time: 3000,
+      points_earned: isCorrect ? 100 : 0,
+      round_number: index + 1,
+      timestamp: endTime
+    });
+  }
+  return session;
+};
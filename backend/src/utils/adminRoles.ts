@@ -0,0 +1,44 @@
+import { AdminPermission, AdminRole } from '../models/AdminUser';
+
+// Each role includes everything granted to the roles before it
+const VIEWER: AdminPermission[] = [
+  'dashboard:read',
+  'logs:read',
+  'settings:read',
+  'challenges:read'
+];
+
+const CURATOR: AdminPermission[] = [
+  ...VIEWER,
+  'images:write',
+  'pairs:write',
+  'challenges:write'
+];
+
+const OPERATOR: AdminPermission[] = [
+  ...CURATOR,
+  'settings:write',
+  'data:export',
+  'data:import',
+  'system:backup',
+  'system:maintenance'
+];
+
+const OWNER: AdminPermission[] = [
+  ...OPERATOR,
+  'admins:manage'
+];
+
+export const ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  viewer: VIEWER,
+  curator: CURATOR,
+  operator: OPERATOR,
+  owner: OWNER
+};
+
+// Permissions whose routes also require an X-Confirm-Operation: true header
+export const CONFIRMED_PERMISSIONS: AdminPermission[] = ['data:import', 'system:maintenance'];
+
+export const getRolePermissions = (role: AdminRole): AdminPermission[] => {
+  return ROLE_PERMISSIONS[role];
+};
@@ -0,0 +1,78 @@
+import { GameRound, MIN_CONFIDENCE } from '../models/GameSession';
+import { PlayerCalibration } from '../models/Scoring';
+import { getBrierScore, roundTo } from './scoringEngine';
+
+// Confidence bands of the calibration curve; the last one includes 100%
+const BUCKET_WIDTH = 10;
+const BUCKET_COUNT = Math.ceil((100 - MIN_CONFIDENCE) / BUCKET_WIDTH);
+
+interface ConfidenceTotals {
+  rounds: number;
+  correct: number;
+  confidence_total: number;
+}
+
+// Running sums behind a player's calibration curve, kept up to date as
+// rounds are graded so the curve never needs the rounds themselves
+export interface ConfidenceTally extends ConfidenceTotals {
+  brier_total: number;
+  buckets: ConfidenceTotals[];
+}
+
+export const createConfidenceTally = (): ConfidenceTally => ({
+  rounds: 0,
+  correct: 0,
+  confidence_total: 0,
+  brier_total: 0,
+  buckets: Array.from({ length: BUCKET_COUNT }, () => ({ rounds: 0, correct: 0, confidence_total: 0 }))
+});
+
+const addTotals = (totals: ConfidenceTotals, from: ConfidenceTotals): void => {
+  totals.rounds += from.rounds;
+  totals.correct += from.correct;
+  totals.confidence_total += from.confidence_total;
+};
+
+// Counts an answered round that came with a confidence; others are ignored
+export const addRoundToTally = (tally: ConfidenceTally, round: GameRound): void => {
+  if (round.confidence === undefined || round.timed_out) return;
+
+  const counted = { rounds: 1, correct: round.is_correct ? 1 : 0, confidence_total: round.confidence };
+  const bucket = Math.min(Math.floor((round.confidence - MIN_CONFIDENCE) / BUCKET_WIDTH), BUCKET_COUNT - 1);
+  addTotals(tally, counted);
+  addTotals(tally.buckets[bucket], counted);
+  tally.brier_total += getBrierScore(round.confidence, round.is_correct);
+};
+
+export const mergeTallies = (tally: ConfidenceTally, from: ConfidenceTally): void => {
+  addTotals(tally, from);
+  from.buckets.forEach((bucket, index) => addTotals(tally.buckets[index], bucket));
+  tally.brier_total += from.brier_total;
+};
+
+const toPercentage = (correct: number, total: number): number => {
+  return total > 0 ? roundTo((correct / total) * 100, 2) : 0;
+};
+
+const toAverage = (total: number, count: number): number => {
+  return count > 0 ? roundTo(total / count, 2) : 0;
+};
+
+// Calibration curve over every answered round that came with a confidence:
+// "when you say 90% you're right 72% of the time"
+export const summarizeTally = (tally: ConfidenceTally): PlayerCalibration => ({
+  rounds: tally.rounds,
+  brier_score: tally.rounds > 0 ? roundTo(tally.brier_total / tally.rounds, 4) : null,
+  average_confidence: toAverage(tally.confidence_total, tally.rounds),
+  accuracy: toPercentage(tally.correct, tally.rounds),
+  buckets: tally.buckets.map((bucket, index) => {
+    const min = MIN_CONFIDENCE + index * BUCKET_WIDTH;
+    return {
+      min_confidence: min,
+      max_confidence: index === BUCKET_COUNT - 1 ? 100 : min + BUCKET_WIDTH - 1,
+      rounds: bucket.rounds,
+      average_confidence: toAverage(bucket.confidence_total, bucket.rounds),
+      accuracy: toPercentage(bucket.correct, bucket.rounds)
+    };
+  })
+});
@@ -0,0 +1,105 @@
+import {
+  addDays,
+  daysBetween,
+  getDailyDate,
+  getDailyResetHour,
+  getDatesInRange,
+  getNextDailyReset,
+  resolveTimezone
+} from './dailyClock';
+
+describe('dailyClock', () => {
+  const originalEnv = { ...process.env };
+
+  const configure = (settings: { timezone?: string; resetHour?: string }) => {
+    if (settings.timezone !== undefined) process.env.DAILY_TIMEZONE = settings.timezone;
+    if (settings.resetHour !== undefined) process.env.DAILY_RESET_HOUR = settings.resetHour;
+  };
+
+  beforeEach(() => {
+    delete process.env.DAILY_TIMEZONE;
+    delete process.env.DAILY_RESET_HOUR;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  describe('getDailyDate', () => {
+    const now = new Date('2026-06-15T02:30:00.000Z');
+
+    it('uses the calendar date in the player timezone', () => {
+      expect(getDailyDate('UTC', now)).toBe('2026-06-15');
+      expect(getDailyDate('America/New_York', now)).toBe('2026-06-14');
+      expect(getDailyDate('Asia/Tokyo', now)).toBe('2026-06-15');
+    });
+
+    it('keeps the previous date until the reset hour', () => {
+      configure({ resetHour: '4' });
+      expect(getDailyDate('UTC', now)).toBe('2026-06-14');
+      expect(getDailyDate('UTC', new Date('2026-06-15T04:00:00.000Z'))).toBe('2026-06-15');
+    });
+
+    it('falls back to DAILY_TIMEZONE for players without a valid timezone', () => {
+      configure({ timezone: 'America/New_York' });
+      expect(getDailyDate(undefined, now)).toBe('2026-06-14');
+      expect(getDailyDate('Not/A_Zone', now)).toBe('2026-06-14');
+    });
+  });
+
+  describe('getNextDailyReset', () => {
+    it('opens the next daily at local midnight by default', () => {
+      expect(getNextDailyReset('America/New_York', new Date('2026-06-15T12:00:00.000Z')).toISOString())
+        .toBe('2026-06-16T04:00:00.000Z');
+    });
+
+    it('keeps the local reset hour when the clocks spring forward', () => {
+      configure({ resetHour: '4' });
+      // 00:30 EST on the night clocks go forward; 4am is already EDT
+      expect(getNextDailyReset('America/New_York', new Date('2026-03-08T05:30:00.000Z')).toISOString())
+        .toBe('2026-03-08T08:00:00.000Z');
+    });
+
+    it('keeps the local reset hour when the clocks fall back', () => {
+      configure({ resetHour: '4' });
+      // 23:00 EDT the evening before clocks go back; 4am is EST
+      expect(getNextDailyReset('America/New_York', new Date('2026-11-01T03:00:00.000Z')).toISOString())
+        .toBe('2026-11-01T09:00:00.000Z');
+    });
+  });
+
+  describe('configuration', () => {
+    it('ignores an unknown DAILY_TIMEZONE', () => {
+      configure({ timezone: 'Not/A_Zone' });
+      expect(resolveTimezone()).toBe('UTC');
+      expect(resolveTimezone('Europe/Paris')).toBe('Europe/Paris');
+    });
+
+    it('ignores a DAILY_RESET_HOUR outside 0-23', () => {
+      for (const value of ['24', '-1', '3.5', 'four']) {
+        configure({ resetHour: value });
+        expect(getDailyResetHour()).toBe(0);
+      }
+      configure({ resetHour: '23' });
+      expect(getDailyResetHour()).toBe(23);
+    });
+  });
+
+  describe('date arithmetic', () => {
+    it('adds days across month and year ends', () => {
+      expect(addDays('2026-02-28', 1)).toBe('2026-03-01');
+      expect(addDays('2026-12-31', 1)).toBe('2027-01-01');
+      expect(addDays('2026-03-01', -1)).toBe('2026-02-28');
+    });
+
+    it('counts whole days between dates', () => {
+      expect(daysBetween('2026-03-07', '2026-03-09')).toBe(2);
+      expect(daysBetween('2026-03-09', '2026-03-07')).toBe(-2);
+    });
+
+    it('lists every date in a range, both ends included', () => {
+      expect(getDatesInRange('2026-02-27', '2026-03-01')).toEqual(['2026-02-27', '2026-02-28', '2026-03-01']);
+      expect(getDatesInRange('2026-03-02', '2026-03-01')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+// When "today" starts and ends for the daily game. A player's day is their
+// local calendar date in their timezone, shifted back by DAILY_RESET_HOUR so
+// the new daily can open at e.g. 4am instead of midnight. Players without a
+// timezone use DAILY_TIMEZONE (default UTC).
+import { createLogger } from './logger';
+
+const logger = createLogger('DailyClock');
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const getDefaultTimezone = (): string => {
+  const timezone = process.env.DAILY_TIMEZONE;
+  if (!timezone) return 'UTC';
+  if (isValidTimezone(timezone)) return timezone;
+
+  logger.warn(`Ignoring unknown DAILY_TIMEZONE "${timezone}"; using UTC`);
+  return 'UTC';
+};
+
+// Hour of the local day (0-23) at which the daily rolls over
+export const getDailyResetHour = (): number => {
+  const value = process.env.DAILY_RESET_HOUR;
+  if (!value) return 0;
+
+  const hour = Number(value);
+  if (Number.isInteger(hour) && hour >= 0 && hour <= 23) return hour;
+
+  logger.warn(`Ignoring invalid DAILY_RESET_HOUR "${value}"; using 0`);
+  return 0;
+};
+
+export const resolveTimezone = (timezone?: string): string => {
+  return timezone && isValidTimezone(timezone) ? timezone : getDefaultTimezone();
+};
+
+// The wall-clock time in the timezone at the given instant, as a UTC timestamp
+const getWallTime = (instant: Date, timezone: string): number => {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(instant)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+};
+
+// The daily date (YYYY-MM-DD) a player in the timezone is on
+export const getDailyDate = (timezone?: string, now: Date = new Date()): string => {
+  const wallTime = getWallTime(now, resolveTimezone(timezone)) - getDailyResetHour() * HOUR_MS;
+  return new Date(wallTime).toISOString().split('T')[0];
+};
+
+// The instant the player's next daily opens
+export const getNextDailyReset = (timezone?: string, now: Date = new Date()): Date => {
+  const resolved = resolveTimezone(timezone);
+  const [year, month, day] = getDailyDate(resolved, now).split('-').map(Number);
+  const resetWallTime = Date.UTC(year, month - 1, day + 1, getDailyResetHour());
+
+  // Convert the local reset time to an instant. The second pass corrects the
+  // offset when a DST change falls between now and the reset.
+  let instant = resetWallTime - (getWallTime(new Date(resetWallTime), resolved) - resetWallTime);
+  instant = resetWallTime - (getWallTime(new Date(instant), resolved) - instant);
+  return new Date(instant);
+};
+
+// Calendar arithmetic on YYYY-MM-DD dates
+export const addDays = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+};
+
+export const getDatesInRange = (startDate: string, endDate: string): string[] => {
+  const dates: string[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+};
+
+// Whole days from one date to a later one; negative when `to` is earlier
+export const daysBetween = (from: string, to: string): number => {
+  return Math.round((Date.parse(to) - Date.parse(from)) / (24 * HOUR_MS));
+};
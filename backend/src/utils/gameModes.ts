@@ -0,0 +1,91 @@
+import { GameMode, GameSession } from '../models/GameSession';
+
+export interface GameModeSettings {
+  roundTimeLimitMs: number;
+}
+
+// Server-enforced round timers, matching the countdowns shown in the game UI
+export const GAME_MODE_SETTINGS: Record<GameMode, GameModeSettings> = {
+  daily: {
+    roundTimeLimitMs: 30 * 1000
+  },
+  streak: {
+    roundTimeLimitMs: 30 * 1000
+  },
+  spot: {
+    roundTimeLimitMs: 45 * 1000 // several images to look at
+  },
+  verdict: {
+    roundTimeLimitMs: 15 * 1000 // one image, no comparison
+  },
+  confidence: {
+    roundTimeLimitMs: 30 * 1000
+  },
+  timeattack: {
+    roundTimeLimitMs: 60 * 1000 // capped by the session clock
+  },
+  practice: {
+    roundTimeLimitMs: 60 * 1000 // no rush while learning
+  }
+};
+
+// A daily game is always this many rounds
+export const DAILY_ROUNDS = 3;
+
+// A "Spot the Bot" game is always this many image set rounds
+export const SPOT_ROUNDS = 5;
+
+// A verdict game is always this many single image rounds
+export const VERDICT_ROUNDS = 10;
+
+// A confidence game is always this many pair rounds
+export const CONFIDENCE_ROUNDS = 10;
+
+// A time attack session answers as many pairs as it can on one clock; each
+// wrong answer takes seconds off it
+export const TIME_ATTACK_DURATION_MS = 60 * 1000;
+export const TIME_ATTACK_WRONG_PENALTY_MS = 5 * 1000;
+
+// A practice game is always this many pair rounds
+export const PRACTICE_ROUNDS = 10;
+
+// Modes ranked only on their own leaderboard, never on the combined one
+export const SEPARATE_LEADERBOARD_MODES: GameMode[] = ['timeattack'];
+
+// Modes that never reach a leaderboard
+export const UNRANKED_MODES: GameMode[] = ['practice'];
+
+// The date of daily #1; shared results are numbered from it
+export const DAILY_PUZZLE_EPOCH = '2025-09-01';
+
+// A perfect daily earns a streak freeze, which covers one missed day; players
+// hold at most this many
+export const MAX_STREAK_FREEZES = 2;
+
+// Allowance for network latency on the submit request
+export const ROUND_DEADLINE_GRACE_MS = 2000;
+
+// How far client and server response times may drift before it counts as an anomaly
+export const TIMING_DIVERGENCE_TOLERANCE_MS = 3000;
+export const TIMING_ANOMALIES_BEFORE_FLAG = 2;
+
+export const getRoundTimeLimit = (gameMode: GameMode): number => {
+  return GAME_MODE_SETTINGS[gameMode].roundTimeLimitMs;
+};
+
+// A player's daily counts once per date: only the first session started for a
+// date reaches the streak and the leaderboards. Later ones can come from
+// merging a guest's history, or predate one-session-per-date.
+export const getCountedDailySessionIds = (sessions: GameSession[]): Set<string> => {
+  const first = new Map<string, GameSession>();
+  for (const session of sessions) {
+    if (session.game_mode !== 'daily' || !session.player_id || !session.daily_challenge_date) continue;
+
+    const key = `${session.player_id}:${session.daily_challenge_date}`;
+    const current = first.get(key);
+    if (!current || session.start_time < current.start_time) {
+      first.set(key, session);
+    }
+  }
+  return new Set([...first.values()].map(session => session.session_id));
+};
@@ -0,0 +1,26 @@
+import fs from 'fs/promises';
+
+const HEADER_BYTES = 12;
+
+// Leading bytes of each format an image file may be stored in
+const SIGNATURES: Array<{ contentType: string; matches: (header: Buffer) => boolean }> = [
+  { contentType: 'image/jpeg', matches: header => header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff },
+  { contentType: 'image/png', matches: header => header.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { contentType: 'image/webp', matches: header => header.toString('ascii', 0, 4) === 'RIFF' && header.toString('ascii', 8, 12) === 'WEBP' },
+  { contentType: 'image/gif', matches: header => header.toString('ascii', 0, 4) === 'GIF8' }
+];
+
+// The content type of an image file from its first bytes. Uploads are
+// re-encoded as JPEG, but files placed in uploads/ by hand keep their format
+// whatever their extension says.
+export const detectImageContentType = async (filePath: string): Promise<string> => {
+  const file = await fs.open(filePath, 'r');
+  try {
+    const header = Buffer.alloc(HEADER_BYTES);
+    const { bytesRead } = await file.read(header, 0, HEADER_BYTES, 0);
+    const match = SIGNATURES.find(signature => bytesRead === HEADER_BYTES && signature.matches(header));
+    return match ? match.contentType : 'application/octet-stream';
+  } finally {
+    await file.close();
+  }
+};
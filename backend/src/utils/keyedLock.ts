@@ -0,0 +1,25 @@
+// Runs async tasks one at a time per key, in the order they arrive, so a
+// read-check-write spread across awaits can't interleave with another for the
+// same key. It only serializes within this process, which is the only writer.
+export type KeyedLock = <T>(key: string, task: () => Promise<T>) => Promise<T>;
+
+export const createKeyedLock = (): KeyedLock => {
+  // The last queued task per key; settled tasks are dropped
+  const tails = new Map<string, Promise<unknown>>();
+
+  return async <T>(key: string, task: () => Promise<T>): Promise<T> => {
+    const previous = tails.get(key) ?? Promise.resolve();
+    const run = previous.then(task);
+    // A failed task must not block the ones queued behind it
+    const tail = run.catch(() => undefined);
+    tails.set(key, tail);
+
+    try {
+      return await run;
+    } finally {
+      if (tails.get(key) === tail) {
+        tails.delete(key);
+      }
+    }
+  };
+};
@@ -0,0 +1,213 @@
+import fs from 'fs';
+import path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
+
+// Most to least severe; a logger set to a level emits that level and above
+export const LOG_LEVELS: LogLevel[] = ['error', 'warn', 'info', 'debug'];
+
+export interface LogEntry {
+  timestamp: string;
+  level: LogLevel;
+  message: string;
+  module?: string;
+  request_id?: string;
+  [field: string]: unknown;
+}
+
+export interface RequestContext {
+  requestId: string;
+}
+
+// Carries the request id through async calls so every log line written while
+// handling a request can be correlated (see middleware/requestContext.ts)
+export const requestContext = new AsyncLocalStorage<RequestContext>();
+
+const LOG_FILE = 'app.log';
+
+const parseLevel = (value: string | undefined, fallback: LogLevel): LogLevel => {
+  return LOG_LEVELS.includes(value as LogLevel) ? (value as LogLevel) : fallback;
+};
+
+const config = {
+  level: parseLevel(process.env.LOG_LEVEL, 'info'),
+  format: process.env.LOG_FORMAT === 'pretty' ? 'pretty' : 'json',
+  toFile: process.env.LOG_TO_FILE !== 'false',
+  maxBytes: (parseFloat(process.env.LOG_MAX_SIZE_MB || '') || 10) * 1024 * 1024,
+  maxFiles: Math.max(1, parseInt(process.env.LOG_MAX_FILES || '', 10) || 5)
+};
+
+// Resolved on use rather than at import, so scripts that chdir into a work
+// directory (e.g. the leaderboard benchmark) log there
+const getLogDir = (): string => {
+  return path.resolve(process.cwd(), process.env.LOG_DIR || path.join('data', 'logs'));
+};
+
+// Size-based rotation: app.log is renamed to app.1.log (and app.1.log to
+// app.2.log, ...) once it would exceed maxBytes; the oldest file is dropped.
+class RotatingLogFile {
+  private fd: number | null = null;
+  private size = 0;
+  private dir = '';
+
+  constructor(private maxBytes: number, private maxFiles: number) {}
+
+  public write(line: string): void {
+    const bytes = Buffer.byteLength(line);
+    if (this.fd !== null && this.dir !== getLogDir()) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+    if (this.fd === null) {
+      this.open();
+    } else if (this.size > 0 && this.size + bytes > this.maxBytes) {
+      this.rotate();
+    }
+    fs.writeSync(this.fd!, line);
+    this.size += bytes;
+  }
+
+  // Current file first, then rotated files from newest to oldest
+  public files(): string[] {
+    const dir = getLogDir();
+    return Array.from({ length: this.maxFiles }, (_, index) => this.fileAt(index, dir));
+  }
+
+  private fileAt(index: number, dir: string = this.dir): string {
+    return path.join(dir, index === 0 ? LOG_FILE : LOG_FILE.replace('.log', `.${index}.log`));
+  }
+
+  private open(): void {
+    this.dir = getLogDir();
+    fs.mkdirSync(this.dir, { recursive: true });
+    this.fd = fs.openSync(this.fileAt(0), 'a');
+    this.size = fs.fstatSync(this.fd).size;
+  }
+
+  private rotate(): void {
+    fs.closeSync(this.fd!);
+    this.fd = null;
+
+    fs.rmSync(this.fileAt(this.maxFiles - 1), { force: true });
+    for (let index = this.maxFiles - 2; index >= 0; index--) {
+      if (fs.existsSync(this.fileAt(index))) {
+        fs.renameSync(this.fileAt(index), this.fileAt(index + 1));
+      }
+    }
+    this.open();
+  }
+}
+
+const logFile = new RotatingLogFile(config.maxBytes, config.maxFiles);
+let fileErrorReported = false;
+
+const serializeError = (error: Error): Record<string, unknown> => ({
+  name: error.name,
+  message: error.message,
+  stack: error.stack
+});
+
+// Accepts an Error, an object of extra fields, or any other value
+const toFields = (meta: unknown): Record<string, unknown> => {
+  if (meta === undefined) return {};
+  if (meta instanceof Error) return { error: serializeError(meta) };
+  if (typeof meta !== 'object' || meta === null || Array.isArray(meta)) return { detail: meta };
+
+  return Object.fromEntries(
+    Object.entries(meta).map(([key, value]) => [key, value instanceof Error ? serializeError(value) : value])
+  );
+};
+
+const formatPretty = (entry: LogEntry): string => {
+  const { timestamp, level, message, module, request_id, ...fields } = entry;
+  const context = [module, request_id].filter(Boolean).join(' ');
+  const extra = Object.keys(fields).length > 0 ? ` ${JSON.stringify(fields)}` : '';
+  return `${timestamp} ${level.toUpperCase().padEnd(5)} ${context ? `[${context}] ` : ''}${message}${extra}\n`;
+};
+
+export class Logger {
+  constructor(private module?: string) {}
+
+  public error(message: string, meta?: unknown): void {
+    this.log('error', message, meta);
+  }
+
+  public warn(message: string, meta?: unknown): void {
+    this.log('warn', message, meta);
+  }
+
+  public info(message: string, meta?: unknown): void {
+    this.log('info', message, meta);
+  }
+
+  public debug(message: string, meta?: unknown): void {
+    this.log('debug', message, meta);
+  }
+
+  public log(level: LogLevel, message: string, meta?: unknown): void {
+    if (LOG_LEVELS.indexOf(level) > LOG_LEVELS.indexOf(config.level)) return;
+
+    const entry: LogEntry = {
+      timestamp: new Date().toISOString(),
+      level,
+      message,
+      ...(this.module && { module: this.module }),
+      ...(requestContext.getStore() && { request_id: requestContext.getStore()!.requestId }),
+      ...toFields(meta)
+    };
+    const json = JSON.stringify(entry) + '\n';
+
+    const stream = level === 'error' || level === 'warn' ? process.stderr : process.stdout;
+    stream.write(config.format === 'pretty' ? formatPretty(entry) : json);
+
+    if (config.toFile) {
+      try {
+        logFile.write(json);
+      } catch (error) {
+        // Keep serving requests if the log directory is unwritable
+        if (!fileErrorReported) {
+          fileErrorReported = true;
+          process.stderr.write(`Log file unavailable: ${(error as Error).message}\n`);
+        }
+      }
+    }
+  }
+}
+
+export const logger = new Logger();
+
+export const createLogger = (module: string): Logger => new Logger(module);
+
+// Most recent entries first, across the current and rotated files. A level
+// filter returns that level and anything more severe.
+export const readLogEntries = async (options: { level?: LogLevel | 'all'; limit: number }): Promise<LogEntry[]> => {
+  const maxSeverity = options.level && options.level !== 'all' ? LOG_LEVELS.indexOf(options.level) : LOG_LEVELS.length;
+  const entries: LogEntry[] = [];
+
+  for (const file of logFile.files()) {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(file, 'utf8');
+    } catch {
+      continue; // Not rotated that far yet
+    }
+
+    const lines = content.split('\n');
+    for (let index = lines.length - 1; index >= 0 && entries.length < options.limit; index--) {
+      if (!lines[index]) continue;
+      try {
+        const entry = JSON.parse(lines[index]) as LogEntry;
+        if (LOG_LEVELS.indexOf(entry.level) <= maxSeverity) {
+          entries.push(entry);
+        }
+      } catch {
+        // A line cut short by a crash is skipped
+      }
+    }
+
+    if (entries.length >= options.limit) break;
+  }
+
+  return entries;
+};
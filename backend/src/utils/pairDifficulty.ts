@@ -0,0 +1,27 @@
+// Which difficulty pair selection goes by: the level set by admins
+// (difficulty_level) or the one calibrated from play data. Set with
+// PAIR_DIFFICULTY_SOURCE=manual|calibrated; uncalibrated pairs always use
+// their manual level.
+import { ImagePair } from '../models/ImagePair';
+import { createLogger } from './logger';
+
+const logger = createLogger('PairDifficulty');
+
+export type DifficultySource = 'manual' | 'calibrated';
+
+export const getDifficultySource = (): DifficultySource => {
+  const value = process.env.PAIR_DIFFICULTY_SOURCE;
+  if (!value || value === 'manual') return 'manual';
+  if (value === 'calibrated') return 'calibrated';
+
+  logger.warn(`Ignoring unknown PAIR_DIFFICULTY_SOURCE "${value}"; using manual`);
+  return 'manual';
+};
+
+// Whole level 1-5
+export const getPairDifficulty = (pair: ImagePair): number => {
+  if (pair.calibration && getDifficultySource() === 'calibrated') {
+    return Math.round(pair.calibration.difficulty);
+  }
+  return pair.difficulty_level;
+};
@@ -0,0 +1,161 @@
+import { GameMode, GameRound, GameSession } from '../models/GameSession';
+import {
+  SCORING_RULE_SETS,
+  CURRENT_SCORING_VERSIONS,
+  getBrierScore,
+  getSelectionCredit,
+  getSessionRuleSet,
+  scoreCompletion,
+  scoreRound
+} from './scoringEngine';
+
+const rules = (version: string) => SCORING_RULE_SETS[version];
+
+const answer = (overrides: Partial<Parameters<typeof scoreRound>[1]> = {}) => ({
+  isCorrect: true,
+  responseTime: 5000,
+  difficulty: 3,
+  currentStreak: 0,
+  ...overrides
+});
+
+const round = (isCorrect: boolean, responseTime: number): GameRound => ({
+  round_id: 'round',
+  session_id: 'session',
+  pair_id: '00000000-0000-4000-8000-000000000000',
+  player_choice: 'ai',
+  correct_answer: isCorrect ? 'ai' : 'real',
+  is_correct: isCorrect,
+  response_time: responseTime,
+  points_earned: 0,
+  round_number: 1,
+  timestamp: new Date()
+});
+
+const session = (gameMode: GameMode, scoringVersion?: string): GameSession => ({
+  session_id: 'session',
+  game_mode: gameMode,
+  start_time: new Date(),
+  total_score: 0,
+  rounds_completed: 0,
+  current_streak: 0,
+  is_completed: false,
+  scoring_version: scoringVersion
+});
+
+describe('scoreRound', () => {
+  it('adds difficulty and time bonuses to the base points', () => {
+    // 100 base + 3 × 20 difficulty + (60 - 5s × 2) time
+    expect(scoreRound(rules('daily-2'), answer())).toMatchObject({
+      base: 100,
+      difficulty_bonus: 60,
+      time_bonus: 50,
+      streak_multiplier: 1,
+      total: 210
+    });
+  });
+
+  it('gives no time bonus for a slow answer', () => {
+    expect(scoreRound(rules('daily-2'), answer({ responseTime: 45000 })).total).toBe(160);
+  });
+
+  it('gives nothing for a wrong answer', () => {
+    expect(scoreRound(rules('daily-2'), answer({ isCorrect: false })).total).toBe(0);
+  });
+
+  it('grows streak points by 10% per correct answer before this one', () => {
+    const breakdown = scoreRound(rules('streak-1'), answer({ currentStreak: 5 }));
+    expect(breakdown.streak_multiplier).toBe(1.5);
+    expect(breakdown.total).toBe(315);
+  });
+
+  it('scales image set rounds by their partial credit', () => {
+    // (100 + 60 + (90 - 10)) × 0.5 under the 45 second spot rules
+    expect(scoreRound(rules('spot-1'), answer({ credit: 0.5 }))).toMatchObject({ credit: 0.5, total: 120 });
+    expect(scoreRound(rules('spot-1'), answer({ credit: 0 }))).toMatchObject({ credit: 0, total: 0 });
+  });
+
+  it('scores confidence rounds by their Brier score alone', () => {
+    expect(scoreRound(rules('confidence-1'), answer({ confidence: 80 }))).toMatchObject({
+      base: 200,
+      difficulty_bonus: 0,
+      time_bonus: 0,
+      brier_score: 0.04,
+      total: 192
+    });
+    expect(scoreRound(rules('confidence-1'), answer({ isCorrect: false, confidence: 80 })).total).toBe(72);
+    expect(scoreRound(rules('confidence-1'), answer({ confidence: undefined })).total).toBe(0);
+  });
+
+  it('pays a stated confidence of 50% the same whether right or wrong', () => {
+    expect(getBrierScore(50, true)).toBe(getBrierScore(50, false));
+  });
+});
+
+describe('getSelectionCredit', () => {
+  it('gives full credit for exactly the right images', () => {
+    expect(getSelectionCredit([0, 2], [2, 0], 4)).toBe(1);
+  });
+
+  it('takes off for each wrong pick and never goes below zero', () => {
+    expect(getSelectionCredit([0, 2], [0], 4)).toBe(0.5);
+    expect(getSelectionCredit([0, 2], [0, 1], 4)).toBe(0);
+    expect(getSelectionCredit([0, 2], [1, 3], 4)).toBe(0);
+  });
+
+  it('gives nothing for selecting everything', () => {
+    expect(getSelectionCredit([0, 2], [0, 1, 2, 3], 4)).toBe(0);
+  });
+});
+
+describe('scoreCompletion', () => {
+  it('awards the challenge reward, perfect and speed bonuses for a fast perfect daily', () => {
+    const rounds = [round(true, 4000), round(true, 5000), round(true, 6000)];
+    expect(scoreCompletion(rules('daily-2'), rounds, 300)).toMatchObject({
+      challenge: 300,
+      perfect: 100,
+      speed: 50,
+      total: 450
+    });
+  });
+
+  it('shares the challenge reward by correct answers', () => {
+    const rounds = [round(true, 12000), round(true, 12000), round(false, 12000)];
+    expect(scoreCompletion(rules('daily-2'), rounds, 300)).toMatchObject({
+      challenge: 200,
+      perfect: 0,
+      speed: 0,
+      total: 200
+    });
+  });
+
+  it('only pays the challenge reward under daily-1', () => {
+    const rounds = [round(true, 1000), round(true, 1000), round(true, 1000)];
+    expect(scoreCompletion(rules('daily-1'), rounds, 300).total).toBe(300);
+  });
+
+  it('awards nothing for a game without rounds', () => {
+    expect(scoreCompletion(rules('daily-2'), [], 300).total).toBe(0);
+  });
+});
+
+describe('getSessionRuleSet', () => {
+  it('replays a session under the version it was scored with', () => {
+    expect(getSessionRuleSet(session('daily', 'daily-2')).version).toBe('daily-2');
+  });
+
+  it('scores sessions from before versioning under the first rule sets', () => {
+    expect(getSessionRuleSet(session('daily')).version).toBe('daily-1');
+    expect(getSessionRuleSet(session('streak')).version).toBe('streak-1');
+  });
+
+  it('rejects a version it does not know', () => {
+    expect(() => getSessionRuleSet(session('daily', 'daily-99'))).toThrow('Unknown scoring version daily-99');
+  });
+
+  it('has a rule set for the current version of every mode', () => {
+    for (const [gameMode, version] of Object.entries(CURRENT_SCORING_VERSIONS)) {
+      expect(SCORING_RULE_SETS[version]).toMatchObject({ version, game_mode: gameMode });
+    }
+  });
+});
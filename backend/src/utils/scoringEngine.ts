@@ -0,0 +1,250 @@
+import { GameMode, GameRound, GameSession } from '../models/GameSession';
+import { CompletionBonuses, RoundScoreBreakdown, ScoringRuleSet } from '../models/Scoring';
+import { DAILY_ROUNDS, SPOT_ROUNDS, VERDICT_ROUNDS, CONFIDENCE_ROUNDS, PRACTICE_ROUNDS } from './gameModes';
+
+const LEGACY_ROUND_RULES: ScoringRuleSet['round'] = {
+  base_points: 100,
+  difficulty_bonus_per_level: 20,
+  max_time_bonus: 60,
+  time_bonus_per_second: 2,
+  streak_multiplier_per_correct: 0,
+  rounding: 'round'
+};
+
+const NO_COMPLETION_BONUSES: ScoringRuleSet['completion'] = {
+  challenge_reward: false,
+  perfect_bonus: 0,
+  speed_bonus: 0,
+  speed_max_average_ms: 0,
+  speed_min_correct: 0,
+  rounds: DAILY_ROUNDS
+};
+
+// Every rule set sessions have been scored with, by version
+export const SCORING_RULE_SETS: Record<string, ScoringRuleSet> = {
+  'daily-1': {
+    version: 'daily-1',
+    game_mode: 'daily',
+    description: 'Round points plus a share of the daily challenge reward',
+    round: LEGACY_ROUND_RULES,
+    completion: { ...NO_COMPLETION_BONUSES, challenge_reward: true }
+  },
+  'daily-2': {
+    version: 'daily-2',
+    game_mode: 'daily',
+    description: 'Adds perfect-game and speed bonuses on completion',
+    round: LEGACY_ROUND_RULES,
+    completion: {
+      challenge_reward: true,
+      perfect_bonus: 100,
+      speed_bonus: 50,
+      speed_max_average_ms: 10 * 1000,
+      speed_min_correct: 2,
+      rounds: DAILY_ROUNDS
+    }
+  },
+  'streak-1': {
+    version: 'streak-1',
+    game_mode: 'streak',
+    description: 'Round points grow by 10% for each correct answer in the streak',
+    round: { ...LEGACY_ROUND_RULES, streak_multiplier_per_correct: 0.1 },
+    completion: NO_COMPLETION_BONUSES
+  },
+  'spot-1': {
+    version: 'spot-1',
+    game_mode: 'spot',
+    description: 'Image set rounds scored by partial credit, with a bonus for a perfect game',
+    round: { ...LEGACY_ROUND_RULES, max_time_bonus: 90 }, // 45 second rounds
+    completion: { ...NO_COMPLETION_BONUSES, perfect_bonus: 100, rounds: SPOT_ROUNDS }
+  },
+  'verdict-1': {
+    version: 'verdict-1',
+    game_mode: 'verdict',
+    description: 'Single image "AI or real?" rounds, with a bonus for a perfect game',
+    round: { ...LEGACY_ROUND_RULES, max_time_bonus: 30 }, // 15 second rounds
+    completion: { ...NO_COMPLETION_BONUSES, perfect_bonus: 100, rounds: VERDICT_ROUNDS }
+  },
+  'confidence-1': {
+    version: 'confidence-1',
+    game_mode: 'confidence',
+    description: 'Pair rounds scored by the Brier score of the stated confidence, without time or difficulty points',
+    round: { ...LEGACY_ROUND_RULES, confidence_points: 200 },
+    completion: { ...NO_COMPLETION_BONUSES, rounds: CONFIDENCE_ROUNDS }
+  },
+  'timeattack-1': {
+    version: 'timeattack-1',
+    game_mode: 'timeattack',
+    description: 'Base and difficulty points per correct pair; the session clock replaces the time bonus',
+    round: { ...LEGACY_ROUND_RULES, max_time_bonus: 0 },
+    completion: NO_COMPLETION_BONUSES
+  },
+  'practice-1': {
+    version: 'practice-1',
+    game_mode: 'practice',
+    description: 'Unranked pair rounds with the usual round points and no bonuses',
+    round: LEGACY_ROUND_RULES,
+    completion: { ...NO_COMPLETION_BONUSES, rounds: PRACTICE_ROUNDS }
+  }
+};
+
+// New sessions are scored with these
+export const CURRENT_SCORING_VERSIONS: Record<GameMode, string> = {
+  daily: 'daily-2',
+  streak: 'streak-1',
+  spot: 'spot-1',
+  verdict: 'verdict-1',
+  confidence: 'confidence-1',
+  timeattack: 'timeattack-1',
+  practice: 'practice-1'
+};
+
+// Sessions from before scoring was versioned
+const UNVERSIONED: Record<GameMode, string> = {
+  daily: 'daily-1',
+  streak: 'streak-1',
+  spot: 'spot-1',
+  verdict: 'verdict-1',
+  confidence: 'confidence-1',
+  timeattack: 'timeattack-1',
+  practice: 'practice-1'
+};
+
+export const getCurrentRuleSet = (gameMode: GameMode): ScoringRuleSet => {
+  return SCORING_RULE_SETS[CURRENT_SCORING_VERSIONS[gameMode]];
+};
+
+export const getSessionRuleSet = (session: GameSession): ScoringRuleSet => {
+  const version = session.scoring_version || UNVERSIONED[session.game_mode];
+  const rules = SCORING_RULE_SETS[version];
+  if (!rules) {
+    throw new Error(`Unknown scoring version ${version}`);
+  }
+  return rules;
+};
+
+// Rounds to a number of decimal places
+export const roundTo = (value: number, places: number): number => {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+};
+
+// Partial credit for an image set round, from 0 to 1: the share of images
+// to pick that were picked, less the share of the others that were picked
+// too, so selecting everything earns nothing
+export const getSelectionCredit = (correct: number[], selected: number[], imageCount: number): number => {
+  const picked = new Set(selected);
+  const hits = correct.filter(index => picked.has(index)).length;
+  const falsePicks = picked.size - hits;
+  const credit = hits / correct.length - falsePicks / (imageCount - correct.length);
+  return Math.round(Math.max(0, credit) * 100) / 100;
+};
+
+// Brier score of one answer: the squared gap between the confidence and
+// whether the player was right, from 0 (sure and right) to 1 (sure and wrong)
+export const getBrierScore = (confidence: number, isCorrect: boolean): number => {
+  return Math.pow((isCorrect ? 1 : 0) - confidence / 100, 2);
+};
+
+// 1 - Brier score is a proper scoring rule: a player earns the most on
+// average by stating their true chance of being right, so guessing at 100%
+// doesn't pay. Rounds without a confidence (timeouts) earn nothing.
+const scoreConfidenceRound = (
+  rules: ScoringRuleSet,
+  round: { isCorrect: boolean; confidence?: number }
+): RoundScoreBreakdown => {
+  const points = rules.round.confidence_points!;
+  const brierScore = round.confidence !== undefined ? getBrierScore(round.confidence, round.isCorrect) : 1;
+
+  return {
+    scoring_version: rules.version,
+    base: round.confidence !== undefined ? points : 0,
+    difficulty_bonus: 0,
+    time_bonus: 0,
+    streak_multiplier: 1,
+    ...(round.confidence !== undefined && { confidence: round.confidence, brier_score: roundTo(brierScore, 4) }),
+    total: round.confidence !== undefined ? Math.round(points * (1 - brierScore)) : 0
+  };
+};
+
+// Points for one round. `currentStreak` is the streak before this answer;
+// `credit` scales the points of image set rounds, and `confidence` is what
+// confidence-scored rounds are scored on.
+export const scoreRound = (
+  rules: ScoringRuleSet,
+  round: {
+    isCorrect: boolean;
+    credit?: number;
+    confidence?: number;
+    responseTime: number;
+    difficulty: number;
+    currentStreak: number;
+  }
+): RoundScoreBreakdown => {
+  if (rules.round.confidence_points !== undefined) {
+    return scoreConfidenceRound(rules, round);
+  }
+
+  const credit = round.credit ?? (round.isCorrect ? 1 : 0);
+  if (credit <= 0) {
+    return {
+      scoring_version: rules.version,
+      base: 0,
+      difficulty_bonus: 0,
+      time_bonus: 0,
+      streak_multiplier: 1,
+      ...(round.credit !== undefined && { credit: 0 }),
+      total: 0
+    };
+  }
+
+  const { base_points, difficulty_bonus_per_level, max_time_bonus, time_bonus_per_second } = rules.round;
+  const difficultyBonus = round.difficulty * difficulty_bonus_per_level;
+  const timeBonus = Math.max(0, max_time_bonus - (round.responseTime / 1000) * time_bonus_per_second);
+  const streakMultiplier = 1 + round.currentStreak * rules.round.streak_multiplier_per_correct;
+  const points = (base_points + difficultyBonus + timeBonus) * streakMultiplier * credit;
+
+  return {
+    scoring_version: rules.version,
+    base: base_points,
+    difficulty_bonus: difficultyBonus,
+    time_bonus: roundTo(timeBonus, 1),
+    streak_multiplier: roundTo(streakMultiplier, 2),
+    ...(round.credit !== undefined && { credit }),
+    total: rules.round.rounding === 'floor' ? Math.floor(points) : Math.round(points)
+  };
+};
+
+// Bonuses added once when a session completes. `challengeReward` is the
+// points_reward of the session's daily challenge, 0 without one.
+export const scoreCompletion = (
+  rules: ScoringRuleSet,
+  rounds: GameRound[],
+  challengeReward: number
+): CompletionBonuses => {
+  const completion = rules.completion;
+  const correctAnswers = rounds.filter(round => round.is_correct).length;
+  const averageResponseTime = rounds.length > 0
+    ? rounds.reduce((total, round) => total + round.response_time, 0) / rounds.length
+    : Infinity;
+
+  const challenge = completion.challenge_reward
+    ? Math.round((challengeReward * Math.min(correctAnswers, completion.rounds)) / completion.rounds)
+    : 0;
+  const perfect = correctAnswers >= completion.rounds ? completion.perfect_bonus : 0;
+  const speed = correctAnswers >= completion.speed_min_correct && averageResponseTime < completion.speed_max_average_ms
+    ? completion.speed_bonus
+    : 0;
+
+  return {
+    scoring_version: rules.version,
+    challenge,
+    perfect,
+    speed,
+    total: challenge + perfect + speed
+  };
+};
+
+// Completion bonuses already included in a session's total_score
+export const getSessionBonusTotal = (session: GameSession): number => {
+  return (session.challenge_bonus || 0) + (session.perfect_bonus || 0) + (session.speed_bonus || 0);
+};
@@ -0,0 +1,35 @@
+// Deterministic pseudo-random numbers for anything that must come out the same
+// on every server and every run, such as the daily pair set.
+
+// FNV-1a: folds a string seed into a 32-bit integer
+export const hashSeed = (seed: string): number => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < seed.length; index++) {
+    hash ^= seed.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: returns a generator of floats in [0, 1)
+export const createSeededRandom = (seed: string): (() => number) => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Fisher-Yates on a copy. Callers must pass items in a stable order (e.g.
+// sorted by id) for the result to be reproducible.
+export const seededShuffle = <T>(items: T[], random: () => number): T[] => {
+  const shuffled = [...items];
+  for (let index = shuffled.length - 1; index > 0; index--) {
+    const swap = Math.floor(random() * (index + 1));
+    [shuffled[index], shuffled[swap]] = [shuffled[swap], shuffled[index]];
+  }
+  return shuffled;
+};
@@ -0,0 +1,60 @@
+// Array kept in order by a comparator. Lookups are binary searches; inserts
+// and removals shift the tail, which stays cheap for arrays of a few hundred
+// thousand items. The comparator must be a total order (no two distinct items
+// comparing equal) so an item's position can be found again from its values.
+export class SortedList<T> {
+  private items: T[] = [];
+
+  constructor(private compare: (a: T, b: T) => number) {}
+
+  public get length(): number {
+    return this.items.length;
+  }
+
+  public at(index: number): T | undefined {
+    return this.items[index];
+  }
+
+  public insert(item: T): void {
+    this.items.splice(this.lowerBound(item), 0, item);
+  }
+
+  // Must be called before the item's ordered fields change
+  public remove(item: T): boolean {
+    const index = this.indexOf(item);
+    if (index === -1) return false;
+    this.items.splice(index, 1);
+    return true;
+  }
+
+  public indexOf(item: T): number {
+    const index = this.lowerBound(item);
+    return index < this.items.length && this.compare(this.items[index], item) === 0 ? index : -1;
+  }
+
+  // First index whose item satisfies the predicate, or length if none does.
+  // The predicate must be false for a prefix of the list and true after it.
+  public findFirst(predicate: (item: T) => boolean): number {
+    let low = 0;
+    let high = this.items.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (predicate(this.items[middle])) {
+        high = middle;
+      } else {
+        low = middle + 1;
+      }
+    }
+    return low;
+  }
+
+  public static from<T>(items: Iterable<T>, compare: (a: T, b: T) => number): SortedList<T> {
+    const list = new SortedList(compare);
+    list.items = Array.from(items).sort(compare);
+    return list;
+  }
+
+  private lowerBound(item: T): number {
+    return this.findFirst(existing => this.compare(existing, item) >= 0);
+  }
+}
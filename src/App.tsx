@@ -1,31 +1,121 @@
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import { BrowserRouter as Router, Routes, Route } from "react-router-dom";
 
 import LandingPage from "./components/LandingPage";
 import DailyMode from "./components/DailyMode";
 import StreakMode from "./components/StreakMode";
+import SpotMode from "./components/SpotMode";
+import VerdictMode from "./components/VerdictMode";
+import ConfidenceMode from "./components/ConfidenceMode";
+import TimeAttackMode from "./components/TimeAttackMode";
+import PracticeMode from "./components/PracticeMode";
 import Leaderboard from "./pages/Leaderboard";
 import AdminPanelNew from "./pages/AdminPanelNew";
+import SharePage from "./pages/SharePage";
+import AuthPanel from "./components/AuthPanel";
+import { apiService } from "./services/api";
+import type { Player } from "./types/game";
 import "@progress/kendo-theme-default/dist/all.css";
 import "./style.css";
 
-type Page = "home" | "daily-mode" | "streak-mode" | "leaderboard" | "admin";
+type Page = "home" | "daily-mode" | "streak-mode" | "spot-mode" | "verdict-mode" | "confidence-mode" | "timeattack-mode" | "practice-mode" | "leaderboard" | "admin" | "account";
 
 const App: React.FC = () => {
   const [currentPage, setCurrentPage] = useState<Page>("home");
+  const [player, setPlayer] = useState<Player | null>(null);
+
+  // Restore the player from a stored token, or start a new guest identity
+  const loadPlayer = async () => {
+    if (apiService.isLoggedIn()) {
+      try {
+        setPlayer(await syncTimezone(await apiService.getCurrentPlayer()));
+        return;
+      } catch {
+        apiService.logout();
+      }
+    }
+
+    try {
+      setPlayer(await syncTimezone(await apiService.createGuest()));
+    } catch (error) {
+      console.error("Failed to create guest player:", error);
+    }
+  };
+
+  // The server decides when the daily rolls over, from the browser's timezone
+  const syncTimezone = async (current: Player): Promise<Player> => {
+    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    if (!timezone || current.timezone === timezone) return current;
+
+    try {
+      return await apiService.updateTimezone(timezone);
+    } catch (error) {
+      console.error("Failed to update timezone:", error);
+      return current;
+    }
+  };
+
+  useEffect(() => {
+    loadPlayer();
+  }, []);
+
+  const handleLogout = () => {
+    apiService.logout();
+    setPlayer(null);
+    loadPlayer();
+  };
+
+  const handleAuthenticated = (authenticated: Player) => {
+    setPlayer(authenticated);
+    setCurrentPage("home");
+    syncTimezone(authenticated).then(setPlayer);
+  };
+
+  const playerLoading = <div className="loading-player">Preparing your player profile...</div>;
 
   const renderPage = () => {
     switch (currentPage) {
       case "daily-mode":
+        if (!player) return playerLoading;
         return <DailyMode onNavigate={setCurrentPage} />;
       case "streak-mode":
+        if (!player) return playerLoading;
         return <StreakMode onNavigate={setCurrentPage} />;
+      case "spot-mode":
+        if (!player) return playerLoading;
+        return <SpotMode onNavigate={setCurrentPage} />;
+      case "verdict-mode":
+        if (!player) return playerLoading;
+        return <VerdictMode onNavigate={setCurrentPage} />;
+      case "confidence-mode":
+        if (!player) return playerLoading;
+        return <ConfidenceMode onNavigate={setCurrentPage} />;
+      case "timeattack-mode":
+        if (!player) return playerLoading;
+        return <TimeAttackMode onNavigate={setCurrentPage} />;
+      case "practice-mode":
+        if (!player) return playerLoading;
+        return <PracticeMode onNavigate={setCurrentPage} />;
+      case "account":
+        return (
+          <AuthPanel
+            player={player}
+            onAuthenticated={handleAuthenticated}
+            onNavigate={setCurrentPage}
+          />
+        );
       case "leaderboard":
         return <Leaderboard onNavigate={setCurrentPage} />;
       case "admin":
         return <AdminPanelNew onNavigate={setCurrentPage} />;
       default:
-        return <LandingPage onNavigate={setCurrentPage} />;
+        return (
+          <LandingPage
+            onNavigate={setCurrentPage}
+            player={player}
+            onLogout={handleLogout}
+          />
+        );
     }
   };
 
@@ -35,6 +125,7 @@ const App: React.FC = () => {
     <Router>
       <Routes>
         <Route path="/admin" element={ <div className="app"><AdminPanelNew onNavigate={setCurrentPage} /></div>} />
+        <Route path="/share/:shareId" element={<div className="app"><SharePage /></div>} />
 
         <Route
           path="*"
@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@progress/kendo-react-buttons';
+import { Grid, GridColumn } from '@progress/kendo-react-grid';
+import { adminApi } from '../services/adminApi';
+import type { AuditLogEntry, AuditLogPage } from '../types/admin';
+
+const PAGE_SIZE = 50;
+
+interface AuditFilters {
+  actor: string;
+  operation: string;
+  level: 'all' | 'info' | 'warn' | 'error';
+  from: string;
+  to: string;
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '0.4rem',
+  borderRadius: '4px',
+  border: '1px solid #ccc'
+};
+
+// Audit log tab of the admin panel: filterable list of admin operations,
+// with the recorded changes of the selected entry
+const AdminAuditLog: React.FC = () => {
+  const [filters, setFilters] = useState<AuditFilters>({ actor: '', operation: '', level: 'all', from: '', to: '' });
+  const [page, setPage] = useState<AuditLogPage | null>(null);
+  const [offset, setOffset] = useState(0);
+  const [selected, setSelected] = useState<AuditLogEntry | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadLogs = useCallback(async (nextOffset: number) => {
+    const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(nextOffset), level: filters.level });
+    if (filters.actor) params.set('actor', filters.actor);
+    if (filters.operation) params.set('operation', filters.operation);
+    if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString());
+    if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString());
+
+    try {
+      const response = await adminApi.fetch(`/admin/logs?${params}`);
+      const result = await response.json();
+      if (!result.success) {
+        setError(result.error || 'Failed to load audit log');
+        return;
+      }
+      setPage(result.data);
+      setOffset(nextOffset);
+      setSelected(null);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    loadLogs(0);
+    // Filters are applied with the Search button, not on every keystroke
+  }, []);
+
+  const updateFilter = (field: keyof AuditFilters, value: string) => {
+    setFilters(current => ({ ...current, [field]: value }));
+  };
+
+  const total = page?.total || 0;
+
+  return (
+    <div style={{ padding: '1.5rem', height: '100%', overflow: 'auto' }}>
+      <h3 style={{ margin: '0 0 1rem 0', color: '#495057', fontSize: '1.2rem' }}>📜 Audit Log</h3>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.75rem', alignItems: 'flex-end', marginBottom: '1rem' }}>
+        <label>
+          <div style={{ fontSize: '0.8rem', color: '#6c757d' }}>Actor</div>
+          <input style={inputStyle} value={filters.actor} onChange={(e) => updateFilter('actor', e.target.value)} placeholder="username" />
+        </label>
+        <label>
+          <div style={{ fontSize: '0.8rem', color: '#6c757d' }}>Operation</div>
+          <input style={inputStyle} value={filters.operation} onChange={(e) => updateFilter('operation', e.target.value)} placeholder="e.g. delete-image" />
+        </label>
+        <label>
+          <div style={{ fontSize: '0.8rem', color: '#6c757d' }}>Level</div>
+          <select style={inputStyle} value={filters.level} onChange={(e) => updateFilter('level', e.target.value)}>
+            <option value="all">All</option>
+            <option value="info">Info</option>
+            <option value="warn">Warning</option>
+            <option value="error">Error</option>
+          </select>
+        </label>
+        <label>
+          <div style={{ fontSize: '0.8rem', color: '#6c757d' }}>From</div>
+          <input style={inputStyle} type="date" value={filters.from} onChange={(e) => updateFilter('from', e.target.value)} />
+        </label>
+        <label>
+          <div style={{ fontSize: '0.8rem', color: '#6c757d' }}>To</div>
+          <input style={inputStyle} type="date" value={filters.to} onChange={(e) => updateFilter('to', e.target.value)} />
+        </label>
+        <Button themeColor="primary" onClick={() => loadLogs(0)}>🔍 Search</Button>
+      </div>
+
+      {error && <div style={{ color: '#dc3545', marginBottom: '1rem' }}>❌ {error}</div>}
+
+      <Grid
+        data={(page?.logs || []).map(entry => ({
+          id: entry.audit_id,
+          time: new Date(entry.timestamp).toLocaleString(),
+          actor: entry.actor_username ? `${entry.actor_username}${entry.actor_via === 'api-token' ? ' (token)' : ''}` : '—',
+          operation: entry.operation,
+          level: entry.level,
+          result: `${entry.result === 'success' ? '✅' : '❌'} ${entry.status_code}`,
+          targets: entry.target_ids.length > 1 ? `${entry.target_ids.length} records` : entry.target_ids[0] || '',
+          ip: entry.ip || ''
+        }))}
+        style={{ height: '360px' }}
+        scrollable="scrollable"
+        onRowClick={(e) => setSelected(page?.logs.find(entry => entry.audit_id === e.dataItem.id) || null)}
+      >
+        <GridColumn field="time" title="Time" width="170px" />
+        <GridColumn field="actor" title="Actor" width="130px" />
+        <GridColumn field="operation" title="Operation" width="170px" />
+        <GridColumn field="level" title="Level" width="70px" />
+        <GridColumn field="result" title="Result" width="80px" />
+        <GridColumn field="targets" title="Target" width="280px" />
+        <GridColumn field="ip" title="IP" width="120px" />
+      </Grid>
+
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', margin: '0.75rem 0' }}>
+        <span style={{ color: '#6c757d', fontSize: '0.9rem' }}>
+          {total === 0 ? 'No entries' : `${offset + 1}–${Math.min(offset + PAGE_SIZE, total)} of ${total}`}
+        </span>
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          <Button size="small" disabled={offset === 0} onClick={() => loadLogs(Math.max(0, offset - PAGE_SIZE))}>
+            ← Newer
+          </Button>
+          <Button size="small" disabled={offset + PAGE_SIZE >= total} onClick={() => loadLogs(offset + PAGE_SIZE)}>
+            Older →
+          </Button>
+        </div>
+      </div>
+
+      {selected && (
+        <div style={{ background: '#f8f9fa', border: '1px solid #e9ecef', borderRadius: '8px', padding: '1rem' }}>
+          <h4 style={{ margin: '0 0 0.5rem 0' }}>
+            {selected.operation} · {selected.method} {selected.path}
+          </h4>
+          {selected.error && <p style={{ color: '#dc3545', margin: '0 0 0.5rem 0' }}>{selected.error}</p>}
+          <pre style={{ margin: 0, fontSize: '0.8rem', whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+            {JSON.stringify(
+              {
+                request_id: selected.request_id,
+                target_ids: selected.target_ids,
+                changes: selected.changes,
+                before: selected.changes ? undefined : selected.before,
+                after: selected.changes ? undefined : selected.after,
+                details: selected.details
+              },
+              null,
+              2
+            )}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminAuditLog;
@@ -0,0 +1,246 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@progress/kendo-react-buttons';
+import { adminApi } from '../services/adminApi';
+import type {
+  DailyCalendar,
+  DailyCalendarDay,
+  DailyChallengeCategory,
+  DailyChallengeTemplate,
+  DailyScheduleResult
+} from '../types/admin';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface ScheduleForm {
+  start_date: string;
+  end_date: string;
+  category: DailyChallengeCategory | 'rotate';
+  difficulty: string; // 'ramp' or 1-5
+  points: string; // empty for the generator's default
+}
+
+interface AdminDailyCalendarProps {
+  canWrite: boolean;
+  onScheduled: () => void;
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '0.4rem',
+  borderRadius: '4px',
+  border: '1px solid #ccc'
+};
+
+const toDateString = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const addDays = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return toDateString(new Date(year, month - 1, day + days));
+};
+
+// Calendar tab of the admin panel: a month of daily challenges with pair
+// shortage warnings, plus bulk scheduling and gap filling
+const AdminDailyCalendar: React.FC<AdminDailyCalendarProps> = ({ canWrite, onScheduled }) => {
+  const today = toDateString(new Date());
+  const [month, setMonth] = useState(() => today.slice(0, 7) + '-01');
+  const [calendar, setCalendar] = useState<DailyCalendar | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [generateDays, setGenerateDays] = useState('14');
+  const [form, setForm] = useState<ScheduleForm>({
+    start_date: today,
+    end_date: addDays(today, 6),
+    category: 'rotate',
+    difficulty: 'ramp',
+    points: ''
+  });
+
+  const loadCalendar = useCallback(async () => {
+    const [year, monthIndex] = month.split('-').map(Number);
+    const endDate = toDateString(new Date(year, monthIndex, 0));
+
+    try {
+      const response = await adminApi.fetch(`/admin/daily-challenges/calendar?start_date=${month}&end_date=${endDate}`);
+      const result = await response.json();
+      if (!result.success) {
+        setStatus(`❌ ${result.error || 'Failed to load calendar'}`);
+        return;
+      }
+      setCalendar(result.data);
+    } catch (err: any) {
+      setStatus(`❌ ${err.message}`);
+    }
+  }, [month]);
+
+  useEffect(() => {
+    loadCalendar();
+  }, [loadCalendar]);
+
+  const changeMonth = (delta: number) => {
+    const [year, monthIndex] = month.split('-').map(Number);
+    setMonth(toDateString(new Date(year, monthIndex - 1 + delta, 1)));
+  };
+
+  const submit = async (endpoint: string, body: object) => {
+    try {
+      const response = await adminApi.fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const result = await response.json();
+      if (!result.success) {
+        setStatus(`❌ ${result.error || 'Scheduling failed'}`);
+        return;
+      }
+
+      const { created, skipped_dates } = result.data as DailyScheduleResult;
+      setStatus(`✅ Created ${created.length} challenges${skipped_dates.length > 0 ? `, skipped ${skipped_dates.length} dates that already had one` : ''}`);
+      loadCalendar();
+      onScheduled();
+    } catch (err: any) {
+      setStatus(`❌ ${err.message}`);
+    }
+  };
+
+  const handleGenerate = () => {
+    submit('/admin/daily-challenges/generate', { start_date: today, days: parseInt(generateDays) || 14 });
+  };
+
+  const handleSchedule = () => {
+    const template: DailyChallengeTemplate = {};
+    if (form.category !== 'rotate') template.category = form.category;
+    if (form.difficulty !== 'ramp') template.difficulty_level = parseInt(form.difficulty);
+    if (form.points) template.points_reward = parseInt(form.points);
+
+    submit('/admin/daily-challenges/schedule', {
+      start_date: form.start_date,
+      end_date: form.end_date,
+      templates: [template]
+    });
+  };
+
+  const updateForm = (field: keyof ScheduleForm, value: string) => {
+    setForm(current => ({ ...current, [field]: value }));
+  };
+
+  const renderDay = (day: DailyCalendarDay) => {
+    const { challenge } = day;
+    const hasWarnings = day.warnings.length > 0;
+
+    return (
+      <div
+        key={day.date}
+        title={day.warnings.join('\n')}
+        style={{
+          minHeight: '110px',
+          padding: '0.5rem',
+          borderRadius: '6px',
+          border: `1px solid ${hasWarnings ? '#ffc107' : '#e9ecef'}`,
+          background: day.date === today ? '#e7f1ff' : day.date < today ? '#f8f9fa' : 'white',
+          fontSize: '0.8rem'
+        }}
+      >
+        <div style={{ display: 'flex', justifyContent: 'space-between', fontWeight: 'bold', marginBottom: '0.25rem' }}>
+          <span>{Number(day.date.slice(8))}</span>
+          {day.pair_set_source && <span title={`Pairs frozen (${day.pair_set_source})`}>🔒</span>}
+        </div>
+        {challenge ? (
+          <>
+            <div style={{ color: '#495057', marginBottom: '0.25rem' }}>{challenge.title}</div>
+            <div style={{ color: '#6c757d' }}>
+              {challenge.category || 'any'} · {challenge.difficulty_level}/5 · {challenge.points_reward} pts
+            </div>
+            <div style={{ color: '#6c757d' }}>
+              {challenge.pair_ids?.length ? '🧩 curated' : `${day.eligible_pairs} eligible pairs`}
+            </div>
+          </>
+        ) : (
+          <div style={{ color: '#adb5bd' }}>No challenge</div>
+        )}
+        {day.warnings.map(warning => (
+          <div key={warning} style={{ color: '#b58100', marginTop: '0.25rem' }}>⚠️ {warning}</div>
+        ))}
+      </div>
+    );
+  };
+
+  const [year, monthIndex] = month.split('-').map(Number);
+  const leadingBlanks = new Date(year, monthIndex - 1, 1).getDay();
+  const monthLabel = new Date(year, monthIndex - 1, 1).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+  const upcomingWarnings = (calendar?.days || []).filter(day => day.warnings.length > 0 && day.date >= today).length;
+
+  return (
+    <div style={{ padding: '1.5rem', height: '100%', overflow: 'auto' }}>
+      <h3 style={{ margin: '0 0 1rem 0', color: '#495057', fontSize: '1.2rem' }}>📆 Daily Challenge Calendar</h3>
+
+      {canWrite && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1.5rem', marginBottom: '1rem' }}>
+          <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'flex-end' }}>
+            <label>
+              <div style={{ fontSize: '0.8rem', color: '#6c757d' }}>Days ahead</div>
+              <input style={{ ...inputStyle, width: '5rem' }} type="number" min="1" max="92" value={generateDays} onChange={(e) => setGenerateDays(e.target.value)} />
+            </label>
+            <Button themeColor="primary" onClick={handleGenerate}>✨ Fill Gaps</Button>
+          </div>
+
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', alignItems: 'flex-end' }}>
+            <label>
+              <div style={{ fontSize: '0.8rem', color: '#6c757d' }}>From</div>
+              <input style={inputStyle} type="date" value={form.start_date} onChange={(e) => updateForm('start_date', e.target.value)} />
+            </label>
+            <label>
+              <div style={{ fontSize: '0.8rem', color: '#6c757d' }}>To</div>
+              <input style={inputStyle} type="date" value={form.end_date} onChange={(e) => updateForm('end_date', e.target.value)} />
+            </label>
+            <label>
+              <div style={{ fontSize: '0.8rem', color: '#6c757d' }}>Category</div>
+              <select style={inputStyle} value={form.category} onChange={(e) => updateForm('category', e.target.value)}>
+                <option value="rotate">Rotate</option>
+                <option value="any">Any Category</option>
+                <option value="portrait">Portrait</option>
+                <option value="landscape">Landscape</option>
+                <option value="object">Object</option>
+                <option value="abstract">Abstract</option>
+              </select>
+            </label>
+            <label>
+              <div style={{ fontSize: '0.8rem', color: '#6c757d' }}>Difficulty</div>
+              <select style={inputStyle} value={form.difficulty} onChange={(e) => updateForm('difficulty', e.target.value)}>
+                <option value="ramp">Ramp through the week</option>
+                {[1, 2, 3, 4, 5].map(level => (
+                  <option key={level} value={level}>{level}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              <div style={{ fontSize: '0.8rem', color: '#6c757d' }}>Points</div>
+              <input style={{ ...inputStyle, width: '5rem' }} type="number" min="50" max="1000" placeholder="auto" value={form.points} onChange={(e) => updateForm('points', e.target.value)} />
+            </label>
+            <Button onClick={handleSchedule}>📅 Schedule Range</Button>
+          </div>
+        </div>
+      )}
+
+      {status && <div style={{ marginBottom: '1rem' }}>{status}</div>}
+
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.75rem' }}>
+        <Button size="small" onClick={() => changeMonth(-1)}>← Previous</Button>
+        <strong>
+          {monthLabel}
+          {upcomingWarnings > 0 && <span style={{ color: '#b58100', marginLeft: '0.5rem' }}>⚠️ {upcomingWarnings} upcoming days need attention</span>}
+        </strong>
+        <Button size="small" onClick={() => changeMonth(1)}>Next →</Button>
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(7, minmax(0, 1fr))', gap: '0.5rem' }}>
+        {WEEKDAYS.map(weekday => (
+          <div key={weekday} style={{ textAlign: 'center', fontWeight: 'bold', color: '#6c757d' }}>{weekday}</div>
+        ))}
+        {Array.from({ length: leadingBlanks }, (_, index) => <div key={`blank-${index}`} />)}
+        {(calendar?.days || []).map(renderDay)}
+      </div>
+    </div>
+  );
+};
+
+export default AdminDailyCalendar;
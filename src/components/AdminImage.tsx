@@ -0,0 +1,35 @@
+import React, { useState, useEffect } from 'react';
+import { adminApi } from '../services/adminApi';
+
+interface AdminImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> {
+  imageId: string;
+}
+
+// A catalog image in the admin panel. Image files need the admin session,
+// which an <img> can't send, so the file is fetched and shown from a blob.
+const AdminImage: React.FC<AdminImageProps> = ({ imageId, ...imageProps }) => {
+  const [src, setSrc] = useState<string | undefined>();
+
+  useEffect(() => {
+    let objectUrl: string | undefined;
+    let cancelled = false;
+
+    adminApi.fetch(`/images/${imageId}/file`)
+      .then(response => (response.ok ? response.blob() : null))
+      .then(blob => {
+        if (!blob || cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setSrc(objectUrl);
+      })
+      .catch(error => console.error('Failed to load image:', error));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [imageId]);
+
+  return <img {...imageProps} src={src} />;
+};
+
+export default AdminImage;
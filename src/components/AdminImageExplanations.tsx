@@ -0,0 +1,312 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Button } from '@progress/kendo-react-buttons';
+import { adminApi } from '../services/adminApi';
+import AdminImage from './AdminImage';
+import type { ImageAnnotation } from '../types/game';
+
+interface AdminImageExplanationsProps {
+  canWrite: boolean;
+}
+
+interface ExplainedImage {
+  id: string;
+  filename: string;
+  category: string;
+  telltales?: string[];
+  annotations?: ImageAnnotation[];
+}
+
+const MAX_TELLTALES = 10;
+const MAX_ANNOTATIONS = 10;
+const SUGGESTED_TELLTALES = ['hands', 'text artifacts', 'lighting', 'faces', 'eyes', 'textures', 'background', 'reflections', 'symmetry'];
+
+// Boxes smaller than this (as a fraction of the image) are stray clicks
+const MIN_BOX_SIZE = 0.02;
+
+const clamp = (value: number): number => Math.min(1, Math.max(0, value));
+
+const isExplained = (image: ExplainedImage): boolean =>
+  (image.telltales?.length ?? 0) > 0 || (image.annotations?.length ?? 0) > 0;
+
+// Explanations tab of the admin panel: the telltale hints and boxed regions
+// practice mode shows after each round. Drag on the image to add a box.
+const AdminImageExplanations: React.FC<AdminImageExplanationsProps> = ({ canWrite }) => {
+  const [images, setImages] = useState<ExplainedImage[]>([]);
+  const [selected, setSelected] = useState<ExplainedImage | null>(null);
+  const [telltales, setTelltales] = useState<string[]>([]);
+  const [annotations, setAnnotations] = useState<ImageAnnotation[]>([]);
+  const [customTelltale, setCustomTelltale] = useState('');
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<ImageAnnotation | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const imageRef = useRef<HTMLDivElement>(null);
+
+  const loadImages = useCallback(async () => {
+    try {
+      const response = await adminApi.fetch('/images?is_ai_generated=true&limit=100');
+      const result = await response.json();
+      setImages(result.data || []);
+    } catch (err: any) {
+      setStatus(`❌ ${err.message}`);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadImages();
+  }, [loadImages]);
+
+  const selectImage = (image: ExplainedImage) => {
+    setSelected(image);
+    setTelltales(image.telltales ?? []);
+    setAnnotations(image.annotations ?? []);
+    setDraft(null);
+    setStatus(null);
+  };
+
+  const addTelltale = (telltale: string) => {
+    const trimmed = telltale.trim();
+    if (!trimmed || telltales.includes(trimmed) || telltales.length >= MAX_TELLTALES) return;
+    setTelltales([...telltales, trimmed]);
+  };
+
+  const toggleTelltale = (telltale: string) => {
+    if (telltales.includes(telltale)) {
+      setTelltales(telltales.filter(existing => existing !== telltale));
+    } else {
+      addTelltale(telltale);
+    }
+  };
+
+  // Pointer position as a fraction of the displayed image
+  const toFraction = (event: React.MouseEvent): { x: number; y: number } => {
+    const rect = imageRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((event.clientX - rect.left) / rect.width),
+      y: clamp((event.clientY - rect.top) / rect.height)
+    };
+  };
+
+  const handleMouseDown = (event: React.MouseEvent) => {
+    if (!canWrite || annotations.length >= MAX_ANNOTATIONS) return;
+    event.preventDefault();
+    setDragStart(toFraction(event));
+  };
+
+  const handleMouseMove = (event: React.MouseEvent) => {
+    if (!dragStart) return;
+    const point = toFraction(event);
+    setDraft({
+      x: Math.min(dragStart.x, point.x),
+      y: Math.min(dragStart.y, point.y),
+      width: Math.abs(point.x - dragStart.x),
+      height: Math.abs(point.y - dragStart.y)
+    });
+  };
+
+  const handleMouseUp = () => {
+    if (draft && draft.width >= MIN_BOX_SIZE && draft.height >= MIN_BOX_SIZE) {
+      setAnnotations([...annotations, draft]);
+    }
+    setDragStart(null);
+    setDraft(null);
+  };
+
+  const updateLabel = (index: number, label: string) => {
+    setAnnotations(annotations.map((box, boxIndex) =>
+      boxIndex === index ? { ...box, label: label || undefined } : box
+    ));
+  };
+
+  const handleSave = async () => {
+    if (!selected) return;
+
+    try {
+      const response = await adminApi.fetch(`/images/${selected.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          telltales,
+          annotations: annotations.map(box => ({ ...box, label: box.label?.trim() || undefined }))
+        })
+      });
+      const result = await response.json();
+      if (!result.success) {
+        setStatus(`❌ ${result.error || 'Failed to save explanation'}`);
+        return;
+      }
+      setStatus('✅ Explanation saved');
+      setSelected(result.data);
+      loadImages();
+    } catch (err: any) {
+      setStatus(`❌ ${err.message}`);
+    }
+  };
+
+  const renderBox = (box: ImageAnnotation, key: React.Key, label?: string) => (
+    <div
+      key={key}
+      style={{
+        position: 'absolute',
+        left: `${box.x * 100}%`,
+        top: `${box.y * 100}%`,
+        width: `${box.width * 100}%`,
+        height: `${box.height * 100}%`,
+        border: '2px solid #ff6b6b',
+        pointerEvents: 'none'
+      }}
+    >
+      {label && (
+        <span style={{ position: 'absolute', top: 0, left: 0, background: '#ff6b6b', color: 'white', fontSize: '0.7rem', padding: '0 0.3rem' }}>
+          {label}
+        </span>
+      )}
+    </div>
+  );
+
+  const explainedCount = images.filter(isExplained).length;
+
+  return (
+    <div style={{ padding: '1.5rem', height: '100%', overflow: 'auto' }}>
+      <h3 style={{ margin: '0 0 1rem 0', color: '#495057', fontSize: '1.2rem' }}>💡 Practice Explanations</h3>
+      <p style={{ color: '#6c757d', margin: '0 0 1rem 0' }}>
+        {explainedCount} of {images.length} AI images explained. Practice rounds use explained images first.
+      </p>
+
+      {status && <div style={{ marginBottom: '1rem' }}>{status}</div>}
+
+      <div style={{ display: 'flex', gap: '1.5rem', alignItems: 'flex-start', flexWrap: 'wrap' }}>
+        <div style={{ flex: '1 1 300px', display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(100px, 1fr))', gap: '0.5rem' }}>
+          {images.map(image => (
+            <div
+              key={image.id}
+              onClick={() => selectImage(image)}
+              title={image.filename}
+              style={{
+                cursor: 'pointer',
+                border: selected?.id === image.id ? '3px solid #667eea' : '3px solid transparent',
+                borderRadius: '8px',
+                overflow: 'hidden',
+                position: 'relative'
+              }}
+            >
+              <AdminImage
+                imageId={image.id}
+                alt={image.filename}
+                style={{ width: '100%', height: '80px', objectFit: 'cover', display: 'block' }}
+              />
+              {isExplained(image) && (
+                <span style={{
+                  position: 'absolute',
+                  top: '4px',
+                  left: '4px',
+                  background: '#28a745',
+                  color: 'white',
+                  fontSize: '0.7rem',
+                  padding: '0 0.3rem',
+                  borderRadius: '4px'
+                }}>
+                  ✓ Explained
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {selected && (
+          <div style={{ flex: '1 1 400px' }}>
+            <div
+              ref={imageRef}
+              onMouseDown={handleMouseDown}
+              onMouseMove={handleMouseMove}
+              onMouseUp={handleMouseUp}
+              onMouseLeave={handleMouseUp}
+              style={{ position: 'relative', cursor: canWrite ? 'crosshair' : 'default', userSelect: 'none' }}
+            >
+              <AdminImage
+                imageId={selected.id}
+                alt={selected.filename}
+                draggable={false}
+                style={{ width: '100%', height: 'auto', display: 'block', borderRadius: '8px' }}
+              />
+              {annotations.map((box, index) => renderBox(box, index, `${index + 1}`))}
+              {draft && renderBox(draft, 'draft')}
+            </div>
+
+            <h4 style={{ margin: '1rem 0 0.5rem 0' }}>Regions ({annotations.length}/{MAX_ANNOTATIONS})</h4>
+            {annotations.length === 0 && (
+              <div style={{ color: '#6c757d' }}>{canWrite ? 'Drag on the image to mark a region.' : 'No regions marked.'}</div>
+            )}
+            {annotations.map((box, index) => (
+              <div key={index} style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', marginBottom: '0.25rem' }}>
+                <span>{index + 1}.</span>
+                <input
+                  type="text"
+                  value={box.label ?? ''}
+                  placeholder="What to look at here"
+                  maxLength={100}
+                  disabled={!canWrite}
+                  onChange={e => updateLabel(index, e.target.value)}
+                  style={{ flex: 1 }}
+                />
+                {canWrite && (
+                  <Button size="small" onClick={() => setAnnotations(annotations.filter((_, boxIndex) => boxIndex !== index))}>
+                    Remove
+                  </Button>
+                )}
+              </div>
+            ))}
+
+            <h4 style={{ margin: '1rem 0 0.5rem 0' }}>Telltales ({telltales.length}/{MAX_TELLTALES})</h4>
+            <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', marginBottom: '0.5rem' }}>
+              {[...SUGGESTED_TELLTALES, ...telltales.filter(telltale => !SUGGESTED_TELLTALES.includes(telltale))].map(telltale => (
+                <Button
+                  key={telltale}
+                  size="small"
+                  themeColor={telltales.includes(telltale) ? 'primary' : 'base'}
+                  disabled={!canWrite}
+                  onClick={() => toggleTelltale(telltale)}
+                >
+                  {telltale}
+                </Button>
+              ))}
+            </div>
+            {canWrite && (
+              <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '1rem' }}>
+                <input
+                  type="text"
+                  value={customTelltale}
+                  placeholder="Another telltale"
+                  maxLength={50}
+                  onChange={e => setCustomTelltale(e.target.value)}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') {
+                      addTelltale(customTelltale);
+                      setCustomTelltale('');
+                    }
+                  }}
+                />
+                <Button
+                  size="small"
+                  onClick={() => {
+                    addTelltale(customTelltale);
+                    setCustomTelltale('');
+                  }}
+                >
+                  Add
+                </Button>
+              </div>
+            )}
+
+            {canWrite && (
+              <Button themeColor="primary" onClick={handleSave}>
+                Save Explanation
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminImageExplanations;
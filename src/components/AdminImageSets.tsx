@@ -0,0 +1,246 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@progress/kendo-react-buttons';
+import { adminApi } from '../services/adminApi';
+import AdminImage from './AdminImage';
+import type { ImageSet } from '../types/admin';
+
+interface AdminImageSetsProps {
+  canWrite: boolean;
+}
+
+interface SetImage {
+  id: string;
+  filename: string;
+  category: string;
+  is_ai_generated: boolean;
+}
+
+const MIN_SET_IMAGES = 3;
+const MAX_SET_IMAGES = 6;
+const CATEGORIES = ['portrait', 'landscape', 'object', 'abstract'];
+
+const cellStyle: React.CSSProperties = {
+  padding: '0.5rem',
+  borderBottom: '1px solid #e9ecef',
+  textAlign: 'left'
+};
+
+// Image Sets tab of the admin panel: build "Spot the Bot" rounds from 3 to 6
+// images and manage existing sets
+const AdminImageSets: React.FC<AdminImageSetsProps> = ({ canWrite }) => {
+  const [sets, setSets] = useState<ImageSet[]>([]);
+  const [images, setImages] = useState<SetImage[]>([]);
+  const [category, setCategory] = useState(CATEGORIES[0]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [target, setTarget] = useState<'ai' | 'real'>('ai');
+  const [status, setStatus] = useState<string | null>(null);
+
+  const loadSets = useCallback(async () => {
+    try {
+      const response = await adminApi.fetch('/pairs/sets');
+      const result = await response.json();
+      if (!result.success) {
+        setStatus(`❌ ${result.error || 'Failed to load image sets'}`);
+        return;
+      }
+      setSets(result.data);
+    } catch (err: any) {
+      setStatus(`❌ ${err.message}`);
+    }
+  }, []);
+
+  const loadImages = useCallback(async () => {
+    try {
+      const response = await adminApi.fetch(`/images?category=${category}&limit=100`);
+      const result = await response.json();
+      setImages(result.data || []);
+    } catch (err: any) {
+      setStatus(`❌ ${err.message}`);
+    }
+  }, [category]);
+
+  useEffect(() => {
+    loadSets();
+  }, [loadSets]);
+
+  useEffect(() => {
+    setSelectedIds([]);
+    loadImages();
+  }, [loadImages]);
+
+  const toggleImage = (id: string) => {
+    setSelectedIds(prev => {
+      if (prev.includes(id)) return prev.filter(selected => selected !== id);
+      return prev.length < MAX_SET_IMAGES ? [...prev, id] : prev;
+    });
+  };
+
+  const handleCreate = async () => {
+    try {
+      const response = await adminApi.fetch('/pairs/sets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ image_ids: selectedIds, target })
+      });
+      const result = await response.json();
+      if (!result.success) {
+        setStatus(`❌ ${result.error || 'Failed to create image set'}`);
+        return;
+      }
+      setStatus(`✅ ${result.message}`);
+      setSelectedIds([]);
+      loadSets();
+    } catch (err: any) {
+      setStatus(`❌ ${err.message}`);
+    }
+  };
+
+  const handleToggle = async (set: ImageSet) => {
+    try {
+      const response = await adminApi.fetch(`/pairs/sets/${set.set_id}/toggle-active`, { method: 'PATCH' });
+      const result = await response.json();
+      setStatus(result.success ? `✅ ${result.message}` : `❌ ${result.error || 'Failed to update image set'}`);
+      loadSets();
+    } catch (err: any) {
+      setStatus(`❌ ${err.message}`);
+    }
+  };
+
+  const handleDelete = async (set: ImageSet) => {
+    if (!window.confirm('Delete this image set?')) return;
+
+    try {
+      const response = await adminApi.fetch(`/pairs/sets/${set.set_id}`, { method: 'DELETE' });
+      const result = await response.json();
+      setStatus(result.success ? `✅ ${result.message}` : `❌ ${result.error || 'Failed to delete image set'}`);
+      loadSets();
+    } catch (err: any) {
+      setStatus(`❌ ${err.message}`);
+    }
+  };
+
+  const selectedImages = images.filter(image => selectedIds.includes(image.id));
+  const realCount = selectedImages.filter(image => !image.is_ai_generated).length;
+  const aiCount = selectedImages.length - realCount;
+  const canCreate = selectedIds.length >= MIN_SET_IMAGES &&
+    aiCount > 0 &&
+    realCount > 0 &&
+    (target === 'ai' || realCount === 1);
+
+  return (
+    <div style={{ padding: '1.5rem', height: '100%', overflow: 'auto' }}>
+      <h3 style={{ margin: '0 0 1rem 0', color: '#495057', fontSize: '1.2rem' }}>🔍 Spot the Bot Image Sets</h3>
+
+      {status && <div style={{ marginBottom: '1rem' }}>{status}</div>}
+
+      {canWrite && (
+        <div style={{ marginBottom: '1.5rem' }}>
+          <div style={{ display: 'flex', gap: '1rem', alignItems: 'center', marginBottom: '0.75rem', flexWrap: 'wrap' }}>
+            <label>
+              Category:{' '}
+              <select value={category} onChange={e => setCategory(e.target.value)}>
+                {CATEGORIES.map(option => <option key={option} value={option}>{option}</option>)}
+              </select>
+            </label>
+            <label>
+              Players pick:{' '}
+              <select value={target} onChange={e => setTarget(e.target.value as 'ai' | 'real')}>
+                <option value="ai">every AI image</option>
+                <option value="real">the one real image</option>
+              </select>
+            </label>
+            <span style={{ color: '#6c757d' }}>
+              {selectedIds.length} selected ({aiCount} AI, {realCount} real), {MIN_SET_IMAGES} to {MAX_SET_IMAGES} needed
+            </span>
+            <Button themeColor="primary" disabled={!canCreate} onClick={handleCreate}>
+              Create Set
+            </Button>
+          </div>
+
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(120px, 1fr))', gap: '0.5rem' }}>
+            {images.map(image => (
+              <div
+                key={image.id}
+                onClick={() => toggleImage(image.id)}
+                title={image.filename}
+                style={{
+                  cursor: 'pointer',
+                  border: selectedIds.includes(image.id) ? '3px solid #667eea' : '3px solid transparent',
+                  borderRadius: '8px',
+                  overflow: 'hidden',
+                  position: 'relative'
+                }}
+              >
+                <AdminImage
+                  imageId={image.id}
+                  alt={image.filename}
+                  style={{ width: '100%', height: '90px', objectFit: 'cover', display: 'block' }}
+                />
+                <span style={{
+                  position: 'absolute',
+                  top: '4px',
+                  left: '4px',
+                  background: image.is_ai_generated ? '#dc3545' : '#28a745',
+                  color: 'white',
+                  fontSize: '0.7rem',
+                  padding: '0 0.3rem',
+                  borderRadius: '4px'
+                }}>
+                  {image.is_ai_generated ? 'AI' : 'Real'}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {sets.length === 0 ? (
+        <div style={{ color: '#6c757d' }}>No image sets yet.</div>
+      ) : (
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9rem' }}>
+          <thead>
+            <tr>
+              <th style={cellStyle}>Set</th>
+              <th style={cellStyle}>Category</th>
+              <th style={cellStyle}>Images</th>
+              <th style={cellStyle}>Pick</th>
+              <th style={cellStyle}>Difficulty</th>
+              <th style={cellStyle}>Played</th>
+              <th style={cellStyle}>Perfect</th>
+              <th style={cellStyle}>Avg. Credit</th>
+              {canWrite && <th style={cellStyle}>Actions</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {sets.map(set => (
+              <tr key={set.set_id}>
+                <td style={cellStyle} title={set.set_id}>
+                  {set.set_id.slice(0, 8)}{!set.is_active && ' (inactive)'}
+                </td>
+                <td style={cellStyle}>{set.category}</td>
+                <td style={cellStyle}>{set.image_ids.length} ({set.ai_image_ids.length} AI)</td>
+                <td style={cellStyle}>{set.target === 'ai' ? 'AI images' : 'Real image'}</td>
+                <td style={cellStyle}>{set.difficulty_level}</td>
+                <td style={cellStyle}>{set.total_attempts}</td>
+                <td style={cellStyle}>{set.success_rate}%</td>
+                <td style={cellStyle}>{set.average_credit}%</td>
+                {canWrite && (
+                  <td style={cellStyle}>
+                    <Button size="small" onClick={() => handleToggle(set)}>
+                      {set.is_active ? 'Deactivate' : 'Activate'}
+                    </Button>{' '}
+                    <Button size="small" themeColor="error" onClick={() => handleDelete(set)}>
+                      Delete
+                    </Button>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default AdminImageSets;
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Button } from '@progress/kendo-react-buttons';
+import { Card, CardHeader, CardTitle, CardBody } from '@progress/kendo-react-layout';
+import { Input } from '@progress/kendo-react-inputs';
+import { adminApi } from '../services/adminApi';
+import type { AdminPrincipal } from '../types/admin';
+
+interface AdminLoginProps {
+  onAuthenticated: (admin: AdminPrincipal) => void;
+  onBack: () => void;
+}
+
+const AdminLogin: React.FC<AdminLoginProps> = ({ onAuthenticated, onBack }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      onAuthenticated(await adminApi.login(username, password));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="auth-panel">
+      <Card>
+        <CardHeader>
+          <CardTitle>⚙️ Admin Login</CardTitle>
+        </CardHeader>
+        <CardBody>
+          <form onSubmit={handleSubmit} className="auth-form">
+            <label htmlFor="admin-username">Username</label>
+            <Input
+              id="admin-username"
+              value={username}
+              autoComplete="username"
+              onChange={(e) => setUsername(e.value)}
+              required
+            />
+
+            <label htmlFor="admin-password">Password</label>
+            <Input
+              id="admin-password"
+              type="password"
+              value={password}
+              autoComplete="current-password"
+              onChange={(e) => setPassword(e.value)}
+              required
+            />
+
+            {error && <div className="auth-error">{error}</div>}
+
+            <Button
+              type="submit"
+              themeColor="primary"
+              disabled={isSubmitting || !username || !password}
+            >
+              {isSubmitting ? 'Please wait...' : 'Log In'}
+            </Button>
+          </form>
+
+          <div className="auth-actions">
+            <Button fillMode="flat" onClick={onBack}>
+              Back to Home
+            </Button>
+          </div>
+        </CardBody>
+      </Card>
+    </div>
+  );
+};
+
+export default AdminLogin;
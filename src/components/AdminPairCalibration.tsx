@@ -0,0 +1,151 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@progress/kendo-react-buttons';
+import { adminApi } from '../services/adminApi';
+import type { CalibratedPair, PairCalibrationReport, PairCalibrationRun } from '../types/admin';
+
+interface AdminPairCalibrationProps {
+  canWrite: boolean;
+}
+
+const cellStyle: React.CSSProperties = {
+  padding: '0.5rem',
+  borderBottom: '1px solid #e9ecef',
+  textAlign: 'left'
+};
+
+// Calibration tab of the admin panel: pairs whose difficulty measured from
+// play data disagrees with their manual level, to accept or dismiss
+const AdminPairCalibration: React.FC<AdminPairCalibrationProps> = ({ canWrite }) => {
+  const [report, setReport] = useState<PairCalibrationReport | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const loadReport = useCallback(async () => {
+    try {
+      const response = await adminApi.fetch('/pairs/calibration');
+      const result = await response.json();
+      if (!result.success) {
+        setStatus(`❌ ${result.error || 'Failed to load calibration report'}`);
+        return;
+      }
+      setReport(result.data);
+    } catch (err: any) {
+      setStatus(`❌ ${err.message}`);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const handleRun = async () => {
+    setRunning(true);
+    try {
+      const response = await adminApi.fetch('/pairs/calibration/run', { method: 'POST' });
+      const result = await response.json();
+      if (!result.success) {
+        setStatus(`❌ ${result.error || 'Calibration failed'}`);
+        return;
+      }
+
+      const run = result.data as PairCalibrationRun;
+      setStatus(
+        `✅ Calibrated ${run.calibrated} pairs from ${run.rounds} rounds by ${run.players} players` +
+        (run.skipped > 0 ? `; ${run.skipped} pairs need more plays` : '') +
+        (run.converged ? '' : ' (did not converge)')
+      );
+      loadReport();
+    } catch (err: any) {
+      setStatus(`❌ ${err.message}`);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleReview = async (pair: CalibratedPair, action: 'accept' | 'dismiss') => {
+    try {
+      const response = await adminApi.fetch(`/pairs/${pair.pair_id}/calibration/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action })
+      });
+      const result = await response.json();
+      if (!result.success) {
+        setStatus(`❌ ${result.error || 'Review failed'}`);
+        return;
+      }
+      setStatus(`✅ ${result.message}`);
+      loadReport();
+    } catch (err: any) {
+      setStatus(`❌ ${err.message}`);
+    }
+  };
+
+  return (
+    <div style={{ padding: '1.5rem', height: '100%', overflow: 'auto' }}>
+      <h3 style={{ margin: '0 0 1rem 0', color: '#495057', fontSize: '1.2rem' }}>🧪 Difficulty Calibration</h3>
+
+      {report && (
+        <p style={{ color: '#6c757d', marginTop: 0 }}>
+          {report.calibrated_pairs} pairs calibrated, {report.uncalibrated_pairs} not yet.
+          {' '}Last run: {report.last_calibrated_at ? new Date(report.last_calibrated_at).toLocaleString() : 'never'}.
+          {' '}Pair selection uses the <strong>{report.difficulty_source}</strong> difficulty.
+        </p>
+      )}
+
+      {canWrite && (
+        <Button themeColor="primary" disabled={running} onClick={handleRun} style={{ marginBottom: '1rem' }}>
+          {running ? 'Calibrating...' : '🧪 Run Calibration'}
+        </Button>
+      )}
+
+      {status && <div style={{ marginBottom: '1rem' }}>{status}</div>}
+
+      {report && report.flagged.length === 0 ? (
+        <div style={{ color: '#6c757d' }}>No pairs need review.</div>
+      ) : (
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9rem' }}>
+          <thead>
+            <tr>
+              <th style={cellStyle}>Pair</th>
+              <th style={cellStyle}>Category</th>
+              <th style={cellStyle}>Manual</th>
+              <th style={cellStyle}>Calibrated</th>
+              <th style={cellStyle}>Attempts</th>
+              <th style={cellStyle}>Success</th>
+              {canWrite && <th style={cellStyle}>Review</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {(report?.flagged || []).map(pair => (
+              <tr key={pair.pair_id}>
+                <td style={cellStyle} title={pair.pair_id}>
+                  {pair.pair_id.slice(0, 8)}{!pair.is_active && ' (inactive)'}
+                </td>
+                <td style={cellStyle}>{pair.category}</td>
+                <td style={cellStyle}>{pair.difficulty_level}</td>
+                <td style={cellStyle}>
+                  {pair.calibration?.difficulty} <span style={{ color: '#6c757d' }}>± {pair.calibration?.standard_error}</span>
+                </td>
+                <td style={cellStyle}>{pair.calibration?.attempts}</td>
+                <td style={cellStyle}>{pair.success_rate}%</td>
+                {canWrite && (
+                  <td style={cellStyle}>
+                    <Button size="small" themeColor="primary" onClick={() => handleReview(pair, 'accept')}>
+                      Use {Math.round(pair.calibration?.difficulty || pair.difficulty_level)}
+                    </Button>{' '}
+                    <Button size="small" onClick={() => handleReview(pair, 'dismiss')}>
+                      Keep {pair.difficulty_level}
+                    </Button>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default AdminPairCalibration;
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Button } from '@progress/kendo-react-buttons';
+import { Card, CardHeader, CardTitle, CardBody } from '@progress/kendo-react-layout';
+import { Input } from '@progress/kendo-react-inputs';
+import { apiService } from '../services/api';
+import type { Player } from '../types/game';
+
+interface AuthPanelProps {
+  player: Player | null;
+  onAuthenticated: (player: Player) => void;
+  onNavigate: (page: 'home' | 'daily-mode' | 'streak-mode' | 'leaderboard' | 'admin') => void;
+}
+
+// Login / registration form. For a guest both paths go through the upgrade
+// endpoint so the games played as a guest carry over to the account.
+const AuthPanel: React.FC<AuthPanelProps> = ({ player, onAuthenticated, onNavigate }) => {
+  const isGuest = !!player?.is_guest;
+  const [mode, setMode] = useState<'login' | 'register'>(isGuest ? 'register' : 'login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      let authenticated: Player;
+      if (isGuest) {
+        authenticated = await apiService.upgradeGuest(username, password, mode === 'login');
+      } else if (mode === 'login') {
+        authenticated = await apiService.login(username, password);
+      } else {
+        authenticated = await apiService.register(username, password);
+      }
+      onAuthenticated(authenticated);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const toggleMode = () => {
+    setMode(mode === 'login' ? 'register' : 'login');
+    setError(null);
+  };
+
+  return (
+    <div className="auth-panel">
+      <Card>
+        <CardHeader>
+          <CardTitle>{mode === 'login' ? 'Log in' : 'Create an account'}</CardTitle>
+        </CardHeader>
+        <CardBody>
+          {isGuest && (
+            <p className="auth-hint">
+              Your games as {player?.display_name} will be kept in the account.
+            </p>
+          )}
+
+          <form onSubmit={handleSubmit} className="auth-form">
+            <label htmlFor="auth-username">Username</label>
+            <Input
+              id="auth-username"
+              value={username}
+              autoComplete="username"
+              onChange={(e) => setUsername(e.value)}
+              required
+            />
+
+            <label htmlFor="auth-password">Password</label>
+            <Input
+              id="auth-password"
+              type="password"
+              value={password}
+              autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+              onChange={(e) => setPassword(e.value)}
+              required
+            />
+
+            {error && <div className="auth-error">{error}</div>}
+
+            <Button
+              type="submit"
+              themeColor="primary"
+              disabled={isSubmitting || !username || !password}
+            >
+              {isSubmitting ? 'Please wait...' : mode === 'login' ? 'Log In' : 'Register'}
+            </Button>
+          </form>
+
+          <div className="auth-actions">
+            <Button fillMode="flat" onClick={toggleMode}>
+              {mode === 'login' ? 'New here? Create an account' : 'Already registered? Log in'}
+            </Button>
+            <Button fillMode="flat" onClick={() => onNavigate('home')}>
+              Back to Home
+            </Button>
+          </div>
+        </CardBody>
+      </Card>
+    </div>
+  );
+};
+
+export default AuthPanel;
@@ -0,0 +1,325 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@progress/kendo-react-buttons';
+import { Card, CardHeader, CardTitle, CardBody } from '@progress/kendo-react-layout';
+import { ProgressBar } from '@progress/kendo-react-progressbars';
+import { useGameSession } from '../hooks/useGameSession';
+import { apiService } from '../services/api';
+import type { GameResult, ImagePosition, PlayerCalibration } from '../types/game';
+
+// A confidence game is always this many rounds
+const CONFIDENCE_ROUNDS = 10;
+
+const CONFIDENCE_LEVELS = [50, 60, 70, 80, 90, 100];
+
+interface ConfidenceModeProps {
+  onNavigate: (page: 'home' | 'leaderboard') => void;
+}
+
+// Pick the AI image, then say how sure you are. Points follow the Brier
+// score, so being honest about a guess pays better than bluffing.
+const ConfidenceMode: React.FC<ConfidenceModeProps> = ({ onNavigate }) => {
+  const { gameState, startGame, submitChoice, getNextRound, clearError } = useGameSession();
+  const [timeRemaining, setTimeRemaining] = useState(30);
+  const [selectedImage, setSelectedImage] = useState<ImagePosition | null>(null);
+  // Only known once the server has graded the round
+  const [result, setResult] = useState<GameResult | null>(null);
+  const [roundStartTime, setRoundStartTime] = useState<number>(0);
+  const [calibration, setCalibration] = useState<PlayerCalibration | null>(null);
+  const round = gameState.currentRound;
+
+  useEffect(() => {
+    let timer: number;
+    if (gameState.gameStarted && !gameState.gameCompleted && timeRemaining > 0 && !result) {
+      timer = window.setTimeout(() => {
+        setTimeRemaining(prev => prev - 1);
+      }, 1000);
+    } else if (timeRemaining === 0 && gameState.gameStarted && !result) {
+      handleSubmit(null);
+    }
+    return () => clearTimeout(timer);
+  }, [timeRemaining, gameState.gameStarted, gameState.gameCompleted, result]);
+
+  // The curve covers every round the player has answered with a confidence
+  useEffect(() => {
+    const playerId = gameState.session?.player_id;
+    if (!gameState.gameCompleted || !playerId) return;
+
+    apiService.getPlayerStats(playerId)
+      .then(stats => setCalibration(stats.calibration))
+      .catch(error => console.error('Failed to load calibration:', error));
+  }, [gameState.gameCompleted, gameState.session?.player_id]);
+
+  const beginRound = (timeRemainingMs: number) => {
+    setTimeRemaining(Math.ceil(timeRemainingMs / 1000));
+    setSelectedImage(null);
+    setResult(null);
+    setRoundStartTime(Date.now());
+  };
+
+  const handleStartGame = async () => {
+    try {
+      clearError();
+      setCalibration(null);
+      const { firstRound } = await startGame('confidence');
+      beginRound(firstRound.time_remaining_ms);
+    } catch (error: any) {
+      console.error('Failed to start game:', error);
+    }
+  };
+
+  // A null choice tells the server the timer ran out
+  const handleSubmit = async (confidence: number | null) => {
+    if (result || !round) return;
+
+    try {
+      setResult(await submitChoice(
+        confidence === null ? null : selectedImage,
+        Date.now() - roundStartTime,
+        confidence ?? undefined
+      ));
+    } catch (error: any) {
+      console.error('Failed to submit choice:', error);
+    }
+  };
+
+  const nextRound = async () => {
+    try {
+      const next = await getNextRound();
+      if (next) {
+        beginRound(next.time_remaining_ms);
+      }
+    } catch (error: any) {
+      console.error('Failed to get next round:', error);
+    }
+  };
+
+  const renderImage = (position: ImagePosition, label: string) => (
+    <div
+      className={`image-option ${selectedImage === position ? 'selected' : ''} ${result ? (result.ai_position === position ? 'ai-revealed' : 'real-revealed') : ''}`}
+      onClick={() => !result && setSelectedImage(position)}
+    >
+      <div className="image-container">
+        <img
+          src={apiService.getRoundImageUrl(round!.session_id, round!.round_token, position)}
+          alt={label}
+          className="game-image"
+        />
+        {result && (
+          <div className="image-reveal">
+            <span className={`reveal-badge ${result.ai_position === position ? 'ai-badge' : 'real-badge'}`}>
+              {result.ai_position === position ? '🤖 AI Generated' : '📷 Real Photo'}
+            </span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="daily-mode-page">
+      <div className="game-container">
+        <Button
+          fillMode="flat"
+          onClick={() => onNavigate('home')}
+          className="back-button"
+        >
+          🏠 Back to Home
+        </Button>
+
+        <div className="game-page-header">
+          <h1>🎯 <span className="gradient-text">How Sure Are You?</span></h1>
+          <p>Spot the AI image and say how confident you are</p>
+          {gameState.error && (
+            <div className="game-error">
+              Error: {gameState.error}
+              <button onClick={clearError}>
+                Dismiss
+              </button>
+            </div>
+          )}
+        </div>
+
+        {!gameState.gameStarted && !gameState.gameCompleted && (
+          <Card>
+            <CardBody>
+              <div className="game-intro">
+                <h2>🕵️ How to Play</h2>
+                <p>Pick the AI-generated image, then choose how sure you are, from 50% (a pure guess) to 100%.</p>
+
+                <div className="challenge-info">
+                  <div className="info-item">
+                    <span className="info-icon">🎮</span>
+                    <span>{CONFIDENCE_ROUNDS} rounds</span>
+                  </div>
+                  <div className="info-item">
+                    <span className="info-icon">⏱️</span>
+                    <span>30 seconds per round</span>
+                  </div>
+                  <div className="info-item">
+                    <span className="info-icon">⚖️</span>
+                    <span>Sure and right scores best, sure and wrong scores nothing: honest guesses pay</span>
+                  </div>
+                </div>
+
+                <div className="start-section">
+                  <Button
+                    themeColor="primary"
+                    size="large"
+                    onClick={handleStartGame}
+                    disabled={gameState.isLoading}
+                  >
+                    {gameState.isLoading ? 'Starting...' : 'Start Confidence Mode'}
+                  </Button>
+                </div>
+              </div>
+            </CardBody>
+          </Card>
+        )}
+
+        {gameState.gameStarted && !gameState.gameCompleted && round && (
+          <div className="game-active">
+            <Card>
+              <CardHeader>
+                <CardTitle>
+                  <div className="game-header">
+                    <span>Round {round.round_number} of {CONFIDENCE_ROUNDS}</span>
+                    <span className="timer">⏱️ {timeRemaining}s</span>
+                  </div>
+                </CardTitle>
+              </CardHeader>
+              <CardBody>
+                <div className="progress-section">
+                  <ProgressBar
+                    value={(gameState.roundsCompleted / CONFIDENCE_ROUNDS) * 100}
+                    labelVisible={false}
+                  />
+                  <div className="score-display">Score: {gameState.totalScore}</div>
+                </div>
+
+                <div className="round-content">
+                  <h3>Which image is AI-generated?</h3>
+
+                  <div className="image-selection">
+                    {renderImage('left', 'Image A')}
+                    <div className="vs-divider">VS</div>
+                    {renderImage('right', 'Image B')}
+                  </div>
+
+                  {!result && (
+                    <div className="confidence-picker">
+                      <p>{selectedImage ? 'How sure are you?' : 'Click the image you think was created by AI'}</p>
+                      <div className="confidence-levels">
+                        {CONFIDENCE_LEVELS.map(level => (
+                          <Button
+                            key={level}
+                            onClick={() => handleSubmit(level)}
+                            disabled={!selectedImage || gameState.isLoading}
+                          >
+                            {level}%
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {result && (
+                    <div className="round-result">
+                      <div className="round-score">
+                        {result.timed_out
+                          ? "⌛ Time's up!"
+                          : `${result.is_correct ? '✅ Correct' : '❌ Wrong'} at ${result.confidence}% sure · +${result.points_earned} points`}
+                      </div>
+                      {result.score_breakdown?.brier_score !== undefined && (
+                        <div className="round-score-breakdown">
+                          {result.score_breakdown.base} × (1 − {result.score_breakdown.brier_score} Brier score)
+                        </div>
+                      )}
+                      <Button
+                        themeColor="primary"
+                        onClick={nextRound}
+                        disabled={gameState.isLoading}
+                      >
+                        {round.round_number < CONFIDENCE_ROUNDS - 1 ? 'Next Round' : 'Last Round'}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </CardBody>
+            </Card>
+          </div>
+        )}
+
+        {gameState.gameCompleted && (
+          <Card>
+            <CardBody>
+              <div className="game-results">
+                <div className="final-score">
+                  <h2>🎯 Game Complete!</h2>
+                  <div className="score-display">
+                    <span className="score-label">Final Score</span>
+                    <span className="score-value">{gameState.totalScore}</span>
+                  </div>
+                  {gameState.final_stats && (
+                    <div className="accuracy-display">
+                      <span className="accuracy-label">Correct</span>
+                      <span className="accuracy-value">
+                        {gameState.final_stats.correct_answers}/{gameState.final_stats.total_rounds}
+                      </span>
+                    </div>
+                  )}
+                </div>
+
+                {calibration && calibration.rounds > 0 && (
+                  <div className="calibration-curve">
+                    <h3>📈 Your Calibration</h3>
+                    <p>
+                      Over {calibration.rounds} rounds you were {calibration.average_confidence}% sure on average
+                      and right {calibration.accuracy}% of the time (Brier score {calibration.brier_score}).
+                    </p>
+                    {calibration.buckets.filter(bucket => bucket.rounds > 0).map(bucket => (
+                      <div key={bucket.min_confidence} className="calibration-row">
+                        <span className="calibration-label">
+                          When you say {bucket.min_confidence}–{bucket.max_confidence}%
+                        </span>
+                        <div className="calibration-bar">
+                          <div className="calibration-accuracy" style={{ width: `${bucket.accuracy}%` }} />
+                          <div className="calibration-target" style={{ left: `${bucket.average_confidence}%` }} />
+                        </div>
+                        <span className="calibration-value">
+                          right {bucket.accuracy}% ({bucket.rounds})
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="completion-actions">
+                  <Button
+                    themeColor="primary"
+                    onClick={handleStartGame}
+                  >
+                    Play Again
+                  </Button>
+                  <Button
+                    fillMode="outline"
+                    onClick={() => onNavigate('leaderboard')}
+                  >
+                    View Leaderboard
+                  </Button>
+                  <Button
+                    fillMode="outline"
+                    onClick={() => onNavigate('home')}
+                  >
+                    Back to Home
+                  </Button>
+                </div>
+              </div>
+            </CardBody>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ConfidenceMode;
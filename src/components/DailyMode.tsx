@@ -4,26 +4,46 @@ import { Card, CardHeader, CardTitle, CardBody } from '@progress/kendo-react-lay
 import { ProgressBar } from '@progress/kendo-react-progressbars';
 import { useGameSession } from '../hooks/useGameSession';
 import { apiService } from '../services/api';
+import type { DailyStatus, ShareResult, RoundScoreBreakdown } from '../types/game';
 
 interface DailyModeProps {
   onNavigate: (page: 'home' | 'daily-mode' | 'streak-mode' | 'leaderboard' | 'admin') => void;
 }
 
+// e.g. "100 base + 60 difficulty + 43.2 speed"
+const describeRoundScore = (breakdown: RoundScoreBreakdown): string => {
+  const parts = [`${breakdown.base} base`, `${breakdown.difficulty_bonus} difficulty`];
+  if (breakdown.time_bonus > 0) parts.push(`${breakdown.time_bonus} speed`);
+  const sum = parts.join(' + ');
+  return breakdown.streak_multiplier > 1 ? `(${sum}) × ${breakdown.streak_multiplier}` : sum;
+};
+
 const DailyMode: React.FC<DailyModeProps> = ({ onNavigate }) => {
   const { gameState, startGame, submitChoice, getNextRound, clearError } = useGameSession();
   const [timeRemaining, setTimeRemaining] = useState(30);
   const [selectedImage, setSelectedImage] = useState<'left' | 'right' | null>(null);
   const [showResult, setShowResult] = useState(false);
   const [isCompleted, setIsCompleted] = useState(false);
+  const [dailyStatus, setDailyStatus] = useState<DailyStatus | null>(null);
+  const [share, setShare] = useState<ShareResult | null>(null);
+  const [shareMessage, setShareMessage] = useState<string | null>(null);
   const [roundStartTime, setRoundStartTime] = useState<number>(0);
-  const [aiImagePosition, setAiImagePosition] = useState<'left' | 'right'>('left');
+  // Only known once the server has graded the round
+  const [aiImagePosition, setAiImagePosition] = useState<'left' | 'right' | null>(null);
+  const challenge = gameState.session?.daily_challenge;
+
+  // Only the server knows whether today's daily has been played
+  const loadDailyStatus = () => {
+    apiService.getDailyStatus()
+      .then(status => {
+        setDailyStatus(status);
+        setIsCompleted(status.completed);
+      })
+      .catch(error => console.error('Failed to load daily status:', error));
+  };
 
   useEffect(() => {
-    const today = new Date().toISOString().split('T')[0];
-    const completed = localStorage.getItem(`daily-completed-${today}`);
-    if (completed) {
-      setIsCompleted(true);
-    }
+    loadDailyStatus();
   }, []);
 
   useEffect(() => {
@@ -46,21 +66,24 @@ const DailyMode: React.FC<DailyModeProps> = ({ onNavigate }) => {
     
     try {
       clearError();
-      const playerId = 'player-' + Date.now(); // Simple player ID for demo
-      await startGame('daily', playerId);
-      setTimeRemaining(30);
+      const { firstRound } = await startGame('daily');
+      setTimeRemaining(Math.ceil(firstRound.time_remaining_ms / 1000));
       setSelectedImage(null);
       setShowResult(false);
       setRoundStartTime(Date.now());
-      // Randomize AI image position
-      setAiImagePosition(Math.random() < 0.5 ? 'left' : 'right');
+      setAiImagePosition(null);
     } catch (error: any) {
       console.error('Failed to start game:', error);
+      // e.g. played on another device since this page loaded
+      if (error.message?.includes('already completed')) {
+        setIsCompleted(true);
+      }
       alert('Failed to start game: ' + error.message);
     }
   };
 
-  const handleImageSelect = async (choice: 'left' | 'right') => {
+  // A null choice tells the server the timer ran out
+  const handleImageSelect = async (choice: 'left' | 'right' | null) => {
     if (selectedImage || showResult || !gameState.currentRound) return;
     
     setSelectedImage(choice);
@@ -68,19 +91,15 @@ const DailyMode: React.FC<DailyModeProps> = ({ onNavigate }) => {
     // Calculate response time
     const responseTime = Date.now() - roundStartTime;
     
-    // The correct answer is always 'ai' (player should choose the AI image)
-    // Check if the chosen side matches where the AI image is positioned
-    const playerChoice: 'ai' | 'real' = choice === aiImagePosition ? 'ai' : 'real';
-    
     try {
-      const result = await submitChoice(playerChoice, responseTime);
+      const result = await submitChoice(choice, responseTime);
+      setAiImagePosition(result.ai_position);
       setShowResult(true);
       
       // If game completed, update completion status
       if (result.game_completed) {
-        const today = new Date().toISOString().split('T')[0];
-        localStorage.setItem(`daily-completed-${today}`, 'true');
         setIsCompleted(true);
+        loadDailyStatus(); // picks up the extended streak
       }
     } catch (error: any) {
       console.error('Failed to submit choice:', error);
@@ -90,13 +109,14 @@ const DailyMode: React.FC<DailyModeProps> = ({ onNavigate }) => {
   const nextRound = async () => {
     if (!gameState.gameCompleted) {
       try {
-        await getNextRound();
-        setTimeRemaining(30);
+        const next = await getNextRound();
+        if (next) {
+          setTimeRemaining(Math.ceil(next.time_remaining_ms / 1000));
+        }
         setSelectedImage(null);
         setShowResult(false);
         setRoundStartTime(Date.now());
-        // Randomize AI image position for next round
-        setAiImagePosition(Math.random() < 0.5 ? 'left' : 'right');
+        setAiImagePosition(null);
       } catch (error: any) {
         console.error('Failed to get next round:', error);
         // Game might be completed
@@ -104,9 +124,42 @@ const DailyMode: React.FC<DailyModeProps> = ({ onNavigate }) => {
     }
   };
 
+  const renderStreak = (status: DailyStatus) => (
+    <div className="daily-streak">
+      <span>🔥 {status.daily_streak}-day streak</span>
+      {status.streak_freezes > 0 && (
+        <span title="A freeze covers one missed day. Perfect dailies earn them.">
+          ❄️ {status.streak_freezes} {status.streak_freezes === 1 ? 'freeze' : 'freezes'}
+        </span>
+      )}
+    </div>
+  );
+
+  // The share text and link give away how the player did, never the answers
+  const handleShare = async () => {
+    if (!gameState.session) return;
+
+    try {
+      const shared = share || await apiService.shareResult(gameState.session.session_id);
+      setShare(shared);
+
+      const text = `${shared.text}\n${window.location.origin}/share/${shared.share_id}`;
+      if (navigator.share) {
+        await navigator.share({ text });
+      } else {
+        await navigator.clipboard.writeText(text);
+        setShareMessage('Copied to clipboard!');
+      }
+    } catch (error: any) {
+      if (error.name === 'AbortError') return; // share sheet dismissed
+      console.error('Failed to share result:', error);
+      setShareMessage('Failed to share: ' + error.message);
+    }
+  };
+
   const handleTimeUp = () => {
     if (!showResult) {
-      handleImageSelect('left');
+      handleImageSelect(null);
     }
   };
 
@@ -142,6 +195,8 @@ const DailyMode: React.FC<DailyModeProps> = ({ onNavigate }) => {
                 <h2>🎯 Today's Challenge</h2>
                 <p>Can you spot the AI-generated images? You have 3 rounds to prove your skills!</p>
                 
+                {dailyStatus && renderStreak(dailyStatus)}
+
                 <div className="challenge-info">
                   <div className="info-item">
                     <span className="info-icon">🎮</span>
@@ -153,14 +208,17 @@ const DailyMode: React.FC<DailyModeProps> = ({ onNavigate }) => {
                   </div>
                   <div className="info-item">
                     <span className="info-icon">🏆</span>
-                    <span>Earn points based on speed</span>
+                    <span>Bonus points for a perfect or fast game</span>
                   </div>
                 </div>
 
                 {isCompleted ? (
                   <div className="completed-challenge">
                     <h3>✅ Challenge Completed!</h3>
-                    <p>Come back tomorrow for a new challenge!</p>
+                    <p>
+                      Come back tomorrow for a new challenge!
+                      {dailyStatus && ` The next one opens at ${new Date(dailyStatus.next_reset_at).toLocaleString()}.`}
+                    </p>
                     <Button
                       themeColor="info"
                       onClick={() => onNavigate('leaderboard')}
@@ -184,6 +242,19 @@ const DailyMode: React.FC<DailyModeProps> = ({ onNavigate }) => {
             </CardBody>
           </Card>
         )}     
+        {challenge && !gameState.gameCompleted && (
+          <div className="daily-challenge-banner">
+            <h2>🎯 {challenge.title}</h2>
+            <p>{challenge.description}</p>
+            <div className="daily-challenge-details">
+              {challenge.category && challenge.category !== 'any' && (
+                <span className="challenge-tag challenge-category">{challenge.category}</span>
+              )}
+              <span className="challenge-tag">Difficulty {challenge.difficulty_level}/5</span>
+              <span className="challenge-tag">Up to +{challenge.points_reward} bonus points</span>
+            </div>
+          </div>
+        )}
         {gameState.gameStarted && !gameState.gameCompleted && (
           <div className="game-active">
             <Card>
@@ -216,8 +287,8 @@ const DailyMode: React.FC<DailyModeProps> = ({ onNavigate }) => {
                       >
                         <div className="image-container">
                           <img 
-                            src={apiService.getImageUrl(aiImagePosition === 'left' ? gameState.currentRound.pair.ai_image.id : gameState.currentRound.pair.real_image.id)}
-                            alt={aiImagePosition === 'left' ? gameState.currentRound.pair.ai_image.filename : gameState.currentRound.pair.real_image.filename}
+                            src={apiService.getRoundImageUrl(gameState.currentRound.session_id, gameState.currentRound.round_token, 'left')}
+                            alt="Image A"
                             className="game-image"
                             onError={(e) => {
                               // Fallback to placeholder if image fails to load
@@ -248,8 +319,8 @@ const DailyMode: React.FC<DailyModeProps> = ({ onNavigate }) => {
                       >
                         <div className="image-container">
                           <img 
-                            src={apiService.getImageUrl(aiImagePosition === 'right' ? gameState.currentRound.pair.ai_image.id : gameState.currentRound.pair.real_image.id)}
-                            alt={aiImagePosition === 'right' ? gameState.currentRound.pair.ai_image.filename : gameState.currentRound.pair.real_image.filename}
+                            src={apiService.getRoundImageUrl(gameState.currentRound.session_id, gameState.currentRound.round_token, 'right')}
+                            alt="Image B"
                             className="game-image"
                             onError={(e) => {
                               // Fallback to placeholder if image fails to load
@@ -276,6 +347,13 @@ const DailyMode: React.FC<DailyModeProps> = ({ onNavigate }) => {
 
                   {showResult && (
                     <div className="round-result">
+                      {gameState.lastScoreBreakdown && (
+                        <div className="round-score">
+                          {gameState.lastScoreBreakdown.total > 0
+                            ? <>+{gameState.lastScoreBreakdown.total} points <span className="round-score-breakdown">{describeRoundScore(gameState.lastScoreBreakdown)}</span></>
+                            : 'No points this round'}
+                        </div>
+                      )}
                       <Button
                         themeColor="primary"
                         onClick={nextRound}
@@ -319,7 +397,19 @@ const DailyMode: React.FC<DailyModeProps> = ({ onNavigate }) => {
                   <div className="score-display">
                     <span className="score-label">Final Score</span>
                     <span className="score-value">{gameState.totalScore}</span>
+                    {gameState.challengeBonus !== undefined && gameState.challengeBonus > 0 && (
+                      <span className="challenge-bonus">
+                        includes +{gameState.challengeBonus} {challenge ? `"${challenge.title}"` : 'challenge'} bonus
+                      </span>
+                    )}
+                    {gameState.perfectBonus !== undefined && gameState.perfectBonus > 0 && (
+                      <span className="challenge-bonus">includes +{gameState.perfectBonus} perfect game bonus</span>
+                    )}
+                    {gameState.speedBonus !== undefined && gameState.speedBonus > 0 && (
+                      <span className="challenge-bonus">includes +{gameState.speedBonus} speed bonus</span>
+                    )}
                   </div>
+                  {dailyStatus?.completed && renderStreak(dailyStatus)}
                   <div className="accuracy-display">
                     <span className="accuracy-label">Accuracy</span>
                     <span className={`accuracy-value ${(() => {
@@ -334,9 +424,23 @@ const DailyMode: React.FC<DailyModeProps> = ({ onNavigate }) => {
                   </div>
                 </div>
 
+                {share && (
+                  <div className="share-preview">
+                    <pre className="share-text">{share.text}</pre>
+                    <img src={apiService.getShareCardUrl(share.share_id)} alt={share.text} />
+                  </div>
+                )}
+                {shareMessage && <div className="share-message">{shareMessage}</div>}
+
                 <div className="completion-actions">
                   <Button
                     themeColor="primary"
+                    onClick={handleShare}
+                  >
+                    📤 Share Result
+                  </Button>
+                  <Button
+                    fillMode="outline"
                     onClick={() => onNavigate('leaderboard')}
                   >
                     View Leaderboard
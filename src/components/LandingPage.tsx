@@ -2,12 +2,15 @@ import React, { useState } from 'react';
 import { Button, ButtonGroup } from '@progress/kendo-react-buttons';
 import { Card, CardHeader, CardTitle, CardBody } from '@progress/kendo-react-layout';
 import { starIcon, clockIcon } from '@progress/kendo-svg-icons';
+import type { Player } from '../types/game';
 
 interface LandingPageProps {
-  onNavigate: (page: 'home' | 'daily-mode' | 'streak-mode' | 'leaderboard' | 'admin') => void;
+  onNavigate: (page: 'home' | 'daily-mode' | 'streak-mode' | 'spot-mode' | 'verdict-mode' | 'confidence-mode' | 'timeattack-mode' | 'practice-mode' | 'leaderboard' | 'admin' | 'account') => void;
+  player: Player | null;
+  onLogout: () => void;
 }
 
-const LandingPage: React.FC<LandingPageProps> = ({ onNavigate }) => {
+const LandingPage: React.FC<LandingPageProps> = ({ onNavigate, player, onLogout }) => {
   const [showDialogue, setShowDialogue] = useState(false);
 
   const handleCloseDialogue = () => {
@@ -25,6 +28,26 @@ const LandingPage: React.FC<LandingPageProps> = ({ onNavigate }) => {
     onNavigate('streak-mode');
   };
 
+  const handleSpotModeClick = () => {
+    onNavigate('spot-mode');
+  };
+
+  const handleVerdictModeClick = () => {
+    onNavigate('verdict-mode');
+  };
+
+  const handleConfidenceModeClick = () => {
+    onNavigate('confidence-mode');
+  };
+
+  const handleTimeAttackModeClick = () => {
+    onNavigate('timeattack-mode');
+  };
+
+  const handlePracticeModeClick = () => {
+    onNavigate('practice-mode');
+  };
+
   const handleLeaderboardClick = () => {
     onNavigate('leaderboard');
   };
@@ -74,6 +97,21 @@ const LandingPage: React.FC<LandingPageProps> = ({ onNavigate }) => {
 
         <h1>Bot or Not</h1>
         <p className="subtitle">Can you spot the AI-generated images? Test your skills with Botgy!</p>
+
+        {player && (
+          <div className="player-bar">
+            <span>Playing as <strong>{player.display_name}</strong></span>
+            {player.is_guest ? (
+              <Button fillMode="flat" size="small" onClick={() => onNavigate('account')}>
+                Save progress / Log in
+              </Button>
+            ) : (
+              <Button fillMode="flat" size="small" onClick={onLogout}>
+                Log out
+              </Button>
+            )}
+          </div>
+        )}
         
         <div className="game-modes">
           <ButtonGroup className="mint-button-group">
@@ -95,6 +133,46 @@ const LandingPage: React.FC<LandingPageProps> = ({ onNavigate }) => {
             >
               Streak Mode
             </Button>
+            <Button
+              className="mint-secondary-btn"
+              themeColor="secondary"
+              size="large"
+              onClick={handleSpotModeClick}
+            >
+              🔍 Spot the Bot
+            </Button>
+            <Button
+              className="mint-secondary-btn"
+              themeColor="secondary"
+              size="large"
+              onClick={handleVerdictModeClick}
+            >
+              ⚖️ AI or Real?
+            </Button>
+            <Button
+              className="mint-secondary-btn"
+              themeColor="secondary"
+              size="large"
+              onClick={handleConfidenceModeClick}
+            >
+              🎯 How Sure Are You?
+            </Button>
+            <Button
+              className="mint-secondary-btn"
+              themeColor="secondary"
+              size="large"
+              onClick={handleTimeAttackModeClick}
+            >
+              ⚡ Time Attack
+            </Button>
+            <Button
+              className="mint-secondary-btn"
+              themeColor="secondary"
+              size="large"
+              onClick={handlePracticeModeClick}
+            >
+              🎓 Practice
+            </Button>
             <Button
               className="mint-info-btn"
               themeColor="info"
@@ -129,6 +207,61 @@ const LandingPage: React.FC<LandingPageProps> = ({ onNavigate }) => {
               <p>Keep playing until you fail! How many AI images can you spot in a row?</p>
             </CardBody>
           </Card>
+          <Card 
+            className="clickable-card"
+            onClick={handleSpotModeClick}
+          >
+            <CardHeader>
+              <CardTitle>🔍 Spot the Bot</CardTitle>
+            </CardHeader>
+            <CardBody>
+              <p>Up to six images per round. Find every AI fake, or the one real photo, for full credit!</p>
+            </CardBody>
+          </Card>
+          <Card 
+            className="clickable-card"
+            onClick={handleVerdictModeClick}
+          >
+            <CardHeader>
+              <CardTitle>⚖️ AI or Real?</CardTitle>
+            </CardHeader>
+            <CardBody>
+              <p>One image at a time, nothing to compare it to. Can you tell an AI image on its own?</p>
+            </CardBody>
+          </Card>
+          <Card 
+            className="clickable-card"
+            onClick={handleConfidenceModeClick}
+          >
+            <CardHeader>
+              <CardTitle>🎯 How Sure Are You?</CardTitle>
+            </CardHeader>
+            <CardBody>
+              <p>Say how confident you are in each answer and see how well your confidence matches your accuracy.</p>
+            </CardBody>
+          </Card>
+          <Card 
+            className="clickable-card"
+            onClick={handleTimeAttackModeClick}
+          >
+            <CardHeader>
+              <CardTitle>⚡ Time Attack</CardTitle>
+            </CardHeader>
+            <CardBody>
+              <p>One minute on the clock and every wrong answer costs five seconds. How many pairs can you get through?</p>
+            </CardBody>
+          </Card>
+          <Card 
+            className="clickable-card"
+            onClick={handlePracticeModeClick}
+          >
+            <CardHeader>
+              <CardTitle>🎓 Practice</CardTitle>
+            </CardHeader>
+            <CardBody>
+              <p>New to spotting AI images? Learn what to look for, with hints and marked regions after every answer.</p>
+            </CardBody>
+          </Card>
           <Card 
             className="clickable-card"
             onClick={handleLeaderboardClick}
@@ -0,0 +1,294 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@progress/kendo-react-buttons';
+import { Card, CardHeader, CardTitle, CardBody } from '@progress/kendo-react-layout';
+import { ProgressBar } from '@progress/kendo-react-progressbars';
+import { useGameSession } from '../hooks/useGameSession';
+import { apiService } from '../services/api';
+import type { GameResult, GameRound, ImagePosition } from '../types/game';
+
+// A practice game is always this many rounds
+const PRACTICE_ROUNDS = 10;
+
+interface PracticeModeProps {
+  onNavigate: (page: 'home' | 'leaderboard') => void;
+}
+
+// Unranked pair rounds that explain, after each answer, what gave the AI
+// image away
+const PracticeMode: React.FC<PracticeModeProps> = ({ onNavigate }) => {
+  const { gameState, startGame, submitChoice, getNextRound, clearError } = useGameSession();
+  const [timeRemaining, setTimeRemaining] = useState(60);
+  // Only known once the server has graded the round
+  const [result, setResult] = useState<GameResult | null>(null);
+  // The hook drops the round when the game ends; the explanation still needs it
+  const [answeredRound, setAnsweredRound] = useState<GameRound | null>(null);
+  const [roundStartTime, setRoundStartTime] = useState<number>(0);
+  const round = gameState.currentRound;
+
+  useEffect(() => {
+    let timer: number;
+    if (gameState.gameStarted && !gameState.gameCompleted && timeRemaining > 0 && !result) {
+      timer = window.setTimeout(() => {
+        setTimeRemaining(prev => prev - 1);
+      }, 1000);
+    } else if (timeRemaining === 0 && gameState.gameStarted && !result) {
+      handleImageSelect(null);
+    }
+    return () => clearTimeout(timer);
+  }, [timeRemaining, gameState.gameStarted, gameState.gameCompleted, result]);
+
+  const beginRound = (timeRemainingMs: number) => {
+    setTimeRemaining(Math.ceil(timeRemainingMs / 1000));
+    setResult(null);
+    setRoundStartTime(Date.now());
+  };
+
+  const handleStartGame = async () => {
+    try {
+      clearError();
+      setResult(null);
+      const { firstRound } = await startGame('practice');
+      beginRound(firstRound.time_remaining_ms);
+    } catch (error: any) {
+      console.error('Failed to start game:', error);
+    }
+  };
+
+  // A null choice tells the server the timer ran out
+  const handleImageSelect = async (choice: ImagePosition | null) => {
+    if (result || !round) return;
+
+    try {
+      setAnsweredRound(round);
+      setResult(await submitChoice(choice, Date.now() - roundStartTime));
+    } catch (error: any) {
+      console.error('Failed to submit choice:', error);
+    }
+  };
+
+  const nextRound = async () => {
+    try {
+      const next = await getNextRound();
+      if (next) {
+        beginRound(next.time_remaining_ms);
+      }
+    } catch (error: any) {
+      console.error('Failed to get next round:', error);
+    }
+  };
+
+  const explanation = result?.explanation;
+
+  return (
+    <div className="daily-mode-page">
+      <div className="game-container">
+        <Button
+          fillMode="flat"
+          onClick={() => onNavigate('home')}
+          className="back-button"
+        >
+          🏠 Back to Home
+        </Button>
+
+        <div className="game-page-header">
+          <h1>🎓 <span className="gradient-text">Practice</span></h1>
+          <p>Learn what gives AI images away. Nothing here counts toward the leaderboard.</p>
+          {gameState.error && (
+            <div className="game-error">
+              Error: {gameState.error}
+              <button onClick={clearError}>
+                Dismiss
+              </button>
+            </div>
+          )}
+        </div>
+
+        {!gameState.gameStarted && !gameState.gameCompleted && (
+          <Card>
+            <CardBody>
+              <div className="game-intro">
+                <h2>🕵️ How to Play</h2>
+                <p>Pick the AI-generated image. After every answer you'll see what gave it away and where to look.</p>
+
+                <div className="challenge-info">
+                  <div className="info-item">
+                    <span className="info-icon">🎮</span>
+                    <span>{PRACTICE_ROUNDS} rounds</span>
+                  </div>
+                  <div className="info-item">
+                    <span className="info-icon">⏱️</span>
+                    <span>60 seconds per round, no rush</span>
+                  </div>
+                  <div className="info-item">
+                    <span className="info-icon">💡</span>
+                    <span>Telltale hints and marked regions after each answer</span>
+                  </div>
+                </div>
+
+                <div className="start-section">
+                  <Button
+                    themeColor="primary"
+                    size="large"
+                    onClick={handleStartGame}
+                    disabled={gameState.isLoading}
+                  >
+                    {gameState.isLoading ? 'Starting...' : 'Start Practice'}
+                  </Button>
+                </div>
+              </div>
+            </CardBody>
+          </Card>
+        )}
+
+        {gameState.gameStarted && !gameState.gameCompleted && round && (
+          <div className="game-active">
+            <Card>
+              <CardHeader>
+                <CardTitle>
+                  <div className="game-header">
+                    <span>Round {round.round_number} of {PRACTICE_ROUNDS}</span>
+                    <span className="timer">⏱️ {timeRemaining}s</span>
+                  </div>
+                </CardTitle>
+              </CardHeader>
+              <CardBody>
+                <div className="progress-section">
+                  <ProgressBar
+                    value={(gameState.roundsCompleted / PRACTICE_ROUNDS) * 100}
+                    labelVisible={false}
+                  />
+                  <div className="score-display">Score: {gameState.totalScore}</div>
+                </div>
+
+                <div className="round-content">
+                  <h3>Which image is AI-generated?</h3>
+
+                  <div className="image-selection">
+                    {(['left', 'right'] as ImagePosition[]).map((position, index) => (
+                      <React.Fragment key={`${round.round_token}-${position}`}>
+                        {index > 0 && <div className="vs-divider">VS</div>}
+                        <div
+                          className={`image-option ${result?.player_choice === position ? 'selected' : ''}`}
+                          onClick={() => handleImageSelect(position)}
+                        >
+                          <div className="image-container">
+                            <img
+                              src={apiService.getRoundImageUrl(round.session_id, round.round_token, position)}
+                              alt={position === 'left' ? 'Image A' : 'Image B'}
+                              className="game-image"
+                            />
+                          </div>
+                        </div>
+                      </React.Fragment>
+                    ))}
+                  </div>
+                </div>
+              </CardBody>
+            </Card>
+          </div>
+        )}
+
+        {/* Also shown after the last round, until the player moves on to the results */}
+        {result && answeredRound && (
+          <div className="practice-overlay">
+            <div className="practice-explanation">
+              <h2>
+                {result.timed_out && "⌛ Time's up! "}
+                {result.is_correct ? '✅ Correct!' : '❌ Not this time'}
+              </h2>
+              <p>
+                The AI image was on the <strong>{result.ai_position}</strong>
+                {result.points_earned > 0 && ` · +${result.points_earned} points`}
+              </p>
+
+              <div className="practice-annotated">
+                <img
+                  src={apiService.getRoundImageUrl(answeredRound.session_id, answeredRound.round_token, result.ai_position)}
+                  alt="The AI-generated image"
+                />
+                {explanation?.annotations.map((box, index) => (
+                  <div
+                    key={index}
+                    className="practice-box"
+                    style={{
+                      left: `${box.x * 100}%`,
+                      top: `${box.y * 100}%`,
+                      width: `${box.width * 100}%`,
+                      height: `${box.height * 100}%`
+                    }}
+                  >
+                    {box.label && <span className="practice-box-label">{box.label}</span>}
+                  </div>
+                ))}
+              </div>
+
+              {explanation && explanation.telltales.length > 0 ? (
+                <>
+                  <h3>💡 What gives it away</h3>
+                  <div className="practice-telltales">
+                    {explanation.telltales.map(telltale => (
+                      <span key={telltale} className="practice-telltale">{telltale}</span>
+                    ))}
+                  </div>
+                </>
+              ) : (
+                !explanation?.annotations.length && (
+                  <p>No notes on this image yet. Look closely at hands, text, lighting and fine textures.</p>
+                )
+              )}
+
+              <Button
+                themeColor="primary"
+                onClick={result.game_completed ? () => setResult(null) : nextRound}
+                disabled={gameState.isLoading}
+              >
+                {result.game_completed ? 'See Results' : 'Next Round'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {gameState.gameCompleted && !result && (
+          <Card>
+            <CardBody>
+              <div className="game-results">
+                <div className="final-score">
+                  <h2>🎓 Practice Complete!</h2>
+                  <div className="score-display">
+                    <span className="score-label">Practice Score</span>
+                    <span className="score-value">{gameState.totalScore}</span>
+                  </div>
+                  {gameState.final_stats && (
+                    <div className="accuracy-display">
+                      <span className="accuracy-label">Correct</span>
+                      <span className="accuracy-value">
+                        {gameState.final_stats.correct_answers}/{gameState.final_stats.total_rounds}
+                      </span>
+                    </div>
+                  )}
+                </div>
+
+                <div className="completion-actions">
+                  <Button
+                    themeColor="primary"
+                    onClick={handleStartGame}
+                  >
+                    Practice Again
+                  </Button>
+                  <Button
+                    fillMode="outline"
+                    onClick={() => onNavigate('home')}
+                  >
+                    Back to Home
+                  </Button>
+                </div>
+              </div>
+            </CardBody>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PracticeMode;
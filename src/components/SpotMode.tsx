@@ -0,0 +1,298 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@progress/kendo-react-buttons';
+import { Card, CardHeader, CardTitle, CardBody } from '@progress/kendo-react-layout';
+import { ProgressBar } from '@progress/kendo-react-progressbars';
+import { useGameSession } from '../hooks/useGameSession';
+import { apiService } from '../services/api';
+import type { GameResult } from '../types/game';
+
+// A "Spot the Bot" game is always this many rounds
+const SPOT_ROUNDS = 5;
+
+interface SpotModeProps {
+  onNavigate: (page: 'home' | 'leaderboard') => void;
+}
+
+// Several images per round: pick every AI image, or the one real photo among
+// fakes. A partly right selection earns partial credit.
+const SpotMode: React.FC<SpotModeProps> = ({ onNavigate }) => {
+  const { gameState, startGame, submitChoice, getNextRound, clearError } = useGameSession();
+  const [timeRemaining, setTimeRemaining] = useState(45);
+  const [selected, setSelected] = useState<number[]>([]);
+  // Only known once the server has graded the round
+  const [result, setResult] = useState<GameResult | null>(null);
+  const [roundStartTime, setRoundStartTime] = useState<number>(0);
+  const round = gameState.currentRound;
+  const pickReal = round?.pick === 'real';
+
+  useEffect(() => {
+    let timer: number;
+    if (gameState.gameStarted && !gameState.gameCompleted && timeRemaining > 0 && !result) {
+      timer = window.setTimeout(() => {
+        setTimeRemaining(prev => prev - 1);
+      }, 1000);
+    } else if (timeRemaining === 0 && gameState.gameStarted && !result) {
+      handleSubmit(null);
+    }
+    return () => clearTimeout(timer);
+  }, [timeRemaining, gameState.gameStarted, gameState.gameCompleted, result]);
+
+  const beginRound = (timeRemainingMs: number) => {
+    setTimeRemaining(Math.ceil(timeRemainingMs / 1000));
+    setSelected([]);
+    setResult(null);
+    setRoundStartTime(Date.now());
+  };
+
+  const handleStartGame = async () => {
+    try {
+      clearError();
+      const { firstRound } = await startGame('spot');
+      beginRound(firstRound.time_remaining_ms);
+    } catch (error: any) {
+      console.error('Failed to start game:', error);
+    }
+  };
+
+  // Only one image can be picked when looking for the real photo
+  const toggleImage = (index: number) => {
+    if (result) return;
+    if (pickReal) {
+      setSelected([index]);
+      return;
+    }
+    setSelected(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]);
+  };
+
+  // A null selection tells the server the timer ran out
+  const handleSubmit = async (selection: number[] | null) => {
+    if (result || !round) return;
+
+    try {
+      setResult(await submitChoice(selection, Date.now() - roundStartTime));
+    } catch (error: any) {
+      console.error('Failed to submit selection:', error);
+    }
+  };
+
+  const nextRound = async () => {
+    try {
+      const next = await getNextRound();
+      if (next) {
+        beginRound(next.time_remaining_ms);
+      }
+    } catch (error: any) {
+      console.error('Failed to get next round:', error);
+    }
+  };
+
+  const getOptionClass = (index: number): string => {
+    if (!result) return selected.includes(index) ? 'selected' : '';
+
+    const isTarget = result.correct_indexes?.includes(index);
+    const isPicked = result.selected_indexes?.includes(index);
+    if (isPicked) return isTarget ? 'correct' : 'incorrect';
+    return isTarget ? 'missed' : '';
+  };
+
+  const isAiImage = (index: number): boolean => {
+    const isTarget = !!result?.correct_indexes?.includes(index);
+    return pickReal ? !isTarget : isTarget;
+  };
+
+  return (
+    <div className="daily-mode-page">
+      <div className="game-container">
+        <Button
+          fillMode="flat"
+          onClick={() => onNavigate('home')}
+          className="back-button"
+        >
+          🏠 Back to Home
+        </Button>
+
+        <div className="game-page-header">
+          <h1>🔍 <span className="gradient-text">Spot the Bot</span></h1>
+          <p>Find the AI images hiding in each set!</p>
+          {gameState.error && (
+            <div className="game-error">
+              Error: {gameState.error}
+              <button onClick={clearError}>
+                Dismiss
+              </button>
+            </div>
+          )}
+        </div>
+
+        {!gameState.gameStarted && !gameState.gameCompleted && (
+          <Card>
+            <CardBody>
+              <div className="game-intro">
+                <h2>🕵️ How to Play</h2>
+                <p>Each round shows 3 to 6 images. Pick every AI-generated one, or the single real photo when the round asks for it.</p>
+
+                <div className="challenge-info">
+                  <div className="info-item">
+                    <span className="info-icon">🎮</span>
+                    <span>{SPOT_ROUNDS} rounds</span>
+                  </div>
+                  <div className="info-item">
+                    <span className="info-icon">⏱️</span>
+                    <span>45 seconds per round</span>
+                  </div>
+                  <div className="info-item">
+                    <span className="info-icon">🧩</span>
+                    <span>Partial credit for a partly right pick; wrong picks cost credit</span>
+                  </div>
+                </div>
+
+                <div className="start-section">
+                  <Button
+                    themeColor="primary"
+                    size="large"
+                    onClick={handleStartGame}
+                    disabled={gameState.isLoading}
+                  >
+                    {gameState.isLoading ? 'Starting...' : 'Start Spot the Bot'}
+                  </Button>
+                </div>
+              </div>
+            </CardBody>
+          </Card>
+        )}
+
+        {gameState.gameStarted && !gameState.gameCompleted && round && (
+          <div className="game-active">
+            <Card>
+              <CardHeader>
+                <CardTitle>
+                  <div className="game-header">
+                    <span>Round {round.round_number} of {SPOT_ROUNDS}</span>
+                    <span className="timer">⏱️ {timeRemaining}s</span>
+                  </div>
+                </CardTitle>
+              </CardHeader>
+              <CardBody>
+                <div className="progress-section">
+                  <ProgressBar
+                    value={(gameState.roundsCompleted / SPOT_ROUNDS) * 100}
+                    labelVisible={false}
+                  />
+                  <div className="score-display">Score: {gameState.totalScore}</div>
+                </div>
+
+                <div className="round-content">
+                  <h3>{pickReal ? 'Which image is the real photo?' : 'Which images are AI-generated?'}</h3>
+                  <p>{pickReal ? 'Only one of these is real' : 'Select every image you think was created by AI'}</p>
+
+                  <div className="spot-grid">
+                    {Array.from({ length: round.image_count || 0 }, (_, index) => (
+                      <div
+                        key={`${round.round_token}-${index}`}
+                        className={`image-option spot-option ${getOptionClass(index)}`}
+                        onClick={() => toggleImage(index)}
+                      >
+                        <div className="image-container">
+                          <img
+                            src={apiService.getRoundImageUrl(round.session_id, round.round_token, index)}
+                            alt={`Image ${index + 1}`}
+                            className="game-image"
+                          />
+                          {result && (
+                            <div className="image-reveal">
+                              <span className={`reveal-badge ${isAiImage(index) ? 'ai-badge' : 'real-badge'}`}>
+                                {isAiImage(index) ? '🤖 AI Generated' : '📷 Real Photo'}
+                              </span>
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
+                  {result ? (
+                    <div className="round-result">
+                      <div className="round-score">
+                        {result.timed_out
+                          ? "⌛ Time's up!"
+                          : `${Math.round((result.credit || 0) * 100)}% credit`}
+                        {result.points_earned > 0 && ` · +${result.points_earned} points`}
+                      </div>
+                      <Button
+                        themeColor="primary"
+                        onClick={nextRound}
+                        disabled={gameState.isLoading}
+                      >
+                        {round.round_number < SPOT_ROUNDS - 1 ? 'Next Round' : 'Last Round'}
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="round-result">
+                      <Button
+                        themeColor="primary"
+                        onClick={() => handleSubmit(selected)}
+                        disabled={selected.length === 0 || gameState.isLoading}
+                      >
+                        Submit {selected.length > 0 && `(${selected.length} selected)`}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </CardBody>
+            </Card>
+          </div>
+        )}
+
+        {gameState.gameCompleted && (
+          <Card>
+            <CardBody>
+              <div className="game-results">
+                <div className="final-score">
+                  <h2>🔍 Game Complete!</h2>
+                  <div className="score-display">
+                    <span className="score-label">Final Score</span>
+                    <span className="score-value">{gameState.totalScore}</span>
+                    {gameState.perfectBonus !== undefined && gameState.perfectBonus > 0 && (
+                      <span className="challenge-bonus">includes +{gameState.perfectBonus} perfect game bonus</span>
+                    )}
+                  </div>
+                  {gameState.final_stats && (
+                    <div className="accuracy-display">
+                      <span className="accuracy-label">Perfect Rounds</span>
+                      <span className="accuracy-value">
+                        {gameState.final_stats.correct_answers}/{gameState.final_stats.total_rounds}
+                      </span>
+                    </div>
+                  )}
+                </div>
+
+                <div className="completion-actions">
+                  <Button
+                    themeColor="primary"
+                    onClick={handleStartGame}
+                  >
+                    Play Again
+                  </Button>
+                  <Button
+                    fillMode="outline"
+                    onClick={() => onNavigate('leaderboard')}
+                  >
+                    View Leaderboard
+                  </Button>
+                  <Button
+                    fillMode="outline"
+                    onClick={() => onNavigate('home')}
+                  >
+                    Back to Home
+                  </Button>
+                </div>
+              </div>
+            </CardBody>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SpotMode;
@@ -38,7 +38,8 @@ const StreakMode: React.FC<StreakModeProps> = ({ onNavigate }) => {
   const [selectedImage, setSelectedImage] = useState<'left' | 'right' | null>(null);
   const [showResult, setShowResult] = useState(false);
   const [roundStartTime, setRoundStartTime] = useState<number>(0);
-  const [aiImagePosition, setAiImagePosition] = useState<'left' | 'right'>('left');
+  // Only known once the server has graded the round
+  const [aiImagePosition, setAiImagePosition] = useState<'left' | 'right' | null>(null);
 
   // Don't sync with API game state since we manage stats locally for lives system
 
@@ -61,8 +62,7 @@ const StreakMode: React.FC<StreakModeProps> = ({ onNavigate }) => {
       // Close game over dialog if it's open
       setShowGameOver(false);
       
-      const playerId = 'streak-player-' + Date.now();
-      await startGame('streak', playerId);
+      const { firstRound } = await startGame('streak');
       setGameState('playing');
       setStats({
         currentStreak: 0,
@@ -72,14 +72,13 @@ const StreakMode: React.FC<StreakModeProps> = ({ onNavigate }) => {
         multiplier: 1.0,
         lives: 3
       });
-      setTimeLeft(30);
+      setTimeLeft(Math.ceil(firstRound.time_remaining_ms / 1000));
       setSelectedImage(null);
       setShowResult(false);
       setRoundStartTime(Date.now());
       setIsAnswering(false);
       setNotification(null);
-      // Randomize AI image position
-      setAiImagePosition(Math.random() < 0.5 ? 'left' : 'right');
+      setAiImagePosition(null);
     } catch (error: any) {
       console.error('Failed to start streak game:', error);
       setNotification({
@@ -98,12 +97,9 @@ const StreakMode: React.FC<StreakModeProps> = ({ onNavigate }) => {
     // Calculate response time
     const responseTime = Date.now() - roundStartTime;
     
-    // The correct answer is always 'ai' (player should choose the AI image)
-    // Check if the chosen side matches where the AI image is positioned
-    const playerChoice: 'ai' | 'real' = choice === aiImagePosition ? 'ai' : 'real';
-    
     try {
-      const result = await submitChoice(playerChoice, responseTime);
+      const result = await submitChoice(choice, responseTime);
+      setAiImagePosition(result.ai_position);
       setShowResult(true);
       
       if (result.is_correct) {
@@ -117,7 +113,9 @@ const StreakMode: React.FC<StreakModeProps> = ({ onNavigate }) => {
         
         const newStreak = stats.currentStreak + 1;
         setNotification({
-          message: `Correct! +${result.points_earned} points (${newStreak} streak)`,
+          message: `Correct! +${result.points_earned} points (${newStreak} streak` +
+            (result.score_breakdown && result.score_breakdown.streak_multiplier > 1 ? `, ×${result.score_breakdown.streak_multiplier}` : '') +
+            ')',
           type: 'success'
         });
         
@@ -142,14 +140,19 @@ const StreakMode: React.FC<StreakModeProps> = ({ onNavigate }) => {
   const nextRound = async () => {
     if (!apiGameState.gameCompleted) {
       try {
-        await getNextRound();
-        setTimeLeft(30 - Math.floor(stats.currentStreak / 5) * 2); // Decrease time as streak increases
+        const next = await getNextRound();
+        if (next) {
+          // Decrease time as streak increases, never beyond the server deadline
+          setTimeLeft(Math.min(
+            Math.ceil(next.time_remaining_ms / 1000),
+            30 - Math.floor(stats.currentStreak / 5) * 2
+          ));
+        }
         setSelectedImage(null);
         setShowResult(false);
         setRoundStartTime(Date.now());
         setIsAnswering(false);
-        // Randomize AI image position for next round
-        setAiImagePosition(Math.random() < 0.5 ? 'left' : 'right');
+        setAiImagePosition(null);
       } catch (error: any) {
         console.error('Failed to get next round:', error);
         // Game might be completed
@@ -187,15 +190,13 @@ const StreakMode: React.FC<StreakModeProps> = ({ onNavigate }) => {
       // Start a new backend session for the next round since the backend ended the game
       setTimeout(async () => {
         try {
-          const playerId = 'streak-player-' + Date.now();
-          await startGame('streak', playerId);
+          const { firstRound } = await startGame('streak');
           setSelectedImage(null);
           setShowResult(false);
           setRoundStartTime(Date.now());
           setIsAnswering(false);
-          setTimeLeft(30 - Math.floor(stats.currentStreak / 5) * 2);
-          // Randomize AI image position for restart
-          setAiImagePosition(Math.random() < 0.5 ? 'left' : 'right');
+          setTimeLeft(Math.ceil(firstRound.time_remaining_ms / 1000));
+          setAiImagePosition(null);
         } catch (error: any) {
           console.error('Failed to restart game after life lost:', error);
           setNotification({
@@ -213,6 +214,10 @@ const StreakMode: React.FC<StreakModeProps> = ({ onNavigate }) => {
         message: 'Time\'s up! Lost a life.',
         type: 'error'
       });
+      // Let the server record the round as timed out
+      submitChoice(null, Date.now() - roundStartTime).catch((error: any) => {
+        console.error('Failed to submit timeout:', error);
+      });
       handleWrongAnswer();
     }
   };
@@ -228,9 +233,13 @@ const StreakMode: React.FC<StreakModeProps> = ({ onNavigate }) => {
     apiResetGame();
   };
 
+  // Pairs are picked to match the player's skill rating, so show the
+  // difficulty of the pair actually served
   const getDifficultyLevel = () => {
-    if (stats.currentStreak < 5) return 'Easy';
-    if (stats.currentStreak < 15) return 'Medium';
+    const level = apiGameState.currentRound?.difficulty_level;
+    if (!level) return '-';
+    if (level <= 2) return 'Easy';
+    if (level === 3) return 'Medium';
     return 'Hard';
   };
 
@@ -286,7 +295,7 @@ const StreakMode: React.FC<StreakModeProps> = ({ onNavigate }) => {
                     <li>🔥 Build your streak for higher multipliers</li>
                     <li>❤️ You have 3 lives - lose one for each mistake or timeout</li>
                     <li>🎮 Game ends when you lose all 3 lives</li>
-                    <li>📈 Difficulty increases as your streak grows</li>
+                    <li>📈 Pairs adapt to your skill as you play</li>
                   </ul>
                 </div>
 
@@ -391,8 +400,8 @@ const StreakMode: React.FC<StreakModeProps> = ({ onNavigate }) => {
                   >
                     <div className="image-container">
                       <img 
-                        src={apiService.getImageUrl(aiImagePosition === 'left' ? apiGameState.currentRound.pair.ai_image.id : apiGameState.currentRound.pair.real_image.id)}
-                        alt={aiImagePosition === 'left' ? apiGameState.currentRound.pair.ai_image.filename : apiGameState.currentRound.pair.real_image.filename}
+                        src={apiService.getRoundImageUrl(apiGameState.currentRound.session_id, apiGameState.currentRound.round_token, 'left')}
+                        alt="Image A"
                         className="game-image"
                         onError={(e) => {
                           e.currentTarget.style.display = 'none';
@@ -422,8 +431,8 @@ const StreakMode: React.FC<StreakModeProps> = ({ onNavigate }) => {
                   >
                     <div className="image-container">
                       <img 
-                        src={apiService.getImageUrl(aiImagePosition === 'right' ? apiGameState.currentRound.pair.ai_image.id : apiGameState.currentRound.pair.real_image.id)}
-                        alt={aiImagePosition === 'right' ? apiGameState.currentRound.pair.ai_image.filename : apiGameState.currentRound.pair.real_image.filename}
+                        src={apiService.getRoundImageUrl(apiGameState.currentRound.session_id, apiGameState.currentRound.round_token, 'right')}
+                        alt="Image B"
                         className="game-image"
                         onError={(e) => {
                           e.currentTarget.style.display = 'none';
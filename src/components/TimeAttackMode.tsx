@@ -0,0 +1,253 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@progress/kendo-react-buttons';
+import { Card, CardHeader, CardTitle, CardBody } from '@progress/kendo-react-layout';
+import { ProgressBar } from '@progress/kendo-react-progressbars';
+import { useGameSession } from '../hooks/useGameSession';
+import { apiService } from '../services/api';
+import type { ImagePosition } from '../types/game';
+
+// Matches the server's session clock and penalty
+const TIME_ATTACK_SECONDS = 60;
+const WRONG_PENALTY_SECONDS = 5;
+
+// How long the answer stays on screen before the next pair
+const FEEDBACK_MS = 600;
+
+interface TimeAttackModeProps {
+  onNavigate: (page: 'home' | 'leaderboard') => void;
+}
+
+// As many pairs as possible on one 60 second clock. The server keeps the
+// real clock; this one is resynced from every round it serves.
+const TimeAttackMode: React.FC<TimeAttackModeProps> = ({ onNavigate }) => {
+  const { gameState, startGame, submitChoice, getNextRound, endGame, clearError } = useGameSession();
+  const [deadline, setDeadline] = useState<number | null>(null);
+  const [timeLeftMs, setTimeLeftMs] = useState(TIME_ATTACK_SECONDS * 1000);
+  const [feedback, setFeedback] = useState<'correct' | 'wrong' | null>(null);
+  const [isAnswering, setIsAnswering] = useState(false);
+  const [roundStartTime, setRoundStartTime] = useState<number>(0);
+  const round = gameState.currentRound;
+  const playing = gameState.gameStarted && !gameState.gameCompleted;
+
+  useEffect(() => {
+    if (!playing || deadline === null) return;
+
+    const timer = window.setInterval(() => {
+      const left = Math.max(0, deadline - Date.now());
+      setTimeLeftMs(left);
+      if (left === 0) {
+        window.clearInterval(timer);
+        endGame().catch(error => console.error('Failed to end game:', error));
+      }
+    }, 200);
+    return () => window.clearInterval(timer);
+  }, [playing, deadline]);
+
+  const syncClock = (sessionTimeRemainingMs?: number) => {
+    if (sessionTimeRemainingMs !== undefined) {
+      setDeadline(Date.now() + sessionTimeRemainingMs);
+      setTimeLeftMs(sessionTimeRemainingMs);
+    }
+    setRoundStartTime(Date.now());
+  };
+
+  const handleStartGame = async () => {
+    try {
+      clearError();
+      setFeedback(null);
+      const { firstRound } = await startGame('timeattack');
+      syncClock(firstRound.session_time_remaining_ms);
+    } catch (error: any) {
+      console.error('Failed to start game:', error);
+    }
+  };
+
+  const handleImageSelect = async (choice: ImagePosition) => {
+    if (isAnswering || !round) return;
+
+    setIsAnswering(true);
+    try {
+      const result = await submitChoice(choice, Date.now() - roundStartTime);
+      setFeedback(result.is_correct ? 'correct' : 'wrong');
+      if (!result.is_correct && deadline !== null) {
+        setDeadline(deadline - WRONG_PENALTY_SECONDS * 1000);
+      }
+
+      if (!result.game_completed) {
+        await new Promise(resolve => setTimeout(resolve, FEEDBACK_MS));
+        const next = await getNextRound();
+        syncClock(next?.session_time_remaining_ms);
+      }
+    } catch (error: any) {
+      console.error('Failed to submit choice:', error);
+    } finally {
+      setFeedback(null);
+      setIsAnswering(false);
+    }
+  };
+
+  const secondsLeft = Math.ceil(timeLeftMs / 1000);
+
+  return (
+    <div className="streak-mode-page">
+      <div className="game-container">
+        <Button
+          fillMode="flat"
+          onClick={() => onNavigate('home')}
+          className="back-button"
+        >
+          🏠 Back to Home
+        </Button>
+
+        <div className="game-page-header">
+          <h1>⚡ <span className="gradient-text">Time Attack</span></h1>
+          <p>How many AI images can you spot in {TIME_ATTACK_SECONDS} seconds?</p>
+          {gameState.error && (
+            <div className="game-error">
+              Error: {gameState.error}
+              <button onClick={clearError}>
+                Dismiss
+              </button>
+            </div>
+          )}
+        </div>
+
+        {!gameState.gameStarted && !gameState.gameCompleted && (
+          <Card>
+            <CardBody>
+              <div className="game-menu">
+                <div className="game-rules">
+                  <h3>🎯 How to Play</h3>
+                  <ul>
+                    <li>🤖 Click on the AI-generated image in each pair</li>
+                    <li>⏱️ One {TIME_ATTACK_SECONDS} second clock for the whole game</li>
+                    <li>❌ Each wrong answer costs {WRONG_PENALTY_SECONDS} seconds</li>
+                    <li>🏆 Scores go on their own Time Attack leaderboard</li>
+                  </ul>
+                </div>
+
+                <Button
+                  themeColor="primary"
+                  size="large"
+                  onClick={handleStartGame}
+                  className="start-game-btn"
+                  disabled={gameState.isLoading}
+                >
+                  {gameState.isLoading ? 'Starting...' : '⚡ Start Time Attack'}
+                </Button>
+              </div>
+            </CardBody>
+          </Card>
+        )}
+
+        {playing && round && (
+          <>
+            <Card>
+              <CardBody>
+                <div className="timer-section">
+                  <div className="timer-label">Time Remaining</div>
+                  <ProgressBar
+                    value={(timeLeftMs / (TIME_ATTACK_SECONDS * 1000)) * 100}
+                    labelVisible={false}
+                    className={secondsLeft <= 5 ? 'timer-critical' : secondsLeft <= 10 ? 'timer-warning' : ''}
+                  />
+                  <div className="timer-value">{secondsLeft}s</div>
+                </div>
+                <div className="stats-row">
+                  <div className="stat-item">
+                    <span className="stat-label">Pairs</span>
+                    <span className="stat-value">{gameState.roundsCompleted}</span>
+                  </div>
+                  <div className="stat-item">
+                    <span className="stat-label">Score</span>
+                    <span className="stat-value">{gameState.totalScore.toLocaleString()}</span>
+                  </div>
+                </div>
+              </CardBody>
+            </Card>
+
+            <div className="streak-game-card">
+              <Card>
+                <CardHeader>
+                  <CardTitle>
+                    {feedback === 'correct' && '✅ Correct!'}
+                    {feedback === 'wrong' && `❌ Wrong! −${WRONG_PENALTY_SECONDS}s`}
+                    {!feedback && 'Which image is AI-generated?'}
+                  </CardTitle>
+                </CardHeader>
+                <CardBody>
+                  <div className="image-pair-centered">
+                    {(['left', 'right'] as ImagePosition[]).map((position, index) => (
+                      <React.Fragment key={`${round.round_token}-${position}`}>
+                        {index > 0 && <div className="vs-divider">VS</div>}
+                        <div
+                          className={`image-option ${isAnswering ? 'disabled' : ''}`}
+                          onClick={() => handleImageSelect(position)}
+                        >
+                          <div className="image-container">
+                            <img
+                              src={apiService.getRoundImageUrl(round.session_id, round.round_token, position)}
+                              alt={position === 'left' ? 'Image A' : 'Image B'}
+                              className="game-image"
+                            />
+                          </div>
+                        </div>
+                      </React.Fragment>
+                    ))}
+                  </div>
+                </CardBody>
+              </Card>
+            </div>
+          </>
+        )}
+
+        {gameState.gameCompleted && (
+          <Card>
+            <CardBody>
+              <div className="game-results">
+                <div className="final-score">
+                  <h2>⏰ Time's Up!</h2>
+                  <div className="score-display">
+                    <span className="score-label">Final Score</span>
+                    <span className="score-value">{gameState.totalScore}</span>
+                  </div>
+                  {gameState.final_stats && (
+                    <div className="accuracy-display">
+                      <span className="accuracy-label">Pairs Spotted</span>
+                      <span className="accuracy-value">
+                        {gameState.final_stats.correct_answers}/{gameState.final_stats.total_rounds}
+                      </span>
+                    </div>
+                  )}
+                </div>
+
+                <div className="completion-actions">
+                  <Button
+                    themeColor="primary"
+                    onClick={handleStartGame}
+                  >
+                    Play Again
+                  </Button>
+                  <Button
+                    fillMode="outline"
+                    onClick={() => onNavigate('leaderboard')}
+                  >
+                    View Leaderboard
+                  </Button>
+                  <Button
+                    fillMode="outline"
+                    onClick={() => onNavigate('home')}
+                  >
+                    Back to Home
+                  </Button>
+                </div>
+              </div>
+            </CardBody>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TimeAttackMode;
@@ -0,0 +1,272 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@progress/kendo-react-buttons';
+import { Card, CardHeader, CardTitle, CardBody } from '@progress/kendo-react-layout';
+import { ProgressBar } from '@progress/kendo-react-progressbars';
+import { useGameSession } from '../hooks/useGameSession';
+import { apiService } from '../services/api';
+import type { GameResult, Verdict } from '../types/game';
+
+// A verdict game is always this many rounds
+const VERDICT_ROUNDS = 10;
+
+interface VerdictModeProps {
+  onNavigate: (page: 'home' | 'leaderboard') => void;
+}
+
+// One image per round with nothing to compare it to: AI or real?
+const VerdictMode: React.FC<VerdictModeProps> = ({ onNavigate }) => {
+  const { gameState, startGame, submitChoice, getNextRound, clearError } = useGameSession();
+  const [timeRemaining, setTimeRemaining] = useState(15);
+  const [verdict, setVerdict] = useState<Verdict | null>(null);
+  // Only known once the server has graded the round
+  const [result, setResult] = useState<GameResult | null>(null);
+  const [roundStartTime, setRoundStartTime] = useState<number>(0);
+  const round = gameState.currentRound;
+
+  useEffect(() => {
+    let timer: number;
+    if (gameState.gameStarted && !gameState.gameCompleted && timeRemaining > 0 && !result) {
+      timer = window.setTimeout(() => {
+        setTimeRemaining(prev => prev - 1);
+      }, 1000);
+    } else if (timeRemaining === 0 && gameState.gameStarted && !result) {
+      handleVerdict(null);
+    }
+    return () => clearTimeout(timer);
+  }, [timeRemaining, gameState.gameStarted, gameState.gameCompleted, result]);
+
+  const beginRound = (timeRemainingMs: number) => {
+    setTimeRemaining(Math.ceil(timeRemainingMs / 1000));
+    setVerdict(null);
+    setResult(null);
+    setRoundStartTime(Date.now());
+  };
+
+  const handleStartGame = async () => {
+    try {
+      clearError();
+      const { firstRound } = await startGame('verdict');
+      beginRound(firstRound.time_remaining_ms);
+    } catch (error: any) {
+      console.error('Failed to start game:', error);
+    }
+  };
+
+  // A null verdict tells the server the timer ran out
+  const handleVerdict = async (choice: Verdict | null) => {
+    if (result || !round) return;
+
+    setVerdict(choice);
+    try {
+      setResult(await submitChoice(choice, Date.now() - roundStartTime));
+    } catch (error: any) {
+      console.error('Failed to submit verdict:', error);
+    }
+  };
+
+  const nextRound = async () => {
+    try {
+      const next = await getNextRound();
+      if (next) {
+        beginRound(next.time_remaining_ms);
+      }
+    } catch (error: any) {
+      console.error('Failed to get next round:', error);
+    }
+  };
+
+  const getVerdictClass = (choice: Verdict): string => {
+    if (!result) return verdict === choice ? 'selected' : '';
+    if (result.correct_answer === choice) return 'correct';
+    return verdict === choice ? 'incorrect' : '';
+  };
+
+  return (
+    <div className="daily-mode-page">
+      <div className="game-container">
+        <Button
+          fillMode="flat"
+          onClick={() => onNavigate('home')}
+          className="back-button"
+        >
+          🏠 Back to Home
+        </Button>
+
+        <div className="game-page-header">
+          <h1>⚖️ <span className="gradient-text">AI or Real?</span></h1>
+          <p>One image, no comparison. Trust your eye!</p>
+          {gameState.error && (
+            <div className="game-error">
+              Error: {gameState.error}
+              <button onClick={clearError}>
+                Dismiss
+              </button>
+            </div>
+          )}
+        </div>
+
+        {!gameState.gameStarted && !gameState.gameCompleted && (
+          <Card>
+            <CardBody>
+              <div className="game-intro">
+                <h2>🕵️ How to Play</h2>
+                <p>Each round shows a single image. Decide whether it was generated by AI or is a real photo.</p>
+
+                <div className="challenge-info">
+                  <div className="info-item">
+                    <span className="info-icon">🎮</span>
+                    <span>{VERDICT_ROUNDS} rounds</span>
+                  </div>
+                  <div className="info-item">
+                    <span className="info-icon">⏱️</span>
+                    <span>15 seconds per round</span>
+                  </div>
+                  <div className="info-item">
+                    <span className="info-icon">⚖️</span>
+                    <span>Expect a mix of AI images and real photos</span>
+                  </div>
+                </div>
+
+                <div className="start-section">
+                  <Button
+                    themeColor="primary"
+                    size="large"
+                    onClick={handleStartGame}
+                    disabled={gameState.isLoading}
+                  >
+                    {gameState.isLoading ? 'Starting...' : 'Start AI or Real?'}
+                  </Button>
+                </div>
+              </div>
+            </CardBody>
+          </Card>
+        )}
+
+        {gameState.gameStarted && !gameState.gameCompleted && round && (
+          <div className="game-active">
+            <Card>
+              <CardHeader>
+                <CardTitle>
+                  <div className="game-header">
+                    <span>Round {round.round_number} of {VERDICT_ROUNDS}</span>
+                    <span className="timer">⏱️ {timeRemaining}s</span>
+                  </div>
+                </CardTitle>
+              </CardHeader>
+              <CardBody>
+                <div className="progress-section">
+                  <ProgressBar
+                    value={(gameState.roundsCompleted / VERDICT_ROUNDS) * 100}
+                    labelVisible={false}
+                  />
+                  <div className="score-display">Score: {gameState.totalScore}</div>
+                </div>
+
+                <div className="round-content">
+                  <h3>Is this image AI-generated or real?</h3>
+
+                  <div className="verdict-image">
+                    <div className="image-container">
+                      <img
+                        key={round.round_token}
+                        src={apiService.getRoundImageUrl(round.session_id, round.round_token, 0)}
+                        alt="Image to judge"
+                        className="game-image"
+                      />
+                    </div>
+                  </div>
+
+                  <div className="verdict-actions">
+                    <Button
+                      size="large"
+                      className={`verdict-option ${getVerdictClass('ai')}`}
+                      onClick={() => handleVerdict('ai')}
+                      disabled={!!result || gameState.isLoading}
+                    >
+                      🤖 AI Generated
+                    </Button>
+                    <Button
+                      size="large"
+                      className={`verdict-option ${getVerdictClass('real')}`}
+                      onClick={() => handleVerdict('real')}
+                      disabled={!!result || gameState.isLoading}
+                    >
+                      📷 Real Photo
+                    </Button>
+                  </div>
+
+                  {result && (
+                    <div className="round-result">
+                      <div className="round-score">
+                        {result.timed_out && "⌛ Time's up! "}
+                        {result.is_correct ? '✅ Correct!' : `❌ It was ${result.correct_answer === 'ai' ? 'AI-generated' : 'a real photo'}`}
+                        {result.points_earned > 0 && ` · +${result.points_earned} points`}
+                      </div>
+                      <Button
+                        themeColor="primary"
+                        onClick={nextRound}
+                        disabled={gameState.isLoading}
+                      >
+                        {round.round_number < VERDICT_ROUNDS - 1 ? 'Next Round' : 'Last Round'}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </CardBody>
+            </Card>
+          </div>
+        )}
+
+        {gameState.gameCompleted && (
+          <Card>
+            <CardBody>
+              <div className="game-results">
+                <div className="final-score">
+                  <h2>⚖️ Game Complete!</h2>
+                  <div className="score-display">
+                    <span className="score-label">Final Score</span>
+                    <span className="score-value">{gameState.totalScore}</span>
+                    {gameState.perfectBonus !== undefined && gameState.perfectBonus > 0 && (
+                      <span className="challenge-bonus">includes +{gameState.perfectBonus} perfect game bonus</span>
+                    )}
+                  </div>
+                  {gameState.final_stats && (
+                    <div className="accuracy-display">
+                      <span className="accuracy-label">Correct Verdicts</span>
+                      <span className="accuracy-value">
+                        {gameState.final_stats.correct_answers}/{gameState.final_stats.total_rounds}
+                      </span>
+                    </div>
+                  )}
+                </div>
+
+                <div className="completion-actions">
+                  <Button
+                    themeColor="primary"
+                    onClick={handleStartGame}
+                  >
+                    Play Again
+                  </Button>
+                  <Button
+                    fillMode="outline"
+                    onClick={() => onNavigate('leaderboard')}
+                  >
+                    View Leaderboard
+                  </Button>
+                  <Button
+                    fillMode="outline"
+                    onClick={() => onNavigate('home')}
+                  >
+                    Back to Home
+                  </Button>
+                </div>
+              </div>
+            </CardBody>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VerdictMode;
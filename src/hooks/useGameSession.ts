@@ -1,6 +1,6 @@
 import { useState, useCallback } from 'react';
 import { apiService } from '../services/api';
-import type { GameSession, GameRound } from '../types/game';
+import type { GameMode, GameSession, GameRound, ImagePosition, RoundScoreBreakdown, Verdict } from '../types/game';
 
 export interface GameState {
   session: GameSession | null;
@@ -12,6 +12,10 @@ export interface GameState {
   totalScore: number;
   currentStreak: number;
   roundsCompleted: number;
+  challengeBonus?: number;
+  perfectBonus?: number;
+  speedBonus?: number;
+  lastScoreBreakdown?: RoundScoreBreakdown;
   final_stats?: {
     correct_answers: number;
     total_rounds: number;
@@ -34,11 +38,11 @@ export const useGameSession = () => {
     final_stats: undefined,
   });
 
-  const startGame = useCallback(async (gameMode: 'daily' | 'streak', playerId?: string) => {
+  const startGame = useCallback(async (gameMode: GameMode) => {
     setGameState(prev => ({ ...prev, isLoading: true, error: null }));
     
     try {
-      const session = await apiService.startGameSession(gameMode, playerId);
+      const session = await apiService.startGameSession(gameMode);
       const firstRound = await apiService.getNextPair(session.session_id);
       
       setGameState(prev => ({
@@ -50,7 +54,8 @@ export const useGameSession = () => {
         isLoading: false,
         totalScore: firstRound.total_score,
         currentStreak: firstRound.current_streak,
-        roundsCompleted: 0,
+        // A daily already started today is resumed where it was left
+        roundsCompleted: firstRound.round_number - 1,
       }));
       
       return { session, firstRound };
@@ -64,7 +69,8 @@ export const useGameSession = () => {
     }
   }, []);
 
-  const submitChoice = useCallback(async (choice: 'ai' | 'real', responseTime: number) => {
+  // `choice` is a list of image indexes for "Spot the Bot" rounds
+  const submitChoice = useCallback(async (choice: ImagePosition | Verdict | number[] | null, responseTime: number, confidence?: number) => {
     if (!gameState.session || !gameState.currentRound) {
       throw new Error('No active game session');
     }
@@ -74,9 +80,10 @@ export const useGameSession = () => {
     try {
       const result = await apiService.submitChoice(
         gameState.session.session_id,
-        gameState.currentRound.pair.pair_id,
+        gameState.currentRound.round_token,
         choice,
-        responseTime
+        responseTime,
+        confidence
       );
 
       // Update game state with result
@@ -91,6 +98,10 @@ export const useGameSession = () => {
         totalScore: newTotalScore,
         currentStreak: newCurrentStreak,
         gameCompleted: result.game_completed || false,
+        challengeBonus: result.final_result?.challenge_bonus,
+        perfectBonus: result.final_result?.perfect_bonus,
+        speedBonus: result.final_result?.speed_bonus,
+        lastScoreBreakdown: result.score_breakdown,
         final_stats: result.final_result?.final_stats,
       }));
 
@@ -121,6 +132,10 @@ export const useGameSession = () => {
       totalScore: 0,
       currentStreak: 0,
       roundsCompleted: 0,
+      challengeBonus: undefined,
+      perfectBonus: undefined,
+      speedBonus: undefined,
+      lastScoreBreakdown: undefined,
       final_stats: undefined,
     });
   }, []);
@@ -155,6 +170,35 @@ export const useGameSession = () => {
     }
   }, [gameState.session]);
 
+  // Ends the session early, or once a time attack clock has run out
+  const endGame = useCallback(async () => {
+    if (!gameState.session) {
+      throw new Error('No active game session');
+    }
+
+    setGameState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    try {
+      const result = await apiService.endGameSession(gameState.session.session_id);
+      setGameState(prev => ({
+        ...prev,
+        isLoading: false,
+        gameCompleted: true,
+        currentRound: null,
+        totalScore: result.total_score,
+        final_stats: result.final_stats,
+      }));
+      return result;
+    } catch (error: any) {
+      setGameState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: error.message || 'Failed to end game',
+      }));
+      throw error;
+    }
+  }, [gameState.session]);
+
   const clearError = useCallback(() => {
     setGameState(prev => ({ ...prev, error: null }));
   }, []);
@@ -164,6 +208,7 @@ export const useGameSession = () => {
     startGame,
     submitChoice,
     getNextRound,
+    endGame,
     resetGame,
     clearError,
   };
@@ -5,7 +5,14 @@ import { Grid, GridColumn } from '@progress/kendo-react-grid';
 // import { Card, CardHeader, CardTitle, CardBody } from '@progress/kendo-react-layout';
 import { TabStrip, TabStripTab } from '@progress/kendo-react-layout';
 import { Upload } from '@progress/kendo-react-upload';
-import { API_BASE_URL } from '../services/api';
+import { adminApi } from '../services/adminApi';
+import AdminLogin from '../components/AdminLogin';
+import AdminAuditLog from '../components/AdminAuditLog';
+import AdminDailyCalendar from '../components/AdminDailyCalendar';
+import AdminPairCalibration from '../components/AdminPairCalibration';
+import AdminImageSets from '../components/AdminImageSets';
+import AdminImageExplanations from '../components/AdminImageExplanations';
+import type { AdminPrincipal } from '../types/admin';
 
 interface AdminPanelProps {
   onNavigate: (page: 'home' | 'daily-mode' | 'streak-mode' | 'leaderboard' | 'admin') => void;
@@ -31,6 +38,8 @@ const AdminPanelNew: React.FC<AdminPanelProps> = ({ onNavigate }) => {
   const [uploadCategory, setUploadCategory] = useState<string>('object');
   const [uploadDifficulty, setUploadDifficulty] = useState<number>(3);
   const [uploadQuality, setUploadQuality] = useState<number>(7);
+  const [admin, setAdmin] = useState<AdminPrincipal | null>(null);
+  const [authChecked, setAuthChecked] = useState(false);
 
   const [systemStats] = useState<SystemStats>({
     totalUsers: 1247,
@@ -43,9 +52,7 @@ const AdminPanelNew: React.FC<AdminPanelProps> = ({ onNavigate }) => {
 
   const loadDashboardData = useCallback(async () => {
     try {
-      const response = await fetch(`${API_BASE_URL}/admin/dashboard`, {
-        headers: { 'X-API-Key': 'dev-admin-key-123' }
-      });
+      const response = await adminApi.fetch('/admin/dashboard');
       if (response.ok) {
         const data = await response.json();
         setDashboardStats(data.data);
@@ -57,7 +64,7 @@ const AdminPanelNew: React.FC<AdminPanelProps> = ({ onNavigate }) => {
 
   const loadImages = useCallback(async () => {
     try {
-      const response = await fetch(`${API_BASE_URL}/images`);
+      const response = await adminApi.fetch('/images');
       if (response.ok) {
         const data = await response.json();
         setRealImages(data.data || []);
@@ -69,9 +76,7 @@ const AdminPanelNew: React.FC<AdminPanelProps> = ({ onNavigate }) => {
 
   const loadDailyChallenges = useCallback(async () => {
     try {
-      const response = await fetch(`${API_BASE_URL}/admin/daily-challenges`, {
-        headers: { 'X-API-Key': 'dev-admin-key-123' }
-      });
+      const response = await adminApi.fetch('/admin/daily-challenges');
       if (response.ok) {
         const data = await response.json();
         setDailyChallenges(data.data || []);
@@ -81,11 +86,29 @@ const AdminPanelNew: React.FC<AdminPanelProps> = ({ onNavigate }) => {
     }
   }, []);
 
+  // Restore a stored admin session
+  useEffect(() => {
+    if (!adminApi.isLoggedIn()) {
+      setAuthChecked(true);
+      return;
+    }
+    adminApi.me()
+      .then(setAdmin)
+      .catch(() => adminApi.logout())
+      .finally(() => setAuthChecked(true));
+  }, []);
+
   useEffect(() => {
+    if (!admin) return;
     loadDashboardData();
     loadImages();
     loadDailyChallenges();
-  }, [loadDashboardData, loadImages, loadDailyChallenges]);
+  }, [admin, loadDashboardData, loadImages, loadDailyChallenges]);
+
+  const handleLogout = () => {
+    adminApi.logout();
+    setAdmin(null);
+  };
 
   const handleImageUpload = useCallback(async (event: any) => {
     const files = event.newState.filter((file: any) => file.getRawFile);
@@ -109,7 +132,7 @@ const AdminPanelNew: React.FC<AdminPanelProps> = ({ onNavigate }) => {
         formData.append('source_info', 'Admin panel upload');
         formData.append('quality_score', uploadQuality.toString());
 
-        const response = await fetch(`${API_BASE_URL}/images/upload`, {
+        const response = await adminApi.fetch('/images/upload', {
           method: 'POST',
           body: formData
         });
@@ -138,12 +161,9 @@ const AdminPanelNew: React.FC<AdminPanelProps> = ({ onNavigate }) => {
   const createAutoPairs = async () => {
     try {
       setUploadStatus('Creating pairs...');
-      const response = await fetch(`${API_BASE_URL}/admin/auto-pairs`, {
+      const response = await adminApi.fetch('/admin/auto-pairs', {
         method: 'POST',
-        headers: {
-          'X-API-Key': 'dev-admin-key-123',
-          'Content-Type': 'application/json'
-        },
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({})
       });
 
@@ -165,6 +185,14 @@ const AdminPanelNew: React.FC<AdminPanelProps> = ({ onNavigate }) => {
     navigate("/");
   };
 
+  if (!authChecked) {
+    return null;
+  }
+
+  if (!admin) {
+    return <AdminLogin onAuthenticated={setAdmin} onBack={goHome} />;
+  }
+
   return (
     <div style={{ 
       minHeight: '100vh', 
@@ -193,9 +221,17 @@ const AdminPanelNew: React.FC<AdminPanelProps> = ({ onNavigate }) => {
             <h1 style={{ margin: 0, color: '#495057', fontSize: '1.5rem' }}>⚙️ Admin Panel</h1>
             <p style={{ margin: '0.25rem 0 0 0', color: '#6c757d', fontSize: '0.9rem' }}>Manage your Bot or Not game</p>
           </div>
-          <Button onClick={goHome} themeColor="secondary" size="small">
-            🏠 Back to Game
-          </Button>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+            <span style={{ color: '#6c757d', fontSize: '0.9rem' }}>
+              👤 {admin.username} ({admin.role})
+            </span>
+            <Button onClick={handleLogout} size="small" fillMode="outline">
+              Log Out
+            </Button>
+            <Button onClick={goHome} themeColor="secondary" size="small">
+              🏠 Back to Game
+            </Button>
+          </div>
         </div>
 
         {/* Tabs */}
@@ -502,6 +538,7 @@ const AdminPanelNew: React.FC<AdminPanelProps> = ({ onNavigate }) => {
                         difficulty: img.difficulty_level,
                         uploadDate: new Date(img.upload_date).toLocaleDateString(),
                         usage: img.usage_count,
+                        verdict: img.verdict_stats ? `${img.verdict_stats.success_rate}%` : '—',
                         size: Math.round(img.file_size / 1024) + ' KB',
                       }))}
                       style={{ 
@@ -525,6 +562,7 @@ const AdminPanelNew: React.FC<AdminPanelProps> = ({ onNavigate }) => {
                       <GridColumn field="difficulty" title="Diff." width="70px" />
                       <GridColumn field="uploadDate" title="Date" width="100px" />
                       <GridColumn field="usage" title="Used" width="60px" />
+                      <GridColumn field="verdict" title="Judged Right" width="100px" />
                       <GridColumn field="size" title="Size" width="80px" />
                     </Grid>
                   </div>
@@ -562,6 +600,7 @@ const AdminPanelNew: React.FC<AdminPanelProps> = ({ onNavigate }) => {
                       const categoryEl = document.getElementById('challenge-category') as HTMLSelectElement;
                       const pointsEl = document.getElementById('challenge-points') as HTMLInputElement;
                       const descriptionEl = document.getElementById('challenge-description') as HTMLTextAreaElement;
+                      const pairsEl = document.getElementById('challenge-pairs') as HTMLInputElement;
                       
                       const challengeData: any = {
                         date: dateEl?.value || new Date().toISOString().split('T')[0],
@@ -576,14 +615,17 @@ const AdminPanelNew: React.FC<AdminPanelProps> = ({ onNavigate }) => {
                         challengeData.category = categoryEl.value;
                       }
 
+                      // Curated pairs are optional; without them the day's pairs are picked by seed
+                      const pairIds = (pairsEl?.value || '').split(',').map(id => id.trim()).filter(Boolean);
+                      if (pairIds.length > 0) {
+                        challengeData.pair_ids = pairIds;
+                      }
+
                       console.log('Sending challenge data:', challengeData);
                       
-                      const response = await fetch(`${API_BASE_URL}/admin/daily-challenges`, {
+                      const response = await adminApi.fetch('/admin/daily-challenges', {
                         method: 'POST',
-                        headers: {
-                          'X-API-Key': 'dev-admin-key-123',
-                          'Content-Type': 'application/json'
-                        },
+                        headers: { 'Content-Type': 'application/json' },
                         body: JSON.stringify(challengeData)
                       });
 
@@ -594,6 +636,7 @@ const AdminPanelNew: React.FC<AdminPanelProps> = ({ onNavigate }) => {
                         setUploadStatus('✅ Daily challenge created successfully!');
                         // Clear form
                         if (descriptionEl) descriptionEl.value = '';
+                        if (pairsEl) pairsEl.value = '';
                         // Reload challenges list
                         loadDailyChallenges();
                       } else {
@@ -683,6 +726,18 @@ const AdminPanelNew: React.FC<AdminPanelProps> = ({ onNavigate }) => {
                     }}
                   />
                 </div>
+
+                <div style={{ marginBottom: '1.5rem' }}>
+                  <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                    Curated Pair IDs (optional):
+                  </label>
+                  <input
+                    id="challenge-pairs"
+                    type="text"
+                    placeholder="Three pair IDs, comma separated, in play order. Leave empty to generate."
+                    style={{ width: '100%', padding: '0.5rem', borderRadius: '4px', border: '1px solid #ccc' }}
+                  />
+                </div>
                 
               </div>
 
@@ -738,6 +793,7 @@ const AdminPanelNew: React.FC<AdminPanelProps> = ({ onNavigate }) => {
                           <div>🎯 Difficulty: {challenge.difficulty_level}/5</div>
                           <div>🏆 Reward: {challenge.points_reward} points</div>
                           {challenge.category && <div>📂 Category: {challenge.category}</div>}
+                          <div>🧩 Pairs: {challenge.pair_ids?.length ? 'Curated' : 'Generated'}</div>
                         </div>
                         <div style={{ marginTop: '1rem', display: 'flex', gap: '0.5rem' }}>
                           <Button
@@ -754,9 +810,8 @@ const AdminPanelNew: React.FC<AdminPanelProps> = ({ onNavigate }) => {
                             onClick={async () => {
                               if (confirm('Delete this challenge?')) {
                                 try {
-                                  const response = await fetch(`${API_BASE_URL}/admin/daily-challenges/${challenge.id}`, {
-                                    method: 'DELETE',
-                                    headers: { 'X-API-Key': 'dev-admin-key-123' }
+                                  const response = await adminApi.fetch(`/admin/daily-challenges/${challenge.id}`, {
+                                    method: 'DELETE'
                                   });
                                   if (response.ok) {
                                     setUploadStatus('✅ Challenge deleted successfully!');
@@ -793,6 +848,25 @@ const AdminPanelNew: React.FC<AdminPanelProps> = ({ onNavigate }) => {
             </div>
           </TabStripTab>
 
+          <TabStripTab title="📆 Calendar">
+            <AdminDailyCalendar
+              canWrite={admin.permissions.includes('challenges:write')}
+              onScheduled={loadDailyChallenges}
+            />
+          </TabStripTab>
+
+          <TabStripTab title="🔍 Image Sets">
+            <AdminImageSets canWrite={admin.permissions.includes('pairs:write')} />
+          </TabStripTab>
+
+          <TabStripTab title="💡 Explanations">
+            <AdminImageExplanations canWrite={admin.permissions.includes('images:write')} />
+          </TabStripTab>
+
+          <TabStripTab title="🧪 Calibration">
+            <AdminPairCalibration canWrite={admin.permissions.includes('pairs:write')} />
+          </TabStripTab>
+
           <TabStripTab title="⚙️ Settings">
             <div style={{ padding: '1.5rem', height: '100%', overflow: 'auto' }}>
               <div style={{ textAlign: 'center', marginBottom: '2rem' }}>
@@ -914,6 +988,16 @@ const AdminPanelNew: React.FC<AdminPanelProps> = ({ onNavigate }) => {
               </div>
             </div>
           </TabStripTab>
+
+          <TabStripTab title="📜 Audit Log">
+            {admin.permissions.includes('logs:read') ? (
+              <AdminAuditLog />
+            ) : (
+              <div style={{ padding: '1.5rem', color: '#6c757d' }}>
+                Your role ({admin.role}) cannot view the audit log.
+              </div>
+            )}
+          </TabStripTab>
         </TabStrip>
       </div>
     </div>
@@ -1,51 +1,93 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Button } from '@progress/kendo-react-buttons';
 import { Grid, GridColumn } from '@progress/kendo-react-grid';
 import { Card, CardHeader, CardTitle, CardBody } from '@progress/kendo-react-layout';
 import { Chart, ChartSeries, ChartSeriesItem, ChartCategoryAxis, ChartCategoryAxisItem } from '@progress/kendo-react-charts';
 import { DropDownList } from '@progress/kendo-react-dropdowns';
+import { apiService } from '../services/api';
+import type { GameMode, Leaderboard as LeaderboardData, LeaderboardEntry, LeaderboardWindow, LeaderboardRankBy } from '../types/game';
 
 interface LeaderboardProps {
   onNavigate: (page: 'home' | 'daily-mode' | 'streak-mode' | 'leaderboard' | 'admin') => void;
 }
 
-interface Player {
-  id: number;
-  rank: number;
-  username: string;
-  totalScore: number;
-  dailyStreak: number;
-  bestStreak: number;
-  gamesPlayed: number;
-  accuracy: number;
-  lastActive: string;
+interface Option<T> {
+  text: string;
+  value: T;
 }
 
+const timeFilterOptions: Option<LeaderboardWindow>[] = [
+  { text: 'All Time', value: 'all' },
+  { text: 'This Month', value: 'month' },
+  { text: 'This Week', value: 'week' },
+  { text: 'Today', value: 'today' }
+];
+
+const modeOptions: Option<'all' | GameMode>[] = [
+  { text: 'All Modes', value: 'all' },
+  { text: 'Daily', value: 'daily' },
+  { text: 'Streak', value: 'streak' },
+  { text: 'Spot the Bot', value: 'spot' },
+  { text: 'AI or Real?', value: 'verdict' },
+  { text: 'Confidence', value: 'confidence' },
+  { text: 'Time Attack', value: 'timeattack' }
+];
+
+const rankByOptions: Option<LeaderboardRankBy>[] = [
+  { text: 'Best Score', value: 'best_score' },
+  { text: 'Total Score', value: 'total_score' },
+  { text: 'Best Streak', value: 'best_streak' },
+  { text: 'Accuracy', value: 'accuracy' }
+];
+
+const LEADERBOARD_SIZE = 50;
+
+const formatMetric = (entry: LeaderboardEntry, rankBy: LeaderboardRankBy): string => {
+  return rankBy === 'accuracy' ? `${entry.accuracy}%` : entry[rankBy].toLocaleString();
+};
+
 const Leaderboard: React.FC<LeaderboardProps> = ({ onNavigate }) => {
-  // Sample leaderboard data
-  const [players] = useState<Player[]>([
-    { id: 1, rank: 1, username: 'AIDetector_Pro', totalScore: 15420, dailyStreak: 12, bestStreak: 45, gamesPlayed: 156, accuracy: 94.2, lastActive: '2025-09-25' },
-    { id: 2, rank: 2, username: 'BotSpotter_99', totalScore: 14850, dailyStreak: 8, bestStreak: 38, gamesPlayed: 142, accuracy: 91.8, lastActive: '2025-09-25' },
-    { id: 3, rank: 3, username: 'RealOrFake_Master', totalScore: 13920, dailyStreak: 15, bestStreak: 42, gamesPlayed: 134, accuracy: 89.5, lastActive: '2025-09-24' },
-    { id: 4, rank: 4, username: 'ImageAnalyst_X', totalScore: 12750, dailyStreak: 5, bestStreak: 28, gamesPlayed: 128, accuracy: 87.3, lastActive: '2025-09-25' },
-    { id: 5, rank: 5, username: 'PixelPerfect', totalScore: 11680, dailyStreak: 3, bestStreak: 35, gamesPlayed: 119, accuracy: 85.7, lastActive: '2025-09-23' },
-    { id: 6, rank: 6, username: 'TruthSeeker_AI', totalScore: 10920, dailyStreak: 7, bestStreak: 31, gamesPlayed: 112, accuracy: 84.1, lastActive: '2025-09-25' },
-    { id: 7, rank: 7, username: 'DeepFake_Hunter', totalScore: 10150, dailyStreak: 2, bestStreak: 26, gamesPlayed: 105, accuracy: 82.8, lastActive: '2025-09-24' },
-    { id: 8, rank: 8, username: 'Visual_Validator', totalScore: 9580, dailyStreak: 4, bestStreak: 29, gamesPlayed: 98, accuracy: 81.2, lastActive: '2025-09-25' }
-  ]);
-
-  const [timeFilter, setTimeFilter] = useState('all-time');
-  const timeFilterOptions = [
-    { text: 'All Time', value: 'all-time' },
-    { text: 'This Month', value: 'month' },
-    { text: 'This Week', value: 'week' },
-    { text: 'Today', value: 'today' }
-  ];
+  const [timeFilter, setTimeFilter] = useState(timeFilterOptions[0]);
+  const [modeFilter, setModeFilter] = useState(modeOptions[0]);
+  const [rankBy, setRankBy] = useState(rankByOptions[0]);
+  const [leaderboard, setLeaderboard] = useState<LeaderboardData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    apiService.getLeaderboard({
+      window: timeFilter.value,
+      mode: modeFilter.value === 'all' ? undefined : modeFilter.value,
+      rankBy: rankBy.value,
+      limit: LEADERBOARD_SIZE
+    })
+      .then(data => {
+        if (cancelled) return;
+        setLeaderboard(data);
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [timeFilter, modeFilter, rankBy]);
+
+  const players = leaderboard?.entries || [];
+  const ownEntry = leaderboard?.player_entry;
 
   // Chart data for top 5 players
   const chartData = players.slice(0, 5).map(player => ({
-    category: player.username,
-    value: player.totalScore
+    category: player.display_name,
+    value: player[rankBy.value]
   }));
 
   const getRankBadge = (rank: number) => {
@@ -62,11 +104,12 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ onNavigate }) => {
   };
 
   const UsernameCell = (props: any) => {
+    const isOwn = props.dataItem.player_id === ownEntry?.player_id;
     return (
       <td className="username-cell">
         <div className="player-info">
-          <span className="username">{props.dataItem.username}</span>
-          <span className="last-active">Last active: {new Date(props.dataItem.lastActive).toLocaleDateString()}</span>
+          <span className="username">{props.dataItem.display_name}{isOwn && ' (you)'}</span>
+          <span className="last-active">Last active: {new Date(props.dataItem.last_played).toLocaleDateString()}</span>
         </div>
       </td>
     );
@@ -75,7 +118,15 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ onNavigate }) => {
   const ScoreCell = (props: any) => {
     return (
       <td className="score-cell">
-        <span className="score-value">{props.dataItem.totalScore.toLocaleString()}</span>
+        <span className="score-value">{props.dataItem[props.field].toLocaleString()}</span>
+      </td>
+    );
+  };
+
+  const DailyStreakCell = (props: any) => {
+    return (
+      <td className="daily-streak-cell">
+        {props.dataItem.daily_streak > 0 ? `🔥 ${props.dataItem.daily_streak}` : '–'}
       </td>
     );
   };
@@ -90,6 +141,18 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ onNavigate }) => {
     );
   };
 
+  const renderEmpty = () => (
+    <p className="leaderboard-empty">
+      {isLoading
+        ? 'Loading leaderboard...'
+        : error
+          ? `Could not load the leaderboard: ${error}`
+          : rankBy.value === 'accuracy'
+            ? `No players with at least ${leaderboard?.min_games} games yet.`
+            : 'No games played in this period yet.'}
+    </p>
+  );
+
   return (
     <div className="leaderboard-page">
       <div className="page-header">
@@ -109,27 +172,52 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ onNavigate }) => {
         <div className="podium-section">
           <Card>
             <CardHeader>
-              <CardTitle>🏆 Top Players</CardTitle>
+              <CardTitle>🏆 Top Players · {rankBy.text}</CardTitle>
             </CardHeader>
             <CardBody>
-              <div className="podium">
-                {players.slice(0, 3).map((player, index) => (
-                  <div key={player.id} className={`podium-place place-${index + 1}`}>
-                    <div className="podium-rank">{getRankBadge(player.rank)}</div>
-                    <div className="podium-username">{player.username}</div>
-                    <div className="podium-score">{player.totalScore.toLocaleString()}</div>
-                  </div>
-                ))}
-              </div>
+              {players.length === 0 ? renderEmpty() : (
+                <div className="podium">
+                  {players.slice(0, 3).map((player, index) => (
+                    <div key={player.player_id} className={`podium-place place-${index + 1}`}>
+                      <div className="podium-rank">{getRankBadge(player.rank)}</div>
+                      <div className="podium-username">{player.display_name}</div>
+                      <div className="podium-score">{formatMetric(player, rankBy.value)}</div>
+                    </div>
+                  ))}
+                </div>
+              )}
             </CardBody>
           </Card>
         </div>
 
+        {ownEntry !== undefined && (
+          <div className="own-rank-section">
+            <Card>
+              <CardBody>
+                {ownEntry ? (
+                  <div className="own-rank">
+                    <span className="own-rank-position">Your rank: {getRankBadge(ownEntry.rank)}</span>
+                    <span>of {leaderboard?.total_players}</span>
+                    <span>{rankBy.text}: {formatMetric(ownEntry, rankBy.value)}</span>
+                    <span>{ownEntry.total_games} games</span>
+                    {ownEntry.daily_streak > 0 && <span>🔥 {ownEntry.daily_streak}-day daily streak</span>}
+                  </div>
+                ) : (
+                  <div className="own-rank">
+                    You are not ranked in this period yet
+                    {leaderboard && leaderboard.min_games > 1 && ` (needs ${leaderboard.min_games} games)`}.
+                  </div>
+                )}
+              </CardBody>
+            </Card>
+          </div>
+        )}
+
         {/* Statistics Cards */}
         <div className="stats-section">
           <Card>
             <CardHeader>
-              <CardTitle>📊 Top Scores Chart</CardTitle>
+              <CardTitle>📊 Top {rankBy.text} Chart</CardTitle>
             </CardHeader>
             <CardBody>
               <Chart style={{ height: '300px' }}>
@@ -137,10 +225,10 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ onNavigate }) => {
                   <ChartCategoryAxisItem categories={chartData.map(d => d.category)} />
                 </ChartCategoryAxis>
                 <ChartSeries>
-                  <ChartSeriesItem 
-                    type="column" 
+                  <ChartSeriesItem
+                    type="column"
                     data={chartData.map(d => d.value)}
-                    name="Total Score"
+                    name={rankBy.text}
                     color="#667eea"
                   />
                 </ChartSeries>
@@ -155,20 +243,28 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ onNavigate }) => {
             <CardBody>
               <div className="quick-stats">
                 <div className="stat-item">
-                  <span className="stat-label">Total Players</span>
-                  <span className="stat-value">{players.length}</span>
+                  <span className="stat-label">Ranked Players</span>
+                  <span className="stat-value">{leaderboard?.total_players ?? 0}</span>
                 </div>
                 <div className="stat-item">
                   <span className="stat-label">Highest Score</span>
-                  <span className="stat-value">{Math.max(...players.map(p => p.totalScore)).toLocaleString()}</span>
+                  <span className="stat-value">
+                    {players.length > 0 ? Math.max(...players.map(p => p.best_score)).toLocaleString() : '–'}
+                  </span>
                 </div>
                 <div className="stat-item">
                   <span className="stat-label">Best Streak</span>
-                  <span className="stat-value">{Math.max(...players.map(p => p.bestStreak))}</span>
+                  <span className="stat-value">
+                    {players.length > 0 ? Math.max(...players.map(p => p.best_streak)) : '–'}
+                  </span>
                 </div>
                 <div className="stat-item">
                   <span className="stat-label">Avg Accuracy</span>
-                  <span className="stat-value">{(players.reduce((sum, p) => sum + p.accuracy, 0) / players.length).toFixed(1)}%</span>
+                  <span className="stat-value">
+                    {players.length > 0
+                      ? `${(players.reduce((sum, p) => sum + p.accuracy, 0) / players.length).toFixed(1)}%`
+                      : '–'}
+                  </span>
                 </div>
               </div>
             </CardBody>
@@ -182,64 +278,88 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ onNavigate }) => {
               <CardTitle>
                 <div className="table-header">
                   <span>Full Leaderboard</span>
-                  <DropDownList
-                    data={timeFilterOptions}
-                    textField="text"
-                    dataItemKey="value"
-                    value={timeFilter}
-                    onChange={(e) => setTimeFilter(e.value)}
-                  />
+                  <div className="leaderboard-filters">
+                    <DropDownList
+                      data={modeOptions}
+                      textField="text"
+                      dataItemKey="value"
+                      value={modeFilter}
+                      onChange={(e) => setModeFilter(e.value)}
+                    />
+                    <DropDownList
+                      data={rankByOptions}
+                      textField="text"
+                      dataItemKey="value"
+                      value={rankBy}
+                      onChange={(e) => setRankBy(e.value)}
+                    />
+                    <DropDownList
+                      data={timeFilterOptions}
+                      textField="text"
+                      dataItemKey="value"
+                      value={timeFilter}
+                      onChange={(e) => setTimeFilter(e.value)}
+                    />
+                  </div>
                 </div>
               </CardTitle>
             </CardHeader>
             <CardBody>
-              <Grid
-                data={players}
-                autoProcessData={true}
-                sortable={true}
-                pageable={true}
-                pageSize={10}
-              >
-                <GridColumn 
-                  field="rank" 
-                  title="Rank" 
-                  width="80px"
-                  cells={{ data: RankCell }}
-                />
-                <GridColumn 
-                  field="username" 
-                  title="Player" 
-                  width="200px"
-                  cells={{ data: UsernameCell }}
-                />
-                <GridColumn 
-                  field="totalScore" 
-                  title="Total Score" 
-                  width="120px"
-                  cells={{ data: ScoreCell }}
-                />
-                <GridColumn 
-                  field="dailyStreak" 
-                  title="Daily Streak" 
-                  width="100px"
-                />
-                <GridColumn 
-                  field="bestStreak" 
-                  title="Best Streak" 
-                  width="100px"
-                />
-                <GridColumn 
-                  field="gamesPlayed" 
-                  title="Games" 
-                  width="80px"
-                />
-                <GridColumn 
-                  field="accuracy" 
-                  title="Accuracy" 
-                  width="100px"
-                  cells={{ data: AccuracyCell }}
-                />
-              </Grid>
+              {players.length === 0 ? renderEmpty() : (
+                <Grid
+                  data={players}
+                  autoProcessData={true}
+                  pageable={true}
+                  pageSize={10}
+                >
+                  <GridColumn
+                    field="rank"
+                    title="Rank"
+                    width="80px"
+                    cells={{ data: RankCell }}
+                  />
+                  <GridColumn
+                    field="display_name"
+                    title="Player"
+                    width="200px"
+                    cells={{ data: UsernameCell }}
+                  />
+                  <GridColumn
+                    field="best_score"
+                    title="Best Score"
+                    width="110px"
+                    cells={{ data: ScoreCell }}
+                  />
+                  <GridColumn
+                    field="total_score"
+                    title="Total Score"
+                    width="110px"
+                    cells={{ data: ScoreCell }}
+                  />
+                  <GridColumn
+                    field="best_streak"
+                    title="Best Streak"
+                    width="100px"
+                  />
+                  <GridColumn
+                    field="daily_streak"
+                    title="Daily Streak"
+                    width="100px"
+                    cells={{ data: DailyStreakCell }}
+                  />
+                  <GridColumn
+                    field="total_games"
+                    title="Games"
+                    width="80px"
+                  />
+                  <GridColumn
+                    field="accuracy"
+                    title="Accuracy"
+                    width="100px"
+                    cells={{ data: AccuracyCell }}
+                  />
+                </Grid>
+              )}
             </CardBody>
           </Card>
         </div>
@@ -248,4 +368,4 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ onNavigate }) => {
   );
 };
 
-export default Leaderboard;
\ No newline at end of file
+export default Leaderboard;
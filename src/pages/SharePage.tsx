@@ -0,0 +1,75 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { Button } from '@progress/kendo-react-buttons';
+import { Card, CardBody } from '@progress/kendo-react-layout';
+import { apiService } from '../services/api';
+import type { ShareSummary, ShareRoundResult } from '../types/game';
+
+const RESULT_EMOJI: Record<ShareRoundResult, string> = {
+  correct: '✅',
+  wrong: '❌',
+  timeout: '⌛'
+};
+
+// Public, read-only page behind a shared daily result link. It shows how the
+// player did without revealing any of the day's images or answers.
+const SharePage: React.FC = () => {
+  const { shareId } = useParams<{ shareId: string }>();
+  const navigate = useNavigate();
+  const [summary, setSummary] = useState<ShareSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!shareId) return;
+    apiService.getSharedResult(shareId)
+      .then(setSummary)
+      .catch(err => setError(err.message || 'Failed to load shared result'));
+  }, [shareId]);
+
+  const date = summary
+    ? new Date(`${summary.date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })
+    : '';
+
+  return (
+    <div className="daily-mode-page">
+      <div className="game-container">
+        <div className="game-page-header">
+          <h1>🤖 <span className="gradient-text">Bot or Not</span></h1>
+        </div>
+        <Card>
+          <CardBody>
+            {error && <div className="game-error">{error}</div>}
+            {!error && !summary && <div className="loading-player">Loading result...</div>}
+            {summary && (
+              <div className="share-result">
+                <h2>Daily #{summary.puzzle_number}</h2>
+                <p className="share-date">{date}</p>
+                <div className="share-tiles">
+                  {summary.results.map((result, index) => (
+                    <span key={index} title={`Round ${index + 1}: ${result}`}>{RESULT_EMOJI[result]}</span>
+                  ))}
+                </div>
+                <p className="share-stats">
+                  {summary.correct_answers}/{summary.total_rounds} correct
+                  {summary.average_response_time > 0 && ` · ${(summary.average_response_time / 1000).toFixed(1)}s avg`}
+                  {` · ${summary.total_score} pts`}
+                </p>
+                <p className="share-player">
+                  {summary.display_name}
+                  {summary.daily_streak > 1 && ` · 🔥 ${summary.daily_streak}-day streak`}
+                </p>
+              </div>
+            )}
+            <div className="completion-actions">
+              <Button themeColor="primary" onClick={() => navigate('/')}>
+                Play Today's Daily
+              </Button>
+            </div>
+          </CardBody>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default SharePage;
@@ -0,0 +1,64 @@
+// Admin panel API client. Admin sessions are separate from player logins and
+// use their own token, sent as a Bearer header on every admin request.
+import { API_BASE_URL } from './api';
+import type { AdminPrincipal, AdminLoginResult } from '../types/admin';
+
+const ADMIN_TOKEN_KEY = 'botOrNot.adminToken';
+
+class AdminApiService {
+  private token: string | null = localStorage.getItem(ADMIN_TOKEN_KEY);
+
+  isLoggedIn(): boolean {
+    return this.token !== null;
+  }
+
+  logout(): void {
+    this.token = null;
+    localStorage.removeItem(ADMIN_TOKEN_KEY);
+  }
+
+  async login(username: string, password: string): Promise<AdminPrincipal> {
+    const response = await fetch(`${API_BASE_URL}/admin/auth/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password })
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Login failed');
+    }
+
+    const { token } = result.data as AdminLoginResult;
+    this.token = token;
+    localStorage.setItem(ADMIN_TOKEN_KEY, token);
+    return this.me();
+  }
+
+  async me(): Promise<AdminPrincipal> {
+    const response = await this.fetch('/admin/auth/me');
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Not authenticated');
+    }
+    return result.data;
+  }
+
+  // fetch() against the API with the admin session attached. An expired or
+  // revoked session clears the stored token so the panel shows the login form.
+  async fetch(endpoint: string, init: RequestInit = {}): Promise<Response> {
+    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+      ...init,
+      headers: {
+        ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+        ...init.headers
+      }
+    });
+    if (response.status === 401) {
+      this.logout();
+    }
+    return response;
+  }
+}
+
+export const adminApi = new AdminApiService();
+export default adminApi;
@@ -1,20 +1,40 @@
 // API service for communicating with the backend
-import type { GameSession, GameRound, GameResult } from '../types/game';
+import type {
+  GameMode,
+  GameSession,
+  GameRound,
+  GameResult,
+  ImagePosition,
+  Verdict,
+  Player,
+  PlayerStats,
+  AuthResult,
+  DailyStatus,
+  ShareSummary,
+  ShareResult,
+  Leaderboard,
+  LeaderboardWindow,
+  LeaderboardRankBy
+} from '../types/game';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || '/api';
+const AUTH_TOKEN_KEY = 'botOrNot.authToken';
 
 class ApiService {
+  private authToken: string | null = localStorage.getItem(AUTH_TOKEN_KEY);
+
   private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
     const url = `${API_BASE_URL}${endpoint}`;
     
     const config: RequestInit = {
+      ...options,
       headers: {
         'Content-Type': 'application/json',
+        ...(this.authToken ? { Authorization: `Bearer ${this.authToken}` } : {}),
         ...options.headers,
       },
       mode: 'cors',
       credentials: 'include',
-      ...options,
     };
 
     try {
@@ -43,13 +63,73 @@ class ApiService {
     }
   }
 
+  // Player API methods
+  isLoggedIn(): boolean {
+    return this.authToken !== null;
+  }
+
+  logout(): void {
+    this.authToken = null;
+    localStorage.removeItem(AUTH_TOKEN_KEY);
+  }
+
+  async register(username: string, password: string): Promise<Player> {
+    const result = await this.request<AuthResult>('/players/register', {
+      method: 'POST',
+      body: JSON.stringify({ username, password }),
+    });
+    return this.storeAuth(result);
+  }
+
+  async login(username: string, password: string): Promise<Player> {
+    const result = await this.request<AuthResult>('/players/login', {
+      method: 'POST',
+      body: JSON.stringify({ username, password }),
+    });
+    return this.storeAuth(result);
+  }
+
+  async getCurrentPlayer(): Promise<Player> {
+    return this.request<Player>('/players/me');
+  }
+
+  // Daily rollover follows the player's timezone
+  async updateTimezone(timezone: string): Promise<Player> {
+    return this.request<Player>('/players/me', {
+      method: 'PATCH',
+      body: JSON.stringify({ timezone }),
+    });
+  }
+
+  // Server-issued guest identity, kept in localStorage like a login token
+  async createGuest(): Promise<Player> {
+    const result = await this.request<AuthResult>('/players/guest', {
+      method: 'POST',
+    });
+    return this.storeAuth(result);
+  }
+
+  // Turns the current guest into a new account, or merges it into an existing one
+  async upgradeGuest(username: string, password: string, existingAccount: boolean): Promise<Player> {
+    const result = await this.request<AuthResult>('/players/upgrade', {
+      method: 'POST',
+      body: JSON.stringify({ username, password, existing_account: existingAccount }),
+    });
+    return this.storeAuth(result);
+  }
+
+  private storeAuth(result: AuthResult): Player {
+    this.authToken = result.token;
+    localStorage.setItem(AUTH_TOKEN_KEY, result.token);
+    return result.player;
+  }
+
   // Game API methods
-  async startGameSession(gameMode: 'daily' | 'streak', playerId?: string): Promise<GameSession> {
+  async startGameSession(gameMode: GameMode): Promise<GameSession> {
     return this.request<GameSession>('/game/start', {
       method: 'POST',
       body: JSON.stringify({
         game_mode: gameMode,
-        player_id: playerId,
       }),
     });
   }
@@ -60,45 +140,75 @@ class ApiService {
 
   async submitChoice(
     sessionId: string,
-    pairId: string,
-    choice: 'ai' | 'real',
-    responseTime: number
+    roundToken: string,
+    choice: ImagePosition | Verdict | number[] | null, // image indexes for "Spot the Bot" rounds
+    responseTime: number,
+    confidence?: number // percent, from 50 to 100
   ): Promise<GameResult> {
     return this.request<GameResult>(`/game/sessions/${sessionId}/submit`, {
       method: 'POST',
       body: JSON.stringify({
-        pair_id: pairId,
-        player_choice: choice,
+        round_token: roundToken,
+        // All are omitted when the timer ran out
+        choice: choice === 'left' || choice === 'right' ? choice : undefined,
+        selection: Array.isArray(choice) ? choice : undefined,
+        verdict: choice === 'ai' || choice === 'real' ? choice : undefined,
         response_time: responseTime,
+        confidence,
       }),
     });
   }
 
-  async endGameSession(sessionId: string): Promise<any> {
+  async endGameSession(sessionId: string): Promise<NonNullable<GameResult['final_result']>> {
     return this.request(`/game/sessions/${sessionId}/end`, {
       method: 'POST',
     });
   }
 
-  async checkDailyChallenge(playerId: string): Promise<{
-    available: boolean;
-    date: string;
-    player_id: string;
-  }> {
-    return this.request(`/game/daily-challenge/${playerId}`);
+  async getDailyStatus(): Promise<DailyStatus> {
+    return this.request<DailyStatus>('/game/daily-challenge');
   }
 
-  async getLeaderboard(gameMode?: 'daily' | 'streak', limit: number = 10): Promise<any[]> {
+  // Share a completed daily game; sharing it again returns the same link
+  async shareResult(sessionId: string): Promise<ShareResult> {
+    return this.request<ShareResult>(`/game/sessions/${sessionId}/share`, {
+      method: 'POST',
+    });
+  }
+
+  async getSharedResult(shareId: string): Promise<ShareSummary> {
+    return this.request<ShareSummary>(`/share/${shareId}`);
+  }
+
+  getShareCardUrl(shareId: string): string {
+    return `${API_BASE_URL}/share/${shareId}/card.png`;
+  }
+
+  async getPlayerStats(playerId: string): Promise<PlayerStats> {
+    return this.request<PlayerStats>(`/game/stats/${playerId}`);
+  }
+
+  // Sends the auth token when present so the response includes our own rank
+  async getLeaderboard(options: {
+    mode?: GameMode;
+    window?: LeaderboardWindow;
+    rankBy?: LeaderboardRankBy;
+    minGames?: number;
+    limit?: number;
+  } = {}): Promise<Leaderboard> {
     const params = new URLSearchParams();
-    if (gameMode) params.append('mode', gameMode);
-    params.append('limit', limit.toString());
-    
+    if (options.mode) params.append('mode', options.mode);
+    if (options.window) params.append('window', options.window);
+    if (options.rankBy) params.append('rank_by', options.rankBy);
+    if (options.minGames) params.append('min_games', options.minGames.toString());
+    params.append('limit', (options.limit || 10).toString());
+
     return this.request(`/game/leaderboard?${params}`);
   }
 
   // Image API methods
-  getImageUrl(storedFilename: string): string {
-    return `${API_BASE_URL}/images/${storedFilename}/file`;
+  getRoundImageUrl(sessionId: string, roundToken: string, position: ImagePosition | number): string {
+    return `${API_BASE_URL}/game/sessions/${sessionId}/rounds/${roundToken}/images/${position}`;
   }
 
   // Health check
@@ -132,6 +242,18 @@ export const apiService = new ApiService();
 export default apiService;
 
 // Re-export types for convenience
-export type { GameSession, ImagePair, GameRound, GameResult } from '../types/game';
+export type {
+  GameSession,
+  GameRound,
+  GameResult,
+  ImagePosition,
+  Player,
+  AuthResult,
+  DailyStatus,
+  ShareSummary,
+  ShareResult,
+  Leaderboard,
+  LeaderboardEntry
+} from '../types/game';
 
 export { API_BASE_URL };
\ No newline at end of file
@@ -0,0 +1,171 @@
+// Admin account types, mirroring backend/src/models/AdminUser.ts
+
+export type AdminRole = 'viewer' | 'curator' | 'operator' | 'owner';
+
+export type AdminPermission =
+  | 'dashboard:read'
+  | 'logs:read'
+  | 'settings:read'
+  | 'settings:write'
+  | 'images:write'
+  | 'pairs:write'
+  | 'challenges:read'
+  | 'challenges:write'
+  | 'data:export'
+  | 'data:import'
+  | 'system:backup'
+  | 'system:maintenance'
+  | 'admins:manage';
+
+export interface AdminUser {
+  admin_id: string;
+  username: string;
+  role: AdminRole;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  last_login?: string;
+}
+
+// The signed-in admin as returned by /admin/auth/me
+export interface AdminPrincipal {
+  admin_id: string;
+  username: string;
+  role: AdminRole;
+  permissions: AdminPermission[];
+  via: 'session' | 'api-token';
+  token_id?: string;
+}
+
+export interface AdminLoginResult {
+  token: string;
+  expires_in: string;
+  admin: AdminUser;
+}
+
+export interface AuditLogEntry {
+  audit_id: string;
+  timestamp: string;
+  operation: string;
+  level: 'info' | 'warn' | 'error';
+  result: 'success' | 'failure';
+  status_code: number;
+  method: string;
+  path: string;
+  actor_id?: string;
+  actor_username?: string;
+  actor_via?: 'session' | 'api-token';
+  request_id?: string;
+  ip?: string;
+  target_ids: string[];
+  before?: unknown;
+  after?: unknown;
+  changes?: Record<string, { before: unknown; after: unknown }>;
+  details?: Record<string, unknown>;
+  error?: string;
+  duration_ms: number;
+}
+
+export interface AuditLogPage {
+  logs: AuditLogEntry[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+// Daily challenge scheduling, mirroring backend/src/models/DailyChallenge.ts
+export type DailyChallengeCategory = 'portrait' | 'landscape' | 'object' | 'abstract' | 'any';
+
+export interface AdminDailyChallenge {
+  id: string;
+  date: string;
+  title: string;
+  description: string;
+  difficulty_level: number;
+  category?: DailyChallengeCategory;
+  points_reward: number;
+  pair_ids?: string[];
+  is_active: boolean;
+}
+
+export interface DailyChallengeTemplate {
+  title?: string;
+  description?: string;
+  difficulty_level?: number;
+  category?: DailyChallengeCategory;
+  points_reward?: number;
+}
+
+export interface DailyScheduleResult {
+  created: AdminDailyChallenge[];
+  skipped_dates: string[];
+}
+
+export interface DailyCalendarDay {
+  date: string;
+  challenge: AdminDailyChallenge | null;
+  pair_set_source: 'curated' | 'generated' | null;
+  eligible_pairs: number;
+  warnings: string[];
+}
+
+export interface DailyCalendar {
+  start_date: string;
+  end_date: string;
+  days: DailyCalendarDay[];
+}
+
+// "Spot the Bot" image set, mirroring backend/src/models/ImageSet.ts
+export interface ImageSet {
+  set_id: string;
+  image_ids: string[];
+  ai_image_ids: string[];
+  target: 'ai' | 'real';
+  category: string;
+  difficulty_level: number;
+  creation_date: string;
+  success_rate: number;
+  average_credit: number;
+  total_attempts: number;
+  is_active: boolean;
+}
+
+// Pair difficulty calibration, mirroring backend/src/models/ImagePair.ts
+export interface PairCalibration {
+  difficulty: number;
+  logit: number;
+  standard_error: number;
+  attempts: number;
+  calibrated_at: string;
+  flagged: boolean;
+  dismissed_level?: number;
+}
+
+export interface CalibratedPair {
+  pair_id: string;
+  category: string;
+  difficulty_level: number;
+  success_rate: number;
+  total_attempts: number;
+  is_active: boolean;
+  calibration?: PairCalibration;
+}
+
+export interface PairCalibrationRun {
+  rounds: number;
+  players: number;
+  calibrated: number;
+  skipped: number;
+  flagged: number;
+  iterations: number;
+  converged: boolean;
+  ran_at: string;
+}
+
+export interface PairCalibrationReport {
+  difficulty_source: 'manual' | 'calibrated';
+  calibrated_pairs: number;
+  uncalibrated_pairs: number;
+  last_calibrated_at: string | null;
+  flagged: CalibratedPair[];
+}
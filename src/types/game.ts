@@ -1,47 +1,115 @@
 // Game-related TypeScript interfaces
 
+export interface Player {
+  player_id: string;
+  username: string;
+  display_name: string;
+  is_guest?: boolean;
+  timezone?: string;
+  created_at: string;
+  last_login?: string;
+}
+
+export interface AuthResult {
+  token: string;
+  expires_in: string;
+  player: Player;
+}
+
+// Today's challenge, which sets the daily game's category, difficulty and bonus
+export interface DailyChallenge {
+  id: string;
+  date: string;
+  title: string;
+  description: string;
+  difficulty_level: number;
+  category?: 'portrait' | 'landscape' | 'object' | 'abstract' | 'any';
+  points_reward: number;
+}
+
+// Whether the player can still play their current daily, by the server's clock
+export interface DailyStatus {
+  date: string;
+  timezone: string;
+  completed: boolean;
+  next_reset_at: string;
+  daily_streak: number;
+  streak_freezes: number;
+}
+
+export type GameMode = 'daily' | 'streak' | 'spot' | 'verdict' | 'confidence' | 'timeattack' | 'practice';
+
 export interface GameSession {
   session_id: string;
-  game_mode: 'daily' | 'streak';
+  game_mode: GameMode;
   start_time: string;
   player_id?: string;
+  daily_challenge?: DailyChallenge | null; // daily games only; null when no challenge is scheduled
 }
 
-export interface ImagePair {
-  pair_id: string;
-  ai_image: {
-    id: string;
-    filename: string;
-    storedFilename: string;
-    category: string;
-    difficulty_level: number;
-  };
-  real_image: {
-    id: string;
-    filename: string;
-    storedFilename: string;
-    category: string;
-    difficulty_level: number;
-  };
-  category: string;
-  difficulty_level: number;
-}
+export type ImagePosition = 'left' | 'right';
+
+// The answer to a single image round
+export type Verdict = 'ai' | 'real';
 
+// A round only carries an opaque token; images are fetched by position
 export interface GameRound {
   session_id: string;
-  pair: ImagePair;
+  round_token: string;
   round_number: number;
+  time_remaining_ms: number; // measured against the server-side deadline
+  category: string;
+  difficulty_level: number;
   current_streak: number;
   total_score: number;
+  image_count?: number; // "Spot the Bot" and verdict rounds: images are fetched by index
+  pick?: 'ai' | 'real'; // "Spot the Bot" rounds: every AI image, or the one real image
+  session_time_remaining_ms?: number; // time attack: left on the session clock
+}
+
+// How a round's points were made up, under the session's scoring version
+export interface RoundScoreBreakdown {
+  scoring_version: string;
+  base: number;
+  difficulty_bonus: number;
+  time_bonus: number;
+  streak_multiplier: number;
+  confidence?: number; // confidence-scored rounds: points are base × (1 - brier_score)
+  brier_score?: number;
+  total: number;
+}
+
+// A box around a telltale, as fractions of the image size
+export interface ImageAnnotation {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  label?: string;
+}
+
+// What gave the AI image away in a practice round
+export interface RoundExplanation {
+  ai_position: ImagePosition;
+  telltales: string[];
+  annotations: ImageAnnotation[];
 }
 
 export interface GameResult {
   round_id: string;
   is_correct: boolean;
   points_earned: number;
-  correct_answer: 'ai' | 'real';
-  player_choice: 'ai' | 'real';
+  score_breakdown?: RoundScoreBreakdown;
+  ai_position: ImagePosition;
+  player_choice?: ImagePosition;
+  credit?: number; // "Spot the Bot" rounds: partial credit from 0 to 1
+  selected_indexes?: number[];
+  correct_indexes?: number[];
+  correct_answer?: Verdict; // verdict rounds: what the image really is
+  confidence?: number; // as stated by the player, in percent
   response_time: number;
+  timed_out?: boolean;
+  explanation?: RoundExplanation; // practice rounds
   game_completed?: boolean;
   final_result?: {
     session_id: string;
@@ -49,6 +117,10 @@ export interface GameResult {
     rounds_completed: number;
     current_streak: number;
     is_completed: boolean;
+    scoring_version: string;
+    challenge_bonus?: number; // bonuses are already included in total_score
+    perfect_bonus?: number;
+    speed_bonus?: number;
     final_stats: {
       correct_answers: number;
       total_rounds: number;
@@ -56,4 +128,83 @@ export interface GameResult {
       average_response_time: number;
     };
   };
-}
\ No newline at end of file
+}
+
+// Rounds answered with a confidence in one band, e.g. 90-100%
+export interface CalibrationBucket {
+  min_confidence: number;
+  max_confidence: number;
+  rounds: number;
+  average_confidence: number;
+  accuracy: number;
+}
+
+export interface PlayerCalibration {
+  rounds: number;
+  brier_score: number | null; // 0 is perfect, 0.25 is a coin flip
+  average_confidence: number;
+  accuracy: number;
+  buckets: CalibrationBucket[];
+}
+
+export interface PlayerStats {
+  totalGames: number;
+  totalScore: number;
+  bestStreak: number;
+  averageAccuracy: number;
+  averageResponseTime: number;
+  lastPlayed?: string;
+  skillRating: number;
+  calibration: PlayerCalibration;
+}
+
+export type ShareRoundResult = 'correct' | 'wrong' | 'timeout';
+
+// A shared daily result as anyone with the link sees it: no pairs or answers
+export interface ShareSummary {
+  share_id: string;
+  puzzle_number: number;
+  date: string;
+  display_name: string;
+  results: ShareRoundResult[];
+  correct_answers: number;
+  total_rounds: number;
+  average_response_time: number; // milliseconds
+  total_score: number;
+  daily_streak: number;
+}
+
+export interface ShareResult extends ShareSummary {
+  text: string; // e.g. "Bot or Not #123 ✅❌✅ 2.4s avg"
+  path: string;
+  image_path: string;
+}
+
+export type LeaderboardWindow = 'today' | 'week' | 'month' | 'all';
+export type LeaderboardRankBy = 'best_score' | 'total_score' | 'best_streak' | 'accuracy';
+
+export interface LeaderboardEntry {
+  rank: number;
+  player_id: string;
+  display_name: string;
+  best_score: number;
+  total_score: number;
+  best_streak: number;
+  daily_streak: number;
+  total_games: number;
+  rounds_played: number;
+  correct_answers: number;
+  accuracy: number;
+  last_played: string;
+}
+
+export interface Leaderboard {
+  entries: LeaderboardEntry[];
+  player_entry?: LeaderboardEntry | null; // only when logged in
+  total_players: number;
+  mode: GameMode | 'all';
+  window: LeaderboardWindow;
+  window_start: string | null;
+  rank_by: LeaderboardRankBy;
+  min_games: number;
+}